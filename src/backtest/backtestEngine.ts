@@ -0,0 +1,308 @@
+import { Pool, Position, StrategyConfig, TickRange, TransactionFlows } from '../types';
+import { createRangeStrategy } from '../strategies';
+import { TickHistory } from '../services/tickHistory';
+import { AccountingBaseline, calculatePositionAccounting } from '../utils/accounting';
+import { calculateSwapPlan } from '../utils/swapMath';
+import {
+  getAmountsForLiquidity,
+  getLiquidityForAmounts,
+  isTickInRange,
+  sqrtPriceX64ToPrice,
+  tickToSqrtPrice,
+} from '../utils/tickMath';
+import { MarketSample } from './marketData';
+
+const FEE_RATE_DENOMINATOR = 1_000_000;
+const BACKTEST_ID = 'backtest';
+
+/**
+ * Pool and cost settings the historical series does not carry
+ */
+export interface BacktestParams {
+  /** Capital deposited at the first sample, in raw coin B units */
+  capital: number;
+  /** Pool fee rate, denominator 1_000_000 */
+  feeRate: number;
+  tickSpacing: number;
+  /** Gas price in MIST per unit and gas units per rebalance */
+  gasPrice: number;
+  gasUnits: number;
+  /** Pool coin types; gas is valued in the pool when one of them is SUI */
+  coinTypeA: string;
+  coinTypeB: string;
+  /** Value of one whole SUI in raw coin B units, for pools without SUI */
+  suiPrice: number | null;
+}
+
+/**
+ * Outcome of one backtest run
+ * Values are in raw coin B units at the price of the last sample.
+ */
+export interface BacktestResult {
+  config: StrategyConfig;
+  samples: number;
+  startTime: number;
+  endTime: number;
+  rebalances: number;
+  /** Share of the elapsed time the position was in range */
+  timeInRangePercent: number;
+  depositedValue: number;
+  finalValue: number;
+  hodlValue: number;
+  feeIncome: number;
+  swapCost: number;
+  gasCost: number;
+  gasUnvalued: boolean;
+  impermanentLoss: number;
+  impermanentLossPercent: number;
+  netReturn: number;
+  netReturnPercent: number;
+  pnlVsHodl: number;
+}
+
+/**
+ * Replays a historical tick series through a range strategy
+ *
+ * Every sample goes through the same steps as a live check: the tick is
+ * recorded in the tick history and the strategy decides whether to rebalance
+ * and where to. Between samples the position earns the pool fee on the
+ * sample's volume in proportion to its share of the active liquidity, while
+ * it is in range at the sample's tick. A rebalance withdraws the position and
+ * its fees, swaps to the new range's ratio with calculateSwapPlan (pool fee
+ * and estimated price impact) and pays gasUnits at gasPrice.
+ *
+ * The result is valued with calculatePositionAccounting, the same way the
+ * bot values live positions.
+ *
+ * @throws Error if there are fewer than 2 samples or they are out of time order
+ */
+export function runBacktest(
+  samples: MarketSample[],
+  config: StrategyConfig,
+  params: BacktestParams
+): BacktestResult {
+  if (samples.length < 2) {
+    throw new Error(`A backtest needs at least 2 samples, got ${samples.length}`);
+  }
+  const unordered = samples.findIndex((sample, i) => i > 0 && sample.timestamp < samples[i - 1].timestamp);
+  if (unordered !== -1) {
+    throw new Error(`Backtest samples must be in time order: sample ${unordered} is earlier than the one before it`);
+  }
+  
+  const strategy = createRangeStrategy(config);
+  const tickHistory = new TickHistory(config.volatilityWindow);
+  const flows: TransactionFlows[] = [];
+  const gasCostMist = BigInt(Math.floor(params.gasPrice * params.gasUnits));
+  
+  const poolAt = (sample: MarketSample): Pool => ({
+    id: BACKTEST_ID,
+    coinTypeA: params.coinTypeA,
+    coinTypeB: params.coinTypeB,
+    currentSqrtPrice: tickToSqrtPrice(sample.tick).toString(),
+    currentTick: sample.tick,
+    tickSpacing: params.tickSpacing,
+    feeRate: params.feeRate,
+    liquidity: sample.liquidity.toString(),
+    rewarderCoinTypes: [],
+  });
+  const positionFor = (pool: Pool, range: TickRange, liquidity: bigint): Position => ({
+    id: BACKTEST_ID,
+    poolId: pool.id,
+    tickLower: range.tickLower,
+    tickUpper: range.tickUpper,
+    liquidity: liquidity.toString(),
+    coinA: pool.coinTypeA,
+    coinB: pool.coinTypeB,
+  });
+  const amountsOf = (pool: Pool, position: Position) => getAmountsForLiquidity(
+    BigInt(pool.currentSqrtPrice),
+    tickToSqrtPrice(position.tickLower),
+    tickToSqrtPrice(position.tickUpper),
+    BigInt(position.liquidity)
+  );
+  
+  // Open the first position with the capital at the first sample's price
+  const first = samples[0];
+  let pool = poolAt(first);
+  tickHistory.record(pool.id, first.tick, first.timestamp);
+  
+  const initialRange = strategy.computeRange({
+    pool,
+    position: positionFor(pool, { tickLower: first.tick, tickUpper: first.tick }, BigInt(0)),
+    config,
+    tickHistory: tickHistory.getSamples(pool.id),
+  });
+  let position = positionFor(pool, initialRange, liquidityForValue(pool, initialRange, params.capital));
+  
+  const initialAmounts = amountsOf(pool, position);
+  const baseline: AccountingBaseline = {
+    at: first.timestamp,
+    positionId: BACKTEST_ID,
+    amountA: initialAmounts.amountA.toString(),
+    amountB: initialAmounts.amountB.toString(),
+    pendingFeeA: '0',
+    pendingFeeB: '0',
+    sqrtPrice: pool.currentSqrtPrice,
+  };
+  
+  let feeA = 0;
+  let feeB = 0;
+  let timeInRangeMs = 0;
+  
+  for (let i = 1; i < samples.length; i++) {
+    const sample = samples[i];
+    pool = poolAt(sample);
+    
+    // Fees for the interval ending at this sample
+    if (isTickInRange(sample.tick, position.tickLower, position.tickUpper)) {
+      const positionLiquidity = Number(position.liquidity);
+      const share = positionLiquidity / (Number(sample.liquidity) + positionLiquidity);
+      const feeFraction = (params.feeRate / FEE_RATE_DENOMINATOR) * share;
+      
+      feeA += sample.volumeA * feeFraction;
+      feeB += sample.volumeB * feeFraction;
+      timeInRangeMs += sample.timestamp - samples[i - 1].timestamp;
+    }
+    
+    tickHistory.record(pool.id, sample.tick, sample.timestamp);
+    const context = {
+      pool,
+      position,
+      config,
+      tickHistory: tickHistory.getSamples(pool.id),
+    };
+    
+    if (!strategy.shouldRebalance(context).shouldRebalance) {
+      continue;
+    }
+    
+    const newRange = strategy.computeRange(context);
+    const fees = { amountA: BigInt(Math.floor(feeA)), amountB: BigInt(Math.floor(feeB)) };
+    const removed = amountsOf(pool, position);
+    const { liquidity, flow } = simulateRebalance(pool, newRange, removed, fees, gasCostMist);
+    
+    flows.push(flow);
+    position = positionFor(pool, newRange, liquidity);
+    feeA = 0;
+    feeB = 0;
+  }
+  
+  const last = samples[samples.length - 1];
+  const finalAmounts = amountsOf(pool, position);
+  const accounting = calculatePositionAccounting(pool, baseline, flows, {
+    amountA: finalAmounts.amountA,
+    amountB: finalAmounts.amountB,
+    pendingFeeA: BigInt(Math.floor(feeA)),
+    pendingFeeB: BigInt(Math.floor(feeB)),
+  }, params.suiPrice);
+  
+  const elapsedMs = last.timestamp - first.timestamp;
+  const finalValue = accounting.depositedValue + accounting.totalPnl;
+  
+  return {
+    config,
+    samples: samples.length,
+    startTime: first.timestamp,
+    endTime: last.timestamp,
+    rebalances: flows.length,
+    timeInRangePercent: elapsedMs > 0 ? (timeInRangeMs / elapsedMs) * 100 : 0,
+    depositedValue: accounting.depositedValue,
+    finalValue,
+    hodlValue: accounting.hodlValue,
+    feeIncome: accounting.feeIncome,
+    swapCost: accounting.swapCost,
+    gasCost: accounting.gasCost,
+    gasUnvalued: accounting.gasUnvalued,
+    impermanentLoss: accounting.impermanentLoss,
+    impermanentLossPercent: accounting.impermanentLossPercent,
+    netReturn: accounting.totalPnl,
+    netReturnPercent: accounting.depositedValue > 0
+      ? (accounting.totalPnl / accounting.depositedValue) * 100
+      : 0,
+    pnlVsHodl: accounting.pnlVsHodl,
+  };
+}
+
+/**
+ * Liquidity in a range worth the given value in raw coin B at the pool price
+ * The capital is assumed to be held in the range's ratio already.
+ */
+export function liquidityForValue(pool: Pool, range: TickRange, value: number): bigint {
+  const unit = BigInt(10) ** BigInt(18);
+  const sqrtPrice = BigInt(pool.currentSqrtPrice);
+  const perUnit = getAmountsForLiquidity(
+    sqrtPrice,
+    tickToSqrtPrice(range.tickLower),
+    tickToSqrtPrice(range.tickUpper),
+    unit
+  );
+  const unitValue = Number(perUnit.amountA) * sqrtPriceX64ToPrice(sqrtPrice) + Number(perUnit.amountB);
+  if (unitValue <= 0) {
+    throw new Error(`Cannot size a position in range [${range.tickLower}, ${range.tickUpper}]`);
+  }
+  
+  return BigInt(Math.floor((value / unitValue) * Number(unit)));
+}
+
+/**
+ * Withdraws the position and its fees, swaps to the new range's ratio and
+ * deposits as much as the balances allow; what cannot be deposited goes to
+ * the wallet, as in a live rebalance
+ */
+function simulateRebalance(
+  pool: Pool,
+  newRange: TickRange,
+  removed: { amountA: bigint; amountB: bigint },
+  fees: { amountA: bigint; amountB: bigint },
+  gasCostMist: bigint
+): { liquidity: bigint; flow: TransactionFlows } {
+  const sqrtPrice = BigInt(pool.currentSqrtPrice);
+  const price = sqrtPriceX64ToPrice(sqrtPrice);
+  const sqrtPriceLower = tickToSqrtPrice(newRange.tickLower);
+  const sqrtPriceUpper = tickToSqrtPrice(newRange.tickUpper);
+  
+  const swapPlan = calculateSwapPlan({
+    amountA: removed.amountA + fees.amountA,
+    amountB: removed.amountB + fees.amountB,
+    sqrtPriceCurrent: sqrtPrice,
+    newRange,
+    feeRate: pool.feeRate,
+    poolLiquidity: BigInt(pool.liquidity),
+  });
+  
+  let swapCost = 0;
+  if (swapPlan.swap) {
+    const { a2b, amountIn, estimatedAmountOut } = swapPlan.swap;
+    swapCost = a2b
+      ? Number(amountIn) * price - Number(estimatedAmountOut)
+      : Number(amountIn) - Number(estimatedAmountOut) * price;
+  }
+  
+  const liquidity = getLiquidityForAmounts(
+    sqrtPrice,
+    sqrtPriceLower,
+    sqrtPriceUpper,
+    swapPlan.amountAAfter,
+    swapPlan.amountBAfter
+  );
+  const added = getAmountsForLiquidity(sqrtPrice, sqrtPriceLower, sqrtPriceUpper, liquidity);
+  
+  return {
+    liquidity,
+    flow: {
+      removedA: removed.amountA.toString(),
+      removedB: removed.amountB.toString(),
+      feesA: fees.amountA.toString(),
+      feesB: fees.amountB.toString(),
+      addedA: added.amountA.toString(),
+      addedB: added.amountB.toString(),
+      rewardsA: '0',
+      rewardsB: '0',
+      walletA: (swapPlan.amountAAfter - added.amountA).toString(),
+      walletB: (swapPlan.amountBAfter - added.amountB).toString(),
+      otherTokens: [],
+      swapCost,
+      gasCostMist: gasCostMist.toString(),
+    },
+  };
+}
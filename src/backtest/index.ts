@@ -0,0 +1,296 @@
+import { loadStrategyConfig, validateStrategyConfig } from '../config';
+import { StrategyConfig } from '../types';
+import { logger } from '../utils/logger';
+import { BacktestParams, BacktestResult, runBacktest } from './backtestEngine';
+import { MarketSample, loadMarketSamples } from './marketData';
+
+/**
+ * Settings that can be changed with --set and compared with --sweep
+ */
+const STRATEGY_SETTINGS = [
+  'REBALANCE_THRESHOLD_PERCENT',
+  'RANGE_WIDTH_PERCENT',
+  'RANGE_STRATEGY',
+  'RANGE_SKEW_PERCENT',
+  'RANGE_WIDTH_TICKS',
+  'RANGE_STRATEGY_MODULE',
+  'VOLATILITY_WINDOW',
+  'VOLATILITY_MIN_SAMPLES',
+  'VOLATILITY_HORIZON_MS',
+  'VOLATILITY_MULTIPLIER',
+  'MIN_RANGE_WIDTH_PERCENT',
+  'MAX_RANGE_WIDTH_PERCENT',
+];
+
+const USAGE = `Usage: npm run backtest -- --data <file.csv|file.jsonl> [options]
+
+  --capital <n>          capital deposited at the first sample, raw coin B (default 1000000000)
+  --fee-rate <n>         pool fee rate, denominator 1000000 (default 2500)
+  --tick-spacing <n>     pool tick spacing (default 60)
+  --gas-price <n>        gas price in MIST per unit (default 750)
+  --gas-units <n>        gas units per rebalance (default FALLBACK_REBALANCE_GAS_UNITS or 20000)
+  --coin-a <type>        coin A type; gas is valued when coin A or B is 0x2::sui::SUI
+  --coin-b <type>        coin B type
+  --sui-price <n>        value of 1 SUI in raw coin B, to value gas when neither coin is SUI
+  --set NAME=value       override a strategy setting from the environment
+  --sweep NAME=v1,v2,..  run every combination of the listed values and compare them
+  --json                 print the results as JSON
+
+Strategy settings: ${STRATEGY_SETTINGS.join(', ')}`;
+
+interface CliOptions {
+  dataFile: string;
+  params: BacktestParams;
+  overrides: Record<string, string>;
+  sweep: Array<{ name: string; values: string[] }>;
+  json: boolean;
+}
+
+function parseSetting(arg: string | undefined, flag: string): { name: string; value: string } {
+  const separator = arg?.indexOf('=') ?? -1;
+  if (!arg || separator <= 0) {
+    throw new Error(`${flag} expects NAME=value`);
+  }
+  
+  const name = arg.slice(0, separator).trim();
+  if (!STRATEGY_SETTINGS.includes(name)) {
+    throw new Error(`${flag}: unknown setting ${name}`);
+  }
+  return { name, value: arg.slice(separator + 1).trim() };
+}
+
+function parseNumber(arg: string | undefined, flag: string): number {
+  const value = Number(arg);
+  if (arg === undefined || arg === '' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${flag} expects a non-negative number`);
+  }
+  return value;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let dataFile: string | undefined;
+  const params: BacktestParams = {
+    capital: 1_000_000_000,
+    feeRate: 2500,
+    tickSpacing: 60,
+    gasPrice: 750,
+    gasUnits: parseInt(process.env.FALLBACK_REBALANCE_GAS_UNITS || '20000', 10),
+    coinTypeA: '0x0::coin_a::COIN_A',
+    coinTypeB: '0x0::coin_b::COIN_B',
+    suiPrice: null,
+  };
+  const overrides: Record<string, string> = {};
+  const sweep: Array<{ name: string; values: string[] }> = [];
+  let json = false;
+  
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const next = (): string | undefined => argv[++i];
+    
+    switch (flag) {
+      case '--data':
+        dataFile = next();
+        break;
+      case '--capital':
+        params.capital = parseNumber(next(), flag);
+        break;
+      case '--fee-rate':
+        params.feeRate = parseNumber(next(), flag);
+        break;
+      case '--tick-spacing':
+        params.tickSpacing = parseNumber(next(), flag);
+        break;
+      case '--gas-price':
+        params.gasPrice = parseNumber(next(), flag);
+        break;
+      case '--gas-units':
+        params.gasUnits = parseNumber(next(), flag);
+        break;
+      case '--coin-a':
+        params.coinTypeA = next() ?? '';
+        break;
+      case '--coin-b':
+        params.coinTypeB = next() ?? '';
+        break;
+      case '--sui-price':
+        params.suiPrice = parseNumber(next(), flag);
+        break;
+      case '--set': {
+        const { name, value } = parseSetting(next(), flag);
+        overrides[name] = value;
+        break;
+      }
+      case '--sweep': {
+        const { name, value } = parseSetting(next(), flag);
+        const values = value.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+        if (values.length === 0) {
+          throw new Error(`--sweep ${name} needs at least one value`);
+        }
+        sweep.push({ name, values });
+        break;
+      }
+      case '--json':
+        json = true;
+        break;
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`);
+    }
+  }
+  
+  if (!dataFile) {
+    throw new Error(`--data is required\n\n${USAGE}`);
+  }
+  if (params.capital <= 0 || !Number.isInteger(params.tickSpacing) || params.tickSpacing <= 0) {
+    throw new Error('--capital must be positive and --tick-spacing a positive integer');
+  }
+  if (params.feeRate >= 1_000_000) {
+    throw new Error('--fee-rate must be below 1000000');
+  }
+  
+  return { dataFile, params, overrides, sweep, json };
+}
+
+/**
+ * Every combination of the swept values, each as a set of overrides
+ */
+function sweepCombinations(sweep: CliOptions['sweep']): Array<Record<string, string>> {
+  return sweep.reduce<Array<Record<string, string>>>(
+    (combinations, { name, values }) =>
+      combinations.flatMap((combination) =>
+        values.map((value) => ({ ...combination, [name]: value }))
+      ),
+    [{}]
+  );
+}
+
+function buildConfig(overrides: Record<string, string>): StrategyConfig {
+  const config = loadStrategyConfig({ ...process.env, ...overrides });
+  validateStrategyConfig(config);
+  
+  if (!(config.rebalanceThresholdPercent > 0 && config.rebalanceThresholdPercent <= 100)) {
+    throw new Error('REBALANCE_THRESHOLD_PERCENT must be between 0 and 100');
+  }
+  if (!(config.rangeWidthPercent > 0 && config.rangeWidthPercent <= 100)) {
+    throw new Error('RANGE_WIDTH_PERCENT must be between 0 and 100');
+  }
+  
+  return config;
+}
+
+function formatValue(value: number): string {
+  return value.toFixed(0);
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(2)}%`;
+}
+
+/**
+ * Whether gas was paid but left out of the result's returns
+ */
+function isGasMissing(result: BacktestResult): boolean {
+  return result.gasUnvalued && result.rebalances > 0;
+}
+
+function logResult(samples: MarketSample[], result: BacktestResult): void {
+  const { config } = result;
+  const start = new Date(result.startTime).toISOString();
+  const end = new Date(result.endTime).toISOString();
+  
+  logger.info(`=== Backtest: ${samples.length} samples, ${start} to ${end} ===`);
+  logger.info(
+    `Strategy ${config.rangeStrategy}: threshold ${config.rebalanceThresholdPercent}%, ` +
+    `width ${config.rangeWidthPercent}%`
+  );
+  logger.info(
+    `Rebalances: ${result.rebalances}, time in range ${formatPercent(result.timeInRangePercent)}`
+  );
+  logger.info(
+    `Deposited ${formatValue(result.depositedValue)}, ` +
+    `final ${isGasMissing(result) ? '-' : formatValue(result.finalValue)}, ` +
+    `HODL ${formatValue(result.hodlValue)} (raw coin B)`
+  );
+  logger.info(
+    `Fees earned ${formatValue(result.feeIncome)}, swap costs ${formatValue(result.swapCost)}, ` +
+    `gas ${result.gasUnvalued ? 'not valued' : formatValue(result.gasCost)}`
+  );
+  
+  // Impermanent loss does not depend on gas; the returns do
+  logger.info(
+    `Impermanent loss ${formatValue(result.impermanentLoss)} (${formatPercent(result.impermanentLossPercent)})`
+  );
+  if (isGasMissing(result)) {
+    logger.warn(
+      'Net return not reported: gas is not valued because neither coin is SUI. ' +
+      'Pass --sui-price or --coin-a/--coin-b with 0x2::sui::SUI.'
+    );
+    return;
+  }
+  logger.info(
+    `Net return ${formatValue(result.netReturn)} (${formatPercent(result.netReturnPercent)}), ` +
+    `vs HODL ${formatValue(result.pnlVsHodl)}`
+  );
+}
+
+function logComparison(runs: Array<{ settings: Record<string, string>; result: BacktestResult }>): void {
+  const names = Object.keys(runs[0].settings);
+  const header = [...names, 'rebalances', 'in range', 'fees', 'swap cost', 'gas', 'IL', 'net return', 'vs HODL'];
+  const gasMissing = runs.some(({ result }) => isGasMissing(result));
+  const rows = [...runs]
+    .sort((a, b) => b.result.netReturn - a.result.netReturn)
+    .map(({ settings, result }) => [
+      ...names.map((name) => settings[name]),
+      String(result.rebalances),
+      formatPercent(result.timeInRangePercent),
+      formatValue(result.feeIncome),
+      formatValue(result.swapCost),
+      result.gasUnvalued ? '-' : formatValue(result.gasCost),
+      formatPercent(result.impermanentLossPercent),
+      gasMissing ? '-' : formatPercent(result.netReturnPercent),
+      gasMissing ? '-' : formatValue(result.pnlVsHodl),
+    ]);
+  
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]): string =>
+    row.map((cell, column) => cell.padStart(widths[column])).join('  ');
+  
+  logger.info(
+    gasMissing
+      ? `=== Parameter sweep: ${runs.length} runs, gas not valued: pass --sui-price for net returns ===`
+      : `=== Parameter sweep: ${runs.length} runs, best net return first ===`
+  );
+  logger.info(formatRow(header));
+  rows.forEach((row) => logger.info(formatRow(row)));
+}
+
+function main(): void {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const samples = loadMarketSamples(options.dataFile);
+    
+    const runs = sweepCombinations(options.sweep).map((combination) => {
+      const settings = { ...options.overrides, ...combination };
+      const result = runBacktest(samples, buildConfig(settings), options.params);
+      return { settings: combination, result };
+    });
+    
+    if (options.json) {
+      console.log(JSON.stringify(runs.map((run) => run.result), null, 2));
+    } else if (options.sweep.length === 0) {
+      logResult(samples, runs[0].result);
+    } else {
+      logComparison(runs);
+    }
+  } catch (error) {
+    logger.error(`Backtest failed: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+main();
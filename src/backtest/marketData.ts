@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * One historical observation of a pool
+ *
+ * Volumes are the raw amounts swapped into the pool since the previous
+ * sample; the pool fee is charged on them in the input coin.
+ */
+export interface MarketSample {
+  /** Unix time in milliseconds */
+  timestamp: number;
+  tick: number;
+  /** Active pool liquidity at the tick, excluding the simulated position */
+  liquidity: bigint;
+  volumeA: number;
+  volumeB: number;
+}
+
+type RawRow = Record<string, unknown>;
+
+/**
+ * Reads a tick series from a CSV file (with a header row) or a JSON Lines file
+ *
+ * Columns / keys, case and underscores ignored:
+ * - timestamp: milliseconds or an ISO 8601 date
+ * - tick, liquidity: pool state at the sample
+ * - volume_a, volume_b: raw amounts swapped in since the previous sample, or
+ *   volume: the same in raw coin B units when the split is not known
+ *
+ * Samples are returned in chronological order.
+ */
+export function loadMarketSamples(filePath: string): MarketSample[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read market data ${filePath}: ${(error as Error).message}`);
+  }
+  
+  const rows = path.extname(filePath).toLowerCase() === '.csv'
+    ? parseCsv(text)
+    : parseJsonLines(text);
+  
+  const samples = rows.map(({ line, row }) => toSample(normalizeKeys(row), line));
+  samples.sort((a, b) => a.timestamp - b.timestamp);
+  
+  if (samples.length < 2) {
+    throw new Error(`Market data ${filePath} needs at least 2 samples`);
+  }
+  
+  return samples;
+}
+
+function parseCsv(text: string): Array<{ line: number; row: RawRow }> {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => isDataLine(line));
+  if (headerIndex === -1) {
+    return [];
+  }
+  
+  const header = lines[headerIndex].split(',').map((name) => name.trim());
+  const rows: Array<{ line: number; row: RawRow }> = [];
+  
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!isDataLine(lines[i])) {
+      continue;
+    }
+    
+    const values = lines[i].split(',').map((value) => value.trim());
+    if (values.length !== header.length) {
+      throw new Error(`Line ${i + 1}: expected ${header.length} columns, got ${values.length}`);
+    }
+    
+    const row: RawRow = {};
+    header.forEach((name, column) => {
+      row[name] = values[column];
+    });
+    rows.push({ line: i + 1, row });
+  }
+  
+  return rows;
+}
+
+function parseJsonLines(text: string): Array<{ line: number; row: RawRow }> {
+  const rows: Array<{ line: number; row: RawRow }> = [];
+  
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!isDataLine(line)) {
+      return;
+    }
+    
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: not valid JSON`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Line ${i + 1}: expected a JSON object`);
+    }
+    rows.push({ line: i + 1, row: parsed as RawRow });
+  });
+  
+  return rows;
+}
+
+function isDataLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length > 0 && !trimmed.startsWith('#');
+}
+
+function normalizeKeys(row: RawRow): RawRow {
+  const normalized: RawRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    normalized[key.toLowerCase().replace(/_/g, '')] = value;
+  }
+  return normalized;
+}
+
+function toSample(row: RawRow, line: number): MarketSample {
+  const timestamp = parseTimestamp(row.timestamp);
+  if (timestamp === null) {
+    throw new Error(`Line ${line}: invalid or missing timestamp`);
+  }
+  
+  const tick = Number(row.tick);
+  if (row.tick === undefined || row.tick === '' || !Number.isInteger(tick)) {
+    throw new Error(`Line ${line}: tick must be an integer`);
+  }
+  
+  let liquidity: bigint;
+  try {
+    liquidity = BigInt(String(row.liquidity));
+  } catch {
+    throw new Error(`Line ${line}: liquidity must be an integer`);
+  }
+  if (liquidity < BigInt(0)) {
+    throw new Error(`Line ${line}: liquidity must be non-negative`);
+  }
+  
+  const volumeA = parseVolume(row.volumea, 'volume_a', line);
+  const volumeB = parseVolume(row.volumeb, 'volume_b', line) + parseVolume(row.volume, 'volume', line);
+  
+  return { timestamp, tick, liquidity, volumeA, volumeB };
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+  
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseVolume(value: unknown, name: string, line: number): number {
+  if (value === undefined || value === '') {
+    return 0;
+  }
+  
+  const volume = Number(value);
+  if (!Number.isFinite(volume) || volume < 0) {
+    throw new Error(`Line ${line}: ${name} must be a non-negative number`);
+  }
+  return volume;
+}
@@ -1,5 +1,22 @@
 import dotenv from 'dotenv';
-import { BotConfig } from '../types';
+import fs from 'fs';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import {
+  BotConfig,
+  CircuitBreakerConfig,
+  EventTriggerConfig,
+  NotificationConfig,
+  NotificationEvent,
+  PositionEntryConfig,
+  PriceGuardConfig,
+  PricingConfig,
+  RewardPolicy,
+  RpcConfig,
+  StrategyConfig,
+} from '../types';
+import { RANGE_STRATEGIES } from '../strategies';
+import { NOTIFICATION_EVENTS } from '../notifications';
+import { DEFAULT_STABLECOINS } from '../pricing';
 
 dotenv.config();
 
@@ -15,46 +32,275 @@ function getEnvVarWithDefault(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
-export function loadConfig(): BotConfig {
-  const privateKey = getEnvVar('PRIVATE_KEY');
-  const poolId = getEnvVar('POOL_ID');
-  const positionId = getEnvVar('POSITION_ID');
+type PositionDefaults = Pick<
+  PositionEntryConfig,
+  'rebalanceThresholdPercent' | 'rangeWidthPercent' | 'maxSlippagePercent' | 'rangeStrategy'
+>;
+
+function loadPortfolio(filePath: string, defaults: PositionDefaults): PositionEntryConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read PORTFOLIO_FILE ${filePath}: ${(error as Error).message}`);
+  }
   
-  if (!privateKey.startsWith('0x') || privateKey.length !== 66) {
-    throw new Error('Invalid PRIVATE_KEY format. Must be 0x-prefixed 64 hex chars');
+  const rawEntries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { positions?: unknown }).positions;
+  
+  if (!Array.isArray(rawEntries) || rawEntries.length === 0) {
+    throw new Error('PORTFOLIO_FILE must contain a non-empty "positions" array');
   }
   
-  if (!poolId.startsWith('0x')) {
-    throw new Error('Invalid POOL_ID format. Must be 0x-prefixed');
+  return rawEntries.map((raw: Partial<PositionEntryConfig>, index: number) => {
+    if (!raw.poolId || !raw.positionId) {
+      throw new Error(`Portfolio entry ${index} is missing poolId or positionId`);
+    }
+    
+    return {
+      name: raw.name || `position-${index + 1}`,
+      poolId: raw.poolId,
+      positionId: raw.positionId,
+      rebalanceThresholdPercent:
+        raw.rebalanceThresholdPercent ?? defaults.rebalanceThresholdPercent,
+      rangeWidthPercent: raw.rangeWidthPercent ?? defaults.rangeWidthPercent,
+      maxSlippagePercent: raw.maxSlippagePercent ?? defaults.maxSlippagePercent,
+      rangeStrategy: raw.rangeStrategy ?? defaults.rangeStrategy,
+    };
+  });
+}
+
+function parseNotificationEvents(name: string, fallback: NotificationEvent[]): NotificationEvent[] {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
   }
   
-  if (!positionId.startsWith('0x')) {
-    throw new Error('Invalid POSITION_ID format. Must be 0x-prefixed');
+  const events = value.split(',').map((event) => event.trim()).filter(Boolean);
+  for (const event of events) {
+    if (!NOTIFICATION_EVENTS.includes(event as NotificationEvent)) {
+      throw new Error(
+        `Unknown notification event "${event}" in ${name}. Valid events: ${NOTIFICATION_EVENTS.join(', ')}`
+      );
+    }
+  }
+  return events as NotificationEvent[];
+}
+
+/**
+ * Parses REWARD_POLICIES: comma-separated <coinType>=wallet or
+ * <coinType>=swap:<poolId> entries
+ */
+function parseRewardPolicies(value: string | undefined): Record<string, RewardPolicy> {
+  const policies: Record<string, RewardPolicy> = {};
+  if (!value) {
+    return policies;
   }
   
-  const rpcUrl = getEnvVarWithDefault(
-    'RPC_URL',
-    'https://fullnode.mainnet.sui.io:443'
-  );
+  for (const item of value.split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    const separator = item.lastIndexOf('=');
+    const coinType = item.slice(0, separator).trim();
+    const policy = item.slice(separator + 1).trim();
+    
+    if (separator <= 0 || !coinType.includes('::')) {
+      throw new Error(`Invalid REWARD_POLICIES entry "${item}": expected <coinType>=<policy>`);
+    }
+    
+    if (policy === 'wallet') {
+      policies[normalizeStructTag(coinType)] = { action: 'wallet' };
+    } else if (policy.startsWith('swap:') && policy.length > 'swap:'.length) {
+      policies[normalizeStructTag(coinType)] = { action: 'swap', poolId: policy.slice('swap:'.length) };
+    } else {
+      throw new Error(
+        `Invalid REWARD_POLICIES policy "${policy}" for ${coinType}: expected wallet or swap:<poolId>`
+      );
+    }
+  }
   
-  const config: BotConfig = {
-    privateKey,
-    rpcUrl,
-    poolId,
-    positionId,
-    rebalanceThresholdPercent: parseFloat(
-      getEnvVarWithDefault('REBALANCE_THRESHOLD_PERCENT', '2.0')
-    ),
-    rangeWidthPercent: parseFloat(
-      getEnvVarWithDefault('RANGE_WIDTH_PERCENT', '5.0')
-    ),
-    checkIntervalMs: parseInt(
-      getEnvVarWithDefault('CHECK_INTERVAL_MS', '60000'),
+  return policies;
+}
+
+function loadNotificationConfig(checkIntervalMs: number): NotificationConfig {
+  const events = parseNotificationEvents('NOTIFY_EVENTS', NOTIFICATION_EVENTS);
+  const notifications: NotificationConfig = {
+    events,
+    stallTimeoutMs: parseInt(
+      getEnvVarWithDefault('NOTIFY_STALL_TIMEOUT_MS', String(checkIntervalMs * 5)),
       10
     ),
+  };
+  
+  if (process.env.NOTIFY_WEBHOOK_URL) {
+    notifications.webhook = {
+      url: process.env.NOTIFY_WEBHOOK_URL,
+      events: parseNotificationEvents('NOTIFY_WEBHOOK_EVENTS', events),
+    };
+  }
+  
+  if (process.env.NOTIFY_TELEGRAM_BOT_TOKEN) {
+    notifications.telegram = {
+      botToken: process.env.NOTIFY_TELEGRAM_BOT_TOKEN,
+      chatId: getEnvVar('NOTIFY_TELEGRAM_CHAT_ID'),
+      events: parseNotificationEvents('NOTIFY_TELEGRAM_EVENTS', events),
+    };
+  }
+  
+  if (process.env.NOTIFY_SLACK_WEBHOOK_URL) {
+    notifications.slack = {
+      webhookUrl: process.env.NOTIFY_SLACK_WEBHOOK_URL,
+      events: parseNotificationEvents('NOTIFY_SLACK_EVENTS', events),
+    };
+  }
+  
+  if (process.env.NOTIFY_SMTP_HOST) {
+    const port = parseInt(getEnvVarWithDefault('NOTIFY_SMTP_PORT', '587'), 10);
+    notifications.email = {
+      host: process.env.NOTIFY_SMTP_HOST,
+      port,
+      secure: getEnvVarWithDefault('NOTIFY_SMTP_SECURE', port === 465 ? 'true' : 'false') === 'true',
+      user: process.env.NOTIFY_SMTP_USER,
+      password: process.env.NOTIFY_SMTP_PASSWORD,
+      from: getEnvVar('NOTIFY_EMAIL_FROM'),
+      to: getEnvVar('NOTIFY_EMAIL_TO').split(',').map((address) => address.trim()).filter(Boolean),
+      events: parseNotificationEvents('NOTIFY_EMAIL_EVENTS', events),
+    };
+  }
+  
+  return notifications;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function loadPricingConfig(): PricingConfig {
+  const stablecoins = process.env.USD_STABLECOINS
+    ? parseList(process.env.USD_STABLECOINS)
+    : DEFAULT_STABLECOINS;
+  
+  return {
+    priceFile: process.env.USD_PRICE_FILE || undefined,
+    stablePools: parseList(process.env.USD_PRICE_POOLS),
+    stablecoins: stablecoins.map((coinType) => normalizeStructTag(coinType)),
+  };
+}
+
+function loadPriceGuardConfig(): PriceGuardConfig {
+  return {
+    maxDeviationPercent: parseFloat(getEnvVarWithDefault('PRICE_GUARD_MAX_DEVIATION_PERCENT', '0')),
+    twapWindowMs: parseInt(getEnvVarWithDefault('PRICE_GUARD_TWAP_WINDOW_MS', '1800000'), 10),
+    minSamples: parseInt(getEnvVarWithDefault('PRICE_GUARD_MIN_SAMPLES', '5'), 10),
+    oracleFile: process.env.PRICE_ORACLE_FILE || undefined,
+    oracleMaxAgeMs: parseInt(getEnvVarWithDefault('PRICE_ORACLE_MAX_AGE_MS', '300000'), 10),
+  };
+}
+
+function loadEventTriggerConfig(): EventTriggerConfig {
+  return {
+    enabled: process.env.EVENT_TRIGGER === 'true',
+    pollIntervalMs: parseInt(getEnvVarWithDefault('EVENT_POLL_INTERVAL_MS', '15000'), 10),
+    tickThreshold: parseInt(getEnvVarWithDefault('EVENT_TICK_THRESHOLD', '10'), 10),
+  };
+}
+
+function loadCircuitBreakerConfig(): CircuitBreakerConfig {
+  return {
+    maxFailures: parseInt(getEnvVarWithDefault('CIRCUIT_BREAKER_MAX_FAILURES', '5'), 10),
+    resetMs: parseInt(getEnvVarWithDefault('CIRCUIT_BREAKER_RESET_MS', '300000'), 10),
+  };
+}
+
+function loadRpcConfig(): RpcConfig {
+  // RPC_URLS lists the failover endpoints; a lone RPC_URL still works
+  const urls = process.env.RPC_URLS
+    ? parseList(process.env.RPC_URLS)
+    : [getEnvVarWithDefault('RPC_URL', 'https://fullnode.mainnet.sui.io:443')];
+  
+  return {
+    urls,
+    healthCheckIntervalMs: parseInt(getEnvVarWithDefault('RPC_HEALTH_CHECK_INTERVAL_MS', '15000'), 10),
+    maxCheckpointLag: parseInt(getEnvVarWithDefault('RPC_MAX_CHECKPOINT_LAG', '20'), 10),
+    maxErrorRate: parseFloat(getEnvVarWithDefault('RPC_MAX_ERROR_RATE', '0.5')),
+  };
+}
+
+/**
+ * Range strategy settings from the environment
+ * They need no wallet or position, so the backtest loads them on their own.
+ */
+export function loadStrategyConfig(env: NodeJS.ProcessEnv = process.env): StrategyConfig {
+  const read = (name: string, defaultValue: string): string => env[name] || defaultValue;
+  
+  return {
+    rebalanceThresholdPercent: parseFloat(read('REBALANCE_THRESHOLD_PERCENT', '2.0')),
+    rangeWidthPercent: parseFloat(read('RANGE_WIDTH_PERCENT', '5.0')),
+    rangeStrategy: read('RANGE_STRATEGY', 'fixed'),
+    rangeSkewPercent: parseFloat(read('RANGE_SKEW_PERCENT', '70')),
+    rangeWidthTicks: parseInt(read('RANGE_WIDTH_TICKS', '200'), 10),
+    rangeStrategyModule: env.RANGE_STRATEGY_MODULE,
+    volatilityWindow: parseInt(read('VOLATILITY_WINDOW', '120'), 10),
+    volatilityMinSamples: parseInt(read('VOLATILITY_MIN_SAMPLES', '10'), 10),
+    volatilityHorizonMs: parseInt(read('VOLATILITY_HORIZON_MS', '86400000'), 10),
+    volatilityMultiplier: parseFloat(read('VOLATILITY_MULTIPLIER', '2.0')),
+    minRangeWidthPercent: parseFloat(read('MIN_RANGE_WIDTH_PERCENT', '1.0')),
+    maxRangeWidthPercent: parseFloat(read('MAX_RANGE_WIDTH_PERCENT', '20.0')),
+  };
+}
+
+export function loadConfig(): BotConfig {
+  const privateKey = getEnvVar('PRIVATE_KEY');
+  
+  if (!privateKey.startsWith('0x') || privateKey.length !== 66) {
+    throw new Error('Invalid PRIVATE_KEY format. Must be 0x-prefixed 64 hex chars');
+  }
+  
+  const strategy = loadStrategyConfig();
+  const defaults: PositionDefaults = {
+    rebalanceThresholdPercent: strategy.rebalanceThresholdPercent,
+    rangeWidthPercent: strategy.rangeWidthPercent,
     maxSlippagePercent: parseFloat(
       getEnvVarWithDefault('MAX_SLIPPAGE_PERCENT', '1.0')
     ),
+    rangeStrategy: strategy.rangeStrategy,
+  };
+  
+  // Portfolio mode: one process manages every entry in PORTFOLIO_FILE.
+  // Otherwise a single entry is built from POOL_ID and POSITION_ID.
+  const portfolioFile = process.env.PORTFOLIO_FILE;
+  const positions: PositionEntryConfig[] = portfolioFile
+    ? loadPortfolio(portfolioFile, defaults)
+    : [
+        {
+          name: 'default',
+          poolId: getEnvVar('POOL_ID'),
+          positionId: getEnvVar('POSITION_ID'),
+          ...defaults,
+        },
+      ];
+  
+  for (const entry of positions) {
+    if (!entry.poolId.startsWith('0x')) {
+      throw new Error(`Invalid pool ID for "${entry.name}". Must be 0x-prefixed`);
+    }
+    
+    if (!entry.positionId.startsWith('0x')) {
+      throw new Error(`Invalid position ID for "${entry.name}". Must be 0x-prefixed`);
+    }
+  }
+  
+  const rpc = loadRpcConfig();
+  
+  const checkIntervalMs = parseInt(getEnvVarWithDefault('CHECK_INTERVAL_MS', '60000'), 10);
+  
+  const config: BotConfig = {
+    privateKey,
+    rpcUrl: rpc.urls[0],
+    rpc,
+    poolId: positions[0].poolId,
+    positionId: positions[0].positionId,
+    checkIntervalMs,
+    maxSlippagePercent: defaults.maxSlippagePercent,
     maxGasPrice: parseInt(
       getEnvVarWithDefault('MAX_GAS_PRICE', '1000000000'),
       10
@@ -68,22 +314,259 @@ export function loadConfig(): BotConfig {
       10
     ),
     maxRetries: parseInt(getEnvVarWithDefault('MAX_RETRIES', '3'), 10),
+    conflictMaxRetries: parseInt(getEnvVarWithDefault('CONFLICT_MAX_RETRIES', '3'), 10),
+    conflictRetryDelayMs: parseInt(getEnvVarWithDefault('CONFLICT_RETRY_DELAY_MS', '500'), 10),
+    circuitBreaker: loadCircuitBreakerConfig(),
+    stateFilePath: getEnvVarWithDefault('STATE_FILE_PATH', 'data/state.json'),
+    accountingFilePath: getEnvVarWithDefault('ACCOUNTING_FILE_PATH', 'data/accounting.json'),
+    dryRun: process.env.DRY_RUN === 'true',
+    preflightSimulation: getEnvVarWithDefault('PREFLIGHT_SIMULATION', 'true') !== 'false',
+    ...strategy,
+    profitabilityCheck: process.env.PROFITABILITY_CHECK === 'true',
+    profitabilityLookbackMs: parseInt(
+      getEnvVarWithDefault('PROFITABILITY_LOOKBACK_MS', '3600000'),
+      10
+    ),
+    profitabilityHorizonMs: parseInt(
+      getEnvVarWithDefault('PROFITABILITY_HORIZON_MS', '86400000'),
+      10
+    ),
+    profitabilityMaxEventPages: parseInt(
+      getEnvVarWithDefault('PROFITABILITY_MAX_EVENT_PAGES', '20'),
+      10
+    ),
+    minProfitRatio: parseFloat(getEnvVarWithDefault('MIN_PROFIT_RATIO', '1.0')),
+    fallbackRebalanceGasUnits: parseInt(
+      getEnvVarWithDefault('FALLBACK_REBALANCE_GAS_UNITS', '20000'),
+      10
+    ),
+    metricsPort: parseInt(getEnvVarWithDefault('METRICS_PORT', '0'), 10),
+    metricsHost: getEnvVarWithDefault('METRICS_HOST', '0.0.0.0'),
+    controlApiPort: parseInt(getEnvVarWithDefault('CONTROL_API_PORT', '0'), 10),
+    controlApiHost: getEnvVarWithDefault('CONTROL_API_HOST', '127.0.0.1'),
+    controlApiToken: process.env.CONTROL_API_TOKEN || '',
+    notifications: loadNotificationConfig(checkIntervalMs),
+    rebalanceCooldownMs: parseInt(getEnvVarWithDefault('REBALANCE_COOLDOWN_MS', '0'), 10),
+    hysteresisChecks: parseInt(getEnvVarWithDefault('HYSTERESIS_CHECKS', '1'), 10),
+    hysteresisMs: parseInt(getEnvVarWithDefault('HYSTERESIS_MS', '0'), 10),
+    maxRebalancesPerDay: parseInt(getEnvVarWithDefault('MAX_REBALANCES_PER_DAY', '0'), 10),
+    dailyGasBudgetMist: parseInt(getEnvVarWithDefault('DAILY_GAS_BUDGET_MIST', '0'), 10),
+    compoundIntervalMs: parseInt(getEnvVarWithDefault('COMPOUND_INTERVAL_MS', '0'), 10),
+    compoundFeeThreshold: parseFloat(getEnvVarWithDefault('COMPOUND_FEE_THRESHOLD', '0')),
+    rewardPolicies: parseRewardPolicies(process.env.REWARD_POLICIES),
+    pricing: loadPricingConfig(),
+    priceGuard: loadPriceGuardConfig(),
+    eventTrigger: loadEventTriggerConfig(),
+    positions,
   };
   
   return config;
 }
 
+/**
+ * Builds the effective config for one position entry
+ *
+ * Services read pool/position IDs and per-position settings from BotConfig,
+ * so each entry gets a copy of the global config with its own values applied.
+ */
+export function resolvePositionConfig(
+  config: BotConfig,
+  entry: PositionEntryConfig
+): BotConfig {
+  return {
+    ...config,
+    poolId: entry.poolId,
+    positionId: entry.positionId,
+    rebalanceThresholdPercent: entry.rebalanceThresholdPercent,
+    rangeWidthPercent: entry.rangeWidthPercent,
+    maxSlippagePercent: entry.maxSlippagePercent,
+    rangeStrategy: entry.rangeStrategy,
+    positions: [entry],
+  };
+}
+
+function validatePositionEntry(entry: PositionEntryConfig): void {
+  if (entry.rebalanceThresholdPercent <= 0 || entry.rebalanceThresholdPercent > 100) {
+    throw new Error(`REBALANCE_THRESHOLD_PERCENT for "${entry.name}" must be between 0 and 100`);
+  }
+  
+  if (entry.rangeWidthPercent <= 0 || entry.rangeWidthPercent > 100) {
+    throw new Error(`RANGE_WIDTH_PERCENT for "${entry.name}" must be between 0 and 100`);
+  }
+  
+  if (entry.maxSlippagePercent <= 0 || entry.maxSlippagePercent > 100) {
+    throw new Error(`MAX_SLIPPAGE_PERCENT for "${entry.name}" must be between 0 and 100`);
+  }
+  
+  if (!(RANGE_STRATEGIES as readonly string[]).includes(entry.rangeStrategy)) {
+    throw new Error(
+      `RANGE_STRATEGY for "${entry.name}" must be one of: ${RANGE_STRATEGIES.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Checks the settings range strategies read; the per-position values are
+ * checked for each entry by validateConfig
+ */
+export function validateStrategyConfig(config: StrategyConfig): void {
+  if (config.rangeSkewPercent < 0 || config.rangeSkewPercent > 100) {
+    throw new Error('RANGE_SKEW_PERCENT must be between 0 and 100');
+  }
+  
+  if (config.rangeWidthTicks <= 0) {
+    throw new Error('RANGE_WIDTH_TICKS must be positive');
+  }
+  
+  if (config.volatilityWindow < 2) {
+    throw new Error('VOLATILITY_WINDOW must be at least 2');
+  }
+  
+  if (config.volatilityMinSamples < 2 || config.volatilityMinSamples > config.volatilityWindow) {
+    throw new Error('VOLATILITY_MIN_SAMPLES must be between 2 and VOLATILITY_WINDOW');
+  }
+  
+  if (config.volatilityHorizonMs <= 0 || config.volatilityMultiplier <= 0) {
+    throw new Error('VOLATILITY_HORIZON_MS and VOLATILITY_MULTIPLIER must be positive');
+  }
+  
+  if (
+    config.minRangeWidthPercent <= 0 ||
+    config.maxRangeWidthPercent > 100 ||
+    config.minRangeWidthPercent > config.maxRangeWidthPercent
+  ) {
+    throw new Error(
+      'MIN_RANGE_WIDTH_PERCENT and MAX_RANGE_WIDTH_PERCENT must satisfy 0 < min <= max <= 100'
+    );
+  }
+}
+
 export function validateConfig(config: BotConfig): void {
-  if (config.rebalanceThresholdPercent <= 0 || config.rebalanceThresholdPercent > 100) {
-    throw new Error('REBALANCE_THRESHOLD_PERCENT must be between 0 and 100');
+  if (config.positions.length === 0) {
+    throw new Error('At least one position must be configured');
+  }
+  
+  const names = new Set<string>();
+  const positionIds = new Set<string>();
+  
+  for (const entry of config.positions) {
+    validatePositionEntry(entry);
+    
+    if (names.has(entry.name)) {
+      throw new Error(`Duplicate position name "${entry.name}"`);
+    }
+    if (positionIds.has(entry.positionId)) {
+      throw new Error(`Position ${entry.positionId} is configured more than once`);
+    }
+    names.add(entry.name);
+    positionIds.add(entry.positionId);
+  }
+  
+  validateStrategyConfig(config);
+  
+  if (config.profitabilityLookbackMs <= 0 || config.profitabilityHorizonMs <= 0) {
+    throw new Error('PROFITABILITY_LOOKBACK_MS and PROFITABILITY_HORIZON_MS must be positive');
+  }
+  
+  if (config.profitabilityMaxEventPages < 1) {
+    throw new Error('PROFITABILITY_MAX_EVENT_PAGES must be at least 1');
   }
   
-  if (config.rangeWidthPercent <= 0 || config.rangeWidthPercent > 100) {
-    throw new Error('RANGE_WIDTH_PERCENT must be between 0 and 100');
+  if (config.minProfitRatio < 0) {
+    throw new Error('MIN_PROFIT_RATIO must be non-negative');
   }
   
-  if (config.maxSlippagePercent <= 0 || config.maxSlippagePercent > 100) {
-    throw new Error('MAX_SLIPPAGE_PERCENT must be between 0 and 100');
+  if (!Number.isInteger(config.metricsPort) || config.metricsPort < 0 || config.metricsPort > 65535) {
+    throw new Error('METRICS_PORT must be between 0 and 65535');
+  }
+  
+  if (
+    !Number.isInteger(config.controlApiPort) ||
+    config.controlApiPort < 0 ||
+    config.controlApiPort > 65535
+  ) {
+    throw new Error('CONTROL_API_PORT must be between 0 and 65535');
+  }
+  
+  if (config.controlApiPort !== 0 && config.controlApiToken.length < 16) {
+    throw new Error('CONTROL_API_TOKEN of at least 16 characters is required when CONTROL_API_PORT is set');
+  }
+  
+  if (config.notifications.stallTimeoutMs < config.checkIntervalMs) {
+    throw new Error('NOTIFY_STALL_TIMEOUT_MS must be at least CHECK_INTERVAL_MS');
+  }
+  
+  if (config.rebalanceCooldownMs < 0 || config.hysteresisMs < 0) {
+    throw new Error('REBALANCE_COOLDOWN_MS and HYSTERESIS_MS must be non-negative');
+  }
+  
+  if (config.hysteresisChecks < 1) {
+    throw new Error('HYSTERESIS_CHECKS must be at least 1');
+  }
+  
+  if (config.maxRebalancesPerDay < 0 || config.dailyGasBudgetMist < 0) {
+    throw new Error('MAX_REBALANCES_PER_DAY and DAILY_GAS_BUDGET_MIST must be non-negative (0 = unlimited)');
+  }
+  
+  if (config.compoundIntervalMs < 0 || config.compoundFeeThreshold < 0) {
+    throw new Error('COMPOUND_INTERVAL_MS and COMPOUND_FEE_THRESHOLD must be non-negative (0 = disabled)');
+  }
+  
+  const { priceGuard } = config;
+  if (!(priceGuard.maxDeviationPercent >= 0)) {
+    throw new Error('PRICE_GUARD_MAX_DEVIATION_PERCENT must be non-negative (0 = disabled)');
+  }
+  
+  if (priceGuard.maxDeviationPercent > 0) {
+    if (!(priceGuard.twapWindowMs > 0) || !(priceGuard.oracleMaxAgeMs > 0)) {
+      throw new Error('PRICE_GUARD_TWAP_WINDOW_MS and PRICE_ORACLE_MAX_AGE_MS must be positive');
+    }
+    // The average is taken over the tick history, which keeps VOLATILITY_WINDOW samples
+    if (!(priceGuard.minSamples >= 1 && priceGuard.minSamples <= config.volatilityWindow)) {
+      throw new Error('PRICE_GUARD_MIN_SAMPLES must be between 1 and VOLATILITY_WINDOW');
+    }
+  }
+  
+  const { rpc } = config;
+  if (rpc.urls.length === 0) {
+    throw new Error('RPC_URLS must list at least one endpoint');
+  }
+  
+  for (const url of rpc.urls) {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`Invalid RPC endpoint "${url}". Must be an http(s) URL`);
+    }
+  }
+  
+  if (!(rpc.healthCheckIntervalMs >= 1000)) {
+    throw new Error('RPC_HEALTH_CHECK_INTERVAL_MS must be at least 1000ms');
+  }
+  
+  if (!(rpc.maxCheckpointLag >= 0)) {
+    throw new Error('RPC_MAX_CHECKPOINT_LAG must be non-negative');
+  }
+  
+  if (!(rpc.maxErrorRate > 0 && rpc.maxErrorRate <= 1)) {
+    throw new Error('RPC_MAX_ERROR_RATE must be greater than 0 and at most 1');
+  }
+  
+  if (config.eventTrigger.enabled) {
+    if (!(config.eventTrigger.pollIntervalMs >= 500)) {
+      throw new Error('EVENT_POLL_INTERVAL_MS must be at least 500ms');
+    }
+    // The heartbeat checks every pool at CHECK_INTERVAL_MS anyway
+    if (config.eventTrigger.pollIntervalMs >= config.checkIntervalMs) {
+      throw new Error('EVENT_POLL_INTERVAL_MS must be shorter than CHECK_INTERVAL_MS');
+    }
+    if (!(config.eventTrigger.tickThreshold >= 1)) {
+      throw new Error('EVENT_TICK_THRESHOLD must be at least 1');
+    }
+  }
+  
+  for (const poolId of config.pricing.stablePools) {
+    if (!poolId.startsWith('0x')) {
+      throw new Error(`Invalid pool ID "${poolId}" in USD_PRICE_POOLS. Must be 0x-prefixed`);
+    }
   }
   
   if (config.checkIntervalMs < 1000) {
@@ -93,4 +576,17 @@ export function validateConfig(config: BotConfig): void {
   if (config.maxRetries < 0) {
     throw new Error('MAX_RETRIES must be non-negative');
   }
+  
+  if (!(config.conflictMaxRetries >= 0) || !(config.conflictRetryDelayMs >= 0)) {
+    throw new Error('CONFLICT_MAX_RETRIES and CONFLICT_RETRY_DELAY_MS must be non-negative');
+  }
+  
+  if (!(config.circuitBreaker.maxFailures >= 0) || !(config.circuitBreaker.resetMs >= 0)) {
+    throw new Error('CIRCUIT_BREAKER_MAX_FAILURES and CIRCUIT_BREAKER_RESET_MS must be non-negative (0 = disabled)');
+  }
+  
+  // Without a reset only the control API can resume a paused bot
+  if (config.circuitBreaker.maxFailures > 0 && config.circuitBreaker.resetMs === 0 && config.controlApiPort === 0) {
+    throw new Error('CIRCUIT_BREAKER_RESET_MS of 0 requires CONTROL_API_PORT to resume the bot');
+  }
 }
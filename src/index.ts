@@ -16,9 +16,14 @@ if (!fs.existsSync(logsDir)) {
 async function main(): Promise<void> {
   try {
     // Check if rebalancing mode is enabled via environment variable
-    const enableRebalancing = process.env.ENABLE_REBALANCING === 'true';
+    // Dry-run mode runs the rebalancing bot but never signs transactions
+    const dryRun = process.env.DRY_RUN === 'true';
+    const enableRebalancing = process.env.ENABLE_REBALANCING === 'true' || dryRun;
     
-    if (enableRebalancing) {
+    if (dryRun) {
+      logger.info('=== Cetus CLMM Rebalancing Bot (DRY RUN) ===');
+      logger.info('NOTE: Rebalances are simulated with dryRunTransactionBlock - nothing is signed');
+    } else if (enableRebalancing) {
       logger.info('=== Cetus CLMM Atomic Rebalancing Bot ===');
       logger.warn('⚠️  AUTOMATED REBALANCING ENABLED');
       logger.warn('⚠️  This bot will execute transactions automatically');
@@ -0,0 +1,35 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { NotificationConfig, NotificationEvent } from '../types';
+import { Notification, NotificationSink, formatNotificationText } from './notifier';
+
+/**
+ * Email over SMTP
+ */
+export class EmailSink implements NotificationSink {
+  readonly name = 'email';
+  readonly events: NotificationEvent[];
+  private transporter: Transporter;
+  private from: string;
+  private to: string[];
+  
+  constructor(config: NonNullable<NotificationConfig['email']>) {
+    this.events = config.events;
+    this.from = config.from;
+    this.to = config.to;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+  
+  async send(notification: Notification): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `[CLMM bot] ${notification.title}`,
+      text: formatNotificationText(notification),
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { NotificationConfig, NotificationEvent } from '../types';
+import { logger } from '../utils/logger';
+import { Notification, NotificationSink } from './notifier';
+import { WebhookSink } from './webhookSink';
+import { TelegramSink } from './telegramSink';
+import { SlackSink } from './slackSink';
+import { EmailSink } from './emailSink';
+
+export * from './notifier';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'out_of_range',
+  'rebalance_succeeded',
+  'rebalance_failed',
+  'gas_price_exceeded',
+  'bot_stalled',
+  'circuit_breaker_open',
+];
+
+/**
+ * Fans notifications out to every sink subscribed to the event
+ *
+ * Delivery is best-effort: a failing sink is logged and never affects the
+ * bot or the other sinks.
+ */
+export class NotificationService {
+  private sinks: NotificationSink[];
+  
+  constructor(sinks: NotificationSink[]) {
+    this.sinks = sinks;
+  }
+  
+  isEnabled(): boolean {
+    return this.sinks.length > 0;
+  }
+  
+  notify(notification: Omit<Notification, 'timestamp'>): void {
+    const full: Notification = { ...notification, timestamp: Date.now() };
+    
+    for (const sink of this.sinks) {
+      if (!sink.events.includes(full.event)) {
+        continue;
+      }
+      
+      sink.send(full).catch((error: Error) => {
+        logger.warn(`Failed to send ${full.event} notification via ${sink.name}: ${error.message}`);
+      });
+    }
+  }
+}
+
+export function createNotificationService(config: NotificationConfig): NotificationService {
+  const sinks: NotificationSink[] = [];
+  
+  if (config.webhook) {
+    sinks.push(new WebhookSink(config.webhook.url, config.webhook.events));
+  }
+  if (config.telegram) {
+    sinks.push(
+      new TelegramSink(config.telegram.botToken, config.telegram.chatId, config.telegram.events)
+    );
+  }
+  if (config.slack) {
+    sinks.push(new SlackSink(config.slack.webhookUrl, config.slack.events));
+  }
+  if (config.email) {
+    sinks.push(new EmailSink(config.email));
+  }
+  
+  if (sinks.length > 0) {
+    logger.info(`Notifications enabled: ${sinks.map((sink) => sink.name).join(', ')}`);
+  }
+  
+  return new NotificationService(sinks);
+}
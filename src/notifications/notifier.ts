@@ -0,0 +1,59 @@
+import { NotificationEvent } from '../types';
+
+/**
+ * A message produced by the bot for operators
+ */
+export interface Notification {
+  event: NotificationEvent;
+  /** Portfolio entry the message is about, if any */
+  position?: string;
+  title: string;
+  message: string;
+  /** Structured facts such as digest, ranges and amounts */
+  details: Record<string, string | number | boolean | null>;
+  timestamp: number;
+}
+
+/**
+ * Delivers notifications to one destination
+ */
+export interface NotificationSink {
+  readonly name: string;
+  readonly events: NotificationEvent[];
+  send(notification: Notification): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Plain-text rendering shared by the chat and email sinks
+ */
+export function formatNotificationText(notification: Notification): string {
+  const lines = [notification.title, notification.message];
+  
+  const details = Object.entries(notification.details).filter(([, value]) => value !== null);
+  if (details.length > 0) {
+    lines.push('');
+    details.forEach(([key, value]) => lines.push(`${key}: ${value}`));
+  }
+  
+  lines.push('', new Date(notification.timestamp).toISOString());
+  return lines.join('\n');
+}
+
+/**
+ * POSTs a JSON body and throws on a non-2xx response
+ */
+export async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+  });
+  
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${text.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,41 @@
+import { NotificationEvent } from '../types';
+import { Notification, NotificationSink, postJson } from './notifier';
+
+/**
+ * Slack incoming webhook with the details as attachment fields
+ */
+export class SlackSink implements NotificationSink {
+  readonly name = 'slack';
+  readonly events: NotificationEvent[];
+  private webhookUrl: string;
+  
+  constructor(webhookUrl: string, events: NotificationEvent[]) {
+    this.webhookUrl = webhookUrl;
+    this.events = events;
+  }
+  
+  async send(notification: Notification): Promise<void> {
+    const fields = Object.entries(notification.details)
+      .filter(([, value]) => value !== null)
+      .map(([title, value]) => ({ title, value: String(value), short: String(value).length < 40 }));
+    
+    await postJson(this.webhookUrl, {
+      text: `*${notification.title}*\n${notification.message}`,
+      attachments: fields.length > 0
+        ? [{ color: this.colorFor(notification), fields, ts: Math.floor(notification.timestamp / 1000) }]
+        : [],
+    });
+  }
+  
+  private colorFor(notification: Notification): string {
+    switch (notification.event) {
+      case 'rebalance_succeeded':
+        return 'good';
+      case 'out_of_range':
+      case 'gas_price_exceeded':
+        return 'warning';
+      default:
+        return 'danger';
+    }
+  }
+}
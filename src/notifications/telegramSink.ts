@@ -0,0 +1,26 @@
+import { NotificationEvent } from '../types';
+import { Notification, NotificationSink, formatNotificationText, postJson } from './notifier';
+
+/**
+ * Telegram Bot API sendMessage to a single chat
+ */
+export class TelegramSink implements NotificationSink {
+  readonly name = 'telegram';
+  readonly events: NotificationEvent[];
+  private botToken: string;
+  private chatId: string;
+  
+  constructor(botToken: string, chatId: string, events: NotificationEvent[]) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.events = events;
+  }
+  
+  async send(notification: Notification): Promise<void> {
+    await postJson(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: formatNotificationText(notification),
+      disable_web_page_preview: true,
+    });
+  }
+}
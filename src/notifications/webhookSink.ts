@@ -0,0 +1,20 @@
+import { NotificationEvent } from '../types';
+import { Notification, NotificationSink, postJson } from './notifier';
+
+/**
+ * Generic JSON webhook: POSTs the notification object as-is
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name = 'webhook';
+  readonly events: NotificationEvent[];
+  private url: string;
+  
+  constructor(url: string, events: NotificationEvent[]) {
+    this.url = url;
+    this.events = events;
+  }
+  
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.url, notification);
+  }
+}
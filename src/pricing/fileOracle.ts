@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { CoinMetadata } from '../types';
+import { OraclePrice, PriceOracle } from './priceOracle';
+import { StaticPriceSource } from './staticPriceSource';
+
+/**
+ * Reference prices from a local JSON file kept up to date by another process
+ *
+ * The file has the USD_PRICE_FILE format and is re-read whenever it changes.
+ * Pair prices are derived from the USD prices of both coins, and the file's
+ * modification time is the time of the prices.
+ */
+export class FilePriceOracle implements PriceOracle {
+  readonly name = 'file';
+  private filePath: string;
+  private source: StaticPriceSource | null = null;
+  private loadedModifiedAt = 0;
+  
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+  
+  async getPrice(coinA: CoinMetadata, coinB: CoinMetadata): Promise<OraclePrice | null> {
+    const modifiedAt = fs.statSync(this.filePath).mtimeMs;
+    if (!this.source || modifiedAt !== this.loadedModifiedAt) {
+      this.source = new StaticPriceSource(this.filePath);
+      this.loadedModifiedAt = modifiedAt;
+    }
+    
+    const [usdPriceA, usdPriceB] = await Promise.all([
+      this.source.getUsdPrice(coinA),
+      this.source.getUsdPrice(coinB),
+    ]);
+    if (usdPriceA === null || usdPriceB === null || usdPriceB === 0) {
+      return null;
+    }
+    
+    return { price: usdPriceA / usdPriceB, timestamp: modifiedAt };
+  }
+}
@@ -0,0 +1,73 @@
+import { PoolReader } from '../services/cetusService';
+import { CoinMetadata, PricingConfig } from '../types';
+import { logger } from '../utils/logger';
+import { PriceSource } from './priceSource';
+import { PriceOracle } from './priceOracle';
+import { StaticPriceSource } from './staticPriceSource';
+import { StablePoolPriceSource } from './stablePoolPriceSource';
+import { FilePriceOracle } from './fileOracle';
+
+export * from './priceSource';
+export * from './priceOracle';
+
+/**
+ * Native USDC and the Wormhole-bridged USDC and USDT on Sui mainnet
+ */
+export const DEFAULT_STABLECOINS = [
+  '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+  '0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN',
+  '0xc060006111016b8a020ad5b33834984a437aaa7d3c74c18e09a95d48aceab08c::coin::COIN',
+];
+
+/**
+ * Asks each price source in turn for a coin's USD price
+ *
+ * USD values are informational: a failing source is logged and skipped, and
+ * a coin no source knows has no USD price.
+ */
+export class PriceService {
+  private sources: PriceSource[];
+  
+  constructor(sources: PriceSource[]) {
+    this.sources = sources;
+  }
+  
+  async getUsdPrice(coin: CoinMetadata): Promise<number | null> {
+    for (const source of this.sources) {
+      try {
+        const price = await source.getUsdPrice(coin);
+        if (price !== null) {
+          return price;
+        }
+      } catch (error) {
+        logger.warn(`USD price of ${coin.symbol} from ${source.name} failed: ${(error as Error).message}`);
+      }
+    }
+    return null;
+  }
+}
+
+export function createPriceService(config: PricingConfig, poolReader: PoolReader): PriceService {
+  const sources: PriceSource[] = [];
+  
+  if (config.priceFile) {
+    sources.push(new StaticPriceSource(config.priceFile));
+  }
+  if (config.stablecoins.length > 0) {
+    sources.push(new StablePoolPriceSource(poolReader, config.stablePools, config.stablecoins));
+  }
+  
+  return new PriceService(sources);
+}
+
+/**
+ * Reference price feed for the price guard; null when none is configured
+ */
+export function createPriceOracle(oracleFile: string | undefined): PriceOracle | null {
+  if (!oracleFile) {
+    return null;
+  }
+  
+  logger.info(`Price oracle: ${oracleFile}`);
+  return new FilePriceOracle(oracleFile);
+}
@@ -0,0 +1,19 @@
+import { CoinMetadata } from '../types';
+
+export interface OraclePrice {
+  /** Whole coin B per whole coin A */
+  price: number;
+  /** When the feed last updated the price, in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * External reference price for a pair, independent of the pool
+ */
+export interface PriceOracle {
+  readonly name: string;
+  /**
+   * Price of coin A in coin B, or null if the feed does not cover the pair
+   */
+  getPrice(coinA: CoinMetadata, coinB: CoinMetadata): Promise<OraclePrice | null>;
+}
@@ -0,0 +1,13 @@
+import { CoinMetadata } from '../types';
+
+/**
+ * Provides USD prices of coins
+ */
+export interface PriceSource {
+  readonly name: string;
+  /**
+   * USD price of one whole coin, or null if this source does not know the
+   * coin. Errors are reserved for sources that should know it but failed.
+   */
+  getUsdPrice(coin: CoinMetadata): Promise<number | null>;
+}
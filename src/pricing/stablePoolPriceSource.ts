@@ -0,0 +1,47 @@
+import { PoolReader } from '../services/cetusService';
+import { CoinMetadata } from '../types';
+import { sqrtPriceToPrice } from '../utils/tickMath';
+import { PriceSource } from './priceSource';
+
+/**
+ * USD prices from Cetus pools that pair a coin with a stablecoin
+ *
+ * Stablecoins are valued at 1 USD. Any other coin is priced at the current
+ * price of the first configured pool that pairs it with a stablecoin.
+ */
+export class StablePoolPriceSource implements PriceSource {
+  readonly name = 'stable-pool';
+  private poolReader: PoolReader;
+  private poolIds: string[];
+  private stablecoins: string[];
+  
+  constructor(poolReader: PoolReader, poolIds: string[], stablecoins: string[]) {
+    this.poolReader = poolReader;
+    this.poolIds = poolIds;
+    this.stablecoins = stablecoins;
+  }
+  
+  async getUsdPrice(coin: CoinMetadata): Promise<number | null> {
+    if (this.stablecoins.includes(coin.coinType)) {
+      return 1;
+    }
+    
+    for (const poolId of this.poolIds) {
+      const pool = await this.poolReader.getPool(poolId);
+      const [typeA, typeB] = await Promise.all([
+        this.poolReader.getCoinMetadata(pool.coinTypeA),
+        this.poolReader.getCoinMetadata(pool.coinTypeB),
+      ]);
+      
+      const price = sqrtPriceToPrice(BigInt(pool.currentSqrtPrice), typeA.decimals, typeB.decimals);
+      if (typeA.coinType === coin.coinType && this.stablecoins.includes(typeB.coinType)) {
+        return price;
+      }
+      if (typeB.coinType === coin.coinType && this.stablecoins.includes(typeA.coinType)) {
+        return price > 0 ? 1 / price : null;
+      }
+    }
+    
+    return null;
+  }
+}
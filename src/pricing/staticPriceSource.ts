@@ -0,0 +1,46 @@
+import fs from 'fs';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { CoinMetadata } from '../types';
+import { PriceSource } from './priceSource';
+
+/**
+ * Fixed USD prices from a JSON file, for offline use
+ *
+ * The file maps coin types or symbols to prices, e.g.
+ * { "0x2::sui::SUI": 3.5, "USDC": 1 }. A coin type takes precedence over a
+ * symbol; symbols match case-insensitively.
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'static';
+  private byType = new Map<string, number>();
+  private bySymbol = new Map<string, number>();
+  
+  constructor(filePath: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read price file ${filePath}: ${(error as Error).message}`);
+    }
+    
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Price file ${filePath} must contain a JSON object of prices`);
+    }
+    
+    for (const [key, price] of Object.entries(parsed)) {
+      if (typeof price !== 'number' || !(price >= 0) || !Number.isFinite(price)) {
+        throw new Error(`Price file ${filePath}: price of ${key} must be a non-negative number`);
+      }
+      
+      if (key.includes('::')) {
+        this.byType.set(normalizeStructTag(key), price);
+      } else {
+        this.bySymbol.set(key.toUpperCase(), price);
+      }
+    }
+  }
+  
+  async getUsdPrice(coin: CoinMetadata): Promise<number | null> {
+    return this.byType.get(coin.coinType) ?? this.bySymbol.get(coin.symbol.toUpperCase()) ?? null;
+  }
+}
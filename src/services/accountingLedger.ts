@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { TransactionFlows } from '../types';
+import { logger } from '../utils/logger';
+import { AccountingBaseline } from '../utils/accounting';
+
+export interface LedgerEntry {
+  at: number;
+  kind: 'rebalance' | 'compound';
+  digest: string;
+  /** Position the transaction deposited into */
+  positionId: string;
+  flows: TransactionFlows;
+}
+
+export interface PositionLedger {
+  baseline: AccountingBaseline;
+  entries: LedgerEntry[];
+}
+
+interface LedgerFile {
+  version: number;
+  positions: Record<string, PositionLedger>;
+}
+
+const LEDGER_VERSION = 1;
+
+/**
+ * Persists the accounting history of every managed position
+ *
+ * Keyed by the configured position ID like the StateStore, so a position's
+ * lifetime spans every NFT it is rebalanced into. The baseline is recorded
+ * the first time the position is seen; each executed rebalance and compound
+ * appends its coin flows.
+ */
+export class AccountingLedger {
+  private filePath: string;
+  private ledger: LedgerFile;
+  
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.ledger = this.load();
+    
+    logger.info(`Accounting ledger loaded from ${this.filePath}`);
+  }
+  
+  get(key: string): PositionLedger | null {
+    return this.ledger.positions[key] ?? null;
+  }
+  
+  /**
+   * Entries recorded since the given time, oldest first
+   */
+  getEntries(key: string, since: number = 0): LedgerEntry[] {
+    return (this.ledger.positions[key]?.entries ?? []).filter((entry) => entry.at >= since);
+  }
+  
+  /**
+   * Records the baseline unless the position already has one
+   */
+  ensureBaseline(key: string, baseline: AccountingBaseline): PositionLedger {
+    let position = this.ledger.positions[key];
+    
+    if (!position) {
+      position = { baseline, entries: [] };
+      this.ledger.positions[key] = position;
+      this.save();
+      logger.info(
+        `Accounting baseline recorded for ${key}: A=${baseline.amountA}, B=${baseline.amountB}`
+      );
+    }
+    
+    return position;
+  }
+  
+  record(key: string, entry: LedgerEntry): void {
+    const position = this.ledger.positions[key];
+    if (!position) {
+      // Without a baseline the flows cannot be valued against anything
+      logger.warn(`No accounting baseline for ${key}; ${entry.kind} ${entry.digest} not recorded`);
+      return;
+    }
+    
+    position.entries.push(entry);
+    this.save();
+  }
+  
+  private load(): LedgerFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: LEDGER_VERSION, positions: {} };
+    }
+    
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LedgerFile;
+      
+      if (!parsed.positions || typeof parsed.positions !== 'object') {
+        throw new Error('missing "positions" object');
+      }
+      
+      return { version: parsed.version ?? LEDGER_VERSION, positions: parsed.positions };
+    } catch (error) {
+      // Starting over would silently reset every position's baseline
+      throw new Error(
+        `Failed to read accounting file ${this.filePath}: ${(error as Error).message}`
+      );
+    }
+  }
+  
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    
+    // Write to a temp file first so a crash mid-write cannot corrupt the ledger
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.ledger, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -1,22 +1,68 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import { BotConfig } from '../types';
 import { logger } from '../utils/logger';
 import { SuiClientService } from './suiClient';
 import { CetusService } from './cetusService';
-import { MonitorService } from './monitorService';
+import { StateStore } from './stateStore';
+import { AccountingLedger } from './accountingLedger';
+import { TickHistory } from './tickHistory';
+import { PositionManager, createPositionManagers } from './positionManager';
+import { MetricsServer } from './metricsServer';
+import { StallWatchdog } from './stallWatchdog';
+import { SwapEventService } from './swapEventService';
+import { SwapEventTrigger } from './swapEventTrigger';
+import { NotificationService, createNotificationService } from '../notifications';
+import { createPriceService } from '../pricing';
 
 export class MonitoringBot {
   private config: BotConfig;
   private suiClient: SuiClientService;
   private cetusService: CetusService;
-  private monitorService: MonitorService;
+  private stateStore: StateStore;
+  private ledger: AccountingLedger;
+  private tickHistory: TickHistory;
+  private managers: PositionManager[];
+  private metricsServer: MetricsServer;
+  private notifier: NotificationService;
+  private watchdog: StallWatchdog;
+  private eventTrigger: SwapEventTrigger | null;
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
+  // Periodic and triggered checks run one after another through this chain
+  private queue: Promise<unknown> = Promise.resolve();
   
   constructor(config: BotConfig) {
     this.config = config;
     this.suiClient = new SuiClientService(config);
     this.cetusService = new CetusService(this.suiClient, config);
-    this.monitorService = new MonitorService(this.cetusService, config);
+    this.stateStore = new StateStore(config.stateFilePath);
+    this.ledger = new AccountingLedger(config.accountingFilePath);
+    this.tickHistory = new TickHistory(config.volatilityWindow);
+    this.notifier = createNotificationService(config.notifications);
+    this.managers = createPositionManagers(
+      config,
+      this.suiClient,
+      this.cetusService,
+      this.stateStore,
+      this.ledger,
+      this.tickHistory,
+      this.notifier,
+      createPriceService(config.pricing, this.cetusService)
+    );
+    this.metricsServer = new MetricsServer(config);
+    this.watchdog = new StallWatchdog(
+      config.notifications.stallTimeoutMs,
+      this.notifier,
+      () => this.getLastSuccessfulCheckAt()
+    );
+    this.eventTrigger = config.eventTrigger.enabled
+      ? new SwapEventTrigger(
+          new SwapEventService(this.suiClient, this.cetusService, config),
+          config.eventTrigger,
+          this.managers.map((manager) => manager.getConfig().poolId),
+          (poolIds) => this.enqueue(() => this.checkPositions(poolIds))
+        )
+      : null;
   }
   
   async start(): Promise<void> {
@@ -26,19 +72,32 @@ export class MonitoringBot {
     }
     
     this.isRunning = true;
+    this.metricsServer.start();
+    this.watchdog.start();
+    this.suiClient.getEndpoints().start();
     logger.info('Starting monitoring bot...');
     logger.info('NOTE: This bot only monitors positions, it does not execute trades');
-    logger.info(`Check interval: ${this.config.checkIntervalMs}ms`);
-    logger.info(`Alert threshold: ${this.config.rebalanceThresholdPercent}%`);
-    logger.info(`Suggested range width: ${this.config.rangeWidthPercent}%`);
+    logger.info(
+      this.eventTrigger
+        ? `Checks triggered by swap events, heartbeat every ${this.config.checkIntervalMs}ms`
+        : `Check interval: ${this.config.checkIntervalMs}ms`
+    );
+    logger.info(`Monitoring ${this.managers.length} position(s)`);
+    
+    for (const manager of this.managers) {
+      const positionConfig = manager.getConfig();
+      logger.info(`[${manager.name}] Alert threshold: ${positionConfig.rebalanceThresholdPercent}%`);
+      logger.info(`[${manager.name}] Suggested range width: ${positionConfig.rangeWidthPercent}%`);
+    }
     
     // Run first check immediately
-    await this.checkPosition();
+    await this.enqueue(() => this.checkPositions());
     
     // Schedule periodic checks
     this.intervalId = setInterval(async () => {
-      await this.checkPosition();
+      await this.enqueue(() => this.checkPositions());
     }, this.config.checkIntervalMs);
+    this.eventTrigger?.start();
     
     logger.info('Bot started successfully');
   }
@@ -53,20 +112,46 @@ export class MonitoringBot {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.eventTrigger?.stop();
     
+    this.metricsServer.stop();
+    this.watchdog.stop();
+    this.suiClient.getEndpoints().stop();
     this.isRunning = false;
     logger.info('Bot stopped');
   }
   
-  private async checkPosition(): Promise<void> {
-    try {
-      await this.monitorService.generateReport();
-      
-      // Report is logged by MonitorService
-      // No automated rebalancing - monitoring only
-      
-    } catch (error) {
-      logger.error('Error during position check', error);
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+  
+  private getLastSuccessfulCheckAt(): number | null {
+    const timestamps = this.managers
+      .map((manager) => manager.getLastReport()?.timestamp)
+      .filter((timestamp): timestamp is number => timestamp !== undefined);
+    return timestamps.length > 0 ? Math.max(...timestamps) : null;
+  }
+  
+  /**
+   * @param poolIds Only check positions in these pools (normalized IDs), as
+   * triggered by swap events
+   */
+  private async checkPositions(poolIds?: string[]): Promise<void> {
+    const managers = poolIds
+      ? this.managers.filter((manager) => poolIds.includes(normalizeSuiAddress(manager.getConfig().poolId)))
+      : this.managers;
+    
+    for (const manager of managers) {
+      try {
+        // Report is logged by MonitorService
+        // No automated rebalancing - monitoring only
+        const report = await manager.checkPosition();
+        this.eventTrigger?.markChecked(report.pool.id, report.currentTick);
+      } catch (error) {
+        logger.error(`[${manager.name}] Error during position check`, error);
+      }
     }
   }
 }
@@ -1,6 +1,9 @@
-import { initMainnetSDK, CetusClmmSDK } from '@cetusprotocol/cetus-sui-clmm-sdk';
+import { CetusClmmSDK, clmmMainnet } from '@cetusprotocol/cetus-sui-clmm-sdk';
 import { SuiClientService } from './suiClient';
-import { BotConfig, Pool, Position } from '../types';
+import { RpcEndpointPool } from './rpcEndpointPool';
+import { SwapEventService, SwapVolume } from './swapEventService';
+import { CoinMetadataService } from './coinMetadataService';
+import { BotConfig, CoinMetadata, PendingCollection, Pool, Position, SwapQuote } from '../types';
 import { logger } from '../utils/logger';
 import { withRetry } from '../utils/retry';
 
@@ -14,27 +17,73 @@ type CoinTypeValue = string | {
   type?: string;
 };
 
-export class CetusService {
+/**
+ * Cetus package and shared object IDs the PTB builders call into
+ */
+export interface CetusContracts {
+  /** Published integrate package (pool_script, router) */
+  packageId: string;
+  globalConfigId: string;
+  globalVaultId: string;
+}
+
+/**
+ * Read access to Cetus pools and positions
+ *
+ * Services depend on this rather than on CetusService, so the in-memory
+ * ClmmSimulator can stand in for mainnet.
+ */
+export interface PoolReader {
+  getPool(poolId: string): Promise<Pool>;
+  getPosition(positionId: string): Promise<Position>;
+  quoteSwap(poolId: string, a2b: boolean, amountIn: bigint): Promise<SwapQuote>;
+  getPendingCollection(pool: Pool, positionId: string): Promise<PendingCollection>;
+  getRecentSwapVolume(poolId: string, lookbackMs: number, maxPages: number): Promise<SwapVolume>;
+  getCoinMetadata(coinType: string): Promise<CoinMetadata>;
+  getContracts(): CetusContracts;
+}
+
+export class CetusService implements PoolReader {
   private sdk: CetusClmmSDK;
+  private endpoints: RpcEndpointPool;
   private config: BotConfig;
+  private swapEventService: SwapEventService;
+  private coinMetadataService: CoinMetadataService;
   
   constructor(suiClient: SuiClientService, config: BotConfig) {
     this.config = config;
     
-    this.sdk = initMainnetSDK(config.rpcUrl, suiClient.getAddress());
-    this.sdk.senderAddress = suiClient.getAddress();
+    this.endpoints = suiClient.getEndpoints();
+    this.sdk = this.initSdk(suiClient.getAddress());
+    // The SDK keeps the client it was built with, so it is rebuilt on failover
+    this.endpoints.onSwitch(() => {
+      this.sdk = this.initSdk(suiClient.getAddress());
+    });
+    this.swapEventService = new SwapEventService(suiClient, this, config);
+    this.coinMetadataService = new CoinMetadataService(suiClient, config);
     
     logger.info('Cetus SDK initialized');
   }
   
-  async getPool(): Promise<Pool> {
+  /**
+   * SDK on the active endpoint
+   * Its queries go through endpoints.track(), so they count toward the
+   * endpoint's error rate like the bot's own requests.
+   */
+  private initSdk(address: string): CetusClmmSDK {
+    const sdk = new CetusClmmSDK({ ...clmmMainnet, fullRpcUrl: this.endpoints.getActiveUrl() });
+    sdk.senderAddress = address;
+    return sdk;
+  }
+  
+  async getPool(poolId: string): Promise<Pool> {
     try {
       return await withRetry(
         async () => {
-          const poolData = await this.sdk.Pool.getPool(this.config.poolId);
+          const poolData = await this.endpoints.track(() => this.sdk.Pool.getPool(poolId));
           
           if (!poolData) {
-            throw new Error(`Pool ${this.config.poolId} not found`);
+            throw new Error(`Pool ${poolId} not found`);
           }
           
           // Log the structure to understand the format
@@ -60,6 +109,10 @@ export class CetusService {
             currentTick: poolData.current_tick_index,
             tickSpacing: parseInt(poolData.tickSpacing, 10),
             feeRate: poolData.fee_rate,
+            liquidity: poolData.liquidity.toString(),
+            rewarderCoinTypes: poolData.rewarder_infos.map((rewarder) =>
+              this.extractCoinType(rewarder.coinAddress)
+            ),
           };
         },
         this.config.maxRetries,
@@ -107,16 +160,14 @@ export class CetusService {
     return String(coinType);
   }
   
-  async getPosition(): Promise<Position> {
+  async getPosition(positionId: string): Promise<Position> {
     try {
       return await withRetry(
         async () => {
-          const positionData = await this.sdk.Position.getPositionById(
-            this.config.positionId
-          );
+          const positionData = await this.endpoints.track(() => this.sdk.Position.getPositionById(positionId));
           
           if (!positionData) {
-            throw new Error(`Position ${this.config.positionId} not found`);
+            throw new Error(`Position ${positionId} not found`);
           }
           
           return {
@@ -140,6 +191,134 @@ export class CetusService {
     }
   }
   
+  /**
+   * Quotes a swap against the pool's current on-chain state
+   * Uses the Cetus pre-swap calculation (a dev-inspect of the fetcher module),
+   * so tick crossings and the pool fee are accounted for exactly.
+   */
+  async quoteSwap(poolId: string, a2b: boolean, amountIn: bigint): Promise<SwapQuote> {
+    try {
+      return await withRetry(
+        async () => {
+          const poolData = await this.endpoints.track(() => this.sdk.Pool.getPool(poolId));
+          
+          const result = await this.endpoints.track(() => this.sdk.Swap.preswap({
+            pool: poolData,
+            currentSqrtPrice: Number(poolData.current_sqrt_price),
+            coinTypeA: this.extractCoinType(poolData.coinTypeA),
+            coinTypeB: this.extractCoinType(poolData.coinTypeB),
+            // Decimals are not used by the on-chain calculation
+            decimalsA: 0,
+            decimalsB: 0,
+            a2b,
+            byAmountIn: true,
+            amount: amountIn.toString(),
+          }));
+          
+          if (!result) {
+            throw new Error(`No swap quote returned for pool ${poolId}`);
+          }
+          
+          return {
+            a2b,
+            amountIn: BigInt(result.estimatedAmountIn),
+            amountOut: BigInt(result.estimatedAmountOut),
+            feeAmount: BigInt(result.estimatedFeeAmount),
+            endSqrtPrice: BigInt(result.estimatedEndSqrtPrice),
+            isExceed: Boolean(result.isExceed),
+          };
+        },
+        this.config.maxRetries,
+        this.config.minRetryDelayMs,
+        this.config.maxRetryDelayMs,
+        'Quote swap'
+      );
+    } catch (error) {
+      logger.error('Failed to quote swap', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Fees and rewards owed to a position, from dev-inspects of the fetcher
+   * module. Both keep accruing, so the amounts are a lower bound for what a
+   * collect in a later transaction returns.
+   */
+  async getPendingCollection(pool: Pool, positionId: string): Promise<PendingCollection> {
+    try {
+      return await withRetry(
+        async () => {
+          const poolData = await this.endpoints.track(() => this.sdk.Pool.getPool(pool.id));
+          const params = {
+            poolAddress: pool.id,
+            positionId,
+            coinTypeA: pool.coinTypeA,
+            coinTypeB: pool.coinTypeB,
+          };
+          
+          const [fees] = await this.endpoints.track(() => this.sdk.Rewarder.fetchPosFeeAmount([params]));
+          if (!fees) {
+            throw new Error(`No fee amounts returned for position ${positionId}`);
+          }
+          
+          const rewarders = poolData.rewarder_infos.length > 0
+            ? await this.endpoints.track(() => this.sdk.Rewarder.fetchPosRewardersAmount([
+                { ...params, rewarderInfo: poolData.rewarder_infos },
+              ]))
+            : [];
+          
+          return {
+            feeA: BigInt(fees.feeOwedA.toString()),
+            feeB: BigInt(fees.feeOwedB.toString()),
+            rewards: (rewarders[0]?.rewarderAmountOwed ?? []).map((owed) => ({
+              coinType: this.extractCoinType(owed.coin_address),
+              amount: BigInt(owed.amount_owed.toString()),
+            })),
+          };
+        },
+        this.config.maxRetries,
+        this.config.minRetryDelayMs,
+        this.config.maxRetryDelayMs,
+        'Get pending fees'
+      );
+    } catch (error) {
+      logger.error('Failed to get pending fees and rewards', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Swap input volume of a pool over a lookback window, from its SwapEvents
+   */
+  async getRecentSwapVolume(poolId: string, lookbackMs: number, maxPages: number): Promise<SwapVolume> {
+    return await this.swapEventService.getRecentSwapVolume(poolId, lookbackMs, maxPages);
+  }
+  
+  /**
+   * Symbol and decimals of a coin type, cached after the first read
+   */
+  async getCoinMetadata(coinType: string): Promise<CoinMetadata> {
+    return await this.coinMetadataService.getCoinMetadata(coinType);
+  }
+  
+  getContracts(): CetusContracts {
+    const { integrate, clmm_pool } = this.sdk.sdkOptions;
+    return {
+      packageId: integrate.published_at,
+      globalConfigId: clmm_pool.config!.global_config_id,
+      globalVaultId: clmm_pool.config!.global_vault_id,
+    };
+  }
+  
+  /**
+   * Fully-qualified type of Cetus pool swap events
+   * Events keep the type of the package that originally defined them, so this
+   * uses the original CLMM package ID rather than the latest published one
+   */
+  getSwapEventType(): string {
+    return `${this.sdk.sdkOptions.clmm_pool.package_id}::pool::SwapEvent`;
+  }
+  
   getSDK(): CetusClmmSDK {
     return this.sdk;
   }
@@ -0,0 +1,127 @@
+import { CircuitBreakerConfig } from '../types';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { classifyError } from '../utils/errors';
+import { NotificationService } from '../notifications';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Pauses the bot when a position's checks keep failing
+ *
+ * Opens after CIRCUIT_BREAKER_MAX_FAILURES consecutive failed checks of any
+ * one position; positions share the wallet, so the whole bot is paused and a
+ * circuit_breaker_open notification sent. With CIRCUIT_BREAKER_RESET_MS set
+ * the bot resumes on its own after that long, half-open: the next failure
+ * opens the breaker again at once, a success closes it. Without it the bot
+ * stays paused until resumed through the control API, which closes the
+ * breaker.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private notifier: NotificationService;
+  private onOpen: () => void;
+  private onHalfOpen: () => void;
+  private failures = new Map<string, number>();
+  private state: CircuitState = 'closed';
+  private timeoutId: NodeJS.Timeout | null = null;
+  
+  constructor(
+    config: CircuitBreakerConfig,
+    notifier: NotificationService,
+    onOpen: () => void,
+    onHalfOpen: () => void
+  ) {
+    this.config = config;
+    this.notifier = notifier;
+    this.onOpen = onOpen;
+    this.onHalfOpen = onHalfOpen;
+  }
+  
+  isEnabled(): boolean {
+    return this.config.maxFailures > 0;
+  }
+  
+  getState(): CircuitState {
+    return this.state;
+  }
+  
+  recordSuccess(key: string): void {
+    this.failures.delete(key);
+    if (this.state === 'half_open') {
+      this.close();
+      logger.info('Circuit breaker closed: checks are succeeding again');
+    }
+  }
+  
+  recordFailure(key: string, error: Error): void {
+    if (!this.isEnabled() || this.state === 'open') {
+      return;
+    }
+    
+    const count = (this.failures.get(key) ?? 0) + 1;
+    this.failures.set(key, count);
+    
+    if (this.state === 'half_open' || count >= this.config.maxFailures) {
+      this.open(key, count, error);
+    }
+  }
+  
+  /**
+   * Closes the breaker and forgets all failures, e.g. on an operator resume
+   */
+  reset(): void {
+    this.stop();
+    this.failures.clear();
+    this.close();
+  }
+  
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+  
+  private close(): void {
+    this.state = 'closed';
+    metrics.circuitBreakerOpen.set({}, 0);
+  }
+  
+  private open(key: string, count: number, error: Error): void {
+    const kind = classifyError(error).kind;
+    const resume = this.config.resetMs > 0
+      ? `resuming in ${Math.round(this.config.resetMs / 1000)}s`
+      : 'resume through the control API';
+    
+    this.state = 'open';
+    this.failures.clear();
+    metrics.circuitBreakerOpen.set({}, 1);
+    logger.error(
+      `Circuit breaker open: ${count} consecutive failure(s) of ${key}, ` +
+      `last ${kind}: ${error.message}. Bot paused, ${resume}`
+    );
+    this.notifier.notify({
+      event: 'circuit_breaker_open',
+      position: key,
+      title: 'Bot paused by the circuit breaker',
+      message: `${count} consecutive failed check(s) of ${key}: ${error.message}`,
+      details: {
+        errorKind: kind,
+        consecutiveFailures: count,
+        resume,
+      },
+    });
+    this.onOpen();
+    
+    if (this.config.resetMs > 0) {
+      this.timeoutId = setTimeout(() => {
+        this.timeoutId = null;
+        this.state = 'half_open';
+        metrics.circuitBreakerOpen.set({}, 0);
+        logger.warn('Circuit breaker half-open: resuming checks');
+        this.onHalfOpen();
+      }, this.config.resetMs);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { SuiClientService } from './suiClient';
+import { BotConfig, CoinMetadata } from '../types';
+import { withRetry } from '../utils/retry';
+
+/**
+ * Reads and caches coin metadata (symbol and decimals)
+ *
+ * Metadata of a coin type does not change in practice, so each type is
+ * fetched once per process. Concurrent lookups of the same type share one
+ * request; failed lookups are not cached.
+ */
+export class CoinMetadataService {
+  private suiClient: SuiClientService;
+  private config: BotConfig;
+  private cache = new Map<string, Promise<CoinMetadata>>();
+  
+  constructor(suiClient: SuiClientService, config: BotConfig) {
+    this.suiClient = suiClient;
+    this.config = config;
+  }
+  
+  async getCoinMetadata(coinType: string): Promise<CoinMetadata> {
+    const normalized = normalizeStructTag(coinType);
+    
+    let metadata = this.cache.get(normalized);
+    if (!metadata) {
+      metadata = this.fetch(normalized);
+      this.cache.set(normalized, metadata);
+      metadata.catch(() => this.cache.delete(normalized));
+    }
+    
+    return await metadata;
+  }
+  
+  private async fetch(coinType: string): Promise<CoinMetadata> {
+    const metadata = await withRetry(
+      () => this.suiClient.getClient().getCoinMetadata({ coinType }),
+      this.config.maxRetries,
+      this.config.minRetryDelayMs,
+      this.config.maxRetryDelayMs,
+      'Get coin metadata'
+    );
+    
+    if (!metadata) {
+      throw new Error(`No coin metadata published for ${coinType}`);
+    }
+    
+    return { coinType, symbol: metadata.symbol, decimals: metadata.decimals };
+  }
+}
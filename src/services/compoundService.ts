@@ -0,0 +1,352 @@
+import { DryRunTransactionBlockResponse, SuiEvent } from '@mysten/sui/client';
+import { Transaction, coinWithBalance } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, SUI_TYPE_ARG, normalizeStructTag } from '@mysten/sui/utils';
+import { TransactionExecutor } from './suiClient';
+import { PoolReader } from './cetusService';
+import { RewardPlan, RewardService } from './rewardService';
+import { BotConfig, CompoundResult, Pool, Position } from '../types';
+import { logger } from '../utils/logger';
+import { normalizeTypeArguments, validateTypeArguments } from '../utils/typeArgNormalizer';
+import {
+  findEvent,
+  getBalanceChange,
+  getOwnerBalanceChanges,
+  getTotalGasCost,
+} from '../utils/transactionResult';
+import { extractTransactionFlows } from '../utils/accounting';
+import {
+  AddLiquidityPlan,
+  SwapLimits,
+  SwapPlan,
+  calculateAddLiquidityPlan,
+  calculateSwapLimits,
+  calculateSwapPlan,
+} from '../utils/swapMath';
+import { addSwapIfNeeded } from '../utils/swapTransaction';
+import { sqrtPriceX64ToPrice } from '../utils/tickMath';
+
+/**
+ * Reinvests a position's fees and rewards without moving its range
+ *
+ * A single PTB collects the fees, claims every pool rewarder, swaps the
+ * proceeds into the ratio of the position's range and adds them to the same
+ * position. Rewards are handled by RewardService: those that end up in coin A
+ * or B are compounded with the fees, the rest go to the wallet.
+ *
+ * Compounding is due when COMPOUND_INTERVAL_MS has passed since the last
+ * compound or when the pending fees are worth COMPOUND_FEE_THRESHOLD raw
+ * coin B units, whichever comes first.
+ */
+export class CompoundService {
+  private suiClient: TransactionExecutor;
+  private cetusService: PoolReader;
+  private rewardService: RewardService;
+  private config: BotConfig;
+  
+  constructor(suiClient: TransactionExecutor, cetusService: PoolReader, config: BotConfig) {
+    this.suiClient = suiClient;
+    this.cetusService = cetusService;
+    this.rewardService = new RewardService(cetusService, config);
+    this.config = config;
+  }
+  
+  isEnabled(): boolean {
+    return this.config.compoundIntervalMs > 0 || this.config.compoundFeeThreshold > 0;
+  }
+  
+  /**
+   * Compounds the position's fees and rewards if compounding is due
+   * 
+   * @param lastCompoundAt When the position was last compounded, if ever
+   * @param options.dryRun Simulate instead of executing (DRY_RUN always simulates)
+   * @returns The compound result, or null if compounding was not due or there
+   * was too little to deposit (the reason is logged)
+   */
+  async compound(
+    pool: Pool,
+    position: Position,
+    lastCompoundAt: number | null,
+    options: { dryRun?: boolean } = {}
+  ): Promise<CompoundResult | null> {
+    const { compoundIntervalMs, compoundFeeThreshold } = this.config;
+    const scheduleDue =
+      compoundIntervalMs > 0 &&
+      (lastCompoundAt === null || Date.now() - lastCompoundAt >= compoundIntervalMs);
+    
+    // Without a threshold there is no need to query the pending fees
+    if (!scheduleDue && compoundFeeThreshold === 0) {
+      return null;
+    }
+    
+    const pending = await this.cetusService.getPendingCollection(pool, position.id);
+    const rewardPlan = await this.rewardService.planRewards(pool, pending);
+    const amountA = pending.feeA + rewardPlan.amountA;
+    const amountB = pending.feeB + rewardPlan.amountB;
+    const value = Number(amountA) * sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice)) + Number(amountB);
+    
+    logger.info(
+      `Pending fees: A=${pending.feeA}, B=${pending.feeB}; compoundable A=${amountA}, B=${amountB} ` +
+      `(${value.toFixed(0)} in coin B units)`
+    );
+    
+    const thresholdDue = compoundFeeThreshold > 0 && value >= compoundFeeThreshold;
+    if (!scheduleDue && !thresholdDue) {
+      logger.info(
+        `Compounding not due: ${value.toFixed(0)} below threshold ${compoundFeeThreshold}`
+      );
+      return null;
+    }
+    
+    const range = { tickLower: position.tickLower, tickUpper: position.tickUpper };
+    const swapPlan = calculateSwapPlan({
+      amountA,
+      amountB,
+      sqrtPriceCurrent: BigInt(pool.currentSqrtPrice),
+      newRange: range,
+      feeRate: pool.feeRate,
+      poolLiquidity: BigInt(pool.liquidity),
+    });
+    const swapLimits = swapPlan.swap ? await this.quoteSwapLimits(pool, swapPlan) : null;
+    const addLiquidityPlan = calculateAddLiquidityPlan(
+      swapLimits?.endSqrtPrice ?? BigInt(pool.currentSqrtPrice),
+      range,
+      swapPlan,
+      this.config.maxSlippagePercent
+    );
+    
+    if (addLiquidityPlan.minLiquidity === BigInt(0)) {
+      logger.info('Compounding skipped: pending fees are too small to add liquidity');
+      return null;
+    }
+    
+    logger.info('=== Starting Compound ===');
+    await this.suiClient.checkGasPrice();
+    
+    if (swapPlan.swap) {
+      const direction = swapPlan.swap.a2b ? 'A→B' : 'B→A';
+      logger.info(`Swap plan: ${direction} ${swapPlan.swap.amountIn}`);
+    }
+    logger.info(
+      `Add liquidity amounts: A=${addLiquidityPlan.amountA}, B=${addLiquidityPlan.amountB}, ` +
+      `fix ${addLiquidityPlan.fixAmountA ? 'A' : 'B'}, liquidity=${addLiquidityPlan.expectedLiquidity} ` +
+      `(min ${addLiquidityPlan.minLiquidity})`
+    );
+    
+    const buildPTB = () => this.buildCompoundPTB(
+      pool,
+      position,
+      rewardPlan,
+      swapPlan,
+      swapLimits,
+      addLiquidityPlan
+    );
+    const collected = {
+      feeA: pending.feeA.toString(),
+      feeB: pending.feeB.toString(),
+      rewards: pending.rewards.map((reward) => ({
+        coinType: reward.coinType,
+        amount: reward.amount.toString(),
+      })),
+    };
+    
+    if (options.dryRun || this.config.dryRun) {
+      logger.info('DRY RUN: simulating compound PTB instead of executing');
+      const simulation = await this.suiClient.dryRunTransaction(await buildPTB());
+      const { status, gasUsed } = simulation.effects;
+      
+      if (status.status === 'success') {
+        logger.info('Simulation: SUCCESS - the compound would have executed');
+      } else {
+        logger.warn(`Simulation: FAILED - ${status.error || 'Unknown error'}`);
+      }
+      
+      return {
+        digest: simulation.effects.transactionDigest,
+        positionId: position.id,
+        collected,
+        added: this.getAddedAmounts(simulation.events),
+        dryRun: {
+          success: status.status === 'success',
+          error: status.error,
+          gasCostMist: getTotalGasCost(gasUsed).toString(),
+        },
+      };
+    }
+    
+    logger.info('Executing compound PTB...');
+    const result = this.config.preflightSimulation
+      ? await this.suiClient.executeTransaction(buildPTB, (simulation) =>
+          this.assertSimulatedDeposit(simulation, pool, addLiquidityPlan.minLiquidity)
+        )
+      : await this.suiClient.executeTransactionWithoutSimulation(buildPTB);
+    
+    logger.info(`Compound successful! Digest: ${result.digest}`);
+    logger.info('=== Compound Complete ===');
+    
+    return {
+      digest: result.digest,
+      positionId: position.id,
+      collected,
+      added: this.getAddedAmounts(result.events),
+      gasCostMist: result.effects ? getTotalGasCost(result.effects.gasUsed).toString() : undefined,
+      flows: extractTransactionFlows(result, pool, this.suiClient.getAddress()),
+    };
+  }
+  
+  /**
+   * Quotes the planned swap and derives its price protection
+   * 
+   * @throws Error if the pool cannot fill the swap
+   */
+  private async quoteSwapLimits(pool: Pool, swapPlan: SwapPlan): Promise<SwapLimits> {
+    const swap = swapPlan.swap!;
+    
+    const quote = await this.cetusService.quoteSwap(pool.id, swap.a2b, swap.amountIn);
+    if (quote.isExceed) {
+      throw new Error(`Pool cannot fill the compound swap of ${swap.amountIn}`);
+    }
+    
+    const limits = calculateSwapLimits(quote, this.config.maxSlippagePercent);
+    logger.info(
+      `Swap quote: in=${quote.amountIn}, out=${quote.amountOut}; ` +
+      `sqrt price limit=${limits.sqrtPriceLimit}, min out=${limits.minAmountOut}`
+    );
+    
+    return limits;
+  }
+  
+  /**
+   * Checks a simulated compound before it is signed
+   * The deposit must reach its minimum liquidity and the wallet must not pay
+   * coin A or B into it (gas aside).
+   * 
+   * @throws Error describing the failed check
+   */
+  private assertSimulatedDeposit(
+    simulation: DryRunTransactionBlockResponse,
+    pool: Pool,
+    minLiquidity: bigint
+  ): void {
+    const added = this.getAddedAmounts(simulation.events);
+    if (!added) {
+      throw new Error('Pre-flight check failed: simulation is missing the AddLiquidityEvent');
+    }
+    
+    if (BigInt(added.liquidity) < minLiquidity) {
+      throw new Error(
+        `Pre-flight check failed: simulated liquidity ${added.liquidity} is below minimum ${minLiquidity}`
+      );
+    }
+    
+    const walletChanges = getOwnerBalanceChanges(
+      simulation.balanceChanges,
+      this.suiClient.getAddress()
+    );
+    const gasCost = getTotalGasCost(simulation.effects.gasUsed);
+    const sui = normalizeStructTag(SUI_TYPE_ARG);
+    
+    for (const coinType of [pool.coinTypeA, pool.coinTypeB]) {
+      const change = getBalanceChange(walletChanges, coinType);
+      const delta = normalizeStructTag(coinType) === sui ? change + gasCost : change;
+      if (delta < BigInt(0)) {
+        throw new Error(`Pre-flight check failed: wallet would pay ${-delta} of ${coinType}`);
+      }
+    }
+    
+    logger.info(
+      `Pre-flight: adding A=${added.amountA}, B=${added.amountB}, liquidity=${added.liquidity}`
+    );
+  }
+  
+  private getAddedAmounts(events: SuiEvent[] | null | undefined): CompoundResult['added'] {
+    const event = findEvent(events, '::pool::AddLiquidityEvent');
+    if (!event) {
+      return null;
+    }
+    
+    const data = event.parsedJson as { amount_a: string; amount_b: string; liquidity: string };
+    return { amountA: data.amount_a, amountB: data.amount_b, liquidity: data.liquidity };
+  }
+  
+  private async buildCompoundPTB(
+    pool: Pool,
+    position: Position,
+    rewardPlan: RewardPlan,
+    swapPlan: SwapPlan,
+    swapLimits: SwapLimits | null,
+    addLiquidityPlan: AddLiquidityPlan
+  ): Promise<Transaction> {
+    const ptb = new Transaction();
+    ptb.setSender(this.suiClient.getAddress());
+    
+    const { packageId, globalConfigId } = this.cetusService.getContracts();
+    
+    const [normalizedCoinTypeA, normalizedCoinTypeB] = normalizeTypeArguments([
+      pool.coinTypeA,
+      pool.coinTypeB,
+    ]);
+    if (!validateTypeArguments([normalizedCoinTypeA, normalizedCoinTypeB])) {
+      throw new Error('Type argument normalization validation failed');
+    }
+    
+    const coinA = coinWithBalance({ type: normalizedCoinTypeA, balance: 0 })(ptb);
+    const coinB = coinWithBalance({ type: normalizedCoinTypeB, balance: 0 })(ptb);
+    
+    // Step 1: Collect fees (pool_script_v3 merges them into the given coins)
+    ptb.moveCall({
+      target: `${packageId}::pool_script_v3::collect_fee`,
+      typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
+      arguments: [
+        ptb.object(globalConfigId),
+        ptb.object(pool.id),
+        ptb.object(position.id),
+        coinA,
+        coinB,
+      ],
+    });
+    
+    // Step 2: Claim rewards into coin A and B or the wallet
+    this.rewardService.addRewardCollection(
+      ptb,
+      pool,
+      position.id,
+      rewardPlan,
+      coinA,
+      coinB,
+      this.suiClient.getAddress()
+    );
+    
+    // Step 3: Swap to the range ratio
+    const { coinA: finalCoinA, coinB: finalCoinB } = addSwapIfNeeded(
+      ptb,
+      pool,
+      swapPlan,
+      swapLimits,
+      coinA,
+      coinB,
+      packageId,
+      globalConfigId,
+      normalizedCoinTypeA,
+      normalizedCoinTypeB
+    );
+    
+    // Step 4: Add liquidity to the existing position; any surplus is refunded
+    ptb.moveCall({
+      target: `${packageId}::pool_script_v2::add_liquidity_by_fix_coin`,
+      typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
+      arguments: [
+        ptb.object(globalConfigId),
+        ptb.object(pool.id),
+        ptb.object(position.id),
+        finalCoinA,
+        finalCoinB,
+        ptb.pure.u64(addLiquidityPlan.amountA.toString()),
+        ptb.pure.u64(addLiquidityPlan.amountB.toString()),
+        ptb.pure.bool(addLiquidityPlan.fixAmountA), // fix_amount_a
+        ptb.object(SUI_CLOCK_OBJECT_ID),
+      ],
+    });
+    
+    return ptb;
+  }
+}
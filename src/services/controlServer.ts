@@ -0,0 +1,219 @@
+import http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { BotConfig, RebalanceOptions } from '../types';
+import { logger } from '../utils/logger';
+import { RebalancingBot } from './rebalancingBot';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+class HttpError extends Error {
+  readonly statusCode: number;
+  
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Authenticated HTTP API for operating a running RebalancingBot
+ *
+ * GET  /status     latest monitor reports and bot state
+ * GET  /accounting PnL and recorded transactions per position; query
+ *                  parameters (optional): position, since (ms timestamp)
+ * POST /pause      stop the periodic checks
+ * POST /resume     restart the periodic checks
+ * POST /rebalance  rebalance now; JSON body (all optional):
+ *                  { position, tickLower, tickUpper, dryRun, force }
+ *
+ * Every request needs `Authorization: Bearer <CONTROL_API_TOKEN>`.
+ * Disabled unless CONTROL_API_PORT is set.
+ */
+export class ControlServer {
+  private config: BotConfig;
+  private bot: RebalancingBot;
+  private server: http.Server | null = null;
+  
+  constructor(config: BotConfig, bot: RebalancingBot) {
+    this.config = config;
+    this.bot = bot;
+  }
+  
+  start(): void {
+    if (this.config.controlApiPort === 0 || this.server) {
+      return;
+    }
+    
+    this.server = http.createServer((req, res) => {
+      this.handle(req)
+        .then((body) => this.send(res, 200, body))
+        .catch((error: Error) => {
+          const statusCode = error instanceof HttpError ? error.statusCode : 500;
+          if (statusCode === 500) {
+            logger.error('Control API request failed', error);
+          }
+          this.send(res, statusCode, { error: error.message });
+        });
+    });
+    
+    this.server.on('error', (error) => {
+      logger.error('Control API server error', error);
+    });
+    
+    this.server.listen(this.config.controlApiPort, this.config.controlApiHost, () => {
+      logger.info(
+        `Control API listening on http://${this.config.controlApiHost}:${this.config.controlApiPort}`
+      );
+    });
+  }
+  
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+  
+  private async handle(req: http.IncomingMessage): Promise<unknown> {
+    if (!this.isAuthorized(req.headers.authorization)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+    
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    
+    switch (route) {
+      case 'GET /status':
+        return this.bot.getStatus();
+      
+      case 'GET /accounting':
+        return this.parseAccountingQuery(url.searchParams);
+      
+      case 'POST /pause': {
+        logger.warn('Control API: pause requested');
+        const changed = this.bot.pause();
+        return { changed, paused: this.bot.getStatus().paused };
+      }
+      
+      case 'POST /resume': {
+        logger.info('Control API: resume requested');
+        const changed = this.bot.resume();
+        return { changed, paused: this.bot.getStatus().paused };
+      }
+      
+      case 'POST /rebalance': {
+        const body = await this.readJson(req);
+        const { position, options } = this.parseRebalanceRequest(body);
+        logger.warn(`Control API: rebalance requested for ${position ?? 'the only position'}`);
+        
+        const result = await this.bot.rebalanceNow(position, options);
+        return { skipped: result === null, result };
+      }
+      
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+  
+  private isAuthorized(header: string | undefined): boolean {
+    const expected = Buffer.from(`Bearer ${this.config.controlApiToken}`);
+    const actual = Buffer.from(header ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+  
+  private parseAccountingQuery(params: URLSearchParams): unknown {
+    const position = params.get('position') ?? undefined;
+    const since = params.get('since');
+    
+    if (position !== undefined && !this.bot.getPositionNames().includes(position)) {
+      throw new HttpError(404, `Unknown position "${position}"`);
+    }
+    if (since !== null && !/^\d+$/.test(since)) {
+      throw new HttpError(400, 'since must be a timestamp in milliseconds');
+    }
+    
+    return { positions: this.bot.getAccounting(position, since === null ? 0 : Number(since)) };
+  }
+  
+  private parseRebalanceRequest(body: Record<string, unknown>): {
+    position: string | undefined;
+    options: RebalanceOptions;
+  } {
+    const { position, tickLower, tickUpper, dryRun, force } = body;
+    const names = this.bot.getPositionNames();
+    
+    if (position !== undefined && typeof position !== 'string') {
+      throw new HttpError(400, 'position must be a string');
+    }
+    if (position !== undefined && !names.includes(position)) {
+      throw new HttpError(404, `Unknown position "${position}"`);
+    }
+    if (position === undefined && names.length > 1) {
+      throw new HttpError(400, 'position is required when several positions are managed');
+    }
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      throw new HttpError(400, 'dryRun must be a boolean');
+    }
+    if (force !== undefined && typeof force !== 'boolean') {
+      throw new HttpError(400, 'force must be a boolean');
+    }
+    
+    const options: RebalanceOptions = { dryRun, force };
+    
+    if (tickLower !== undefined || tickUpper !== undefined) {
+      if (!Number.isInteger(tickLower) || !Number.isInteger(tickUpper)) {
+        throw new HttpError(400, 'tickLower and tickUpper must both be integers');
+      }
+      if ((tickLower as number) >= (tickUpper as number)) {
+        throw new HttpError(400, 'tickLower must be below tickUpper');
+      }
+      options.range = { tickLower: tickLower as number, tickUpper: tickUpper as number };
+    }
+    
+    return { position, options };
+  }
+  
+  private readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8').trim();
+        if (!text) {
+          resolve({});
+          return;
+        }
+        
+        try {
+          const parsed = JSON.parse(text);
+          if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            reject(new HttpError(400, 'Request body must be a JSON object'));
+            return;
+          }
+          resolve(parsed);
+        } catch {
+          reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+      });
+      
+      req.on('error', reject);
+    });
+  }
+  
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
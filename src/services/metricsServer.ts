@@ -0,0 +1,51 @@
+import http from 'http';
+import { BotConfig } from '../types';
+import { logger } from '../utils/logger';
+import { metricsRegistry } from '../utils/metrics';
+
+/**
+ * Serves the metrics registry at GET /metrics for Prometheus to scrape
+ * Disabled unless METRICS_PORT is set.
+ */
+export class MetricsServer {
+  private config: BotConfig;
+  private server: http.Server | null = null;
+  
+  constructor(config: BotConfig) {
+    this.config = config;
+  }
+  
+  start(): void {
+    if (this.config.metricsPort === 0 || this.server) {
+      return;
+    }
+    
+    this.server = http.createServer((req, res) => {
+      if (req.method === 'GET' && req.url?.split('?')[0] === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(metricsRegistry.render());
+        return;
+      }
+      
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+    });
+    
+    this.server.on('error', (error) => {
+      logger.error('Metrics server error', error);
+    });
+    
+    this.server.listen(this.config.metricsPort, this.config.metricsHost, () => {
+      logger.info(
+        `Metrics available at http://${this.config.metricsHost}:${this.config.metricsPort}/metrics`
+      );
+    });
+  }
+  
+  stop(): void {
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+}
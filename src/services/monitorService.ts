@@ -1,13 +1,28 @@
-import { CetusService } from './cetusService';
-import { BotConfig, Pool, Position } from '../types';
+import { PoolReader } from './cetusService';
+import { BotConfig, Pool, Position, PositionAccounting, PositionValuation, TickRange } from '../types';
 import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { RangeStrategy } from '../strategies';
+import { TickHistory } from './tickHistory';
+import { AccountingLedger } from './accountingLedger';
+import { calculatePositionAccounting } from '../utils/accounting';
+import { PriceService } from '../pricing';
 import {
   isTickInRange,
   calculatePriceDeviation,
-  calculateTickRange,
+  getAmountsForLiquidity,
+  tickToSqrtPrice,
 } from '../utils/tickMath';
+import {
+  formatNumber,
+  formatRangePrices,
+  formatUsd,
+  toHumanAmount,
+  valuePosition,
+} from '../utils/valuation';
 
 export interface MonitorReport {
+  positionName: string;
   timestamp: number;
   pool: Pool;
   position: Position;
@@ -20,23 +35,48 @@ export interface MonitorReport {
   };
   shouldRebalance: boolean;
   reason: string;
+  /** Lifetime PnL in raw coin B units; null if it could not be computed */
+  accounting: PositionAccounting | null;
+  /** The position in whole coins and prices; null without coin metadata */
+  valuation: PositionValuation | null;
 }
 
 export class MonitorService {
-  private cetusService: CetusService;
+  private cetusService: PoolReader;
   private config: BotConfig;
+  private positionName: string;
+  private strategy: RangeStrategy;
+  private tickHistory: TickHistory;
+  private ledger: AccountingLedger;
+  private priceService: PriceService;
   
-  constructor(cetusService: CetusService, config: BotConfig) {
+  constructor(
+    cetusService: PoolReader,
+    config: BotConfig,
+    positionName: string,
+    strategy: RangeStrategy,
+    tickHistory: TickHistory,
+    ledger: AccountingLedger,
+    priceService: PriceService
+  ) {
     this.cetusService = cetusService;
     this.config = config;
+    this.positionName = positionName;
+    this.strategy = strategy;
+    this.tickHistory = tickHistory;
+    this.ledger = ledger;
+    this.priceService = priceService;
   }
   
-  async generateReport(): Promise<MonitorReport> {
+  async generateReport(positionId: string): Promise<MonitorReport> {
     const [pool, position] = await Promise.all([
-      this.cetusService.getPool(),
-      this.cetusService.getPosition(),
+      this.cetusService.getPool(this.config.poolId),
+      this.cetusService.getPosition(positionId),
     ]);
     
+    // Every report contributes a sample to the pool's rolling tick history
+    this.tickHistory.record(pool.id, pool.currentTick);
+    
     const inRange = isTickInRange(
       pool.currentTick,
       position.tickLower,
@@ -49,26 +89,23 @@ export class MonitorService {
       position.tickUpper
     );
     
-    const suggestedNewRange = calculateTickRange(
-      pool.currentTick,
-      this.config.rangeWidthPercent,
-      pool.tickSpacing
-    );
-    
-    // Determine if rebalancing should happen
-    let shouldRebalance = false;
-    let reason = 'Position is in range';
-    
-    if (!inRange) {
-      if (Math.abs(deviation) >= this.config.rebalanceThresholdPercent) {
-        shouldRebalance = true;
-        reason = `Price moved ${deviation.toFixed(2)}% outside range (threshold: ${this.config.rebalanceThresholdPercent}%)`;
-      } else {
-        reason = `Price out of range but deviation ${deviation.toFixed(2)}% below threshold ${this.config.rebalanceThresholdPercent}%`;
-      }
-    }
+    // The range strategy decides both the suggested range and whether
+    // moving the position is warranted
+    const context = {
+      pool,
+      position,
+      config: this.config,
+      tickHistory: this.tickHistory.getSamples(pool.id),
+    };
+    const suggestedNewRange = this.strategy.computeRange(context);
+    const { shouldRebalance, reason } = this.strategy.shouldRebalance(context);
+    const [accounting, valuation] = await Promise.all([
+      this.getAccounting(pool, position),
+      this.getValuation(pool, position),
+    ]);
     
     const report: MonitorReport = {
+      positionName: this.positionName,
       timestamp: Date.now(),
       pool,
       position,
@@ -78,24 +115,126 @@ export class MonitorService {
       suggestedNewRange,
       shouldRebalance,
       reason,
+      accounting,
+      valuation,
     };
     
     this.logReport(report);
+    this.recordMetrics(report);
     
     return report;
   }
   
+  /**
+   * Values the position against its accounting baseline, recording the
+   * baseline on first sight. Failures only leave the report without
+   * accounting, so they never block monitoring or rebalancing.
+   */
+  private async getAccounting(pool: Pool, position: Position): Promise<PositionAccounting | null> {
+    try {
+      const pending = await this.cetusService.getPendingCollection(pool, position.id);
+      const amounts = getAmountsForLiquidity(
+        BigInt(pool.currentSqrtPrice),
+        tickToSqrtPrice(position.tickLower),
+        tickToSqrtPrice(position.tickUpper),
+        BigInt(position.liquidity)
+      );
+      
+      const ledger = this.ledger.ensureBaseline(this.config.positionId, {
+        at: Date.now(),
+        positionId: position.id,
+        amountA: amounts.amountA.toString(),
+        amountB: amounts.amountB.toString(),
+        pendingFeeA: pending.feeA.toString(),
+        pendingFeeB: pending.feeB.toString(),
+        sqrtPrice: pool.currentSqrtPrice,
+      });
+      
+      return calculatePositionAccounting(
+        pool,
+        ledger.baseline,
+        ledger.entries.map((entry) => entry.flows),
+        { ...amounts, pendingFeeA: pending.feeA, pendingFeeB: pending.feeB }
+      );
+    } catch (error) {
+      logger.warn(`Accounting unavailable for ${this.positionName}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Expresses the position in whole coins, and in USD when a price source
+   * knows either coin. Like accounting, failures only leave it out of the
+   * report.
+   */
+  private async getValuation(pool: Pool, position: Position): Promise<PositionValuation | null> {
+    try {
+      const [coinA, coinB] = await Promise.all([
+        this.cetusService.getCoinMetadata(pool.coinTypeA),
+        this.cetusService.getCoinMetadata(pool.coinTypeB),
+      ]);
+      const [usdPriceA, usdPriceB] = await Promise.all([
+        this.priceService.getUsdPrice(coinA),
+        this.priceService.getUsdPrice(coinB),
+      ]);
+      return valuePosition(pool, position, coinA, coinB, usdPriceA, usdPriceB);
+    } catch (error) {
+      logger.warn(`Valuation unavailable for ${this.positionName}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+  
+  private recordMetrics(report: MonitorReport): void {
+    const labels = { position: report.positionName };
+    metrics.positionCurrentTick.set(labels, report.currentTick);
+    metrics.positionTickLower.set(labels, report.position.tickLower);
+    metrics.positionTickUpper.set(labels, report.position.tickUpper);
+    metrics.positionInRange.set(labels, report.isInRange ? 1 : 0);
+    metrics.positionPriceDeviation.set(labels, report.priceDeviation);
+    metrics.lastCheckTimestamp.set(labels, Math.floor(report.timestamp / 1000));
+    if (report.valuation && report.valuation.valueUsd !== null) {
+      metrics.positionValueUsd.set(labels, report.valuation.valueUsd);
+    }
+  }
+  
   private logReport(report: MonitorReport): void {
-    logger.info('=== Position Monitor Report ===');
+    const { valuation } = report;
+    const prices = (range: TickRange): string => {
+      if (!valuation) {
+        return '';
+      }
+      return ` (${formatRangePrices(range, valuation.coinA, valuation.coinB)})`;
+    };
+    
+    logger.info(`=== Position Monitor Report: ${report.positionName} ===`);
     logger.info(`Pool: ${report.pool.id}`);
     logger.info(`Position: ${report.position.id}`);
-    logger.info(`Current Tick: ${report.currentTick}`);
-    logger.info(`Position Range: [${report.position.tickLower}, ${report.position.tickUpper}]`);
+    if (valuation) {
+      const { coinA, coinB } = valuation;
+      logger.info(
+        `Current Tick: ${report.currentTick} (1 ${coinA.symbol} = ${formatNumber(valuation.price)} ${coinB.symbol})`
+      );
+    } else {
+      logger.info(`Current Tick: ${report.currentTick}`);
+    }
+    logger.info(`Position Range: [${report.position.tickLower}, ${report.position.tickUpper}]${prices(report.position)}`);
     logger.info(`In Range: ${report.isInRange ? 'YES' : 'NO'}`);
     
-    if (!report.isInRange) {
+    if (valuation) {
+      const { coinA, coinB } = valuation;
+      const usd = valuation.valueUsd !== null ? ` (${formatUsd(valuation.valueUsd)})` : '';
+      logger.info(
+        `Holdings: ${formatNumber(valuation.amountA)} ${coinA.symbol} + ${formatNumber(valuation.amountB)} ${coinB.symbol}, ` +
+        `worth ${formatNumber(valuation.value)} ${coinB.symbol}${usd}`
+      );
+    }
+    
+    if (!report.isInRange || report.shouldRebalance) {
       logger.warn(`Price Deviation: ${report.priceDeviation.toFixed(2)}%`);
-      logger.warn(`Suggested New Range: [${report.suggestedNewRange.tickLower}, ${report.suggestedNewRange.tickUpper}]`);
+      logger.warn(
+        `Suggested New Range: [${report.suggestedNewRange.tickLower}, ${report.suggestedNewRange.tickUpper}]` +
+        prices(report.suggestedNewRange)
+      );
       
       if (report.shouldRebalance) {
         logger.error(`ALERT: ${report.reason}`);
@@ -107,6 +246,25 @@ export class MonitorService {
       logger.info('Position is healthy');
     }
     
+    if (report.accounting) {
+      const { accounting } = report;
+      // Accounting is in raw coin B; with metadata it is shown in whole coin B
+      const unit = valuation ? valuation.coinB.symbol : 'coin B units';
+      const format = (value: number): string =>
+        valuation ? formatNumber(toHumanAmount(value, valuation.coinB.decimals)) : value.toFixed(0);
+      
+      logger.info(
+        `PnL (${unit}): total ${format(accounting.totalPnl)} ` +
+        `(realized ${format(accounting.realizedPnl)}, unrealized ${format(accounting.unrealizedPnl)}), ` +
+        `vs HODL ${format(accounting.pnlVsHodl)}`
+      );
+      logger.info(
+        `Income: fees ${format(accounting.feeIncome)}, rewards ${format(accounting.rewardIncome)}; ` +
+        `costs: gas ${format(accounting.gasCost)}, swaps ${format(accounting.swapCost)}; ` +
+        `IL ${format(accounting.impermanentLoss)} (${accounting.impermanentLossPercent.toFixed(2)}%)`
+      );
+    }
+    
     logger.info('===============================');
   }
 }
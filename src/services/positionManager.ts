@@ -0,0 +1,434 @@
+import {
+  BotConfig,
+  CompoundResult,
+  PositionEntryConfig,
+  RebalanceOptions,
+  RebalanceResult,
+  TickRange,
+} from '../types';
+import { resolvePositionConfig } from '../config';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { ClassifiedError } from '../utils/errors';
+import { createRangeStrategy } from '../strategies';
+import { GasPriceExceededError, TransactionExecutor } from './suiClient';
+import { PoolReader } from './cetusService';
+import { MonitorService, MonitorReport } from './monitorService';
+import { RebalanceService } from './rebalanceService';
+import { CompoundService } from './compoundService';
+import { StateStore } from './stateStore';
+import { AccountingLedger, LedgerEntry, PositionLedger } from './accountingLedger';
+import { TickHistory } from './tickHistory';
+import { RebalanceGuard } from './rebalanceGuard';
+import { PriceGuard } from './priceGuard';
+import { NotificationService } from '../notifications';
+import { PriceService, createPriceOracle } from '../pricing';
+
+function formatRange(range: TickRange): string {
+  return `[${range.tickLower}, ${range.tickUpper}]`;
+}
+
+/**
+ * Monitors and rebalances a single configured position
+ *
+ * The bots create one manager per portfolio entry. Each manager has its own
+ * effective config and report, so one position failing never stops the
+ * others from being checked.
+ */
+export class PositionManager {
+  readonly name: string;
+  private config: BotConfig;
+  private monitorService: MonitorService;
+  private rebalanceService: RebalanceService;
+  private compoundService: CompoundService;
+  private stateStore: StateStore;
+  private ledger: AccountingLedger;
+  private notifier: NotificationService;
+  private guard: RebalanceGuard;
+  private priceGuard: PriceGuard;
+  private lastReport: MonitorReport | null = null;
+  // Out-of-range alerts are sent when the position leaves its range, not on every check
+  private wasInRange: boolean | null = null;
+  // Dry-run compounds are not persisted, but still pace the schedule
+  private lastDryRunCompoundAt: number | null = null;
+  
+  constructor(
+    entry: PositionEntryConfig,
+    config: BotConfig,
+    suiClient: TransactionExecutor,
+    cetusService: PoolReader,
+    stateStore: StateStore,
+    ledger: AccountingLedger,
+    tickHistory: TickHistory,
+    notifier: NotificationService,
+    priceService: PriceService
+  ) {
+    this.name = entry.name;
+    this.config = resolvePositionConfig(config, entry);
+    this.stateStore = stateStore;
+    this.ledger = ledger;
+    this.notifier = notifier;
+    this.guard = new RebalanceGuard(this.config, stateStore);
+    this.priceGuard = new PriceGuard(
+      this.config.priceGuard,
+      tickHistory,
+      cetusService,
+      createPriceOracle(this.config.priceGuard.oracleFile)
+    );
+    
+    const strategy = createRangeStrategy(this.config);
+    this.monitorService = new MonitorService(
+      cetusService,
+      this.config,
+      entry.name,
+      strategy,
+      tickHistory,
+      ledger,
+      priceService
+    );
+    this.rebalanceService = new RebalanceService(
+      suiClient,
+      cetusService,
+      this.config,
+      strategy,
+      tickHistory
+    );
+    this.compoundService = new CompoundService(suiClient, cetusService, this.config);
+  }
+  
+  getConfig(): BotConfig {
+    return this.config;
+  }
+  
+  getLastReport(): MonitorReport | null {
+    return this.lastReport;
+  }
+  
+  /**
+   * The position currently held for this entry. Rebalances replace the
+   * position NFT, so this can differ from the configured position ID.
+   */
+  getActivePositionId(): string {
+    return this.stateStore.getActivePositionId(this.config.positionId);
+  }
+  
+  /**
+   * Accounting baseline and the transactions recorded since the given time
+   */
+  getAccountingHistory(since: number = 0): PositionLedger | null {
+    const ledger = this.ledger.get(this.config.positionId);
+    if (!ledger) {
+      return null;
+    }
+    return {
+      baseline: ledger.baseline,
+      entries: this.ledger.getEntries(this.config.positionId, since),
+    };
+  }
+  
+  async checkPosition(): Promise<MonitorReport> {
+    const report = await this.monitorService.generateReport(this.getActivePositionId());
+    this.lastReport = report;
+    
+    if (!report.isInRange && this.wasInRange !== false) {
+      this.notifier.notify({
+        event: 'out_of_range',
+        position: this.name,
+        title: `${this.name}: position out of range`,
+        message: report.reason,
+        details: {
+          positionId: report.position.id,
+          currentTick: report.currentTick,
+          range: formatRange(report.position),
+          deviationPercent: Number(report.priceDeviation.toFixed(2)),
+          shouldRebalance: report.shouldRebalance,
+        },
+      });
+    }
+    this.wasInRange = report.isInRange;
+    
+    return report;
+  }
+  
+  async checkAndRebalance(): Promise<void> {
+    logger.info(`=== Checking position: ${this.name} ===`);
+    
+    // Generate report
+    const report = await this.checkPosition();
+    
+    // Check if rebalancing is needed (decided by the range strategy)
+    this.guard.recordCheck(report);
+    
+    if (!report.shouldRebalance) {
+      logger.info(`[${this.name}] No rebalancing needed: ${report.reason}`);
+      
+      // Fees are only reinvested into a range that is earning
+      if (report.isInRange && this.compoundService.isEnabled()) {
+        await this.compound(report);
+      }
+      return;
+    }
+    
+    logger.warn(`⚠️  [${this.name}] REBALANCING TRIGGERED`);
+    logger.warn(`Reason: ${report.reason}`);
+    logger.warn(`Deviation: ${report.priceDeviation.toFixed(2)}%`);
+    
+    const guardDecision = this.guard.check(!report.isInRange);
+    if (!guardDecision.allowed) {
+      metrics.rebalances.inc({ position: this.name, result: 'blocked' });
+      logger.warn(`[${this.name}] Rebalance held back: ${guardDecision.reason}`);
+      return;
+    }
+    
+    const priceDecision = await this.priceGuard.check(report.pool);
+    if (!priceDecision.allowed) {
+      metrics.rebalances.inc({ position: this.name, result: 'blocked' });
+      logger.warn(`[${this.name}] Rebalance refused by the price guard: ${priceDecision.reason}`);
+      return;
+    }
+    if (this.priceGuard.isEnabled()) {
+      logger.info(`[${this.name}] Price guard: ${priceDecision.reason}`);
+    }
+    
+    await this.rebalance(report);
+  }
+  
+  /**
+   * Rebalances immediately, whatever the strategy decides
+   * Used for operator-requested rebalances from the control API.
+   */
+  async rebalanceNow(options: RebalanceOptions = {}): Promise<RebalanceResult | null> {
+    logger.warn(`⚠️  [${this.name}] MANUAL REBALANCE REQUESTED`);
+    
+    const report = await this.checkPosition();
+    
+    if (!options.force) {
+      const guardDecision = this.guard.check(false);
+      if (!guardDecision.allowed) {
+        throw new Error(`Rebalance held back: ${guardDecision.reason}`);
+      }
+      
+      const priceDecision = await this.priceGuard.check(report.pool);
+      if (!priceDecision.allowed) {
+        throw new Error(`Rebalance refused by the price guard: ${priceDecision.reason}`);
+      }
+    }
+    
+    return await this.rebalance(report, options);
+  }
+  
+  private async rebalance(
+    report: MonitorReport,
+    options: RebalanceOptions = {}
+  ): Promise<RebalanceResult | null> {
+    // Execute atomic rebalance
+    let result;
+    try {
+      result = await this.rebalanceService.rebalance(report.pool, report.position, options);
+    } catch (error) {
+      metrics.rebalances.inc({ position: this.name, result: 'failed' });
+      this.recordFailedGas(error);
+      this.notifyFailure(report, error as Error);
+      throw error;
+    }
+    
+    if (!result) {
+      // Skipped by the profitability check; the reason is already logged
+      metrics.rebalances.inc({ position: this.name, result: 'skipped' });
+      return null;
+    }
+    
+    if (result.dryRun) {
+      // Nothing was signed, so the current position is still the active one
+      metrics.rebalances.inc({ position: this.name, result: 'dry_run' });
+      logger.info(`[${this.name}] Dry run complete - no transaction executed`);
+      return result;
+    }
+    
+    metrics.rebalances.inc({ position: this.name, result: 'success' });
+    
+    // The old position NFT is closed by the rebalance, so from now on the
+    // bot must manage the newly opened one. Saved before anything else so a
+    // failed write below cannot leave the bot on the closed NFT.
+    if (result.newPositionId) {
+      this.stateStore.recordRebalance(
+        this.config.positionId,
+        result.oldPositionId,
+        result.newPositionId,
+        result.digest
+      );
+    } else {
+      logger.error(
+        `[${this.name}] Rebalance ${result.digest} succeeded but the new position ID is unknown. ` +
+        'Update the configured position ID manually before restarting.'
+      );
+    }
+    
+    this.stateStore.recordRebalanceCost(
+      this.config.positionId,
+      result.digest,
+      BigInt(result.gasCostMist ?? '0')
+    );
+    if (result.flows) {
+      this.recordLedgerEntry({
+        at: Date.now(),
+        kind: 'rebalance',
+        digest: result.digest,
+        positionId: result.newPositionId ?? result.oldPositionId,
+        flows: result.flows,
+      });
+    }
+    
+    this.notifier.notify({
+      event: 'rebalance_succeeded',
+      position: this.name,
+      title: `${this.name}: rebalanced`,
+      message: `Moved from ${formatRange(result.oldRange)} to ${formatRange(result.newRange)}`,
+      details: {
+        digest: result.digest,
+        oldPositionId: result.oldPositionId,
+        newPositionId: result.newPositionId,
+        oldRange: formatRange(result.oldRange),
+        newRange: formatRange(result.newRange),
+        removedA: result.amounts?.removedA ?? null,
+        removedB: result.amounts?.removedB ?? null,
+        addedA: result.amounts?.addedA ?? null,
+        addedB: result.amounts?.addedB ?? null,
+      },
+    });
+    
+    logger.info(`✅ [${this.name}] Rebalance completed successfully`);
+    return result;
+  }
+  
+  private async compound(report: MonitorReport): Promise<CompoundResult | null> {
+    let result;
+    try {
+      result = await this.compoundService.compound(
+        report.pool,
+        report.position,
+        this.lastDryRunCompoundAt ?? this.stateStore.getLastCompoundAt(this.config.positionId)
+      );
+    } catch (error) {
+      metrics.compounds.inc({ position: this.name, result: 'failed' });
+      this.recordFailedGas(error);
+      throw error;
+    }
+    
+    if (!result) {
+      return null;
+    }
+    
+    if (result.dryRun) {
+      metrics.compounds.inc({ position: this.name, result: 'dry_run' });
+      this.lastDryRunCompoundAt = Date.now();
+      logger.info(`[${this.name}] Compound dry run complete - no transaction executed`);
+      return result;
+    }
+    
+    metrics.compounds.inc({ position: this.name, result: 'success' });
+    this.stateStore.recordCompound(
+      this.config.positionId,
+      result.digest,
+      BigInt(result.gasCostMist ?? '0')
+    );
+    if (result.flows) {
+      this.recordLedgerEntry({
+        at: Date.now(),
+        kind: 'compound',
+        digest: result.digest,
+        positionId: result.positionId,
+        flows: result.flows,
+      });
+    }
+    
+    logger.info(
+      `✅ [${this.name}] Compounded A=${result.added?.amountA ?? '?'}, B=${result.added?.amountB ?? '?'} ` +
+      `into ${formatRange(report.position)}`
+    );
+    return result;
+  }
+  
+  /**
+   * Appends to the accounting ledger; best-effort, as the transaction has
+   * already executed and the ledger only feeds reports
+   */
+  private recordLedgerEntry(entry: LedgerEntry): void {
+    try {
+      this.ledger.record(this.config.positionId, entry);
+    } catch (error) {
+      logger.error(
+        `[${this.name}] Failed to record ${entry.kind} ${entry.digest} in the ledger: ${(error as Error).message}`
+      );
+    }
+  }
+  
+  /**
+   * Counts gas paid by a transaction that failed on chain toward the daily
+   * gas budget
+   */
+  private recordFailedGas(error: unknown): void {
+    if (!(error instanceof ClassifiedError) || error.gasCostMist === undefined) {
+      return;
+    }
+    logger.warn(`[${this.name}] Failed transaction ${error.digest} paid ${error.gasCostMist} MIST of gas`);
+    this.stateStore.recordGasCost(this.config.positionId, error.digest ?? '', error.gasCostMist);
+  }
+  
+  private notifyFailure(report: MonitorReport, error: Error): void {
+    if (error instanceof GasPriceExceededError) {
+      this.notifier.notify({
+        event: 'gas_price_exceeded',
+        position: this.name,
+        title: `${this.name}: rebalance postponed, gas price too high`,
+        message: error.message,
+        details: {
+          gasPrice: error.gasPrice.toString(),
+          maxGasPrice: error.maxGasPrice,
+          currentTick: report.currentTick,
+          range: formatRange(report.position),
+        },
+      });
+      return;
+    }
+    
+    this.notifier.notify({
+      event: 'rebalance_failed',
+      position: this.name,
+      title: `${this.name}: rebalance failed`,
+      message: error.message,
+      details: {
+        positionId: report.position.id,
+        currentTick: report.currentTick,
+        range: formatRange(report.position),
+        suggestedRange: formatRange(report.suggestedNewRange),
+      },
+    });
+  }
+}
+
+export function createPositionManagers(
+  config: BotConfig,
+  suiClient: TransactionExecutor,
+  cetusService: PoolReader,
+  stateStore: StateStore,
+  ledger: AccountingLedger,
+  tickHistory: TickHistory,
+  notifier: NotificationService,
+  priceService: PriceService
+): PositionManager[] {
+  return config.positions.map(
+    (entry) =>
+      new PositionManager(
+        entry,
+        config,
+        suiClient,
+        cetusService,
+        stateStore,
+        ledger,
+        tickHistory,
+        notifier,
+        priceService
+      )
+  );
+}
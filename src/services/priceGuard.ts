@@ -0,0 +1,141 @@
+import { PriceGuardConfig, Pool } from '../types';
+import { PriceOracle } from '../pricing';
+import { sqrtPriceToPrice } from '../utils/tickMath';
+import { formatNumber } from '../utils/valuation';
+import { PoolReader } from './cetusService';
+import { GuardDecision } from './rebalanceGuard';
+import { TickHistory, TickSample } from './tickHistory';
+
+/**
+ * Time-weighted average tick over [now - windowMs, now]
+ * Each sample holds until the next one, the last until now; the newest
+ * sample, just taken, therefore carries almost no weight.
+ */
+function getTwapTick(samples: TickSample[], windowMs: number, now: number): number | null {
+  const start = now - windowMs;
+  let weightedTicks = 0;
+  let totalWeight = 0;
+  
+  samples.forEach((sample, i) => {
+    const end = i + 1 < samples.length ? samples[i + 1].timestamp : now;
+    const weight = Math.min(end, now) - Math.max(sample.timestamp, start);
+    if (weight > 0) {
+      weightedTicks += sample.tick * weight;
+      totalWeight += weight;
+    }
+  });
+  
+  return totalWeight > 0 ? weightedTicks / totalWeight : null;
+}
+
+/**
+ * Refuses rebalances at a pool price that may have been pushed away briefly
+ *
+ * The spot price is compared with the time-weighted average of the sampled
+ * ticks and, when PRICE_ORACLE_FILE is set, with the oracle's price. Either
+ * gap exceeding PRICE_GUARD_MAX_DEVIATION_PERCENT blocks the rebalance, as
+ * do too few samples or a missing or stale oracle price: the guard fails
+ * closed.
+ */
+export class PriceGuard {
+  private config: PriceGuardConfig;
+  private tickHistory: TickHistory;
+  private cetusService: PoolReader;
+  private oracle: PriceOracle | null;
+  
+  constructor(
+    config: PriceGuardConfig,
+    tickHistory: TickHistory,
+    cetusService: PoolReader,
+    oracle: PriceOracle | null
+  ) {
+    this.config = config;
+    this.tickHistory = tickHistory;
+    this.cetusService = cetusService;
+    this.oracle = oracle;
+  }
+  
+  isEnabled(): boolean {
+    return this.config.maxDeviationPercent > 0;
+  }
+  
+  async check(pool: Pool): Promise<GuardDecision> {
+    if (!this.isEnabled()) {
+      return { allowed: true, reason: 'Price guard disabled' };
+    }
+    
+    const now = Date.now();
+    const { maxDeviationPercent, twapWindowMs, minSamples } = this.config;
+    
+    const samples = this.tickHistory.getSamples(pool.id);
+    const inWindow = samples.filter((sample) => sample.timestamp >= now - twapWindowMs).length;
+    const twapTick = getTwapTick(samples, twapWindowMs, now);
+    if (inWindow < minSamples || twapTick === null) {
+      return {
+        allowed: false,
+        reason: `only ${inWindow} price sample(s) in the last ${twapWindowMs}ms, need ${minSamples}`,
+      };
+    }
+    
+    // Prices are 1.0001^tick, so the tick gap gives the price ratio
+    const twapDeviation = (Math.pow(1.0001, Math.abs(pool.currentTick - twapTick)) - 1) * 100;
+    if (twapDeviation > maxDeviationPercent) {
+      return {
+        allowed: false,
+        reason:
+          `spot tick ${pool.currentTick} is ${twapDeviation.toFixed(2)}% from the TWAP tick ` +
+          `${twapTick.toFixed(0)} (max ${maxDeviationPercent}%)`,
+      };
+    }
+    
+    const deviations = [`TWAP ${twapDeviation.toFixed(2)}%`];
+    if (this.oracle) {
+      const decision = await this.checkOracle(this.oracle, pool, now);
+      if (!decision.allowed) {
+        return decision;
+      }
+      deviations.push(decision.reason);
+    }
+    
+    return {
+      allowed: true,
+      reason: `spot price within ${maxDeviationPercent}% of the reference (${deviations.join(', ')})`,
+    };
+  }
+  
+  private async checkOracle(oracle: PriceOracle, pool: Pool, now: number): Promise<GuardDecision> {
+    let coinA, coinB, reference;
+    try {
+      [coinA, coinB] = await Promise.all([
+        this.cetusService.getCoinMetadata(pool.coinTypeA),
+        this.cetusService.getCoinMetadata(pool.coinTypeB),
+      ]);
+      reference = await oracle.getPrice(coinA, coinB);
+    } catch (error) {
+      return { allowed: false, reason: `${oracle.name} oracle check failed: ${(error as Error).message}` };
+    }
+    
+    if (!reference || !(reference.price > 0)) {
+      return { allowed: false, reason: `${oracle.name} oracle has no ${coinA.symbol}/${coinB.symbol} price` };
+    }
+    if (now - reference.timestamp > this.config.oracleMaxAgeMs) {
+      return {
+        allowed: false,
+        reason: `${oracle.name} oracle price is ${Math.round((now - reference.timestamp) / 1000)}s old`,
+      };
+    }
+    
+    const spot = sqrtPriceToPrice(BigInt(pool.currentSqrtPrice), coinA.decimals, coinB.decimals);
+    const deviation = Math.abs(spot / reference.price - 1) * 100;
+    if (deviation > this.config.maxDeviationPercent) {
+      return {
+        allowed: false,
+        reason:
+          `spot price ${formatNumber(spot)} ${coinB.symbol} per ${coinA.symbol} is ${deviation.toFixed(2)}% ` +
+          `from the ${oracle.name} oracle's ${formatNumber(reference.price)} (max ${this.config.maxDeviationPercent}%)`,
+      };
+    }
+    
+    return { allowed: true, reason: `${oracle.name} oracle ${deviation.toFixed(2)}%` };
+  }
+}
@@ -0,0 +1,151 @@
+import { Transaction } from '@mysten/sui/transactions';
+import { TransactionExecutor } from './suiClient';
+import { PoolReader } from './cetusService';
+import { BotConfig, Pool, Position } from '../types';
+import { logger } from '../utils/logger';
+import { getTotalGasCost } from '../utils/transactionResult';
+import { gasCostInCoinB } from '../utils/accounting';
+import { sqrtPriceX64ToPrice } from '../utils/tickMath';
+import { SwapPlan, estimatePriceImpact } from '../utils/swapMath';
+
+/**
+ * Cost and projected revenue of a rebalance
+ * All values except gasCostMist are in raw coin B units.
+ */
+export interface ProfitabilityEstimate {
+  gasCostMist: bigint;
+  gasSource: 'dry-run' | 'reference-gas-price';
+  gasCost: number;
+  swapFee: number;
+  priceImpact: number;
+  totalCost: number;
+  projectedRevenue: number;
+  profitable: boolean;
+  reason: string;
+}
+
+const FEE_RATE_DENOMINATOR = 1_000_000;
+
+/**
+ * Estimates whether a rebalance pays for itself
+ *
+ * Cost = gas + swap fee + price impact of the swap leg.
+ * Revenue = recent pool volume per ms x PROFITABILITY_HORIZON_MS x fee rate x
+ * the position's share of active liquidity.
+ */
+export class ProfitabilityService {
+  private suiClient: TransactionExecutor;
+  private cetusService: PoolReader;
+  private config: BotConfig;
+  
+  constructor(suiClient: TransactionExecutor, cetusService: PoolReader, config: BotConfig) {
+    this.suiClient = suiClient;
+    this.cetusService = cetusService;
+    this.config = config;
+  }
+  
+  async evaluate(
+    pool: Pool,
+    position: Position,
+    swapPlan: SwapPlan,
+    buildPTB: () => Promise<Transaction>
+  ): Promise<ProfitabilityEstimate> {
+    const price = sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice));
+    
+    // Gas
+    const { gasCostMist, gasSource } = await this.estimateGas(buildPTB);
+    const gasCost = this.gasToCoinB(pool, gasCostMist, price);
+    
+    // Swap fee and price impact
+    const swap = swapPlan.swap;
+    let swapFee = 0;
+    let priceImpact = 0;
+    
+    if (swap) {
+      const swapValue = swap.a2b ? Number(swap.amountIn) * price : Number(swap.amountIn);
+      swapFee = (swapValue * pool.feeRate) / FEE_RATE_DENOMINATOR;
+      priceImpact = swapValue * estimatePriceImpact(
+        BigInt(pool.currentSqrtPrice),
+        BigInt(pool.liquidity),
+        swap.a2b,
+        swap.amountIn
+      );
+    }
+    
+    // Projected fee revenue
+    const volume = await this.cetusService.getRecentSwapVolume(
+      pool.id,
+      this.config.profitabilityLookbackMs,
+      this.config.profitabilityMaxEventPages
+    );
+    const volumeInB = Number(volume.volumeA) * price + Number(volume.volumeB);
+    const volumeRate = volume.spanMs > 0 ? volumeInB / volume.spanMs : 0;
+    
+    const positionLiquidity = Number(position.liquidity);
+    const poolLiquidity = Number(pool.liquidity);
+    const liquidityShare = positionLiquidity > 0
+      ? positionLiquidity / (poolLiquidity + positionLiquidity)
+      : 0;
+    
+    const projectedRevenue =
+      volumeRate *
+      this.config.profitabilityHorizonMs *
+      (pool.feeRate / FEE_RATE_DENOMINATOR) *
+      liquidityShare;
+    
+    const totalCost = gasCost + swapFee + priceImpact;
+    const profitable = projectedRevenue >= totalCost * this.config.minProfitRatio;
+    
+    const reason =
+      `projected fee revenue ${projectedRevenue.toFixed(0)} vs cost ${totalCost.toFixed(0)} ` +
+      `(gas ${gasCost.toFixed(0)}, swap fee ${swapFee.toFixed(0)}, impact ${priceImpact.toFixed(0)}) ` +
+      `in coin B units over ${this.config.profitabilityHorizonMs}ms; ` +
+      `${volume.swapCount} swaps in the last ${volume.spanMs}ms, ` +
+      `liquidity share ${(liquidityShare * 100).toFixed(4)}%, min ratio ${this.config.minProfitRatio}`;
+    
+    return {
+      gasCostMist,
+      gasSource,
+      gasCost,
+      swapFee,
+      priceImpact,
+      totalCost,
+      projectedRevenue,
+      profitable,
+      reason,
+    };
+  }
+  
+  /**
+   * Gas from a dry run of the real PTB, falling back to the reference gas
+   * price times FALLBACK_REBALANCE_GAS_UNITS if the dry run is unavailable
+   */
+  private async estimateGas(
+    buildPTB: () => Promise<Transaction>
+  ): Promise<{ gasCostMist: bigint; gasSource: ProfitabilityEstimate['gasSource'] }> {
+    try {
+      const simulation = await this.suiClient.dryRunTransaction(await buildPTB());
+      if (simulation.effects.status.status === 'success') {
+        return { gasCostMist: getTotalGasCost(simulation.effects.gasUsed), gasSource: 'dry-run' };
+      }
+      logger.warn(`Gas estimate dry run failed: ${simulation.effects.status.error}`);
+    } catch (error) {
+      logger.warn(`Gas estimate dry run failed: ${(error as Error).message}`);
+    }
+    
+    const gasPrice = await this.suiClient.getGasPrice();
+    return {
+      gasCostMist: gasPrice * BigInt(this.config.fallbackRebalanceGasUnits),
+      gasSource: 'reference-gas-price',
+    };
+  }
+  
+  private gasToCoinB(pool: Pool, gasCostMist: bigint, price: number): number {
+    const gasCost = gasCostInCoinB(pool, gasCostMist, price);
+    if (gasCost === null) {
+      logger.warn('Neither pool coin is SUI - gas cannot be valued and is excluded from the cost');
+      return 0;
+    }
+    return gasCost;
+  }
+}
@@ -0,0 +1,127 @@
+import { BotConfig } from '../types';
+import { StateStore } from './stateStore';
+import { MonitorReport } from './monitorService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GuardDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+/**
+ * Limits how often a position may be rebalanced
+ *
+ * - Cooldown: REBALANCE_COOLDOWN_MS since the last rebalance
+ * - Hysteresis: a rebalance for the price leaving the range waits until it
+ *   has stayed out of range for HYSTERESIS_CHECKS consecutive checks or for
+ *   HYSTERESIS_MS, whichever is met first. Rebalances the strategy triggers
+ *   while the price is in range have no out-of-range streak to wait for.
+ * - MAX_REBALANCES_PER_DAY rebalances of this position per rolling 24h
+ * - DAILY_GAS_BUDGET_MIST of gas across all positions per rolling 24h
+ *
+ * Counters live in the state file so restarts cannot reset them.
+ */
+export class RebalanceGuard {
+  private config: BotConfig;
+  private stateStore: StateStore;
+  private key: string;
+  
+  constructor(config: BotConfig, stateStore: StateStore) {
+    this.config = config;
+    this.stateStore = stateStore;
+    this.key = config.positionId;
+  }
+  
+  /**
+   * Updates the out-of-range streak from a monitor report
+   * The state file is written when a streak starts or ends and while its
+   * check count can still decide the hysteresis; past HYSTERESIS_CHECKS only
+   * the start time matters, so longer streaks are counted in memory.
+   */
+  recordCheck(report: MonitorReport): void {
+    const current = this.stateStore.getOutOfRange(this.key);
+    
+    if (report.isInRange) {
+      if (current) {
+        this.stateStore.setOutOfRange(this.key, null);
+      }
+      return;
+    }
+    
+    const checks = (current?.checks ?? 0) + 1;
+    this.stateStore.setOutOfRange(
+      this.key,
+      { since: current?.since ?? report.timestamp, checks },
+      !current || checks <= this.config.hysteresisChecks
+    );
+  }
+  
+  /**
+   * @param includeHysteresis true when the rebalance is driven by the price
+   * leaving the range; false for strategy triggers in range and manual
+   * rebalances
+   */
+  check(includeHysteresis: boolean = true): GuardDecision {
+    const now = Date.now();
+    const recent = this.stateStore.getRebalancesSince(this.key, now - DAY_MS);
+    
+    if (this.config.rebalanceCooldownMs > 0 && recent.length > 0) {
+      const lastAt = Math.max(...recent.map((record) => record.at));
+      const remainingMs = lastAt + this.config.rebalanceCooldownMs - now;
+      if (remainingMs > 0) {
+        return {
+          allowed: false,
+          reason: `cooldown active for another ${Math.ceil(remainingMs / 1000)}s`,
+        };
+      }
+    }
+    
+    if (includeHysteresis && !this.hysteresisSatisfied(now)) {
+      const streak = this.stateStore.getOutOfRange(this.key);
+      return {
+        allowed: false,
+        reason:
+          `out of range for ${streak?.checks ?? 0} check(s) / ` +
+          `${streak ? Math.round((now - streak.since) / 1000) : 0}s; ` +
+          `waiting for ${this.config.hysteresisChecks} checks` +
+          (this.config.hysteresisMs > 0 ? ` or ${this.config.hysteresisMs}ms` : ''),
+      };
+    }
+    
+    if (this.config.maxRebalancesPerDay > 0 && recent.length >= this.config.maxRebalancesPerDay) {
+      return {
+        allowed: false,
+        reason: `${recent.length} rebalances in the last 24h (max ${this.config.maxRebalancesPerDay})`,
+      };
+    }
+    
+    if (this.config.dailyGasBudgetMist > 0) {
+      const spent = this.stateStore.getGasSpentSince(now - DAY_MS);
+      if (spent >= BigInt(this.config.dailyGasBudgetMist)) {
+        return {
+          allowed: false,
+          reason: `${spent} MIST of gas spent in the last 24h (budget ${this.config.dailyGasBudgetMist})`,
+        };
+      }
+    }
+    
+    return { allowed: true, reason: 'Rebalance guards passed' };
+  }
+  
+  private hysteresisSatisfied(now: number): boolean {
+    const { hysteresisChecks, hysteresisMs } = this.config;
+    if (hysteresisChecks <= 1 && hysteresisMs === 0) {
+      return true;
+    }
+    
+    const streak = this.stateStore.getOutOfRange(this.key);
+    if (!streak) {
+      return false;
+    }
+    
+    const byChecks = hysteresisChecks > 1 && streak.checks >= hysteresisChecks;
+    const byTime = hysteresisMs > 0 && now - streak.since >= hysteresisMs;
+    return byChecks || byTime;
+  }
+}
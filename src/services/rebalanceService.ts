@@ -1,112 +1,654 @@
-import { Transaction, TransactionObjectArgument, coinWithBalance } from '@mysten/sui/transactions';
-import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
-import { SuiClientService } from './suiClient';
-import { CetusService } from './cetusService';
-import { BotConfig, Pool, Position } from '../types';
+import { DryRunTransactionBlockResponse, SuiEvent } from '@mysten/sui/client';
+import { Transaction, coinWithBalance } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, SUI_TYPE_ARG, normalizeStructTag } from '@mysten/sui/utils';
+import { TransactionExecutor } from './suiClient';
+import { PoolReader } from './cetusService';
+import {
+  BotConfig,
+  CoinMetadata,
+  DryRunReport,
+  Pool,
+  Position,
+  RebalanceAmounts,
+  RebalanceOptions,
+  RebalanceResult,
+  TickRange,
+} from '../types';
 import { logger } from '../utils/logger';
 import { normalizeTypeArguments, validateTypeArguments } from '../utils/typeArgNormalizer';
 import {
-  calculateTickRange,
+  decodeI32,
+  findCreatedPositionId,
+  findEvent,
+  getBalanceChange,
+  getOwnerBalanceChanges,
+  getTotalGasCost,
+} from '../utils/transactionResult';
+import { extractTransactionFlows } from '../utils/accounting';
+import { RangeStrategy } from '../strategies';
+import { TickHistory } from './tickHistory';
+import { ProfitabilityService } from './profitabilityService';
+import { RewardPlan, RewardService } from './rewardService';
+import {
+  AddLiquidityPlan,
+  SwapLimits,
+  SwapPlan,
+  applySlippage,
+  calculateAddLiquidityPlan,
+  calculateSwapLimits,
+  calculateSwapPlan,
+  calculateSwapPrice,
+  requoteWithoutLiquidity,
+} from '../utils/swapMath';
+import { addSwapIfNeeded } from '../utils/swapTransaction';
+import {
   tickToSqrtPrice,
-  getAmountAFromLiquidity,
-  getAmountBFromLiquidity,
+  getAmountsForLiquidity,
+  sqrtPriceX64ToPrice,
 } from '../utils/tickMath';
+import { formatCoinAmount, formatRangePrices } from '../utils/valuation';
 
 // Fix BigInt JSON serialization
 // @ts-expect-error - Extending BigInt prototype for JSON serialization
 BigInt.prototype.toJSON = function() { return this.toString(); };
 
 export class RebalanceService {
-  private suiClient: SuiClientService;
-  private cetusService: CetusService;
+  private suiClient: TransactionExecutor;
+  private cetusService: PoolReader;
   private config: BotConfig;
+  private strategy: RangeStrategy;
+  private tickHistory: TickHistory;
+  private profitabilityService: ProfitabilityService;
+  private rewardService: RewardService;
   
   constructor(
-    suiClient: SuiClientService,
-    cetusService: CetusService,
-    config: BotConfig
+    suiClient: TransactionExecutor,
+    cetusService: PoolReader,
+    config: BotConfig,
+    strategy: RangeStrategy,
+    tickHistory: TickHistory
   ) {
     this.suiClient = suiClient;
     this.cetusService = cetusService;
     this.config = config;
+    this.strategy = strategy;
+    this.tickHistory = tickHistory;
+    this.profitabilityService = new ProfitabilityService(suiClient, cetusService, config);
+    this.rewardService = new RewardService(cetusService, config);
   }
   
-  async rebalance(pool: Pool, position: Position): Promise<void> {
+  /**
+   * Rebalances a position into the range chosen by the strategy
+   * 
+   * @param options Overrides for a manually requested rebalance
+   * @returns The rebalance result, or null if the rebalance was skipped as
+   * unprofitable (the justification is logged)
+   */
+  async rebalance(
+    pool: Pool,
+    position: Position,
+    options: RebalanceOptions = {}
+  ): Promise<RebalanceResult | null> {
     logger.info('=== Starting Atomic PTB Rebalance ===');
     
     // Pre-execution validation
     await this.suiClient.checkGasPrice();
     
     // Calculate new range with validated tick spacing
-    const newRange = calculateTickRange(
-      pool.currentTick,
-      this.config.rangeWidthPercent,
-      pool.tickSpacing
-    );
+    const newRange = options.range ?? this.strategy.computeRange({
+      pool,
+      position,
+      config: this.config,
+      tickHistory: this.tickHistory.getSamples(pool.id),
+    });
+    const rangeSource = options.range ? 'manual' : `strategy: ${this.strategy.name}`;
+    const coins = await this.getCoinMetadata(pool);
     
     logger.info(`Current tick: ${pool.currentTick}`);
-    logger.info(`Old range: [${position.tickLower}, ${position.tickUpper}]`);
-    logger.info(`New range: [${newRange.tickLower}, ${newRange.tickUpper}]`);
+    logger.info(`Old range: [${position.tickLower}, ${position.tickUpper}]${this.describePrices(position, coins)}`);
+    logger.info(
+      `New range: [${newRange.tickLower}, ${newRange.tickUpper}]${this.describePrices(newRange, coins)} ` +
+      `(${rangeSource})`
+    );
     
     // Validate tick spacing alignment
     if (newRange.tickLower % pool.tickSpacing !== 0 || newRange.tickUpper % pool.tickSpacing !== 0) {
       throw new Error('New range ticks not aligned to tick spacing');
     }
+    if (newRange.tickLower >= newRange.tickUpper) {
+      throw new Error('New range lower tick must be below the upper tick');
+    }
     
     // Calculate expected amounts with slippage protection
     // FIXED: Use bigint arithmetic to avoid precision loss
     const expectedAmounts = this.calculateExpectedAmounts(pool, position);
-    const slippagePercent = BigInt(Math.floor(this.config.maxSlippagePercent * 100)); // Convert to basis points
-    const minAmountA = (expectedAmounts.amountA * (BigInt(10000) - slippagePercent)) / BigInt(10000);
-    const minAmountB = (expectedAmounts.amountB * (BigInt(10000) - slippagePercent)) / BigInt(10000);
+    const minAmountA = this.applySlippage(expectedAmounts.amountA);
+    const minAmountB = this.applySlippage(expectedAmounts.amountB);
     
-    logger.info(`Expected amounts: A=${expectedAmounts.amountA}, B=${expectedAmounts.amountB}`);
-    logger.info(`Min amounts (${this.config.maxSlippagePercent}% slippage): A=${minAmountA}, B=${minAmountB}`);
+    logger.info(
+      `Expected amounts: A=${this.describeAmount(expectedAmounts.amountA, coins?.[0])}, ` +
+      `B=${this.describeAmount(expectedAmounts.amountB, coins?.[1])}`
+    );
+    logger.info(
+      `Min amounts (${this.config.maxSlippagePercent}% slippage): ` +
+      `A=${this.describeAmount(minAmountA, coins?.[0])}, B=${this.describeAmount(minAmountB, coins?.[1])}`
+    );
+    
+    // Rewards are claimed before the position is closed; those that end up in
+    // coin A or B are deposited into the new position with the removed coins
+    const rewardPlan = await this.planRewards(pool, position);
+    const availableA = minAmountA + rewardPlan.amountA;
+    const availableB = minAmountB + rewardPlan.amountB;
+    
+    // The PTB swaps after the old position is removed, so in range the pool
+    // it swaps against is thinner than the one read here
+    const removedLiquidity = this.isActive(pool, position) ? BigInt(position.liquidity) : BigInt(0);
+    const swapPlan = this.planSwap(
+      pool,
+      removedLiquidity,
+      newRange,
+      {
+        amountA: expectedAmounts.amountA + rewardPlan.amountA,
+        amountB: expectedAmounts.amountB + rewardPlan.amountB,
+      },
+      availableA,
+      availableB
+    );
+    const swapLimits = swapPlan.swap
+      ? await this.quoteSwapLimits(pool, removedLiquidity, swapPlan, availableA, availableB)
+      : null;
+    const addLiquidityPlan = this.planAddLiquidity(pool, newRange, swapPlan, swapLimits);
     
     // Build single atomic PTB
-    const ptb = await this.buildRebalancePTB(pool, position, newRange, minAmountA, minAmountB);
+    const buildPTB = () => this.buildRebalancePTB(
+      pool,
+      position,
+      newRange,
+      minAmountA,
+      minAmountB,
+      rewardPlan,
+      swapPlan,
+      swapLimits,
+      addLiquidityPlan
+    );
+    
+    if (this.config.profitabilityCheck && !options.force) {
+      const estimate = await this.profitabilityService.evaluate(
+        pool,
+        position,
+        swapPlan,
+        buildPTB
+      );
+      
+      if (!estimate.profitable) {
+        logger.warn(`Rebalance skipped as unprofitable: ${estimate.reason}`);
+        return null;
+      }
+      
+      logger.info(`Profitability check passed: ${estimate.reason}`);
+    }
+    
+    if (options.dryRun || this.config.dryRun) {
+      return await this.dryRunRebalance(await buildPTB(), position, newRange);
+    }
     
     // Execute atomically (single execution)
+    // With pre-flight enabled a separate copy of the PTB is dry-run first and
+    // execution is refused unless the simulated balance changes look sane
     logger.info('Executing atomic PTB...');
-    const result = await this.suiClient.executeTransactionWithoutSimulation(ptb);
+    const result = this.config.preflightSimulation
+      ? await this.suiClient.executeTransaction(buildPTB, (simulation) =>
+          this.assertSimulatedBalances(
+            simulation,
+            pool,
+            minAmountA,
+            minAmountB,
+            rewardPlan,
+            addLiquidityPlan.minLiquidity
+          )
+        )
+      : await this.suiClient.executeTransactionWithoutSimulation(buildPTB);
     
     logger.info(`Rebalance successful! Digest: ${result.digest}`);
+    this.logRealizedSwap(result.events);
+    
+    const newPositionId = findCreatedPositionId(result.objectChanges);
+    if (newPositionId) {
+      logger.info(`New position: ${newPositionId}`);
+    } else {
+      logger.error('Could not find the new position in transaction object changes');
+    }
+    
     logger.info('=== Atomic PTB Rebalance Complete ===');
+    
+    return {
+      digest: result.digest,
+      oldPositionId: position.id,
+      newPositionId,
+      oldRange: { tickLower: position.tickLower, tickUpper: position.tickUpper },
+      newRange,
+      amounts: this.getRebalanceAmounts(result.events),
+      gasCostMist: result.effects ? getTotalGasCost(result.effects.gasUsed).toString() : undefined,
+      flows: extractTransactionFlows(result, pool, this.suiClient.getAddress()),
+    };
   }
   
-  private calculateExpectedAmounts(pool: Pool, position: Position): { amountA: bigint; amountB: bigint } {
-    const sqrtPriceCurrent = BigInt(pool.currentSqrtPrice);
-    const sqrtPriceLower = tickToSqrtPrice(position.tickLower);
-    const sqrtPriceUpper = tickToSqrtPrice(position.tickUpper);
-    const liquidity = BigInt(position.liquidity);
-    
-    // Determine which tokens we'll get based on current price relative to range
-    let amountA: bigint;
-    let amountB: bigint;
-    
-    if (sqrtPriceCurrent <= sqrtPriceLower) {
-      // Current price below range - all token A
-      amountA = getAmountAFromLiquidity(sqrtPriceLower, sqrtPriceUpper, liquidity);
-      amountB = BigInt(0);
-    } else if (sqrtPriceCurrent >= sqrtPriceUpper) {
-      // Current price above range - all token B
-      amountA = BigInt(0);
-      amountB = getAmountBFromLiquidity(sqrtPriceLower, sqrtPriceUpper, liquidity);
+  /**
+   * Dry-runs the rebalance PTB instead of signing it and reports what the
+   * transaction would have done
+   */
+  private async dryRunRebalance(
+    ptb: Transaction,
+    position: Position,
+    newRange: TickRange
+  ): Promise<RebalanceResult> {
+    logger.info('DRY RUN: simulating PTB instead of executing');
+    
+    const simulation = await this.suiClient.dryRunTransaction(ptb);
+    this.logRealizedSwap(simulation.events);
+    const { status, gasUsed } = simulation.effects;
+    
+    const balanceChanges = getOwnerBalanceChanges(
+      simulation.balanceChanges,
+      this.suiClient.getAddress()
+    );
+    
+    // Prefer the ticks reported on-chain over the requested range
+    const openEvent = findEvent(simulation.events, '::pool::OpenPositionEvent');
+    const addLiquidityEvent = findEvent(simulation.events, '::pool::AddLiquidityEvent');
+    const openData = openEvent?.parsedJson as { tick_lower: unknown; tick_upper: unknown } | undefined;
+    const addData = addLiquidityEvent?.parsedJson as { liquidity: string } | undefined;
+    
+    const report: DryRunReport = {
+      success: status.status === 'success',
+      error: status.error,
+      gasUsed: {
+        computationCost: gasUsed.computationCost,
+        storageCost: gasUsed.storageCost,
+        storageRebate: gasUsed.storageRebate,
+        totalCost: getTotalGasCost(gasUsed).toString(),
+      },
+      balanceChanges: Array.from(balanceChanges.entries()).map(([coinType, amount]) => ({
+        coinType,
+        amount: amount.toString(),
+      })),
+      newPosition: {
+        tickLower: openData ? decodeI32(openData.tick_lower) : newRange.tickLower,
+        tickUpper: openData ? decodeI32(openData.tick_upper) : newRange.tickUpper,
+        liquidity: addData?.liquidity ?? null,
+      },
+    };
+    
+    this.logDryRunReport(report);
+    
+    return {
+      digest: simulation.effects.transactionDigest,
+      oldPositionId: position.id,
+      newPositionId: null,
+      oldRange: { tickLower: position.tickLower, tickUpper: position.tickUpper },
+      newRange,
+      amounts: this.getRebalanceAmounts(simulation.events),
+      dryRun: report,
+    };
+  }
+  
+  /**
+   * Checks a simulated rebalance before it is signed
+   * 
+   * - The removed liquidity must meet the slippage-adjusted expected amounts
+   * - The new position's liquidity must meet its slippage-adjusted estimate
+   * - The wallet must not pay coin A or B into the rebalance (gas aside)
+   * - The value entering the new position plus any refund must be within
+   *   the slippage bound of the value taken out of the old position,
+   *   including the rewards planned for coin A and B
+   * 
+   * @throws Error describing the first failed check
+   */
+  private assertSimulatedBalances(
+    simulation: DryRunTransactionBlockResponse,
+    pool: Pool,
+    minAmountA: bigint,
+    minAmountB: bigint,
+    rewardPlan: RewardPlan,
+    minLiquidity: bigint
+  ): void {
+    const removed = this.getEventAmounts(simulation.events, '::pool::RemoveLiquidityEvent');
+    const fees = this.getEventAmounts(simulation.events, '::pool::CollectFeeEvent');
+    const added = this.getEventAmounts(simulation.events, '::pool::AddLiquidityEvent');
+    
+    if (!removed || !added) {
+      throw new Error('Pre-flight check failed: simulation is missing liquidity events');
+    }
+    
+    if (removed.amountA < minAmountA || removed.amountB < minAmountB) {
+      throw new Error(
+        `Pre-flight check failed: simulated removal A=${removed.amountA}, B=${removed.amountB} ` +
+        `is below minimum A=${minAmountA}, B=${minAmountB}`
+      );
+    }
+    
+    const addEvent = findEvent(simulation.events, '::pool::AddLiquidityEvent');
+    const addedLiquidity = BigInt((addEvent!.parsedJson as { liquidity: string }).liquidity);
+    if (addedLiquidity < minLiquidity) {
+      throw new Error(
+        `Pre-flight check failed: simulated new liquidity ${addedLiquidity} ` +
+        `is below minimum ${minLiquidity}`
+      );
+    }
+    
+    // Gas is paid in SUI, so add it back before judging a SUI leg
+    const walletChanges = getOwnerBalanceChanges(
+      simulation.balanceChanges,
+      this.suiClient.getAddress()
+    );
+    const gasCost = getTotalGasCost(simulation.effects.gasUsed);
+    const walletDelta = (coinType: string): bigint => {
+      const change = getBalanceChange(walletChanges, coinType);
+      return normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG)
+        ? change + gasCost
+        : change;
+    };
+    const walletDeltaA = walletDelta(pool.coinTypeA);
+    const walletDeltaB = walletDelta(pool.coinTypeB);
+    
+    if (walletDeltaA < BigInt(0) || walletDeltaB < BigInt(0)) {
+      throw new Error(
+        `Pre-flight check failed: wallet would lose funds (A=${walletDeltaA}, B=${walletDeltaB})`
+      );
+    }
+    
+    // Compare value in coin B units at the current pool price
+    const price = sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice));
+    const valueOf = (amountA: bigint, amountB: bigint): number =>
+      Number(amountA) * price + Number(amountB);
+    
+    const valueOut = valueOf(
+      removed.amountA + (fees?.amountA ?? BigInt(0)) + rewardPlan.amountA,
+      removed.amountB + (fees?.amountB ?? BigInt(0)) + rewardPlan.amountB
+    );
+    const valueIn = valueOf(added.amountA + walletDeltaA, added.amountB + walletDeltaB);
+    const lossPercent = valueOut > 0 ? ((valueOut - valueIn) / valueOut) * 100 : 0;
+    
+    logger.info(
+      `Pre-flight: removed A=${removed.amountA}, B=${removed.amountB}; ` +
+      `added A=${added.amountA}, B=${added.amountB}; refund A=${walletDeltaA}, B=${walletDeltaB}`
+    );
+    logger.info(`Pre-flight: simulated value loss ${lossPercent.toFixed(4)}%`);
+    
+    if (lossPercent > this.config.maxSlippagePercent) {
+      throw new Error(
+        `Pre-flight check failed: simulated loss ${lossPercent.toFixed(4)}% exceeds ` +
+        `max slippage ${this.config.maxSlippagePercent}%`
+      );
+    }
+  }
+  
+  private getEventAmounts(
+    events: SuiEvent[] | null | undefined,
+    typeSuffix: string
+  ): { amountA: bigint; amountB: bigint } | null {
+    const event = findEvent(events, typeSuffix);
+    if (!event) {
+      return null;
+    }
+    
+    const data = event.parsedJson as { amount_a: string; amount_b: string };
+    return { amountA: BigInt(data.amount_a), amountB: BigInt(data.amount_b) };
+  }
+  
+  private getRebalanceAmounts(events: SuiEvent[] | null | undefined): RebalanceAmounts | null {
+    const removed = this.getEventAmounts(events, '::pool::RemoveLiquidityEvent');
+    const added = this.getEventAmounts(events, '::pool::AddLiquidityEvent');
+    if (!removed || !added) {
+      return null;
+    }
+    
+    return {
+      removedA: removed.amountA.toString(),
+      removedB: removed.amountB.toString(),
+      addedA: added.amountA.toString(),
+      addedB: added.amountB.toString(),
+    };
+  }
+  
+  private logDryRunReport(report: DryRunReport): void {
+    logger.info('=== Dry Run Report ===');
+    
+    if (report.success) {
+      logger.info('Simulation: SUCCESS - the rebalance would have executed');
+    } else {
+      logger.warn(`Simulation: FAILED - ${report.error || 'Unknown error'}`);
+    }
+    
+    logger.info(
+      `Gas: total=${report.gasUsed.totalCost} MIST ` +
+      `(computation=${report.gasUsed.computationCost}, storage=${report.gasUsed.storageCost}, ` +
+      `rebate=${report.gasUsed.storageRebate})`
+    );
+    
+    if (report.balanceChanges.length === 0) {
+      logger.info('Wallet balance changes: none');
     } else {
-      // Current price in range - both tokens
-      amountA = getAmountAFromLiquidity(sqrtPriceCurrent, sqrtPriceUpper, liquidity);
-      amountB = getAmountBFromLiquidity(sqrtPriceLower, sqrtPriceCurrent, liquidity);
+      logger.info('Wallet balance changes:');
+      report.balanceChanges.forEach((change) => {
+        logger.info(`  ${change.coinType}: ${change.amount}`);
+      });
+    }
+    
+    logger.info(
+      `New position: [${report.newPosition.tickLower}, ${report.newPosition.tickUpper}]` +
+      (report.newPosition.liquidity ? `, liquidity=${report.newPosition.liquidity}` : '')
+    );
+    logger.info('======================');
+  }
+  
+  private applySlippage(amount: bigint): bigint {
+    return applySlippage(amount, this.config.maxSlippagePercent);
+  }
+  
+  /**
+   * Claims nothing and skips the RPC when the pool has no rewarders
+   */
+  private async planRewards(pool: Pool, position: Position): Promise<RewardPlan> {
+    if (pool.rewarderCoinTypes.length === 0) {
+      return { entries: [], amountA: BigInt(0), amountB: BigInt(0) };
+    }
+    
+    const pending = await this.cetusService.getPendingCollection(pool, position.id);
+    return await this.rewardService.planRewards(pool, pending);
+  }
+  
+  /**
+   * Plans the swap that brings the removed coins to the new range's ratio
+   * A partial swap is capped at the least amount of its input coin the PTB
+   * is guaranteed to hold: the slippage-adjusted removal plus rewards.
+   */
+  private planSwap(
+    pool: Pool,
+    removedLiquidity: bigint,
+    newRange: TickRange,
+    expectedAmounts: { amountA: bigint; amountB: bigint },
+    availableA: bigint,
+    availableB: bigint
+  ): SwapPlan {
+    const plan = calculateSwapPlan({
+      amountA: expectedAmounts.amountA,
+      amountB: expectedAmounts.amountB,
+      sqrtPriceCurrent: BigInt(pool.currentSqrtPrice),
+      newRange,
+      feeRate: pool.feeRate,
+      poolLiquidity: BigInt(pool.liquidity) - removedLiquidity,
+    });
+    
+    if (plan.swap && !plan.swap.swapAll) {
+      const cap = plan.swap.a2b ? availableA : availableB;
+      if (plan.swap.amountIn > cap) {
+        plan.swap.amountIn = cap;
+      }
+    }
+    
+    if (plan.swap) {
+      const direction = plan.swap.a2b ? 'A→B' : 'B→A';
+      const size = plan.swap.swapAll ? 'all' : plan.swap.amountIn.toString();
+      logger.info(`Swap plan: ${direction} ${size} (estimated out ${plan.swap.estimatedAmountOut})`);
+    } else {
+      logger.info('Swap plan: no swap needed');
+    }
+    logger.info(`Estimated amounts after swap: A=${plan.amountAAfter}, B=${plan.amountBAfter}`);
+    
+    return plan;
+  }
+  
+  /**
+   * Quotes the planned swap off-chain and derives its price protection
+   * A full swap consumes whatever the removal returns, so it is quoted at the
+   * least the PTB can hold of the input coin, and repriced for the liquidity
+   * the PTB removes before it swaps.
+   * 
+   * @throws Error if the pool cannot fill the swap
+   */
+  private async quoteSwapLimits(
+    pool: Pool,
+    removedLiquidity: bigint,
+    swapPlan: SwapPlan,
+    availableA: bigint,
+    availableB: bigint
+  ): Promise<SwapLimits> {
+    const swap = swapPlan.swap!;
+    const quoteAmount = swap.swapAll ? (swap.a2b ? availableA : availableB) : swap.amountIn;
+    
+    const quote = requoteWithoutLiquidity(
+      await this.cetusService.quoteSwap(pool.id, swap.a2b, quoteAmount),
+      BigInt(pool.currentSqrtPrice),
+      BigInt(pool.liquidity),
+      removedLiquidity
+    );
+    if (quote.isExceed) {
+      throw new Error(`Pool cannot fill the rebalance swap of ${quoteAmount}`);
     }
     
-    return { amountA, amountB };
+    const limits = calculateSwapLimits(quote, this.config.maxSlippagePercent);
+    
+    logger.info(
+      `Swap quote: in=${quote.amountIn}, out=${quote.amountOut}, fee=${quote.feeAmount}, ` +
+      `price=${calculateSwapPrice(quote.a2b, quote.amountIn, quote.amountOut)} ` +
+      `(pool price ${sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice))})`
+    );
+    logger.info(
+      `Swap limits (${this.config.maxSlippagePercent}% slippage): ` +
+      `sqrt price limit=${limits.sqrtPriceLimit}, min out=${limits.minAmountOut}`
+    );
+    
+    return limits;
+  }
+  
+  /**
+   * Logs the price the rebalance swap executed at, from its SwapEvent
+   */
+  private logRealizedSwap(events: SuiEvent[] | null | undefined): void {
+    const swapEvent = findEvent(events, '::pool::SwapEvent');
+    if (!swapEvent) {
+      return;
+    }
+    
+    const data = swapEvent.parsedJson as {
+      atob: boolean;
+      amount_in: string;
+      amount_out: string;
+      fee_amount: string;
+    };
+    const amountIn = BigInt(data.amount_in) + BigInt(data.fee_amount);
+    const amountOut = BigInt(data.amount_out);
+    
+    logger.info(
+      `Swap realized: in=${amountIn}, out=${amountOut}, ` +
+      `price=${calculateSwapPrice(data.atob, amountIn, amountOut)}`
+    );
+  }
+  
+  /**
+   * Metadata of the pool's coins for readable logs; null if it cannot be
+   * read, which never stops a rebalance
+   */
+  private async getCoinMetadata(pool: Pool): Promise<[CoinMetadata, CoinMetadata] | null> {
+    try {
+      return await Promise.all([
+        this.cetusService.getCoinMetadata(pool.coinTypeA),
+        this.cetusService.getCoinMetadata(pool.coinTypeB),
+      ]);
+    } catch (error) {
+      logger.warn(`Coin metadata unavailable, logging raw amounts: ${(error as Error).message}`);
+      return null;
+    }
+  }
+  
+  private describeAmount(amount: bigint, coin: CoinMetadata | undefined): string {
+    return coin ? `${formatCoinAmount(amount, coin)} (${amount})` : amount.toString();
+  }
+  
+  private describePrices(range: TickRange, coins: [CoinMetadata, CoinMetadata] | null): string {
+    if (!coins) {
+      return '';
+    }
+    return ` (${formatRangePrices(range, coins[0], coins[1])})`;
+  }
+  
+  /**
+   * Whether the position's liquidity is part of the pool's active liquidity
+   */
+  private isActive(pool: Pool, position: Position): boolean {
+    const sqrtPrice = BigInt(pool.currentSqrtPrice);
+    return tickToSqrtPrice(position.tickLower) <= sqrtPrice && sqrtPrice < tickToSqrtPrice(position.tickUpper);
+  }
+  
+  private calculateExpectedAmounts(pool: Pool, position: Position): { amountA: bigint; amountB: bigint } {
+    // Below the range the position is all token A, above it all token B
+    return getAmountsForLiquidity(
+      BigInt(pool.currentSqrtPrice),
+      tickToSqrtPrice(position.tickLower),
+      tickToSqrtPrice(position.tickUpper),
+      BigInt(position.liquidity)
+    );
+  }
+  
+  /**
+   * Sizes the deposit into the new position from the estimated post-swap
+   * balances rather than from the old position's amounts, at the price the
+   * swap is quoted to leave the pool at
+   */
+  private planAddLiquidity(
+    pool: Pool,
+    newRange: TickRange,
+    swapPlan: SwapPlan,
+    swapLimits: SwapLimits | null
+  ): AddLiquidityPlan {
+    const plan = calculateAddLiquidityPlan(
+      swapLimits?.endSqrtPrice ?? BigInt(pool.currentSqrtPrice),
+      newRange,
+      swapPlan,
+      this.config.maxSlippagePercent
+    );
+    
+    logger.info(
+      `Add liquidity plan: expected liquidity=${plan.expectedLiquidity} (min ${plan.minLiquidity})`
+    );
+    logger.info(
+      `Add liquidity amounts: A=${plan.amountA}, B=${plan.amountB}, fix ${plan.fixAmountA ? 'A' : 'B'}`
+    );
+    
+    return plan;
   }
   
   private async buildRebalancePTB(
     pool: Pool,
     position: Position,
-    newRange: { tickLower: number; tickUpper: number },
+    newRange: TickRange,
     minAmountA: bigint,
-    minAmountB: bigint
+    minAmountB: bigint,
+    rewardPlan: RewardPlan,
+    swapPlan: SwapPlan,
+    swapLimits: SwapLimits | null,
+    addLiquidityPlan: AddLiquidityPlan
   ): Promise<Transaction> {
     const ptb = new Transaction();
     
@@ -114,14 +656,11 @@ export class RebalanceService {
     // This prevents "Encountered unexpected token when parsing type args for gas" error
     ptb.setSender(this.suiClient.getAddress());
     
-    const sdk = this.cetusService.getSDK();
-    
     logger.info('Building atomic PTB with all operations using SDK builders...');
     logger.info('=== COIN OBJECT FLOW TRACE ===');
     
     // Get SDK configuration
-    const packageId = sdk.sdkOptions.integrate.published_at;
-    const globalConfigId = sdk.sdkOptions.clmm_pool.config!.global_config_id;
+    const { packageId, globalConfigId } = this.cetusService.getContracts();
     
     // Normalize type arguments to prevent parsing errors
     const [normalizedCoinTypeA, normalizedCoinTypeB] = normalizeTypeArguments([
@@ -190,6 +729,21 @@ export class RebalanceService {
     ptb.mergeCoins(removedCoinB, [feeCoinB]);
     logger.info('  ✓ After merge: removedCoinA, removedCoinB contain all funds');
     
+    // Step 3b: Claim rewarder emissions (close_position requires it)
+    if (rewardPlan.entries.length > 0) {
+      logger.info(`Step 3b: Claim ${rewardPlan.entries.length} rewarder(s)`);
+      this.rewardService.addRewardCollection(
+        ptb,
+        pool,
+        position.id,
+        rewardPlan,
+        removedCoinA,
+        removedCoinB,
+        this.suiClient.getAddress()
+      );
+      logger.info('  ✓ Rewards merged into removedCoinA/B or sent to the wallet');
+    }
+    
     // Step 4: Close old position
     // Use SDK builder pattern: pool_script::close_position
     // Takes 3 arguments: config, pool, position (no min amounts or clock)
@@ -207,10 +761,11 @@ export class RebalanceService {
     
     // Step 5: Swap to optimal ratio if needed
     logger.info('Step 5: Swap to optimal ratio (if needed)');
-    const { coinA: finalCoinA, coinB: finalCoinB } = this.addSwapIfNeeded(
+    const { coinA: finalCoinA, coinB: finalCoinB } = addSwapIfNeeded(
       ptb,
       pool,
-      newRange,
+      swapPlan,
+      swapLimits,
       removedCoinA,
       removedCoinB,
       packageId,
@@ -253,9 +808,9 @@ export class RebalanceService {
         newPosition,
         finalCoinA,
         finalCoinB,
-        ptb.pure.u64(minAmountA.toString()),
-        ptb.pure.u64(minAmountB.toString()),
-        ptb.pure.bool(true), // fix_amount_a
+        ptb.pure.u64(addLiquidityPlan.amountA.toString()),
+        ptb.pure.u64(addLiquidityPlan.amountB.toString()),
+        ptb.pure.bool(addLiquidityPlan.fixAmountA), // fix_amount_a
         ptb.object(SUI_CLOCK_OBJECT_ID),
       ],
     });
@@ -281,94 +836,4 @@ export class RebalanceService {
     
     return ptb;
   }
-  
-  private addSwapIfNeeded(
-    ptb: Transaction,
-    pool: Pool,
-    newRange: { tickLower: number; tickUpper: number },
-    coinA: TransactionObjectArgument,
-    coinB: TransactionObjectArgument,
-    packageId: string,
-    globalConfigId: string,
-    normalizedCoinTypeA: string,
-    normalizedCoinTypeB: string
-  ): { coinA: TransactionObjectArgument; coinB: TransactionObjectArgument } {
-    // Calculate optimal ratio for new range
-    const sqrtPriceCurrent = BigInt(pool.currentSqrtPrice);
-    const sqrtPriceLower = tickToSqrtPrice(newRange.tickLower);
-    const sqrtPriceUpper = tickToSqrtPrice(newRange.tickUpper);
-    
-    // Sqrt price limits for swaps (from Cetus SDK)
-    const MIN_SQRT_PRICE = '4295048016';
-    const MAX_SQRT_PRICE = '79226673515401279992447579055';
-    
-    // Maximum u64 value for swap amount
-    const U64_MAX = '18446744073709551615';
-    
-    if (sqrtPriceCurrent < sqrtPriceLower) {
-      // Price below range - need token A, swap B to A
-      logger.info('  Price below new range - swapping ALL coinB to coinA');
-      
-      const zeroCoinA = coinWithBalance({ type: normalizedCoinTypeA, balance: 0 })(ptb);
-      
-      // Use SDK builder pattern: router::swap
-      // Returns tuple (Coin<A>, Coin<B>) - use array destructuring
-      const [swappedCoinA, remainderCoinB] = ptb.moveCall({
-        target: `${packageId}::router::swap`,
-        typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
-        arguments: [
-          ptb.object(globalConfigId),
-          ptb.object(pool.id),
-          zeroCoinA,
-          coinB,
-          ptb.pure.bool(false), // a2b: false = B to A
-          ptb.pure.bool(true), // by_amount_in
-          ptb.pure.u64(U64_MAX),
-          ptb.pure.u128(MAX_SQRT_PRICE),
-          ptb.pure.bool(false), // use_coin_value
-          ptb.object(SUI_CLOCK_OBJECT_ID),
-        ],
-      });
-      
-      ptb.mergeCoins(coinA, [swappedCoinA]);
-      logger.info('  ✓ Swapped: coinB consumed, output merged into coinA');
-      
-      return { coinA, coinB: remainderCoinB };
-      
-    } else if (sqrtPriceCurrent > sqrtPriceUpper) {
-      // Price above range - need token B, swap A to B
-      logger.info('  Price above new range - swapping ALL coinA to coinB');
-      
-      const zeroCoinB = coinWithBalance({ type: normalizedCoinTypeB, balance: 0 })(ptb);
-      
-      // Use SDK builder pattern: router::swap
-      // Returns tuple (Coin<A>, Coin<B>) - use array destructuring
-      const [remainderCoinA, swappedCoinB] = ptb.moveCall({
-        target: `${packageId}::router::swap`,
-        typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
-        arguments: [
-          ptb.object(globalConfigId),
-          ptb.object(pool.id),
-          coinA,
-          zeroCoinB,
-          ptb.pure.bool(true), // a2b: true = A to B
-          ptb.pure.bool(true), // by_amount_in
-          ptb.pure.u64(U64_MAX),
-          ptb.pure.u128(MIN_SQRT_PRICE),
-          ptb.pure.bool(false), // use_coin_value
-          ptb.object(SUI_CLOCK_OBJECT_ID),
-        ],
-      });
-      
-      ptb.mergeCoins(coinB, [swappedCoinB]);
-      logger.info('  ✓ Swapped: coinA consumed, output merged into coinB');
-      
-      return { coinA: remainderCoinA, coinB };
-      
-    } else {
-      // Price in range - use both tokens as-is
-      logger.info('  Price in new range - using both coins as-is');
-      return { coinA, coinB };
-    }
-  }
 }
@@ -1,28 +1,103 @@
-import { BotConfig } from '../types';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { BotConfig, PositionAccounting, RebalanceOptions, RebalanceResult } from '../types';
 import { logger } from '../utils/logger';
-import { SuiClientService } from './suiClient';
+import { GasPriceExceededError, SuiClientService } from './suiClient';
 import { CetusService } from './cetusService';
-import { MonitorService } from './monitorService';
-import { RebalanceService } from './rebalanceService';
+import { StateStore } from './stateStore';
+import { AccountingLedger, PositionLedger } from './accountingLedger';
+import { TickHistory } from './tickHistory';
+import { PositionManager, createPositionManagers } from './positionManager';
+import { MetricsServer } from './metricsServer';
+import { StallWatchdog } from './stallWatchdog';
+import { SwapEventService } from './swapEventService';
+import { SwapEventTrigger } from './swapEventTrigger';
+import { NotificationService, createNotificationService } from '../notifications';
+import { createPriceService } from '../pricing';
+import { ControlServer } from './controlServer';
+import { MonitorReport } from './monitorService';
+import { CircuitBreaker, CircuitState } from './circuitBreaker';
+
+export interface BotStatus {
+  running: boolean;
+  paused: boolean;
+  circuitBreaker: CircuitState;
+  dryRun: boolean;
+  checkIntervalMs: number;
+  lastCheckAt: number | null;
+  positions: Array<{
+    name: string;
+    poolId: string;
+    activePositionId: string;
+    lastReport: MonitorReport | null;
+  }>;
+}
+
+export interface PositionAccountingHistory {
+  name: string;
+  accounting: PositionAccounting | null;
+  history: PositionLedger | null;
+}
 
 export class RebalancingBot {
   private config: BotConfig;
   private suiClient: SuiClientService;
   private cetusService: CetusService;
-  private monitorService: MonitorService;
-  private rebalanceService: RebalanceService;
+  private stateStore: StateStore;
+  private ledger: AccountingLedger;
+  private tickHistory: TickHistory;
+  private managers: PositionManager[];
+  private metricsServer: MetricsServer;
+  private notifier: NotificationService;
+  private watchdog: StallWatchdog;
+  private controlServer: ControlServer;
+  private eventTrigger: SwapEventTrigger | null;
+  private circuitBreaker: CircuitBreaker;
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
+  private isPaused: boolean = false;
+  private lastCheckAt: number | null = null;
+  // Scheduled checks and manual rebalances share the wallet, so they run
+  // one after another through this chain
+  private queue: Promise<unknown> = Promise.resolve();
   
   constructor(config: BotConfig) {
     this.config = config;
     this.suiClient = new SuiClientService(config);
     this.cetusService = new CetusService(this.suiClient, config);
-    this.monitorService = new MonitorService(this.cetusService, config);
-    this.rebalanceService = new RebalanceService(
+    this.stateStore = new StateStore(config.stateFilePath);
+    this.ledger = new AccountingLedger(config.accountingFilePath);
+    this.tickHistory = new TickHistory(config.volatilityWindow);
+    this.notifier = createNotificationService(config.notifications);
+    this.managers = createPositionManagers(
+      config,
       this.suiClient,
       this.cetusService,
-      config
+      this.stateStore,
+      this.ledger,
+      this.tickHistory,
+      this.notifier,
+      createPriceService(config.pricing, this.cetusService)
+    );
+    this.metricsServer = new MetricsServer(config);
+    this.watchdog = new StallWatchdog(
+      config.notifications.stallTimeoutMs,
+      this.notifier,
+      () => this.getLastSuccessfulCheckAt()
+    );
+    this.controlServer = new ControlServer(config, this);
+    this.eventTrigger = config.eventTrigger.enabled
+      ? new SwapEventTrigger(
+          new SwapEventService(this.suiClient, this.cetusService, config),
+          config.eventTrigger,
+          this.managers.map((manager) => manager.getConfig().poolId),
+          (poolIds) => this.enqueue(() => this.checkAndRebalance(poolIds))
+        )
+      : null;
+    this.circuitBreaker = new CircuitBreaker(
+      config.circuitBreaker,
+      this.notifier,
+      () => this.pause(),
+      () => this.unpause()
     );
   }
   
@@ -33,24 +108,162 @@ export class RebalancingBot {
     }
     
     this.isRunning = true;
+    this.metricsServer.start();
+    this.watchdog.start();
+    this.suiClient.getEndpoints().start();
+    this.controlServer.start();
     logger.info('Starting rebalancing bot...');
-    logger.info('⚠️  AUTOMATED REBALANCING ENABLED');
-    logger.info(`Check interval: ${this.config.checkIntervalMs}ms`);
-    logger.info(`Rebalance threshold: ${this.config.rebalanceThresholdPercent}%`);
-    logger.info(`Range width: ${this.config.rangeWidthPercent}%`);
-    logger.info(`Max slippage: ${this.config.maxSlippagePercent}%`);
+    if (this.config.dryRun) {
+      logger.info('DRY RUN: rebalances will be simulated, not executed');
+    } else {
+      logger.info('⚠️  AUTOMATED REBALANCING ENABLED');
+    }
+    logger.info(
+      this.eventTrigger
+        ? `Checks triggered by swap events, heartbeat every ${this.config.checkIntervalMs}ms`
+        : `Check interval: ${this.config.checkIntervalMs}ms`
+    );
+    logger.info(`Managing ${this.managers.length} position(s)`);
+    
+    for (const manager of this.managers) {
+      const positionConfig = manager.getConfig();
+      logger.info(`[${manager.name}] Pool: ${positionConfig.poolId}`);
+      logger.info(`[${manager.name}] Active position: ${manager.getActivePositionId()}`);
+      logger.info(`[${manager.name}] Rebalance threshold: ${positionConfig.rebalanceThresholdPercent}%`);
+      logger.info(`[${manager.name}] Range width: ${positionConfig.rangeWidthPercent}%`);
+      logger.info(`[${manager.name}] Max slippage: ${positionConfig.maxSlippagePercent}%`);
+    }
     
     // Run first check immediately
-    await this.checkAndRebalance();
+    await this.enqueue(() => this.checkAndRebalance());
     
-    // Schedule periodic checks
-    this.intervalId = setInterval(async () => {
-      await this.checkAndRebalance();
-    }, this.config.checkIntervalMs);
+    this.schedule();
     
     logger.info('Bot started successfully');
   }
   
+  /**
+   * Stops the periodic checks without shutting the bot down
+   * Manual rebalances are still accepted while paused.
+   */
+  pause(): boolean {
+    if (!this.isRunning || this.isPaused) {
+      return false;
+    }
+    
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.eventTrigger?.stop();
+    
+    this.isPaused = true;
+    logger.warn('Bot paused - periodic checks stopped');
+    return true;
+  }
+  
+  /**
+   * Restarts the periodic checks; an operator resume also closes the
+   * circuit breaker
+   */
+  resume(): boolean {
+    if (!this.isRunning || !this.isPaused) {
+      return false;
+    }
+    
+    this.circuitBreaker.reset();
+    return this.unpause();
+  }
+  
+  private unpause(): boolean {
+    if (!this.isRunning || !this.isPaused) {
+      return false;
+    }
+    
+    this.isPaused = false;
+    this.schedule();
+    logger.info('Bot resumed - periodic checks restarted');
+    return true;
+  }
+  
+  getStatus(): BotStatus {
+    return {
+      running: this.isRunning,
+      paused: this.isPaused,
+      circuitBreaker: this.circuitBreaker.getState(),
+      dryRun: this.config.dryRun,
+      checkIntervalMs: this.config.checkIntervalMs,
+      lastCheckAt: this.lastCheckAt,
+      positions: this.managers.map((manager) => ({
+        name: manager.name,
+        poolId: manager.getConfig().poolId,
+        activePositionId: manager.getActivePositionId(),
+        lastReport: manager.getLastReport(),
+      })),
+    };
+  }
+  
+  getPositionNames(): string[] {
+    return this.managers.map((manager) => manager.name);
+  }
+  
+  /**
+   * Latest accounting and the recorded transactions of each position
+   * 
+   * @param name Limit to one position
+   * @param since Only include transactions from this time on (ms)
+   */
+  getAccounting(name?: string, since: number = 0): PositionAccountingHistory[] {
+    return this.managers
+      .filter((manager) => name === undefined || manager.name === name)
+      .map((manager) => ({
+        name: manager.name,
+        accounting: manager.getLastReport()?.accounting ?? null,
+        history: manager.getAccountingHistory(since),
+      }));
+  }
+  
+  /**
+   * Rebalances one position immediately, after any check in progress
+   * 
+   * @param name Position name; may be omitted when only one is managed
+   * @throws Error if the position is unknown or the rebalance fails
+   */
+  async rebalanceNow(
+    name: string | undefined,
+    options: RebalanceOptions
+  ): Promise<RebalanceResult | null> {
+    const manager = name
+      ? this.managers.find((candidate) => candidate.name === name)
+      : this.managers.length === 1 ? this.managers[0] : undefined;
+    
+    if (!manager) {
+      throw new Error(
+        name ? `Unknown position "${name}"` : 'Position name is required when managing several positions'
+      );
+    }
+    
+    return await this.enqueue(() => manager.rebalanceNow(options));
+  }
+  
+  /**
+   * Starts the periodic checks, and the swap event trigger when enabled
+   * With the trigger the periodic checks are a heartbeat that also covers
+   * missed events.
+   */
+  private schedule(): void {
+    this.intervalId = setInterval(async () => {
+      await this.enqueue(() => this.checkAndRebalance());
+    }, this.config.checkIntervalMs);
+    this.eventTrigger?.start();
+  }
+  
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+  
   stop(): void {
     if (!this.isRunning) {
       logger.warn('Bot is not running');
@@ -61,44 +274,60 @@ export class RebalancingBot {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.eventTrigger?.stop();
     
+    this.metricsServer.stop();
+    this.watchdog.stop();
+    this.suiClient.getEndpoints().stop();
+    this.controlServer.stop();
+    this.circuitBreaker.reset();
     this.isRunning = false;
+    this.isPaused = false;
     logger.info('Bot stopped');
   }
   
-  private async checkAndRebalance(): Promise<void> {
-    try {
-      logger.info('=== Checking position ===');
-      
-      // Generate report
-      const report = await this.monitorService.generateReport();
-      
-      // Check if rebalancing is needed
-      if (!report.shouldRebalance) {
-        logger.info(`No rebalancing needed: ${report.reason}`);
-        return;
+  private getLastSuccessfulCheckAt(): number | null {
+    const timestamps = this.managers
+      .map((manager) => manager.getLastReport()?.timestamp)
+      .filter((timestamp): timestamp is number => timestamp !== undefined);
+    return timestamps.length > 0 ? Math.max(...timestamps) : null;
+  }
+  
+  /**
+   * @param poolIds Only check positions in these pools (normalized IDs), as
+   * triggered by swap events
+   */
+  private async checkAndRebalance(poolIds?: string[]): Promise<void> {
+    const managers = poolIds
+      ? this.managers.filter((manager) => poolIds.includes(normalizeSuiAddress(manager.getConfig().poolId)))
+      : this.managers;
+    
+    // Positions share one wallet, so they are processed one at a time to
+    // avoid gas coin conflicts between concurrent transactions
+    for (const manager of managers) {
+      try {
+        await manager.checkAndRebalance();
+        this.circuitBreaker.recordSuccess(manager.name);
+      } catch (error) {
+        logger.error(`[${manager.name}] Error during check and rebalance`, error);
+        // A gas price spike postpones the rebalance; it is not a failure
+        if (!(error instanceof GasPriceExceededError)) {
+          this.circuitBreaker.recordFailure(manager.name, error as Error);
+        }
+        // Continue with the next position - one failure must not affect the others
       }
       
-      // Check if deviation exceeds threshold
-      if (Math.abs(report.priceDeviation) < this.config.rebalanceThresholdPercent) {
-        logger.info(
-          `Deviation ${report.priceDeviation.toFixed(2)}% below threshold ${this.config.rebalanceThresholdPercent}%`
-        );
-        return;
+      const report = manager.getLastReport();
+      if (report) {
+        this.eventTrigger?.markChecked(report.pool.id, report.currentTick);
       }
       
-      logger.warn('⚠️  REBALANCING TRIGGERED');
-      logger.warn(`Reason: ${report.reason}`);
-      logger.warn(`Deviation: ${report.priceDeviation.toFixed(2)}%`);
-      
-      // Execute atomic rebalance
-      await this.rebalanceService.rebalance(report.pool, report.position);
-      
-      logger.info('✅ Rebalance completed successfully');
-      
-    } catch (error) {
-      logger.error('Error during check and rebalance', error);
-      // Continue running - don't crash the bot on errors
+      // The breaker pauses the whole bot, including the rest of this pass
+      if (this.circuitBreaker.getState() === 'open') {
+        break;
+      }
     }
+    
+    this.lastCheckAt = Date.now();
   }
 }
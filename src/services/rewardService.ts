@@ -0,0 +1,212 @@
+import { Transaction, TransactionObjectArgument, coinWithBalance } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID, normalizeStructTag } from '@mysten/sui/utils';
+import { PoolReader } from './cetusService';
+import { BotConfig, PendingCollection, Pool } from '../types';
+import { logger } from '../utils/logger';
+import { normalizeTypeArguments } from '../utils/typeArgNormalizer';
+import { SwapLimits, calculateSwapLimits } from '../utils/swapMath';
+import { addSwapIfNeeded } from '../utils/swapTransaction';
+
+/**
+ * How one of the pool's reward tokens is handled after it is claimed
+ */
+export interface RewardPlanEntry {
+  coinType: string;
+  /** Pending amount when the plan was made */
+  amount: bigint;
+  /** Coin the reward ends up in */
+  destination: 'coin_a' | 'coin_b' | 'wallet';
+  /** Swap through another pool into the destination coin */
+  swap: {
+    pool: Pool;
+    a2b: boolean;
+    limits: SwapLimits;
+  } | null;
+}
+
+export interface RewardPlan {
+  entries: RewardPlanEntry[];
+  /** Least the rewards add to coin A and coin B */
+  amountA: bigint;
+  amountB: bigint;
+}
+
+/**
+ * Claims Cetus rewarder emissions inside rebalance and compound PTBs
+ *
+ * Every rewarder of the pool is claimed, since a position with unclaimed
+ * rewards cannot be closed. Each reward token follows its REWARD_POLICIES
+ * entry: rewards in coin A or B are deposited with the position's coins by
+ * default, other tokens go to the wallet unless a swap pool into coin A or B
+ * is configured.
+ */
+export class RewardService {
+  private cetusService: PoolReader;
+  private config: BotConfig;
+  
+  constructor(cetusService: PoolReader, config: BotConfig) {
+    this.cetusService = cetusService;
+    this.config = config;
+  }
+  
+  /**
+   * Decides where each reward goes and quotes the reward swaps
+   * 
+   * @throws Error if a swap policy names a pool that does not pair the
+   * reward token with coin A or B
+   */
+  async planRewards(pool: Pool, pending: PendingCollection): Promise<RewardPlan> {
+    const coinTypeA = normalizeStructTag(pool.coinTypeA);
+    const coinTypeB = normalizeStructTag(pool.coinTypeB);
+    const plan: RewardPlan = { entries: [], amountA: BigInt(0), amountB: BigInt(0) };
+    
+    for (const rewarderCoinType of pool.rewarderCoinTypes) {
+      const coinType = normalizeStructTag(rewarderCoinType);
+      const amount = pending.rewards
+        .filter((reward) => normalizeStructTag(reward.coinType) === coinType)
+        .reduce((total, reward) => total + reward.amount, BigInt(0));
+      const policy = this.config.rewardPolicies[coinType];
+      
+      const entry: RewardPlanEntry = { coinType, amount, destination: 'wallet', swap: null };
+      
+      if (policy?.action === 'swap') {
+        const swap = await this.planRewardSwap(policy.poolId, coinType, amount, coinTypeA, coinTypeB);
+        if (swap) {
+          entry.destination = swap.destination;
+          entry.swap = swap.swap;
+          plan[swap.destination === 'coin_a' ? 'amountA' : 'amountB'] += swap.swap.limits.minAmountOut;
+        }
+      } else if (policy?.action !== 'wallet' && (coinType === coinTypeA || coinType === coinTypeB)) {
+        entry.destination = coinType === coinTypeA ? 'coin_a' : 'coin_b';
+        plan[coinType === coinTypeA ? 'amountA' : 'amountB'] += amount;
+      }
+      
+      logger.info(
+        `Reward ${coinType}: pending ${amount} → ` +
+        (entry.swap ? `swap via ${entry.swap.pool.id} into ` : '') +
+        entry.destination.replace('_', ' ')
+      );
+      plan.entries.push(entry);
+    }
+    
+    return plan;
+  }
+  
+  /**
+   * Adds collect_reward for every rewarder and routes each reward to its
+   * destination. Rewards for coin A or B are merged into the given coins.
+   */
+  addRewardCollection(
+    ptb: Transaction,
+    pool: Pool,
+    positionId: string,
+    plan: RewardPlan,
+    coinA: TransactionObjectArgument,
+    coinB: TransactionObjectArgument,
+    recipient: string
+  ): void {
+    const { packageId, globalConfigId, globalVaultId } = this.cetusService.getContracts();
+    const [normalizedCoinTypeA, normalizedCoinTypeB] = normalizeTypeArguments([
+      pool.coinTypeA,
+      pool.coinTypeB,
+    ]);
+    const toWallet: TransactionObjectArgument[] = [];
+    
+    for (const entry of plan.entries) {
+      const [normalizedRewardType] = normalizeTypeArguments([entry.coinType]);
+      const destinationCoin = entry.destination === 'coin_a' ? coinA : coinB;
+      
+      // pool_script_v3::collect_reward merges the reward into the given coin
+      const rewardCoin = entry.destination !== 'wallet' && !entry.swap
+        ? destinationCoin
+        : coinWithBalance({ type: normalizedRewardType, balance: 0 })(ptb);
+      
+      ptb.moveCall({
+        target: `${packageId}::pool_script_v3::collect_reward`,
+        typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB, normalizedRewardType],
+        arguments: [
+          ptb.object(globalConfigId),
+          ptb.object(pool.id),
+          ptb.object(positionId),
+          ptb.object(globalVaultId),
+          rewardCoin,
+          ptb.object(SUI_CLOCK_OBJECT_ID),
+        ],
+      });
+      
+      if (entry.destination === 'wallet') {
+        toWallet.push(rewardCoin);
+      } else if (entry.swap) {
+        const { pool: swapPool, a2b, limits } = entry.swap;
+        const [swapCoinTypeA, swapCoinTypeB] = normalizeTypeArguments([
+          swapPool.coinTypeA,
+          swapPool.coinTypeB,
+        ]);
+        
+        // The swap output is merged into the destination coin, and the
+        // emptied reward coin is sent to the wallet
+        const coins = addSwapIfNeeded(
+          ptb,
+          swapPool,
+          {
+            swap: { a2b, amountIn: entry.amount, swapAll: true, estimatedAmountOut: limits.minAmountOut },
+            amountAAfter: BigInt(0),
+            amountBAfter: BigInt(0),
+          },
+          limits,
+          a2b ? rewardCoin : destinationCoin,
+          a2b ? destinationCoin : rewardCoin,
+          packageId,
+          globalConfigId,
+          swapCoinTypeA,
+          swapCoinTypeB
+        );
+        toWallet.push(a2b ? coins.coinA : coins.coinB);
+      }
+    }
+    
+    if (toWallet.length > 0) {
+      ptb.transferObjects(toWallet, ptb.pure.address(recipient));
+    }
+  }
+  
+  private async planRewardSwap(
+    poolId: string,
+    rewardCoinType: string,
+    amount: bigint,
+    coinTypeA: string,
+    coinTypeB: string
+  ): Promise<{ destination: 'coin_a' | 'coin_b'; swap: NonNullable<RewardPlanEntry['swap']> } | null> {
+    const swapPool = await this.cetusService.getPool(poolId);
+    const swapCoinTypeA = normalizeStructTag(swapPool.coinTypeA);
+    const swapCoinTypeB = normalizeStructTag(swapPool.coinTypeB);
+    
+    const a2b = swapCoinTypeA === rewardCoinType;
+    const outputCoinType = a2b ? swapCoinTypeB : swapCoinTypeA;
+    if (
+      (!a2b && swapCoinTypeB !== rewardCoinType) ||
+      (outputCoinType !== coinTypeA && outputCoinType !== coinTypeB)
+    ) {
+      throw new Error(
+        `Reward swap pool ${poolId} does not pair ${rewardCoinType} with coin A or coin B`
+      );
+    }
+    const destination = outputCoinType === coinTypeA ? 'coin_a' : 'coin_b';
+    
+    // The pool rejects zero-amount swaps, and an unfillable swap would abort
+    // the whole PTB, so such rewards are sent to the wallet instead
+    if (amount === BigInt(0)) {
+      return null;
+    }
+    const quote = await this.cetusService.quoteSwap(poolId, a2b, amount);
+    if (quote.isExceed || quote.amountOut === BigInt(0)) {
+      logger.warn(`Reward swap of ${amount} ${rewardCoinType} cannot be filled; sending it to the wallet`);
+      return null;
+    }
+    
+    return {
+      destination,
+      swap: { pool: swapPool, a2b, limits: calculateSwapLimits(quote, this.config.maxSlippagePercent) },
+    };
+  }
+}
@@ -0,0 +1,303 @@
+import { JsonRpcError, SuiClient, SuiHTTPTransport, SuiTransport } from '@mysten/sui/client';
+import { RpcConfig } from '../types';
+import { classifyError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+
+// Outcomes of recent requests kept per endpoint for the error rate
+const OUTCOME_WINDOW = 20;
+// Fewer outcomes than this say nothing about an endpoint's error rate
+const MIN_OUTCOMES = 5;
+// Health checks taking longer than this count as failed
+const PROBE_TIMEOUT_MS = 5000;
+// Weight of the newest probe in the smoothed latency
+const LATENCY_SMOOTHING = 0.3;
+// A healthy active endpoint is only left for one at most this fraction of its latency
+const SWITCH_LATENCY_RATIO = 0.5;
+
+interface Endpoint {
+  url: string;
+  /** Host only, for logs and metric labels: paths may carry API keys */
+  label: string;
+  /** Sends requests through the endpoint's error-recording fetch */
+  transport: SuiTransport;
+  client: SuiClient;
+  /** true for a failed request, oldest first */
+  outcomes: boolean[];
+  latencyMs: number | null;
+  checkpoint: bigint | null;
+  checkpointLag: number;
+  /** Result of the last health check; null before the first */
+  probeOk: boolean | null;
+}
+
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function errorRate(endpoint: Endpoint): number {
+  if (endpoint.outcomes.length < MIN_OUTCOMES) {
+    return 0;
+  }
+  return endpoint.outcomes.filter((failed) => failed).length / endpoint.outcomes.length;
+}
+
+/**
+ * Expected time per successful request; lower is better
+ */
+function score(endpoint: Endpoint): number {
+  if (endpoint.latencyMs === null) {
+    return Infinity;
+  }
+  return endpoint.latencyMs / (1 - Math.min(errorRate(endpoint), 0.99));
+}
+
+/**
+ * Tracks the health of the configured fullnodes and picks the one to use
+ *
+ * Every endpoint is probed each RPC_HEALTH_CHECK_INTERVAL_MS for its latest
+ * checkpoint, which gives its latency and how far it trails the others.
+ * Requests made through the clients handed out here, or run through track(),
+ * also count toward the endpoint's error rate, so a failing active endpoint
+ * is left as soon as its error rate crosses RPC_MAX_ERROR_RATE rather than at
+ * the next probe. Listeners are told about every switch, so clients built
+ * outside this pool from the active URL (the Cetus SDK's) can follow.
+ */
+export class RpcEndpointPool {
+  private config: RpcConfig;
+  private endpoints: Endpoint[];
+  private active: Endpoint;
+  private listeners: Array<(url: string) => void> = [];
+  private timeoutId: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  // Lets a probe still in flight after stop() tell that its loop has ended
+  private generation = 0;
+  
+  constructor(config: RpcConfig) {
+    this.config = config;
+    this.endpoints = config.urls.map((url) => this.createEndpoint(url));
+    this.active = this.endpoints[0];
+  }
+  
+  getClient(): SuiClient {
+    return this.active.client;
+  }
+  
+  getActiveUrl(): string {
+    return this.active.url;
+  }
+  
+  /**
+   * Runs a request sent to the active endpoint by a client built elsewhere,
+   * counting it toward that endpoint's error rate
+   * As with the pool's own clients, only failures that pass with time count;
+   * JSON-RPC errors are answers and do not.
+   */
+  async track<T>(request: () => Promise<T>): Promise<T> {
+    const endpoint = this.active;
+    try {
+      const result = await request();
+      this.record(endpoint, false);
+      return result;
+    } catch (error) {
+      this.record(endpoint, !(error instanceof JsonRpcError) && classifyError(error).kind === 'transient');
+      throw error;
+    }
+  }
+  
+  /**
+   * Registers a listener called with the new URL whenever the active endpoint changes
+   */
+  onSwitch(listener: (url: string) => void): void {
+    this.listeners.push(listener);
+  }
+  
+  start(): void {
+    if (this.running || this.endpoints.length < 2) {
+      return;
+    }
+    
+    this.running = true;
+    this.generation++;
+    logger.info(
+      `RPC failover across ${this.endpoints.length} endpoints, ` +
+      `health check every ${this.config.healthCheckIntervalMs}ms`
+    );
+    this.scheduleNext(this.generation, 0);
+  }
+  
+  stop(): void {
+    this.running = false;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+  
+  /**
+   * Probes every endpoint once and re-selects the active one
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map((endpoint) => this.probe(endpoint)));
+    
+    const checkpoints = this.endpoints
+      .map((endpoint) => endpoint.checkpoint)
+      .filter((checkpoint): checkpoint is bigint => checkpoint !== null);
+    const highest = checkpoints.reduce((max, checkpoint) => (checkpoint > max ? checkpoint : max), BigInt(0));
+    
+    for (const endpoint of this.endpoints) {
+      endpoint.checkpointLag = endpoint.checkpoint === null ? 0 : Number(highest - endpoint.checkpoint);
+      metrics.rpcEndpointHealthy.set({ endpoint: endpoint.label }, this.isHealthy(endpoint) ? 1 : 0);
+      metrics.rpcEndpointCheckpointLag.set({ endpoint: endpoint.label }, endpoint.checkpointLag);
+      if (endpoint.latencyMs !== null) {
+        metrics.rpcEndpointProbeLatency.set({ endpoint: endpoint.label }, endpoint.latencyMs / 1000);
+      }
+    }
+    
+    this.select();
+  }
+  
+  private scheduleNext(generation: number, delayMs: number): void {
+    if (!this.running || generation !== this.generation) {
+      return;
+    }
+    
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.checkHealth();
+      } catch (error) {
+        logger.warn(`RPC health check failed: ${(error as Error).message}`);
+      }
+      this.scheduleNext(generation, this.config.healthCheckIntervalMs);
+    }, delayMs);
+  }
+  
+  private createEndpoint(url: string): Endpoint {
+    // Network errors, rate limiting and server errors count against the
+    // endpoint; JSON-RPC errors are answers and do not
+    const recordingFetch: typeof fetch = async (input, init) => {
+      try {
+        const response = await fetch(input, init);
+        this.record(endpoint, response.status === 429 || response.status >= 500);
+        return response;
+      } catch (error) {
+        this.record(endpoint, true);
+        throw error;
+      }
+    };
+    
+    const transport = new SuiHTTPTransport({ url, fetch: recordingFetch });
+    const endpoint: Endpoint = {
+      url,
+      label: endpointLabel(url),
+      transport,
+      client: new SuiClient({ transport }),
+      outcomes: [],
+      latencyMs: null,
+      checkpoint: null,
+      checkpointLag: 0,
+      probeOk: null,
+    };
+    return endpoint;
+  }
+  
+  private record(endpoint: Endpoint, failed: boolean): void {
+    endpoint.outcomes.push(failed);
+    if (endpoint.outcomes.length > OUTCOME_WINDOW) {
+      endpoint.outcomes.shift();
+    }
+    
+    if (failed && endpoint === this.active && !this.isHealthy(endpoint)) {
+      this.select();
+    }
+  }
+  
+  private async probe(endpoint: Endpoint): Promise<void> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          reject(new Error(`timed out after ${PROBE_TIMEOUT_MS}ms`));
+        }, PROBE_TIMEOUT_MS);
+      });
+      const checkpoint = await Promise.race([endpoint.client.getLatestCheckpointSequenceNumber(), timeout]);
+      
+      const latencyMs = Date.now() - startedAt;
+      endpoint.latencyMs = endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+      endpoint.checkpoint = BigInt(checkpoint);
+      endpoint.probeOk = true;
+    } catch (error) {
+      if (endpoint.probeOk !== false) {
+        logger.warn(`RPC endpoint ${endpoint.label} failed its health check: ${(error as Error).message}`);
+      }
+      endpoint.probeOk = false;
+      endpoint.checkpoint = null;
+      // Other failures were already recorded by the fetch wrapper
+      if (timedOut) {
+        this.record(endpoint, true);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  private isHealthy(endpoint: Endpoint): boolean {
+    return (
+      endpoint.probeOk !== false &&
+      endpoint.checkpointLag <= this.config.maxCheckpointLag &&
+      errorRate(endpoint) <= this.config.maxErrorRate
+    );
+  }
+  
+  private describe(endpoint: Endpoint): string {
+    if (endpoint.probeOk === false) {
+      return 'failed health check';
+    }
+    if (endpoint.checkpointLag > this.config.maxCheckpointLag) {
+      return `${endpoint.checkpointLag} checkpoints behind`;
+    }
+    const rate = errorRate(endpoint);
+    if (rate > this.config.maxErrorRate) {
+      return `${(rate * 100).toFixed(0)}% of requests failing`;
+    }
+    return endpoint.latencyMs === null ? 'healthy' : `${endpoint.latencyMs.toFixed(0)}ms`;
+  }
+  
+  /**
+   * Moves to the best-scoring healthy endpoint, or the least bad one when none
+   * is healthy; a healthy active endpoint is kept unless another is much faster
+   */
+  private select(): void {
+    const healthy = this.endpoints.filter((endpoint) => this.isHealthy(endpoint));
+    const candidates = healthy.length > 0 ? healthy : this.endpoints;
+    const best = candidates.reduce(
+      (best, endpoint) => (score(endpoint) < score(best) ? endpoint : best),
+      candidates.includes(this.active) ? this.active : candidates[0]
+    );
+    
+    if (best === this.active) {
+      return;
+    }
+    if (this.isHealthy(this.active) && !(score(best) < score(this.active) * SWITCH_LATENCY_RATIO)) {
+      return;
+    }
+    
+    const previous = this.active;
+    this.active = best;
+    metrics.rpcFailovers.inc({ from: previous.label, to: best.label });
+    logger.warn(
+      `RPC failover: ${previous.label} (${this.describe(previous)}) -> ` +
+      `${best.label} (${this.describe(best)})`
+    );
+    this.listeners.forEach((listener) => listener(best.url));
+  }
+}
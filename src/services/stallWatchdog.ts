@@ -0,0 +1,74 @@
+import { logger } from '../utils/logger';
+import { NotificationService } from '../notifications';
+
+/**
+ * Raises a bot_stalled notification when no position check has succeeded
+ * for NOTIFY_STALL_TIMEOUT_MS
+ *
+ * Covers both a hung loop and checks that keep failing (for example an RPC
+ * outage). One alert is sent per stall; it re-arms once a check succeeds.
+ */
+export class StallWatchdog {
+  private timeoutMs: number;
+  private notifier: NotificationService;
+  private getLastSuccessAt: () => number | null;
+  private startedAt: number = 0;
+  private alerted: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  
+  constructor(
+    timeoutMs: number,
+    notifier: NotificationService,
+    getLastSuccessAt: () => number | null
+  ) {
+    this.timeoutMs = timeoutMs;
+    this.notifier = notifier;
+    this.getLastSuccessAt = getLastSuccessAt;
+  }
+  
+  start(): void {
+    if (this.intervalId || !this.notifier.isEnabled()) {
+      return;
+    }
+    
+    this.startedAt = Date.now();
+    this.alerted = false;
+    this.intervalId = setInterval(
+      () => this.check(),
+      Math.min(Math.floor(this.timeoutMs / 2), 60000)
+    );
+  }
+  
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+  
+  private check(): void {
+    const lastSuccessAt = this.getLastSuccessAt() ?? this.startedAt;
+    const silentMs = Date.now() - lastSuccessAt;
+    
+    if (silentMs < this.timeoutMs) {
+      this.alerted = false;
+      return;
+    }
+    
+    if (this.alerted) {
+      return;
+    }
+    
+    this.alerted = true;
+    logger.error(`Bot stalled: no successful position check for ${silentMs}ms`);
+    this.notifier.notify({
+      event: 'bot_stalled',
+      title: 'Bot stalled',
+      message: `No position check has succeeded for ${Math.round(silentMs / 1000)}s`,
+      details: {
+        lastSuccessfulCheck: new Date(lastSuccessAt).toISOString(),
+        stallTimeoutMs: this.timeoutMs,
+      },
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface PositionHistoryEntry {
+  positionId: string;
+  openedAt: number;
+  openDigest?: string;
+  closedAt?: number;
+  closeDigest?: string;
+}
+
+export interface GasCostRecord {
+  at: number;
+  digest: string;
+  gasCostMist: string;
+}
+
+export type RebalanceRecord = GasCostRecord;
+
+export interface OutOfRangeState {
+  since: number;
+  checks: number;
+}
+
+export interface PositionState {
+  activePositionId: string;
+  history: PositionHistoryEntry[];
+  /** Recent rebalances, kept for REBALANCE_RECORD_RETENTION_MS */
+  rebalances?: RebalanceRecord[];
+  /** Gas paid by compounds and failed transactions, kept as long as rebalances */
+  gasCosts?: GasCostRecord[];
+  /** Current out-of-range streak, null while in range */
+  outOfRange?: OutOfRangeState | null;
+  lastCompoundAt?: number;
+  updatedAt: number;
+}
+
+interface StateFile {
+  version: number;
+  positions: Record<string, PositionState>;
+}
+
+const STATE_VERSION = 1;
+
+// Long enough for the rolling 24h rebalance and gas limits
+const REBALANCE_RECORD_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Appends a record, dropping those past REBALANCE_RECORD_RETENTION_MS
+ */
+function withRecord(records: GasCostRecord[] | undefined, record: GasCostRecord): GasCostRecord[] {
+  return [
+    ...(records ?? []).filter((item) => item.at >= record.at - REBALANCE_RECORD_RETENTION_MS),
+    record,
+  ];
+}
+
+/**
+ * Persists the position the bot is currently managing
+ *
+ * Every rebalance closes the old position NFT and opens a new one, so the
+ * POSITION_ID from the environment is only the starting point. Entries are
+ * keyed by that configured ID so the bot picks up the latest position after
+ * a restart, and each entry keeps the list of position IDs it has held.
+ */
+export class StateStore {
+  private filePath: string;
+  private state: StateFile;
+  
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.state = this.load();
+    
+    logger.info(`State store loaded from ${this.filePath}`);
+  }
+  
+  /**
+   * Returns the position currently held for the given key, falling back to
+   * the configured position ID when nothing has been recorded yet
+   */
+  getActivePositionId(key: string): string {
+    return this.state.positions[key]?.activePositionId ?? key;
+  }
+  
+  getHistory(key: string): PositionHistoryEntry[] {
+    return this.state.positions[key]?.history ?? [];
+  }
+  
+  getRebalancesSince(key: string, since: number): RebalanceRecord[] {
+    return (this.state.positions[key]?.rebalances ?? []).filter((record) => record.at >= since);
+  }
+  
+  /**
+   * Gas paid by every position's recorded transactions since the given time
+   */
+  getGasSpentSince(since: number): bigint {
+    return Object.values(this.state.positions)
+      .flatMap((entry) => [...(entry.rebalances ?? []), ...(entry.gasCosts ?? [])])
+      .filter((record) => record.at >= since)
+      .reduce((total, record) => total + BigInt(record.gasCostMist), BigInt(0));
+  }
+  
+  getOutOfRange(key: string): OutOfRangeState | null {
+    return this.state.positions[key]?.outOfRange ?? null;
+  }
+  
+  /**
+   * @param persist false to only update the streak in memory, for changes a
+   * restart may lose
+   */
+  setOutOfRange(key: string, outOfRange: OutOfRangeState | null, persist: boolean = true): void {
+    const entry = this.ensureEntry(key, this.getActivePositionId(key));
+    entry.outOfRange = outOfRange;
+    entry.updatedAt = Date.now();
+    if (persist) {
+      this.save();
+    }
+  }
+  
+  getLastCompoundAt(key: string): number | null {
+    return this.state.positions[key]?.lastCompoundAt ?? null;
+  }
+  
+  /**
+   * Records an executed compound for the schedule and the daily gas budget
+   */
+  recordCompound(key: string, digest: string, gasCostMist: bigint): void {
+    const now = Date.now();
+    const entry = this.ensureEntry(key, this.getActivePositionId(key));
+    entry.gasCosts = withRecord(entry.gasCosts, { at: now, digest, gasCostMist: gasCostMist.toString() });
+    entry.lastCompoundAt = now;
+    entry.updatedAt = now;
+    this.save();
+  }
+  
+  /**
+   * Records gas paid by a transaction that is not a rebalance or compound,
+   * such as one that failed on chain, for the daily gas budget
+   */
+  recordGasCost(key: string, digest: string, gasCostMist: bigint): void {
+    const now = Date.now();
+    const entry = this.ensureEntry(key, this.getActivePositionId(key));
+    entry.gasCosts = withRecord(entry.gasCosts, { at: now, digest, gasCostMist: gasCostMist.toString() });
+    entry.updatedAt = now;
+    this.save();
+  }
+  
+  /**
+   * Records that the old position was closed and replaced by a new one
+   *
+   * @param key Stable key of the managed position (the configured position ID)
+   * @param oldPositionId Position closed by the rebalance
+   * @param newPositionId Position opened by the rebalance
+   * @param digest Digest of the rebalance transaction
+   */
+  recordRebalance(
+    key: string,
+    oldPositionId: string,
+    newPositionId: string,
+    digest: string
+  ): void {
+    const now = Date.now();
+    const entry = this.ensureEntry(key, oldPositionId);
+    
+    const current = entry.history.find(
+      (item) => item.positionId === oldPositionId && item.closedAt === undefined
+    );
+    if (current) {
+      current.closedAt = now;
+      current.closeDigest = digest;
+    }
+    
+    entry.history.push({
+      positionId: newPositionId,
+      openedAt: now,
+      openDigest: digest,
+    });
+    entry.activePositionId = newPositionId;
+    entry.updatedAt = now;
+    
+    this.save();
+    
+    logger.info(`Active position updated: ${oldPositionId} -> ${newPositionId}`);
+  }
+  
+  /**
+   * Records an executed rebalance for the cooldown and daily limits
+   * Recorded even when the new position ID is unknown, since the gas was paid.
+   */
+  recordRebalanceCost(key: string, digest: string, gasCostMist: bigint): void {
+    const now = Date.now();
+    const entry = this.ensureEntry(key, this.getActivePositionId(key));
+    
+    entry.rebalances = withRecord(entry.rebalances, { at: now, digest, gasCostMist: gasCostMist.toString() });
+    // The new position starts in range
+    entry.outOfRange = null;
+    entry.updatedAt = now;
+    
+    this.save();
+  }
+  
+  private ensureEntry(key: string, positionId: string): PositionState {
+    let entry = this.state.positions[key];
+    
+    if (!entry) {
+      entry = {
+        activePositionId: positionId,
+        history: [{ positionId, openedAt: Date.now() }],
+        updatedAt: Date.now(),
+      };
+      this.state.positions[key] = entry;
+    }
+    
+    return entry;
+  }
+  
+  private load(): StateFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: STATE_VERSION, positions: {} };
+    }
+    
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as StateFile;
+      
+      if (!parsed.positions || typeof parsed.positions !== 'object') {
+        throw new Error('missing "positions" object');
+      }
+      
+      return { version: parsed.version ?? STATE_VERSION, positions: parsed.positions };
+    } catch (error) {
+      // Refuse to start with a corrupt file rather than silently falling back
+      // to POSITION_ID, which may already have been closed on-chain
+      throw new Error(
+        `Failed to read state file ${this.filePath}: ${(error as Error).message}`
+      );
+    }
+  }
+  
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    
+    // Write to a temp file first so a crash mid-write cannot corrupt the state
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
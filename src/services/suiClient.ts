@@ -1,19 +1,62 @@
-import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import {
+  DryRunTransactionBlockResponse,
+  SuiClient,
+  SuiTransactionBlockResponse,
+} from '@mysten/sui/client';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { Transaction } from '@mysten/sui/transactions';
 import { BotConfig } from '../types';
 import { logger } from '../utils/logger';
-import { withRetry } from '../utils/retry';
+import { RetryPolicy, getRetryDelay, getRetryPolicies, withRetry } from '../utils/retry';
+import { metrics } from '../utils/metrics';
+import { getTotalGasCost } from '../utils/transactionResult';
 import { isTypeArgError } from '../utils/typeArgNormalizer';
+import { ErrorKind, PermanentError, classifyError, executionFailure } from '../utils/errors';
+import { RpcEndpointPool } from './rpcEndpointPool';
 
-export class SuiClientService {
-  private client: SuiClient;
+/**
+ * Thrown when the reference gas price is above MAX_GAS_PRICE
+ */
+export class GasPriceExceededError extends Error {
+  readonly gasPrice: bigint;
+  readonly maxGasPrice: number;
+  
+  constructor(gasPrice: bigint, maxGasPrice: number) {
+    super(`Gas price ${gasPrice} exceeds maximum ${maxGasPrice}`);
+    this.name = 'GasPriceExceededError';
+    this.gasPrice = gasPrice;
+    this.maxGasPrice = maxGasPrice;
+  }
+}
+
+/**
+ * Simulates and executes transactions for the bot's wallet
+ *
+ * Services depend on this rather than on SuiClientService, so the in-memory
+ * ClmmSimulator can stand in for mainnet.
+ */
+export interface TransactionExecutor {
+  getAddress(): string;
+  getGasPrice(): Promise<bigint>;
+  checkGasPrice(): Promise<void>;
+  dryRunTransaction(tx: Transaction): Promise<DryRunTransactionBlockResponse>;
+  executeTransaction(
+    buildTx: () => Promise<Transaction>,
+    verify?: (simulation: DryRunTransactionBlockResponse) => void
+  ): Promise<SuiTransactionBlockResponse>;
+  executeTransactionWithoutSimulation(
+    buildTx: () => Promise<Transaction>
+  ): Promise<SuiTransactionBlockResponse>;
+}
+
+export class SuiClientService implements TransactionExecutor {
+  private endpoints: RpcEndpointPool;
   private keypair: Ed25519Keypair;
   private config: BotConfig;
   
   constructor(config: BotConfig) {
     this.config = config;
-    this.client = new SuiClient({ url: config.rpcUrl });
+    this.endpoints = new RpcEndpointPool(config.rpc);
     
     // Validate private key format
     if (!config.privateKey.startsWith('0x') || config.privateKey.length !== 66) {
@@ -24,12 +67,21 @@ export class SuiClientService {
       Buffer.from(config.privateKey.slice(2), 'hex')
     );
     
-    logger.info(`Sui client initialized with RPC: ${config.rpcUrl}`);
+    logger.info(`Sui client initialized with RPC: ${config.rpc.urls.join(', ')}`);
     logger.info(`Wallet address: ${this.keypair.getPublicKey().toSuiAddress()}`);
   }
   
+  /**
+   * Client for the currently healthiest endpoint
+   * Fetch it per request rather than holding on to it, so requests follow
+   * failovers.
+   */
   getClient(): SuiClient {
-    return this.client;
+    return this.endpoints.getClient();
+  }
+  
+  getEndpoints(): RpcEndpointPool {
+    return this.endpoints;
   }
   
   getKeypair(): Ed25519Keypair {
@@ -42,174 +94,260 @@ export class SuiClientService {
   
   async simulateTransaction(tx: Transaction): Promise<void> {
     try {
-      await withRetry(
-        async () => {
-          // Build transaction for simulation
-          const txBytes = await tx.build({ client: this.client });
-          
-          const result = await this.client.dryRunTransactionBlock({
-            transactionBlock: txBytes,
-          });
-          
-          if (result.effects.status.status !== 'success') {
-            throw new Error(
-              `Transaction simulation failed: ${result.effects.status.error || 'Unknown error'}`
-            );
-          }
-          
-          logger.debug('Transaction simulation successful');
-        },
-        this.config.maxRetries,
-        this.config.minRetryDelayMs,
-        this.config.maxRetryDelayMs,
-        'Transaction simulation'
-      );
+      const result = await this.dryRunTransaction(tx);
+      
+      if (result.effects.status.status !== 'success') {
+        throw new Error(
+          `Transaction simulation failed: ${result.effects.status.error || 'Unknown error'}`
+        );
+      }
+      
+      logger.debug('Transaction simulation successful');
     } catch (error) {
       logger.error('Transaction simulation failed', error);
       throw error;
     }
   }
   
-  async executeTransaction(tx: Transaction): Promise<SuiTransactionBlockResponse> {
+  /**
+   * Dry-runs a transaction against current chain state without signing it
+   * The response is returned as-is, including failed executions, so callers
+   * can inspect the status, gas usage, balance changes and events
+   * 
+   * Note: this builds the transaction, so the same Transaction object cannot
+   * be executed afterwards
+   * 
+   * @param tx The transaction to dry-run
+   * @returns Promise resolving to the dry-run response
+   */
+  async dryRunTransaction(tx: Transaction): Promise<DryRunTransactionBlockResponse> {
+    // Build once: retries only repeat the RPC call, not the build
+    const txBytes = await tx.build({ client: this.getClient() });
+    
+    return await withRetry(
+      () => this.getClient().dryRunTransactionBlock({ transactionBlock: txBytes }),
+      this.config.maxRetries,
+      this.config.minRetryDelayMs,
+      this.config.maxRetryDelayMs,
+      'Transaction dry run'
+    );
+  }
+  
+  /**
+   * Simulates a transaction and executes it only if the simulation passes
+   * A Transaction object can only be built once, so the caller provides a
+   * builder: one copy is dry-run, and a fresh copy is signed and executed
+   * 
+   * @param buildTx Builds a new, identical transaction on every call
+   * @param verify Optional assertion on the simulation; throw to refuse execution
+   * @returns Promise resolving to the transaction response
+   * @throws Error if the simulation fails, verification rejects it, or execution fails
+   */
+  async executeTransaction(
+    buildTx: () => Promise<Transaction>,
+    verify?: (simulation: DryRunTransactionBlockResponse) => void
+  ): Promise<SuiTransactionBlockResponse> {
     try {
-      // First simulate (this builds the transaction)
-      await this.simulateTransaction(tx);
-      
-      // Transaction is now built, cannot execute it
-      // This is a fundamental limitation - we cannot both simulate AND execute
-      // the same Transaction object
-      throw new Error(
-        'Cannot execute after simulation: Transaction object can only be built once. ' +
-        'Caller must create separate transactions for simulation and execution.'
-      );
+      await this.preflight(await buildTx(), verify);
     } catch (error) {
-      logger.error('Transaction execution failed', error);
+      logger.error('Transaction refused by pre-flight check', error);
       throw error;
     }
+    
+    // A transaction rebuilt after a conflict is checked again before signing
+    return await this.execute(buildTx, (tx) => this.preflight(tx, verify));
+  }
+  
+  /**
+   * Dry-runs a transaction and applies the verification to the simulation
+   * 
+   * @throws ClassifiedError if the simulation fails or verification rejects it
+   */
+  private async preflight(
+    tx: Transaction,
+    verify?: (simulation: DryRunTransactionBlockResponse) => void
+  ): Promise<void> {
+    logger.info('Pre-flight: simulating transaction before signing...');
+    const simulation = await this.dryRunTransaction(tx);
+    
+    if (simulation.effects.status.status !== 'success') {
+      throw classifyError(
+        new Error(`Pre-flight simulation failed: ${simulation.effects.status.error || 'Unknown error'}`),
+        'permanent'
+      );
+    }
+    
+    if (verify) {
+      try {
+        verify(simulation);
+      } catch (error) {
+        throw new PermanentError((error as Error).message, error);
+      }
+    }
+    
+    logger.info('✓ Pre-flight simulation passed');
   }
   
   /**
    * Executes a transaction without prior simulation
-   * Wraps PTB execution in try-catch with retry logic
-   * Validates type arguments are properly normalized
-   * Retries up to 5 times (minimum) with exponential backoff
+   * Retries follow the policy for the kind of error (see utils/errors):
+   * transient failures resubmit the same transaction with exponential
+   * backoff, at least 5 attempts in all; object lock or version conflicts
+   * rebuild it from buildTx against current object versions; permanent
+   * errors, including transactions that failed on chain, are not retried.
    * 
-   * @param tx The transaction to execute
+   * @param buildTx Builds a new, identical transaction on every call
    * @returns Promise resolving to the transaction response
-   * @throws Error if transaction fails after all retry attempts
+   * @throws ClassifiedError if the transaction fails permanently or retries run out
    */
-  async executeTransactionWithoutSimulation(tx: Transaction): Promise<SuiTransactionBlockResponse> {
+  async executeTransactionWithoutSimulation(
+    buildTx: () => Promise<Transaction>
+  ): Promise<SuiTransactionBlockResponse> {
+    return await this.execute(buildTx);
+  }
+  
+  /**
+   * @param checkRebuilt Pre-flight check for transactions rebuilt after a conflict
+   */
+  private async execute(
+    buildTx: () => Promise<Transaction>,
+    checkRebuilt?: (tx: Transaction) => Promise<void>
+  ): Promise<SuiTransactionBlockResponse> {
+    const policies = getRetryPolicies(this.config);
+    // Ensure minimum of 5 attempts as per requirement
+    policies.transient.maxRetries = Math.max(policies.transient.maxRetries, 4);
+    
     try {
-      // Use configurable maxRetries from BotConfig
-      // Ensure minimum of 5 retries as per requirement
-      const maxRetries = Math.max(this.config.maxRetries, 5);
-      
-      logger.info(`Executing PTB with up to ${maxRetries} retry attempts and exponential backoff`);
-      
-      // Attempt execution with retry logic
-      return await this.executeWithRetry(tx, maxRetries);
+      logger.info(
+        `Executing PTB with up to ${policies.transient.maxRetries} transient and ` +
+        `${policies.conflict.maxRetries} conflict retries`
+      );
+      return await this.executeWithRetry(buildTx, policies, checkRebuilt);
     } catch (error) {
-      logger.error('Transaction execution failed after all retries', error);
+      logger.error('Transaction execution failed', error);
       throw error;
     }
   }
   
   /**
-   * Execute transaction with retry logic and exponential backoff
-   * Wraps execution in try-catch and handles transient failures
+   * Execute transaction with retry logic per error kind
    * Type arguments are validated and auto-corrected using TypeTagSerializer during PTB build
-   * Retries up to maxRetries times with exponential backoff delay
    * 
-   * @param tx The transaction to execute
-   * @param maxRetries Maximum number of retry attempts
+   * A built transaction keeps its object versions and gas payment, so
+   * resubmitting it after a transient failure cannot execute it twice: if the
+   * first submission went through, the network returns its effects.
+   * 
+   * @param buildTx Builds the transaction; called again after conflicts
+   * @param policies Retry policy for each kind of error
+   * @param checkRebuilt Run on every rebuilt transaction before it is signed
    * @returns Promise resolving to the transaction response
-   * @throws Error if all retry attempts fail
+   * @throws ClassifiedError if all retry attempts fail
    */
   private async executeWithRetry(
-    tx: Transaction,
-    maxRetries: number
+    buildTx: () => Promise<Transaction>,
+    policies: Record<ErrorKind, RetryPolicy>,
+    checkRebuilt?: (tx: Transaction) => Promise<void>
   ): Promise<SuiTransactionBlockResponse> {
-    let lastError: Error = new Error('Transaction execution failed with unknown error');
-    
-    logger.debug(`Starting PTB execution with ${maxRetries} maximum retry attempts`);
+    const retries: Record<ErrorKind, number> = { transient: 0, conflict: 0, permanent: 0 };
+    // Gas paid by attempts that executed and failed, e.g. congestion cancellations
+    let gasPaid = BigInt(0);
+    let tx = await buildTx();
+    let rebuild = false;
     
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
       try {
-        logger.debug(`Attempt ${attempt}/${maxRetries}: Executing PTB...`);
+        if (rebuild) {
+          tx = await buildTx();
+          if (checkRebuilt) {
+            await checkRebuilt(tx);
+          }
+          rebuild = false;
+        }
+        
+        logger.debug(`Attempt ${attempt}: Executing PTB...`);
         
-        // Execute the transaction
-        // Note: The Sui SDK's signAndExecuteTransaction accepts a Transaction object
-        // and builds it internally if not already built. The SDK handles transaction
-        // state appropriately for retry scenarios. Each call to signAndExecuteTransaction
-        // will attempt to build and execute the transaction.
-        const result = await this.client.signAndExecuteTransaction({
+        const result = await this.getClient().signAndExecuteTransaction({
           transaction: tx,
           signer: this.keypair,
           options: {
             showEffects: true,
             showEvents: true,
             showObjectChanges: true,
+            showBalanceChanges: true,
           },
         });
+        metrics.rpcLatency.observe(
+          { operation: 'Execute transaction' },
+          (Date.now() - startedAt) / 1000
+        );
+        
+        // Failed transactions are charged gas too
+        if (result.effects) {
+          metrics.gasSpent.inc({}, Number(getTotalGasCost(result.effects.gasUsed)));
+        }
         
         // Verify execution was successful
         if (result.effects?.status.status !== 'success') {
-          throw new Error(
-            `Transaction execution failed: ${result.effects?.status.error || 'Unknown error'}`
-          );
+          throw executionFailure(result);
         }
         
-        logger.info(`✓ Transaction executed successfully on attempt ${attempt}/${maxRetries}`);
+        logger.info(`✓ Transaction executed successfully on attempt ${attempt}`);
         logger.info(`  Digest: ${result.digest}`);
         return result;
         
       } catch (error) {
-        lastError = error as Error;
-        
-        // Check if this is a type argument related error
-        const isTypeError = isTypeArgError(lastError);
+        const classified = classifyError(error);
+        const policy = policies[classified.kind];
+        if (classified.gasCostMist !== undefined) {
+          gasPaid += classified.gasCostMist;
+        }
         
-        if (isTypeError) {
+        if (isTypeArgError(classified)) {
           logger.error(
-            `Type argument error detected on attempt ${attempt}/${maxRetries}. ` +
+            `Type argument error detected on attempt ${attempt}. ` +
             `This indicates the PTB was not built with properly normalized type arguments.`
           );
         }
         
-        if (attempt < maxRetries) {
-          // Calculate exponential backoff delay: baseDelay * 2^(attempt-1)
-          const baseDelay = this.config.minRetryDelayMs || 1000;
-          const maxDelay = this.config.maxRetryDelayMs || 30000;
-          const delay = Math.min(
-            baseDelay * Math.pow(2, attempt - 1),
-            maxDelay
-          );
-          
-          const errorType = isTypeError ? 'Type argument error' : 'Transaction error';
-          logger.warn(
-            `✗ ${errorType} on attempt ${attempt}/${maxRetries}: ${lastError.message}`
-          );
-          logger.info(`  Retrying with exponential backoff delay: ${delay}ms...`);
-          
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        } else {
-          // All retry attempts exhausted
+        if (retries[classified.kind] >= policy.maxRetries) {
           logger.error(
-            `✗ Transaction execution failed after all ${maxRetries} retry attempts`
+            classified.kind === 'permanent'
+              ? `✗ Transaction failed permanently on attempt ${attempt}, not retrying`
+              : `✗ Transaction execution failed after ${retries[classified.kind]} ${classified.kind} retries`
           );
-          logger.error(`  Final error: ${lastError.message}`);
+          logger.error(`  Final error: ${classified.message}`);
+          if (gasPaid > BigInt(0)) {
+            classified.gasCostMist = gasPaid;
+          }
+          throw classified;
+        }
+        
+        retries[classified.kind]++;
+        metrics.retryAttempts.inc({ operation: 'Execute transaction' });
+        const delay = getRetryDelay(policy, retries[classified.kind]);
+        
+        logger.warn(`✗ ${classified.name} on attempt ${attempt}: ${classified.message}`);
+        logger.info(
+          classified.kind === 'conflict'
+            ? `  Rebuilding against current object versions in ${delay}ms...`
+            : `  Retrying with exponential backoff delay: ${delay}ms...`
+        );
+        
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        
+        if (classified.kind === 'conflict') {
+          rebuild = true;
         }
       }
     }
-    
-    throw lastError;
   }
   
   async getGasPrice(): Promise<bigint> {
     try {
       return await withRetry(
         async () => {
-          const gasPrice = await this.client.getReferenceGasPrice();
+          const gasPrice = await this.getClient().getReferenceGasPrice();
           return BigInt(gasPrice);
         },
         this.config.maxRetries,
@@ -227,9 +365,7 @@ export class SuiClientService {
     const gasPrice = await this.getGasPrice();
     
     if (gasPrice > BigInt(this.config.maxGasPrice)) {
-      throw new Error(
-        `Gas price ${gasPrice} exceeds maximum ${this.config.maxGasPrice}`
-      );
+      throw new GasPriceExceededError(gasPrice, this.config.maxGasPrice);
     }
     
     logger.debug(`Gas price check passed: ${gasPrice}`);
@@ -0,0 +1,186 @@
+import { PaginatedTransactionResponse, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { SuiClientService } from './suiClient';
+import { CetusService } from './cetusService';
+import { BotConfig } from '../types';
+import { withRetry } from '../utils/retry';
+
+export interface SwapEventData {
+  atob: boolean;
+  pool: string;
+  amount_in: string;
+  amount_out: string;
+  fee_amount: string;
+  before_sqrt_price: string;
+  after_sqrt_price: string;
+}
+
+export interface SwapVolume {
+  /** Input volume of A->B swaps, in raw coin A units */
+  volumeA: bigint;
+  /** Input volume of B->A swaps, in raw coin B units */
+  volumeB: bigint;
+  swapCount: number;
+  /** Time span actually covered by the fetched transactions */
+  spanMs: number;
+}
+
+/**
+ * A swap read while following a pool
+ */
+export interface ObservedSwap {
+  poolId: string;
+  afterSqrtPrice: bigint;
+  timestamp: number;
+}
+
+const TRANSACTIONS_PER_PAGE = 50;
+
+/**
+ * Reads Cetus SwapEvents for a pool
+ *
+ * Swap events are emitted by every Cetus pool under one event type, so they
+ * are read from the transactions that changed the pool object instead, which
+ * keeps each query to that pool's own activity. Volume lookbacks read pages
+ * newest first; following a pool reads them oldest first from a cursor.
+ */
+export class SwapEventService {
+  private suiClient: SuiClientService;
+  private cetusService: CetusService;
+  private config: BotConfig;
+  
+  constructor(suiClient: SuiClientService, cetusService: CetusService, config: BotConfig) {
+    this.suiClient = suiClient;
+    this.cetusService = cetusService;
+    this.config = config;
+  }
+  
+  /**
+   * Sums swap input volume for a pool over a lookback window
+   * Only the pool's own transactions are read, newest first. The window is
+   * covered in full unless `maxPages` pages run out first; spanMs then
+   * reports the shorter period the volume actually refers to.
+   */
+  async getRecentSwapVolume(
+    poolId: string,
+    lookbackMs: number,
+    maxPages: number
+  ): Promise<SwapVolume> {
+    const now = Date.now();
+    const since = now - lookbackMs;
+    const result: SwapVolume = { volumeA: BigInt(0), volumeB: BigInt(0), swapCount: 0, spanMs: lookbackMs };
+    
+    let cursor: string | null = null;
+    let oldestSeen = now;
+    for (let page = 0; page < maxPages; page++) {
+      const response = await this.queryPoolPage(poolId, cursor, 'descending', TRANSACTIONS_PER_PAGE);
+      
+      for (const transaction of response.data) {
+        const timestamp = Number(transaction.timestampMs ?? now);
+        if (timestamp < since) {
+          return result;
+        }
+        
+        for (const data of this.swapsOf(poolId, transaction)) {
+          if (data.atob) {
+            result.volumeA += BigInt(data.amount_in);
+          } else {
+            result.volumeB += BigInt(data.amount_in);
+          }
+          result.swapCount++;
+        }
+        oldestSeen = timestamp;
+      }
+      
+      // With no older transactions the whole window is covered
+      if (!response.hasNextPage || !response.nextCursor) {
+        return result;
+      }
+      cursor = response.nextCursor;
+    }
+    
+    result.spanMs = now - oldestSeen;
+    return result;
+  }
+  
+  /**
+   * Digest of the newest transaction that changed a pool, to follow its swaps
+   * from now on; null if the pool has no transactions
+   */
+  async getLatestCursor(poolId: string): Promise<string | null> {
+    const response = await this.queryPoolPage(poolId, null, 'descending', 1);
+    return response.data[0]?.digest ?? null;
+  }
+  
+  /**
+   * Swaps in a pool after a transaction cursor, oldest first
+   * Reads at most `maxPages` pages; the returned cursor resumes after the
+   * last transaction read, or stays put when there was nothing new.
+   */
+  async getSwapsAfter(
+    poolId: string,
+    cursor: string,
+    maxPages: number
+  ): Promise<{ swaps: ObservedSwap[]; cursor: string }> {
+    const swaps: ObservedSwap[] = [];
+    let next = cursor;
+    
+    for (let page = 0; page < maxPages; page++) {
+      const response = await this.queryPoolPage(poolId, next, 'ascending', TRANSACTIONS_PER_PAGE);
+      
+      for (const transaction of response.data) {
+        for (const data of this.swapsOf(poolId, transaction)) {
+          swaps.push({
+            poolId: data.pool,
+            afterSqrtPrice: BigInt(data.after_sqrt_price),
+            timestamp: Number(transaction.timestampMs ?? Date.now()),
+          });
+        }
+        next = transaction.digest;
+      }
+      
+      if (!response.hasNextPage) {
+        break;
+      }
+    }
+    
+    return { swaps, cursor: next };
+  }
+  
+  /**
+   * Transactions that changed a pool object, with their events
+   */
+  private async queryPoolPage(
+    poolId: string,
+    cursor: string | null,
+    order: 'ascending' | 'descending',
+    limit: number
+  ): Promise<PaginatedTransactionResponse> {
+    return await withRetry(
+      () =>
+        this.suiClient.getClient().queryTransactionBlocks({
+          filter: { ChangedObject: poolId },
+          options: { showEvents: true },
+          cursor,
+          limit,
+          order,
+        }),
+      this.config.maxRetries,
+      this.config.minRetryDelayMs,
+      this.config.maxRetryDelayMs,
+      'Query pool transactions'
+    );
+  }
+  
+  /**
+   * SwapEvents of a pool in a transaction; a transaction can swap through
+   * other pools too
+   */
+  private swapsOf(poolId: string, transaction: SuiTransactionBlockResponse): SwapEventData[] {
+    const swapEventType = this.cetusService.getSwapEventType();
+    return (transaction.events ?? [])
+      .filter((event) => event.type === swapEventType)
+      .map((event) => event.parsedJson as SwapEventData)
+      .filter((data) => normalizeSuiAddress(data.pool) === normalizeSuiAddress(poolId));
+  }
+}
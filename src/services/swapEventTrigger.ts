@@ -0,0 +1,152 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventTriggerConfig } from '../types';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { sqrtPriceToTick } from '../utils/tickMath';
+import { SwapEventService } from './swapEventService';
+
+// Pages of pool transactions read per pool and poll; a backlog beyond this is
+// read on the next polls
+const MAX_PAGES_PER_POLL = 10;
+
+/**
+ * Triggers position checks from swaps in the managed pools
+ *
+ * Follows the Cetus SwapEvents of each pool by polling the transactions that
+ * changed the pool object from a per-pool cursor. Sui fullnodes have
+ * deprecated event subscriptions, and the SwapEvent type spans every Cetus
+ * pool, so pool-scoped polling keeps each poll to the managed pools' own
+ * activity. A pool is checked when a swap leaves its price
+ * EVENT_TICK_THRESHOLD ticks or more from the tick of its last check; the
+ * bots' periodic checks remain as a heartbeat in case polling fails.
+ */
+export class SwapEventTrigger {
+  private swapEvents: SwapEventService;
+  private config: EventTriggerConfig;
+  private poolIds: Set<string>;
+  private onTrigger: (poolIds: string[]) => Promise<void>;
+  // Tick each pool was last checked (or triggered) at
+  private referenceTicks = new Map<string, number>();
+  // Digest of the last transaction read for each pool
+  private cursors = new Map<string, string>();
+  private timeoutId: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  // Lets a poll still in flight after stop() tell that its loop has ended
+  private generation = 0;
+  
+  constructor(
+    swapEvents: SwapEventService,
+    config: EventTriggerConfig,
+    poolIds: string[],
+    onTrigger: (poolIds: string[]) => Promise<void>
+  ) {
+    this.swapEvents = swapEvents;
+    this.config = config;
+    this.poolIds = new Set(poolIds.map((poolId) => normalizeSuiAddress(poolId)));
+    this.onTrigger = onTrigger;
+  }
+  
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    
+    this.running = true;
+    this.generation++;
+    // Swaps while stopped are skipped: following restarts from the newest transaction
+    this.cursors.clear();
+    logger.info(
+      `Event trigger: following swaps in ${this.poolIds.size} pool(s), ` +
+      `threshold ${this.config.tickThreshold} ticks, polling every ${this.config.pollIntervalMs}ms`
+    );
+    this.scheduleNext(this.generation);
+  }
+  
+  stop(): void {
+    this.running = false;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+  
+  /**
+   * Records the tick a pool was checked at; later swaps are compared with it
+   */
+  markChecked(poolId: string, tick: number): void {
+    this.referenceTicks.set(normalizeSuiAddress(poolId), tick);
+  }
+  
+  private scheduleNext(generation: number): void {
+    if (!this.running || generation !== this.generation) {
+      return;
+    }
+    
+    // Each poll is scheduled after the previous one ends, so polls never overlap
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        logger.warn(`Swap event polling failed: ${(error as Error).message}`);
+      }
+      this.scheduleNext(generation);
+    }, this.config.pollIntervalMs);
+  }
+  
+  private async poll(): Promise<void> {
+    const triggered: string[] = [];
+    for (const poolId of this.poolIds) {
+      try {
+        if (await this.pollPool(poolId)) {
+          triggered.push(poolId);
+        }
+      } catch (error) {
+        logger.warn(`Swap event polling failed for pool ${poolId}: ${(error as Error).message}`);
+      }
+    }
+    
+    if (triggered.length > 0) {
+      triggered.forEach((poolId) => metrics.eventTriggers.inc({ pool: poolId }));
+      // Polling goes on while the checks run; the bots queue them
+      this.onTrigger(triggered).catch((error) => {
+        logger.error(`Triggered position check failed: ${(error as Error).message}`);
+      });
+    }
+  }
+  
+  /**
+   * Reads a pool's new swaps; true if one moved its tick by the threshold
+   */
+  private async pollPool(poolId: string): Promise<boolean> {
+    const cursor = this.cursors.get(poolId);
+    if (cursor === undefined) {
+      const latest = await this.swapEvents.getLatestCursor(poolId);
+      if (latest) {
+        this.cursors.set(poolId, latest);
+      }
+      return false;
+    }
+    
+    const result = await this.swapEvents.getSwapsAfter(poolId, cursor, MAX_PAGES_PER_POLL);
+    this.cursors.set(poolId, result.cursor);
+    
+    let moved = false;
+    for (const swap of result.swaps) {
+      const tick = sqrtPriceToTick(swap.afterSqrtPrice);
+      const reference = this.referenceTicks.get(poolId);
+      if (reference === undefined) {
+        this.referenceTicks.set(poolId, tick);
+        continue;
+      }
+      
+      if (Math.abs(tick - reference) >= this.config.tickThreshold) {
+        // Moving the reference now keeps further swaps from re-triggering
+        // before the check has run
+        this.referenceTicks.set(poolId, tick);
+        moved = true;
+        logger.info(`Swap moved pool ${poolId} from tick ${reference} to ${tick}; checking`);
+      }
+    }
+    return moved;
+  }
+}
@@ -0,0 +1,36 @@
+export interface TickSample {
+  timestamp: number;
+  tick: number;
+}
+
+/**
+ * Rolling in-memory history of pool tick samples
+ *
+ * MonitorService records one sample per pool on every report. Samples are
+ * kept per pool so portfolio entries sharing a pool share its history.
+ */
+export class TickHistory {
+  private maxSamples: number;
+  private samples: Map<string, TickSample[]> = new Map();
+  
+  constructor(maxSamples: number) {
+    if (maxSamples < 2) {
+      throw new Error('Tick history must keep at least 2 samples');
+    }
+    this.maxSamples = maxSamples;
+  }
+  
+  record(poolId: string, tick: number, timestamp: number = Date.now()): void {
+    const poolSamples = this.samples.get(poolId) ?? [];
+    poolSamples.push({ timestamp, tick });
+    if (poolSamples.length > this.maxSamples) {
+      poolSamples.splice(0, poolSamples.length - this.maxSamples);
+    }
+    
+    this.samples.set(poolId, poolSamples);
+  }
+  
+  getSamples(poolId: string): TickSample[] {
+    return [...(this.samples.get(poolId) ?? [])];
+  }
+}
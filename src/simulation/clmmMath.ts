@@ -0,0 +1,129 @@
+import {
+  getAmountAFromLiquidity,
+  getAmountBFromLiquidity,
+  getLiquidityFromAmountA,
+  getLiquidityFromAmountB,
+} from '../utils/tickMath';
+
+const Q64 = BigInt(2) ** BigInt(64);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+export const FEE_RATE_DENOMINATOR = BigInt(1_000_000);
+
+export interface SwapStep {
+  sqrtPriceNext: bigint;
+  /** Input consumed by the step, excluding the fee */
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Fee charged on the input */
+  feeAmount: bigint;
+}
+
+function divRoundUp(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return numerator % denominator === ZERO ? quotient : quotient + ONE;
+}
+
+/**
+ * One step of a swap within a single liquidity segment, as in the Cetus pool
+ *
+ * The price moves from sqrtPrice toward sqrtPriceTarget, stopping early when
+ * amountRemaining (input including the fee) runs out. The fee is charged on
+ * the input; amounts owed to the pool round up and amounts paid out round
+ * down.
+ */
+export function computeSwapStep(
+  sqrtPrice: bigint,
+  sqrtPriceTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feeRate: bigint
+): SwapStep {
+  if (liquidity === ZERO) {
+    return { sqrtPriceNext: sqrtPriceTarget, amountIn: ZERO, amountOut: ZERO, feeAmount: ZERO };
+  }
+  
+  const a2b = sqrtPriceTarget < sqrtPrice;
+  const amountLessFee = (amountRemaining * (FEE_RATE_DENOMINATOR - feeRate)) / FEE_RATE_DENOMINATOR;
+  
+  let sqrtPriceNext: bigint;
+  let amountIn: bigint;
+  let amountOut: bigint;
+  
+  if (a2b) {
+    const maxAmountIn = getAmountAFromLiquidity(sqrtPriceTarget, sqrtPrice, liquidity, true);
+    if (amountLessFee >= maxAmountIn) {
+      sqrtPriceNext = sqrtPriceTarget;
+      amountIn = maxAmountIn;
+    } else {
+      amountIn = amountLessFee;
+      sqrtPriceNext = divRoundUp(
+        liquidity * Q64 * sqrtPrice,
+        liquidity * Q64 + amountIn * sqrtPrice
+      );
+    }
+    amountOut = getAmountBFromLiquidity(sqrtPriceNext, sqrtPrice, liquidity);
+  } else {
+    const maxAmountIn = getAmountBFromLiquidity(sqrtPrice, sqrtPriceTarget, liquidity, true);
+    if (amountLessFee >= maxAmountIn) {
+      sqrtPriceNext = sqrtPriceTarget;
+      amountIn = maxAmountIn;
+    } else {
+      amountIn = amountLessFee;
+      sqrtPriceNext = sqrtPrice + (amountIn * Q64) / liquidity;
+    }
+    amountOut = getAmountAFromLiquidity(sqrtPrice, sqrtPriceNext, liquidity);
+  }
+  
+  // A step that stops short of the target uses up the whole remainder
+  let feeAmount = sqrtPriceNext === sqrtPriceTarget
+    ? divRoundUp(amountIn * feeRate, FEE_RATE_DENOMINATOR - feeRate)
+    : amountRemaining - amountIn;
+  if (amountIn + feeAmount > amountRemaining) {
+    feeAmount = amountRemaining - amountIn;
+  }
+  
+  return { sqrtPriceNext, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Liquidity and coin amounts for add_liquidity_by_fix_coin
+ *
+ * The fixed coin's amount sets the liquidity; the other coin's amount is
+ * rounded up, as the pool charges it. Below the range only coin A can be
+ * fixed, above it only coin B.
+ */
+export function getFixCoinAmounts(
+  sqrtPrice: bigint,
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  amount: bigint,
+  fixAmountA: boolean
+): { liquidity: bigint; amountA: bigint; amountB: bigint } {
+  if (sqrtPrice < sqrtPriceLower) {
+    if (!fixAmountA) {
+      throw new Error('Price is below the range: only coin A can be fixed');
+    }
+    const liquidity = getLiquidityFromAmountA(sqrtPriceLower, sqrtPriceUpper, amount);
+    return { liquidity, amountA: amount, amountB: ZERO };
+  }
+  
+  if (sqrtPrice >= sqrtPriceUpper) {
+    if (fixAmountA) {
+      throw new Error('Price is above the range: only coin B can be fixed');
+    }
+    const liquidity = getLiquidityFromAmountB(sqrtPriceLower, sqrtPriceUpper, amount);
+    return { liquidity, amountA: ZERO, amountB: amount };
+  }
+  
+  if (fixAmountA) {
+    const liquidity = getLiquidityFromAmountA(sqrtPrice, sqrtPriceUpper, amount);
+    const amountB = getAmountBFromLiquidity(sqrtPriceLower, sqrtPrice, liquidity, true);
+    return { liquidity, amountA: amount, amountB };
+  }
+  
+  const liquidity = getLiquidityFromAmountB(sqrtPriceLower, sqrtPrice, amount);
+  const amountA = getAmountAFromLiquidity(sqrtPrice, sqrtPriceUpper, liquidity, true);
+  return { liquidity, amountA, amountB: amount };
+}
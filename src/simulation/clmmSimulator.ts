@@ -0,0 +1,1219 @@
+import {
+  BalanceChange,
+  DryRunTransactionBlockResponse,
+  SuiEvent,
+  SuiObjectChange,
+  SuiTransactionBlockResponse,
+  TransactionEffects,
+} from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { CetusContracts, PoolReader } from '../services/cetusService';
+import { GasPriceExceededError, TransactionExecutor } from '../services/suiClient';
+import { SwapVolume } from '../services/swapEventService';
+import { CoinMetadata, PendingCollection, Pool, Position, SwapQuote } from '../types';
+import {
+  getAmountsForLiquidity,
+  getFeeGrowthDelta,
+  getFeesFromGrowth,
+  MAX_SQRT_PRICE,
+  MIN_SQRT_PRICE,
+  sqrtPriceToTick,
+  tickToSqrtPrice,
+} from '../utils/tickMath';
+import { executionFailure } from '../utils/errors';
+import { computeSwapStep, FEE_RATE_DENOMINATOR, getFixCoinAmounts } from './clmmMath';
+
+type TransactionData = ReturnType<Transaction['getData']>;
+type Command = TransactionData['commands'][number];
+type Argument = NonNullable<Command['MergeCoins']>['destination'];
+
+const ZERO = BigInt(0);
+const SUI_TYPE = normalizeStructTag('0x2::sui::SUI');
+
+interface SimPool {
+  id: string;
+  coinTypeA: string;
+  coinTypeB: string;
+  sqrtPrice: bigint;
+  tickSpacing: number;
+  feeRate: number;
+  /** Full-range liquidity of other LPs */
+  baseLiquidity: bigint;
+  rewarderCoinTypes: string[];
+  swaps: Array<{ timestamp: number; a2b: boolean; amountIn: bigint }>;
+}
+
+interface SimPosition {
+  id: string;
+  poolId: string;
+  /** Empty while a newly opened position has not been transferred yet */
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  feeA: bigint;
+  feeB: bigint;
+  rewards: Map<string, bigint>;
+}
+
+interface SimState {
+  pools: Map<string, SimPool>;
+  positions: Map<string, SimPosition>;
+  /** Owner address -> normalized coin type -> balance */
+  balances: Map<string, Map<string, bigint>>;
+  nextObjectId: number;
+}
+
+type SimValue =
+  | { kind: 'coin'; coinType: string; balance: bigint; moved: boolean }
+  | { kind: 'position'; id: string; moved: boolean }
+  | { kind: 'object'; id: string }
+  | { kind: 'pure'; bytes: string };
+
+/**
+ * A Move abort or execution error inside a simulated transaction
+ */
+class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+/**
+ * Outcome of interpreting a transaction against a copy of the state
+ */
+interface Execution {
+  state: SimState;
+  error: string | null;
+  events: SuiEvent[];
+  objectChanges: SuiObjectChange[];
+}
+
+export interface ClmmSimulatorOptions {
+  /** Wallet address that signs every transaction */
+  address: string;
+  gasPrice?: bigint;
+  /** Refused by checkGasPrice, as MAX_GAS_PRICE */
+  maxGasPrice?: number;
+  /** Gas charged to every transaction, in MIST */
+  gasUsed?: { computationCost: bigint; storageCost: bigint; storageRebate: bigint };
+  contracts?: Partial<CetusContracts>;
+  /** Package that defines the pool events and the Position type */
+  clmmPackageId?: string;
+  /** Initial simulated time in milliseconds */
+  now?: number;
+}
+
+export interface SimPoolParams {
+  coinTypeA: string;
+  coinTypeB: string;
+  tickSpacing: number;
+  /** Fee rate, denominator 1_000_000 */
+  feeRate: number;
+  /** Initial price as a tick; ignored when sqrtPrice is given */
+  tick?: number;
+  sqrtPrice?: bigint;
+  /** Full-range liquidity of other LPs */
+  liquidity?: bigint;
+  rewarderCoinTypes?: string[];
+}
+
+/**
+ * Deterministic in-memory Cetus CLMM for integration tests
+ *
+ * Stands in for both CetusService (PoolReader) and SuiClientService
+ * (TransactionExecutor). Pools carry a constant full-range base liquidity
+ * plus the simulated positions; swaps walk across position boundaries and
+ * pay the pool fee to in-range positions by liquidity share.
+ *
+ * Transactions are interpreted from their commands, with the calling
+ * convention the PTB builders in this repo rely on:
+ * - pool_script::remove_liquidity returns (Coin<A>, Coin<B>)
+ * - pool_script_v2::collect_fee takes the coins by value and returns them
+ *   with the fees added; pool_script_v3::collect_fee and collect_reward add
+ *   into `&mut` coins
+ * - pool_script::open_position returns the Position, close_position requires
+ *   it to be empty
+ * - pool_script_v2::add_liquidity_by_fix_coin consumes the coins and
+ *   refunds what it does not deposit to the sender
+ * - router::swap returns (Coin<A>, Coin<B>); router::check_coin_threshold
+ * - MergeCoins, TransferObjects and CoinWithBalance intents, which withdraw
+ *   from the wallet
+ *
+ * Every transaction runs on a copy of the state that is kept only when it
+ * succeeds. Dry runs never change the state. Gas is a fixed charge in SUI.
+ */
+export class ClmmSimulator implements PoolReader, TransactionExecutor {
+  private state: SimState = {
+    pools: new Map(),
+    positions: new Map(),
+    balances: new Map(),
+    nextObjectId: 1,
+  };
+  private address: string;
+  private gasPrice: bigint;
+  private maxGasPrice: number;
+  private gasUsed: { computationCost: bigint; storageCost: bigint; storageRebate: bigint };
+  private contracts: CetusContracts;
+  private clmmPackageId: string;
+  private coinMetadata = new Map<string, CoinMetadata>();
+  private now: number;
+  private transactionCount = 0;
+  
+  constructor(options: ClmmSimulatorOptions) {
+    this.address = normalizeSuiAddress(options.address);
+    this.gasPrice = options.gasPrice ?? BigInt(750);
+    this.maxGasPrice = options.maxGasPrice ?? Number.MAX_SAFE_INTEGER;
+    this.gasUsed = options.gasUsed ?? {
+      computationCost: BigInt(1_000_000),
+      storageCost: BigInt(2_000_000),
+      storageRebate: BigInt(1_500_000),
+    };
+    this.contracts = {
+      packageId: normalizeSuiAddress(options.contracts?.packageId ?? '0xc1'),
+      globalConfigId: normalizeSuiAddress(options.contracts?.globalConfigId ?? '0xc2'),
+      globalVaultId: normalizeSuiAddress(options.contracts?.globalVaultId ?? '0xc3'),
+    };
+    this.clmmPackageId = normalizeSuiAddress(options.clmmPackageId ?? '0xc0');
+    this.now = options.now ?? 0;
+  }
+  
+  createPool(params: SimPoolParams): string {
+    if (params.tickSpacing <= 0 || !Number.isInteger(params.tickSpacing)) {
+      throw new Error('Tick spacing must be a positive integer');
+    }
+    if (params.feeRate < 0 || BigInt(params.feeRate) >= FEE_RATE_DENOMINATOR) {
+      throw new Error('Fee rate must be below 1000000');
+    }
+    
+    const id = this.newObjectId(this.state);
+    this.state.pools.set(id, {
+      id,
+      coinTypeA: normalizeStructTag(params.coinTypeA),
+      coinTypeB: normalizeStructTag(params.coinTypeB),
+      sqrtPrice: params.sqrtPrice ?? tickToSqrtPrice(params.tick ?? 0),
+      tickSpacing: params.tickSpacing,
+      feeRate: params.feeRate,
+      baseLiquidity: params.liquidity ?? ZERO,
+      rewarderCoinTypes: (params.rewarderCoinTypes ?? []).map((type) => normalizeStructTag(type)),
+      swaps: [],
+    });
+    return id;
+  }
+  
+  /**
+   * Adds a position without moving coins, e.g. the one the bot starts with
+   */
+  addPosition(params: {
+    poolId: string;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: bigint;
+    owner?: string;
+  }): string {
+    const pool = this.requirePool(this.state, params.poolId);
+    this.checkTicks(pool, params.tickLower, params.tickUpper);
+    
+    const id = this.newObjectId(this.state);
+    this.state.positions.set(id, {
+      id,
+      poolId: pool.id,
+      owner: normalizeSuiAddress(params.owner ?? this.address),
+      tickLower: params.tickLower,
+      tickUpper: params.tickUpper,
+      liquidity: params.liquidity,
+      feeA: ZERO,
+      feeB: ZERO,
+      rewards: new Map(),
+    });
+    return id;
+  }
+  
+  setBalance(coinType: string, amount: bigint, owner: string = this.address): void {
+    setBalance(this.state, normalizeSuiAddress(owner), normalizeStructTag(coinType), amount);
+  }
+  
+  getBalance(coinType: string, owner: string = this.address): bigint {
+    return getBalance(this.state, normalizeSuiAddress(owner), normalizeStructTag(coinType));
+  }
+  
+  /**
+   * Sets what getCoinMetadata returns for a coin type. Coins without it get
+   * their struct name as the symbol and 9 decimals.
+   */
+  setCoinMetadata(coinType: string, symbol: string, decimals: number): void {
+    const type = normalizeStructTag(coinType);
+    this.coinMetadata.set(type, { coinType: type, symbol, decimals });
+  }
+  
+  /**
+   * Credits rewarder emissions to a position
+   */
+  accrueReward(positionId: string, coinType: string, amount: bigint): void {
+    const position = this.requirePosition(this.state, positionId);
+    const pool = this.requirePool(this.state, position.poolId);
+    const type = normalizeStructTag(coinType);
+    if (!pool.rewarderCoinTypes.includes(type)) {
+      throw new Error(`Pool ${pool.id} has no rewarder for ${type}`);
+    }
+    position.rewards.set(type, (position.rewards.get(type) ?? ZERO) + amount);
+  }
+  
+  /**
+   * A swap by another trader: moves the price and pays fees to the positions
+   * in range, without touching the wallet
+   */
+  swap(poolId: string, a2b: boolean, amountIn: bigint): SwapQuote {
+    return this.applySwap(this.state, poolId, a2b, amountIn, a2b ? MIN_SQRT_PRICE : MAX_SQRT_PRICE);
+  }
+  
+  /**
+   * Swaps as much as needed to move the pool price to a tick
+   */
+  swapToTick(poolId: string, tick: number): SwapQuote {
+    const pool = this.requirePool(this.state, poolId);
+    const target = tickToSqrtPrice(tick);
+    const a2b = target < pool.sqrtPrice;
+    return this.applySwap(this.state, poolId, a2b, BigInt(2) ** BigInt(120), target);
+  }
+  
+  advanceTime(ms: number): void {
+    this.now += ms;
+  }
+  
+  getTime(): number {
+    return this.now;
+  }
+  
+  setGasPrice(gasPrice: bigint): void {
+    this.gasPrice = gasPrice;
+  }
+  
+  async getPool(poolId: string): Promise<Pool> {
+    const pool = this.requirePool(this.state, poolId);
+    return {
+      id: pool.id,
+      coinTypeA: pool.coinTypeA,
+      coinTypeB: pool.coinTypeB,
+      currentSqrtPrice: pool.sqrtPrice.toString(),
+      currentTick: sqrtPriceToTick(pool.sqrtPrice),
+      tickSpacing: pool.tickSpacing,
+      feeRate: pool.feeRate,
+      liquidity: this.activeLiquidity(this.state, pool).toString(),
+      rewarderCoinTypes: [...pool.rewarderCoinTypes],
+    };
+  }
+  
+  async getPosition(positionId: string): Promise<Position> {
+    const position = this.requirePosition(this.state, positionId);
+    const pool = this.requirePool(this.state, position.poolId);
+    return {
+      id: position.id,
+      poolId: position.poolId,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      liquidity: position.liquidity.toString(),
+      coinA: pool.coinTypeA,
+      coinB: pool.coinTypeB,
+    };
+  }
+  
+  async quoteSwap(poolId: string, a2b: boolean, amountIn: bigint): Promise<SwapQuote> {
+    const copy = structuredClone(this.state);
+    return this.applySwap(copy, poolId, a2b, amountIn, a2b ? MIN_SQRT_PRICE : MAX_SQRT_PRICE);
+  }
+  
+  async getPendingCollection(pool: Pool, positionId: string): Promise<PendingCollection> {
+    const position = this.requirePosition(this.state, positionId);
+    return {
+      feeA: position.feeA,
+      feeB: position.feeB,
+      rewards: pool.rewarderCoinTypes.map((coinType) => ({
+        coinType,
+        amount: position.rewards.get(normalizeStructTag(coinType)) ?? ZERO,
+      })),
+    };
+  }
+  
+  async getRecentSwapVolume(poolId: string, lookbackMs: number, _maxPages: number): Promise<SwapVolume> {
+    const pool = this.requirePool(this.state, poolId);
+    const swaps = pool.swaps.filter((swap) => swap.timestamp >= this.now - lookbackMs);
+    
+    return {
+      volumeA: swaps.filter((swap) => swap.a2b).reduce((total, swap) => total + swap.amountIn, ZERO),
+      volumeB: swaps.filter((swap) => !swap.a2b).reduce((total, swap) => total + swap.amountIn, ZERO),
+      swapCount: swaps.length,
+      // The simulator keeps every swap, so the whole window is covered
+      spanMs: lookbackMs,
+    };
+  }
+  
+  async getCoinMetadata(coinType: string): Promise<CoinMetadata> {
+    const type = normalizeStructTag(coinType);
+    return this.coinMetadata.get(type) ?? { coinType: type, symbol: type.split('::')[2], decimals: 9 };
+  }
+  
+  getContracts(): CetusContracts {
+    return { ...this.contracts };
+  }
+  
+  getAddress(): string {
+    return this.address;
+  }
+  
+  async getGasPrice(): Promise<bigint> {
+    return this.gasPrice;
+  }
+  
+  async checkGasPrice(): Promise<void> {
+    if (this.gasPrice > BigInt(this.maxGasPrice)) {
+      throw new GasPriceExceededError(this.gasPrice, this.maxGasPrice);
+    }
+  }
+  
+  async dryRunTransaction(tx: Transaction): Promise<DryRunTransactionBlockResponse> {
+    const digest = this.nextDigest();
+    const execution = this.execute(tx, digest);
+    const response = this.toResponse(execution, digest);
+    
+    return {
+      balanceChanges: response.balanceChanges ?? [],
+      effects: response.effects!,
+      events: response.events ?? [],
+      input: {
+        gasData: {
+          budget: this.gasBudget().toString(),
+          owner: this.address,
+          payment: [],
+          price: this.gasPrice.toString(),
+        },
+        messageVersion: 'v1',
+        sender: this.address,
+        transaction: { kind: 'ProgrammableTransaction', inputs: [], transactions: [] },
+      },
+      objectChanges: response.objectChanges ?? [],
+    };
+  }
+  
+  async executeTransaction(
+    buildTx: () => Promise<Transaction>,
+    verify?: (simulation: DryRunTransactionBlockResponse) => void
+  ): Promise<SuiTransactionBlockResponse> {
+    const simulation = await this.dryRunTransaction(await buildTx());
+    if (simulation.effects.status.status !== 'success') {
+      throw new Error(
+        `Pre-flight simulation failed: ${simulation.effects.status.error || 'Unknown error'}`
+      );
+    }
+    if (verify) {
+      verify(simulation);
+    }
+    
+    return await this.executeTransactionWithoutSimulation(buildTx);
+  }
+  
+  /**
+   * Executes a transaction; a failed one is still charged gas, and throws
+   * as on mainnet. Nothing is retried: the simulator has no transient
+   * failures or conflicts.
+   */
+  async executeTransactionWithoutSimulation(
+    buildTx: () => Promise<Transaction>
+  ): Promise<SuiTransactionBlockResponse> {
+    const tx = await buildTx();
+    const digest = this.nextDigest();
+    const execution = this.execute(tx, digest);
+    const response = this.toResponse(execution, digest);
+    
+    this.state = execution.state;
+    
+    if (execution.error !== null) {
+      throw executionFailure(response);
+    }
+    return response;
+  }
+  
+  /**
+   * Runs the transaction on a copy of the state
+   * On failure the copy only carries the gas charge, like a failed
+   * transaction on chain.
+   */
+  private execute(tx: Transaction, digest: string): Execution {
+    const before = structuredClone(this.state);
+    const state = structuredClone(this.state);
+    const events: SuiEvent[] = [];
+    const objectChanges: SuiObjectChange[] = [];
+    
+    let error: string | null = null;
+    try {
+      this.interpret(tx.getData(), state, digest, events, objectChanges);
+    } catch (caught) {
+      if (!(caught instanceof SimulationError)) {
+        throw caught;
+      }
+      error = caught.message;
+    }
+    
+    const result = error === null ? state : before;
+    const gas = this.gasBudget();
+    const suiBalance = getBalance(result, this.address, SUI_TYPE);
+    if (suiBalance < gas) {
+      setBalance(before, this.address, SUI_TYPE, ZERO);
+      return { state: before, error: 'InsufficientGas', events: [], objectChanges: [] };
+    }
+    setBalance(result, this.address, SUI_TYPE, suiBalance - gas);
+    
+    return error === null
+      ? { state: result, error, events, objectChanges }
+      : { state: result, error, events: [], objectChanges: [] };
+  }
+  
+  private interpret(
+    data: TransactionData,
+    state: SimState,
+    digest: string,
+    events: SuiEvent[],
+    objectChanges: SuiObjectChange[]
+  ): void {
+    const inputs: SimValue[] = data.inputs.map((input, index) => {
+      if (input.UnresolvedObject) {
+        return { kind: 'object', id: normalizeSuiAddress(input.UnresolvedObject.objectId) };
+      }
+      if (input.Object?.SharedObject) {
+        return { kind: 'object', id: normalizeSuiAddress(input.Object.SharedObject.objectId) };
+      }
+      if (input.Object?.ImmOrOwnedObject) {
+        return { kind: 'object', id: normalizeSuiAddress(input.Object.ImmOrOwnedObject.objectId) };
+      }
+      if (input.Pure) {
+        return { kind: 'pure', bytes: input.Pure.bytes };
+      }
+      throw new SimulationError(`Unsupported input ${index}`);
+    });
+    const results: SimValue[][] = [];
+    
+    const context: CallContext = {
+      state,
+      inputs,
+      results,
+      events,
+      objectChanges,
+      digest,
+      command: 0,
+      module: '',
+    };
+    
+    data.commands.forEach((command, index) => {
+      context.command = index;
+      results.push(this.runCommand(command, context));
+    });
+    
+    results.flat().forEach((value) => {
+      if ((value.kind === 'coin' || value.kind === 'position') && !value.moved) {
+        throw new SimulationError('UnusedValueWithoutDrop: a coin or position was left unused');
+      }
+    });
+  }
+  
+  private runCommand(command: Command, context: CallContext): SimValue[] {
+    const { state } = context;
+    
+    if (command.$Intent) {
+      const { name, data } = command.$Intent;
+      if (name !== 'CoinWithBalance') {
+        throw this.abort(context, `unsupported intent ${name}`);
+      }
+      const coinType = data.type === 'gas' ? SUI_TYPE : normalizeStructTag(String(data.type));
+      const amount = BigInt(data.balance as string | number | bigint);
+      const balance = getBalance(state, this.address, coinType);
+      if (balance < amount) {
+        throw this.abort(context, `InsufficientCoinBalance: ${coinType} has ${balance}, needs ${amount}`);
+      }
+      setBalance(state, this.address, coinType, balance - amount);
+      return [{ kind: 'coin', coinType, balance: amount, moved: false }];
+    }
+    
+    if (command.MergeCoins) {
+      const destination = this.borrowCoin(context, command.MergeCoins.destination);
+      for (const source of command.MergeCoins.sources) {
+        const coin = this.takeCoin(context, source);
+        if (coin.coinType !== destination.coinType) {
+          throw this.abort(context, `cannot merge ${coin.coinType} into ${destination.coinType}`);
+        }
+        destination.balance += coin.balance;
+      }
+      return [];
+    }
+    
+    if (command.TransferObjects) {
+      const recipient = normalizeSuiAddress(
+        bcs.Address.fromBase64(this.pure(context, command.TransferObjects.address))
+      );
+      for (const argument of command.TransferObjects.objects) {
+        const value = this.resolve(context, argument);
+        if (value.kind === 'coin') {
+          this.takeCoin(context, argument);
+          addBalance(state, recipient, value.coinType, value.balance);
+        } else if (value.kind === 'position') {
+          this.move(context, value);
+          this.requirePosition(state, value.id).owner = recipient;
+        } else {
+          throw this.abort(context, 'only coins and positions can be transferred');
+        }
+      }
+      return [];
+    }
+    
+    if (command.MoveCall) {
+      const { package: packageId, module, function: fn, typeArguments, arguments: args } = command.MoveCall;
+      context.module = module;
+      if (normalizeSuiAddress(packageId) !== this.contracts.packageId) {
+        throw this.abort(context, `unknown package ${packageId}`);
+      }
+      return this.moveCall(`${module}::${fn}`, typeArguments.map((type) => normalizeStructTag(type)), args, context);
+    }
+    
+    throw this.abort(context, `unsupported command ${command.$kind}`);
+  }
+  
+  private moveCall(
+    target: string,
+    typeArguments: string[],
+    args: Argument[],
+    context: CallContext
+  ): SimValue[] {
+    const { state } = context;
+    
+    switch (target) {
+      case 'pool_script::remove_liquidity': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const position = this.ownedPosition(context, args[2], pool);
+        const liquidity = BigInt(bcs.u128().fromBase64(this.pure(context, args[3])));
+        const minAmountA = BigInt(bcs.u64().fromBase64(this.pure(context, args[4])));
+        const minAmountB = BigInt(bcs.u64().fromBase64(this.pure(context, args[5])));
+        
+        if (liquidity === ZERO || liquidity > position.liquidity) {
+          throw this.abort(context, `invalid liquidity ${liquidity} (position has ${position.liquidity})`);
+        }
+        const { amountA, amountB } = getAmountsForLiquidity(
+          pool.sqrtPrice,
+          tickToSqrtPrice(position.tickLower),
+          tickToSqrtPrice(position.tickUpper),
+          liquidity
+        );
+        if (amountA < minAmountA || amountB < minAmountB) {
+          throw this.abort(context, `slippage: removed ${amountA}/${amountB}, minimum ${minAmountA}/${minAmountB}`);
+        }
+        
+        position.liquidity -= liquidity;
+        this.emit(context, 'RemoveLiquidityEvent', {
+          pool: pool.id,
+          position: position.id,
+          tick_lower: { bits: toBits(position.tickLower) },
+          tick_upper: { bits: toBits(position.tickUpper) },
+          liquidity: liquidity.toString(),
+          after_liquidity: this.activeLiquidity(state, pool).toString(),
+          amount_a: amountA.toString(),
+          amount_b: amountB.toString(),
+        });
+        return [
+          { kind: 'coin', coinType: pool.coinTypeA, balance: amountA, moved: false },
+          { kind: 'coin', coinType: pool.coinTypeB, balance: amountB, moved: false },
+        ];
+      }
+      
+      case 'pool_script_v2::collect_fee':
+      case 'pool_script_v3::collect_fee': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const position = this.ownedPosition(context, args[2], pool);
+        const byValue = target.startsWith('pool_script_v2');
+        const coinA = byValue ? this.takeCoin(context, args[3]) : this.borrowCoin(context, args[3]);
+        const coinB = byValue ? this.takeCoin(context, args[4]) : this.borrowCoin(context, args[4]);
+        this.checkCoinType(context, coinA, pool.coinTypeA);
+        this.checkCoinType(context, coinB, pool.coinTypeB);
+        
+        this.emit(context, 'CollectFeeEvent', {
+          position: position.id,
+          pool: pool.id,
+          amount_a: position.feeA.toString(),
+          amount_b: position.feeB.toString(),
+        });
+        coinA.balance += position.feeA;
+        coinB.balance += position.feeB;
+        position.feeA = ZERO;
+        position.feeB = ZERO;
+        
+        return byValue
+          ? [
+            { kind: 'coin', coinType: pool.coinTypeA, balance: coinA.balance, moved: false },
+            { kind: 'coin', coinType: pool.coinTypeB, balance: coinB.balance, moved: false },
+          ]
+          : [];
+      }
+      
+      case 'pool_script_v3::collect_reward': {
+        const pool = this.poolArgument(context, args, typeArguments.slice(0, 2));
+        const position = this.ownedPosition(context, args[2], pool);
+        if (this.objectId(context, args[3]) !== this.contracts.globalVaultId) {
+          throw this.abort(context, 'wrong rewarder global vault');
+        }
+        const rewardType = typeArguments[2];
+        if (!pool.rewarderCoinTypes.includes(rewardType)) {
+          throw this.abort(context, `pool has no rewarder for ${rewardType}`);
+        }
+        const coin = this.borrowCoin(context, args[4]);
+        this.checkCoinType(context, coin, rewardType);
+        
+        const amount = position.rewards.get(rewardType) ?? ZERO;
+        coin.balance += amount;
+        position.rewards.set(rewardType, ZERO);
+        this.emit(context, 'CollectRewardEvent', {
+          position: position.id,
+          pool: pool.id,
+          amount: amount.toString(),
+        });
+        return [];
+      }
+      
+      case 'pool_script::close_position': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const position = this.ownedPosition(context, args[2], pool);
+        const unclaimed = Array.from(position.rewards.values()).some((amount) => amount > ZERO);
+        if (position.liquidity > ZERO || position.feeA > ZERO || position.feeB > ZERO || unclaimed) {
+          throw this.abort(context, 'position is not empty: remove liquidity and collect fees and rewards first');
+        }
+        
+        state.positions.delete(position.id);
+        this.emit(context, 'ClosePositionEvent', { pool: pool.id, position: position.id });
+        context.objectChanges.push({
+          type: 'deleted',
+          objectId: position.id,
+          objectType: `${this.clmmPackageId}::position::Position`,
+          sender: this.address,
+          version: '1',
+        });
+        return [];
+      }
+      
+      case 'pool_script::open_position': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const tickLower = Number(BigInt.asIntN(32, BigInt(bcs.u32().fromBase64(this.pure(context, args[2])))));
+        const tickUpper = Number(BigInt.asIntN(32, BigInt(bcs.u32().fromBase64(this.pure(context, args[3])))));
+        try {
+          this.checkTicks(pool, tickLower, tickUpper);
+        } catch (error) {
+          throw this.abort(context, (error as Error).message);
+        }
+        
+        const id = this.newObjectId(state);
+        state.positions.set(id, {
+          id,
+          poolId: pool.id,
+          owner: '',
+          tickLower,
+          tickUpper,
+          liquidity: ZERO,
+          feeA: ZERO,
+          feeB: ZERO,
+          rewards: new Map(),
+        });
+        this.emit(context, 'OpenPositionEvent', {
+          pool: pool.id,
+          position: id,
+          tick_lower: { bits: toBits(tickLower) },
+          tick_upper: { bits: toBits(tickUpper) },
+        });
+        context.objectChanges.push({
+          type: 'created',
+          objectId: id,
+          objectType: `${this.clmmPackageId}::position::Position`,
+          owner: { AddressOwner: this.address },
+          sender: this.address,
+          digest: context.digest,
+          version: '1',
+        });
+        return [{ kind: 'position', id, moved: false }];
+      }
+      
+      case 'pool_script_v2::add_liquidity_by_fix_coin': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const position = this.ownedPosition(context, args[2], pool);
+        const coinA = this.takeCoin(context, args[3]);
+        const coinB = this.takeCoin(context, args[4]);
+        this.checkCoinType(context, coinA, pool.coinTypeA);
+        this.checkCoinType(context, coinB, pool.coinTypeB);
+        const amountALimit = BigInt(bcs.u64().fromBase64(this.pure(context, args[5])));
+        const amountBLimit = BigInt(bcs.u64().fromBase64(this.pure(context, args[6])));
+        const fixAmountA = bcs.bool().fromBase64(this.pure(context, args[7]));
+        
+        let added: { liquidity: bigint; amountA: bigint; amountB: bigint };
+        try {
+          added = getFixCoinAmounts(
+            pool.sqrtPrice,
+            tickToSqrtPrice(position.tickLower),
+            tickToSqrtPrice(position.tickUpper),
+            fixAmountA ? amountALimit : amountBLimit,
+            fixAmountA
+          );
+        } catch (error) {
+          throw this.abort(context, (error as Error).message);
+        }
+        
+        if (added.liquidity === ZERO) {
+          throw this.abort(context, 'liquidity is zero');
+        }
+        if (added.amountA > amountALimit || added.amountB > amountBLimit) {
+          throw this.abort(context, `amount exceeds limit: needs ${added.amountA}/${added.amountB}, limit ${amountALimit}/${amountBLimit}`);
+        }
+        if (added.amountA > coinA.balance || added.amountB > coinB.balance) {
+          throw this.abort(context, `insufficient coins: needs ${added.amountA}/${added.amountB}, has ${coinA.balance}/${coinB.balance}`);
+        }
+        
+        position.liquidity += added.liquidity;
+        addBalance(state, this.address, pool.coinTypeA, coinA.balance - added.amountA);
+        addBalance(state, this.address, pool.coinTypeB, coinB.balance - added.amountB);
+        this.emit(context, 'AddLiquidityEvent', {
+          pool: pool.id,
+          position: position.id,
+          tick_lower: { bits: toBits(position.tickLower) },
+          tick_upper: { bits: toBits(position.tickUpper) },
+          liquidity: added.liquidity.toString(),
+          after_liquidity: this.activeLiquidity(state, pool).toString(),
+          amount_a: added.amountA.toString(),
+          amount_b: added.amountB.toString(),
+        });
+        return [];
+      }
+      
+      case 'router::swap': {
+        const pool = this.poolArgument(context, args, typeArguments);
+        const coinA = this.takeCoin(context, args[2]);
+        const coinB = this.takeCoin(context, args[3]);
+        this.checkCoinType(context, coinA, pool.coinTypeA);
+        this.checkCoinType(context, coinB, pool.coinTypeB);
+        const a2b = bcs.bool().fromBase64(this.pure(context, args[4]));
+        const byAmountIn = bcs.bool().fromBase64(this.pure(context, args[5]));
+        const amount = BigInt(bcs.u64().fromBase64(this.pure(context, args[6])));
+        const sqrtPriceLimit = BigInt(bcs.u128().fromBase64(this.pure(context, args[7])));
+        const useCoinValue = bcs.bool().fromBase64(this.pure(context, args[8]));
+        
+        if (!byAmountIn) {
+          throw this.abort(context, 'the simulator only supports by_amount_in swaps');
+        }
+        const input = a2b ? coinA : coinB;
+        const amountIn = useCoinValue ? input.balance : amount;
+        if (amountIn === ZERO) {
+          throw this.abort(context, 'swap amount is zero');
+        }
+        if (amountIn > input.balance) {
+          throw this.abort(context, `insufficient input: swap ${amountIn}, coin has ${input.balance}`);
+        }
+        if (a2b ? sqrtPriceLimit >= pool.sqrtPrice : sqrtPriceLimit <= pool.sqrtPrice) {
+          throw this.abort(context, 'sqrt price limit is on the wrong side of the pool price');
+        }
+        
+        const quote = this.applySwap(state, pool.id, a2b, amountIn, sqrtPriceLimit, context);
+        if (quote.isExceed) {
+          throw this.abort(context, `swap not fully filled within the price limit (${quote.amountIn} of ${amountIn})`);
+        }
+        if (a2b) {
+          coinA.balance -= amountIn;
+          coinB.balance += quote.amountOut;
+        } else {
+          coinB.balance -= amountIn;
+          coinA.balance += quote.amountOut;
+        }
+        return [
+          { kind: 'coin', coinType: pool.coinTypeA, balance: coinA.balance, moved: false },
+          { kind: 'coin', coinType: pool.coinTypeB, balance: coinB.balance, moved: false },
+        ];
+      }
+      
+      case 'router::check_coin_threshold': {
+        const coin = this.borrowCoin(context, args[0]);
+        this.checkCoinType(context, coin, typeArguments[0]);
+        const threshold = BigInt(bcs.u64().fromBase64(this.pure(context, args[1])));
+        if (coin.balance < threshold) {
+          throw this.abort(context, `coin balance ${coin.balance} below threshold ${threshold}`);
+        }
+        return [];
+      }
+      
+      default:
+        throw this.abort(context, `unsupported function ${target}`);
+    }
+  }
+  
+  /**
+   * Swaps in a pool until the input is used up or the price reaches the limit
+   * The fee of each step goes to the positions in range through fee growth
+   * per unit of liquidity; the share of the base liquidity is not tracked.
+   */
+  private applySwap(
+    state: SimState,
+    poolId: string,
+    a2b: boolean,
+    amountIn: bigint,
+    sqrtPriceLimit: bigint,
+    context?: CallContext
+  ): SwapQuote {
+    const pool = this.requirePool(state, poolId);
+    const positions = Array.from(state.positions.values()).filter((position) => position.poolId === pool.id);
+    const boundaries = Array.from(new Set(positions.flatMap((position) => [
+      tickToSqrtPrice(position.tickLower),
+      tickToSqrtPrice(position.tickUpper),
+    ])));
+    const feeRate = BigInt(pool.feeRate);
+    const beforeSqrtPrice = pool.sqrtPrice;
+    
+    let remaining = amountIn;
+    let amountOut = ZERO;
+    let feeAmount = ZERO;
+    let steps = 0;
+    
+    while (remaining > ZERO && pool.sqrtPrice !== sqrtPriceLimit) {
+      const ahead = boundaries.filter((price) =>
+        a2b ? price < pool.sqrtPrice && price > sqrtPriceLimit : price > pool.sqrtPrice && price < sqrtPriceLimit
+      );
+      const target = ahead.length === 0
+        ? sqrtPriceLimit
+        : ahead.reduce((best, price) => (a2b ? (price > best ? price : best) : (price < best ? price : best)));
+      
+      // Positions covering the whole step
+      const low = a2b ? target : pool.sqrtPrice;
+      const high = a2b ? pool.sqrtPrice : target;
+      const active = positions.filter((position) =>
+        position.liquidity > ZERO &&
+        tickToSqrtPrice(position.tickLower) <= low &&
+        tickToSqrtPrice(position.tickUpper) >= high
+      );
+      const liquidity = active.reduce((total, position) => total + position.liquidity, pool.baseLiquidity);
+      
+      const step = computeSwapStep(pool.sqrtPrice, target, liquidity, remaining, feeRate);
+      const feeGrowth = getFeeGrowthDelta(step.feeAmount, liquidity);
+      for (const position of active) {
+        const share = getFeesFromGrowth(position.liquidity, feeGrowth, ZERO);
+        if (a2b) {
+          position.feeA += share;
+        } else {
+          position.feeB += share;
+        }
+      }
+      
+      remaining -= step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+      feeAmount += step.feeAmount;
+      pool.sqrtPrice = step.sqrtPriceNext;
+      steps++;
+    }
+    
+    // As in Cetus SwapEvents, amount_in excludes the fee
+    const consumed = amountIn - remaining;
+    pool.swaps.push({ timestamp: this.now, a2b, amountIn: consumed - feeAmount });
+    
+    if (context) {
+      this.emit(context, 'SwapEvent', {
+        atob: a2b,
+        pool: pool.id,
+        partner: normalizeSuiAddress('0x0'),
+        amount_in: (consumed - feeAmount).toString(),
+        amount_out: amountOut.toString(),
+        ref_amount: '0',
+        fee_amount: feeAmount.toString(),
+        before_sqrt_price: beforeSqrtPrice.toString(),
+        after_sqrt_price: pool.sqrtPrice.toString(),
+        steps: steps.toString(),
+      });
+    }
+    
+    return {
+      a2b,
+      amountIn: consumed,
+      amountOut,
+      feeAmount,
+      endSqrtPrice: pool.sqrtPrice,
+      isExceed: remaining > ZERO,
+    };
+  }
+  
+  /**
+   * Liquidity at the current price: positions with tickLower <= tick < tickUpper
+   */
+  private activeLiquidity(state: SimState, pool: SimPool): bigint {
+    let liquidity = pool.baseLiquidity;
+    for (const position of state.positions.values()) {
+      if (
+        position.poolId === pool.id &&
+        tickToSqrtPrice(position.tickLower) <= pool.sqrtPrice &&
+        pool.sqrtPrice < tickToSqrtPrice(position.tickUpper)
+      ) {
+        liquidity += position.liquidity;
+      }
+    }
+    return liquidity;
+  }
+  
+  private checkTicks(pool: SimPool, tickLower: number, tickUpper: number): void {
+    if (tickLower >= tickUpper) {
+      throw new Error(`Invalid tick range [${tickLower}, ${tickUpper}]`);
+    }
+    if (tickLower % pool.tickSpacing !== 0 || tickUpper % pool.tickSpacing !== 0) {
+      throw new Error(`Ticks [${tickLower}, ${tickUpper}] are not multiples of tick spacing ${pool.tickSpacing}`);
+    }
+    // Validates the bounds
+    tickToSqrtPrice(tickLower);
+    tickToSqrtPrice(tickUpper);
+  }
+  
+  private resolve(context: CallContext, argument: Argument): SimValue {
+    let value: SimValue | undefined;
+    if (argument.$kind === 'Input') {
+      value = context.inputs[argument.Input];
+    } else if (argument.$kind === 'Result') {
+      const result = context.results[argument.Result];
+      if (result?.length !== 1) {
+        throw this.abort(context, `command ${argument.Result} does not return exactly one value`);
+      }
+      value = result[0];
+    } else if (argument.$kind === 'NestedResult') {
+      const [command, index] = argument.NestedResult;
+      value = context.results[command]?.[index];
+    } else {
+      throw this.abort(context, 'the gas coin cannot be used in the simulator');
+    }
+    
+    if (!value) {
+      throw this.abort(context, 'argument refers to a missing value');
+    }
+    return value;
+  }
+  
+  /** A coin used by reference (`&mut Coin`) */
+  private borrowCoin(context: CallContext, argument: Argument): Extract<SimValue, { kind: 'coin' }> {
+    const value = this.resolve(context, argument);
+    if (value.kind !== 'coin') {
+      throw this.abort(context, 'expected a coin');
+    }
+    if (value.moved) {
+      throw this.abort(context, 'coin used after it was moved');
+    }
+    return value;
+  }
+  
+  /** A coin passed by value: it cannot be used again */
+  private takeCoin(context: CallContext, argument: Argument): Extract<SimValue, { kind: 'coin' }> {
+    const coin = this.borrowCoin(context, argument);
+    coin.moved = true;
+    return coin;
+  }
+  
+  private move(context: CallContext, value: Extract<SimValue, { kind: 'position' }>): void {
+    if (value.moved) {
+      throw this.abort(context, 'position used after it was moved');
+    }
+    value.moved = true;
+  }
+  
+  private pure(context: CallContext, argument: Argument): string {
+    const value = this.resolve(context, argument);
+    if (value.kind !== 'pure') {
+      throw this.abort(context, 'expected a pure value');
+    }
+    return value.bytes;
+  }
+  
+  private objectId(context: CallContext, argument: Argument): string {
+    const value = this.resolve(context, argument);
+    if (value.kind !== 'object') {
+      throw this.abort(context, 'expected an object');
+    }
+    return value.id;
+  }
+  
+  /**
+   * Checks the global config and type arguments and returns the pool of a
+   * (config, pool, ...) call
+   */
+  private poolArgument(context: CallContext, args: Argument[], typeArguments: string[]): SimPool {
+    if (this.objectId(context, args[0]) !== this.contracts.globalConfigId) {
+      throw this.abort(context, 'wrong global config');
+    }
+    const pool = context.state.pools.get(this.objectId(context, args[1]));
+    if (!pool) {
+      throw this.abort(context, 'pool not found');
+    }
+    if (typeArguments[0] !== pool.coinTypeA || typeArguments[1] !== pool.coinTypeB) {
+      throw this.abort(context, `type arguments ${typeArguments.join(', ')} do not match pool ${pool.id}`);
+    }
+    return pool;
+  }
+  
+  /**
+   * A position of the pool, either an owned object input or one opened
+   * earlier in the transaction
+   */
+  private ownedPosition(context: CallContext, argument: Argument, pool: SimPool): SimPosition {
+    const value = this.resolve(context, argument);
+    let position: SimPosition | undefined;
+    
+    if (value.kind === 'position' && !value.moved) {
+      position = context.state.positions.get(value.id);
+    } else if (value.kind === 'object') {
+      position = context.state.positions.get(value.id);
+      if (position && position.owner !== this.address) {
+        throw this.abort(context, `position ${position.id} is not owned by the sender`);
+      }
+    }
+    
+    if (!position) {
+      throw this.abort(context, 'position not found');
+    }
+    if (position.poolId !== pool.id) {
+      throw this.abort(context, `position ${position.id} belongs to another pool`);
+    }
+    return position;
+  }
+  
+  private checkCoinType(context: CallContext, coin: { coinType: string }, coinType: string): void {
+    if (coin.coinType !== coinType) {
+      throw this.abort(context, `expected Coin<${coinType}>, got Coin<${coin.coinType}>`);
+    }
+  }
+  
+  private abort(context: CallContext, reason: string): SimulationError {
+    const location = context.module ? ` in ${context.module}` : '';
+    return new SimulationError(`MoveAbort${location} (command ${context.command}): ${reason}`);
+  }
+  
+  private emit(context: CallContext, name: string, parsedJson: Record<string, unknown>): void {
+    context.events.push({
+      id: { txDigest: context.digest, eventSeq: context.events.length.toString() },
+      packageId: this.contracts.packageId,
+      transactionModule: context.module,
+      sender: this.address,
+      type: `${this.clmmPackageId}::pool::${name}`,
+      parsedJson,
+      bcs: '',
+      bcsEncoding: 'base64',
+      timestampMs: this.now.toString(),
+    });
+  }
+  
+  private toResponse(execution: Execution, digest: string): SuiTransactionBlockResponse {
+    const gas = this.gasUsed;
+    const effects: TransactionEffects = {
+      messageVersion: 'v1',
+      status: execution.error === null
+        ? { status: 'success' }
+        : { status: 'failure', error: execution.error },
+      executedEpoch: '0',
+      gasUsed: {
+        computationCost: gas.computationCost.toString(),
+        storageCost: gas.storageCost.toString(),
+        storageRebate: gas.storageRebate.toString(),
+        nonRefundableStorageFee: '0',
+      },
+      gasObject: {
+        owner: { AddressOwner: this.address },
+        reference: { objectId: normalizeSuiAddress('0x0'), version: '1', digest },
+      },
+      transactionDigest: digest,
+    };
+    
+    return {
+      digest,
+      effects,
+      events: execution.events,
+      objectChanges: execution.objectChanges,
+      balanceChanges: balanceChanges(this.state, execution.state),
+      timestampMs: this.now.toString(),
+    };
+  }
+  
+  private gasBudget(): bigint {
+    const { computationCost, storageCost, storageRebate } = this.gasUsed;
+    return computationCost + storageCost - storageRebate;
+  }
+  
+  private nextDigest(): string {
+    this.transactionCount++;
+    return `sim-${this.transactionCount}`;
+  }
+  
+  private newObjectId(state: SimState): string {
+    const id = normalizeSuiAddress(`0x5${state.nextObjectId.toString(16).padStart(8, '0')}`);
+    state.nextObjectId++;
+    return id;
+  }
+  
+  private requirePool(state: SimState, poolId: string): SimPool {
+    const pool = state.pools.get(normalizeSuiAddress(poolId));
+    if (!pool) {
+      throw new Error(`Pool ${poolId} not found`);
+    }
+    return pool;
+  }
+  
+  private requirePosition(state: SimState, positionId: string): SimPosition {
+    const position = state.positions.get(normalizeSuiAddress(positionId));
+    if (!position) {
+      throw new Error(`Position ${positionId} not found`);
+    }
+    return position;
+  }
+}
+
+interface CallContext {
+  state: SimState;
+  inputs: SimValue[];
+  results: SimValue[][];
+  events: SuiEvent[];
+  objectChanges: SuiObjectChange[];
+  digest: string;
+  command: number;
+  module: string;
+}
+
+function toBits(tick: number): number {
+  return Number(BigInt.asUintN(32, BigInt(tick)));
+}
+
+function getBalance(state: SimState, owner: string, coinType: string): bigint {
+  return state.balances.get(owner)?.get(coinType) ?? ZERO;
+}
+
+function setBalance(state: SimState, owner: string, coinType: string, amount: bigint): void {
+  let balances = state.balances.get(owner);
+  if (!balances) {
+    balances = new Map();
+    state.balances.set(owner, balances);
+  }
+  balances.set(coinType, amount);
+}
+
+function addBalance(state: SimState, owner: string, coinType: string, amount: bigint): void {
+  setBalance(state, owner, coinType, getBalance(state, owner, coinType) + amount);
+}
+
+function balanceChanges(before: SimState, after: SimState): BalanceChange[] {
+  const changes: BalanceChange[] = [];
+  const owners = new Set([...before.balances.keys(), ...after.balances.keys()]);
+  
+  for (const owner of owners) {
+    const coinTypes = new Set([
+      ...(before.balances.get(owner)?.keys() ?? []),
+      ...(after.balances.get(owner)?.keys() ?? []),
+    ]);
+    for (const coinType of coinTypes) {
+      const amount = getBalance(after, owner, coinType) - getBalance(before, owner, coinType);
+      if (amount !== ZERO) {
+        changes.push({ owner: { AddressOwner: owner }, coinType, amount: amount.toString() });
+      }
+    }
+  }
+  
+  return changes;
+}
@@ -0,0 +1,22 @@
+import { TickRange } from '../types';
+import { calculateTickRange } from '../utils/tickMath';
+import { RangeContext, RangeStrategy, RebalanceDecision, thresholdDecision } from './rangeStrategy';
+
+/**
+ * Symmetric range of RANGE_WIDTH_PERCENT centered on the current tick
+ */
+export class FixedRangeStrategy implements RangeStrategy {
+  readonly name = 'fixed';
+  
+  computeRange(context: RangeContext): TickRange {
+    return calculateTickRange(
+      context.pool.currentTick,
+      context.config.rangeWidthPercent,
+      context.pool.tickSpacing
+    );
+  }
+  
+  shouldRebalance(context: RangeContext): RebalanceDecision {
+    return thresholdDecision(context);
+  }
+}
@@ -0,0 +1,69 @@
+import path from 'path';
+import { StrategyConfig } from '../types';
+import { logger } from '../utils/logger';
+import { RangeStrategy } from './rangeStrategy';
+import { FixedRangeStrategy } from './fixedStrategy';
+import { SkewedRangeStrategy } from './skewedStrategy';
+import { TicksRangeStrategy } from './ticksStrategy';
+import { VolatilityRangeStrategy } from './volatilityStrategy';
+
+export * from './rangeStrategy';
+
+export const RANGE_STRATEGIES = ['fixed', 'skewed', 'ticks', 'volatility', 'custom'] as const;
+
+/**
+ * Loads a user-provided strategy module
+ *
+ * The module must export either `createRangeStrategy(config)` returning a
+ * RangeStrategy, or a RangeStrategy object as its default export.
+ */
+function loadCustomStrategy(config: StrategyConfig): RangeStrategy {
+  if (!config.rangeStrategyModule) {
+    throw new Error('RANGE_STRATEGY=custom requires RANGE_STRATEGY_MODULE');
+  }
+  
+  const modulePath = path.resolve(config.rangeStrategyModule);
+  const loaded = require(modulePath);
+  
+  const strategy: RangeStrategy | undefined =
+    typeof loaded.createRangeStrategy === 'function'
+      ? loaded.createRangeStrategy(config)
+      : loaded.default ?? loaded;
+  
+  if (
+    !strategy ||
+    typeof strategy.computeRange !== 'function' ||
+    typeof strategy.shouldRebalance !== 'function'
+  ) {
+    throw new Error(`Module ${modulePath} does not provide a valid RangeStrategy`);
+  }
+  
+  return strategy;
+}
+
+export function createRangeStrategy(config: StrategyConfig): RangeStrategy {
+  let strategy: RangeStrategy;
+  
+  switch (config.rangeStrategy) {
+    case 'fixed':
+      strategy = new FixedRangeStrategy();
+      break;
+    case 'skewed':
+      strategy = new SkewedRangeStrategy();
+      break;
+    case 'ticks':
+      strategy = new TicksRangeStrategy();
+      break;
+    case 'volatility':
+      strategy = new VolatilityRangeStrategy();
+      break;
+    case 'custom':
+      strategy = loadCustomStrategy(config);
+      break;
+    default:
+      throw new Error(`Unknown range strategy: ${config.rangeStrategy}`);
+  }
+  
+  logger.debug(`Range strategy: ${strategy.name}`);
+  return strategy;
+}
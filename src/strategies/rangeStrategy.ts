@@ -0,0 +1,97 @@
+import { Pool, Position, StrategyConfig, TickRange } from '../types';
+import { TickSample } from '../services/tickHistory';
+import { calculatePriceDeviation, isTickInRange } from '../utils/tickMath';
+
+/**
+ * Inputs available to a range strategy on every check
+ */
+export interface RangeContext {
+  pool: Pool;
+  position: Position;
+  /** The bot passes its full BotConfig; the backtest only these settings */
+  config: StrategyConfig;
+  /** Recent tick samples for the pool, oldest first (when available) */
+  tickHistory?: TickSample[];
+}
+
+export interface RebalanceDecision {
+  shouldRebalance: boolean;
+  reason: string;
+}
+
+/**
+ * Decides where a position should sit and when it should move
+ *
+ * Strategies are selected with RANGE_STRATEGY. MonitorService uses them for
+ * the suggested range and the rebalance decision, and RebalanceService uses
+ * computeRange for the range of the newly opened position.
+ */
+export interface RangeStrategy {
+  readonly name: string;
+  computeRange(context: RangeContext): TickRange;
+  shouldRebalance(context: RangeContext): RebalanceDecision;
+}
+
+/**
+ * Default rebalance decision: rebalance once the price is out of range by at
+ * least rebalanceThresholdPercent of the range width
+ */
+export function thresholdDecision(context: RangeContext): RebalanceDecision {
+  const { pool, position, config } = context;
+  
+  if (isTickInRange(pool.currentTick, position.tickLower, position.tickUpper)) {
+    return { shouldRebalance: false, reason: 'Position is in range' };
+  }
+  
+  const deviation = calculatePriceDeviation(
+    pool.currentTick,
+    position.tickLower,
+    position.tickUpper
+  );
+  
+  if (Math.abs(deviation) >= config.rebalanceThresholdPercent) {
+    return {
+      shouldRebalance: true,
+      reason: `Price moved ${deviation.toFixed(2)}% outside range (threshold: ${config.rebalanceThresholdPercent}%)`,
+    };
+  }
+  
+  return {
+    shouldRebalance: false,
+    reason: `Price out of range but deviation ${deviation.toFixed(2)}% below threshold ${config.rebalanceThresholdPercent}%`,
+  };
+}
+
+/**
+ * Builds a range from tick distances below and above the current tick
+ * The lower bound is rounded down and the upper bound up to the tick spacing,
+ * so the range always contains the current tick and is never empty
+ */
+export function buildTickRange(
+  currentTick: number,
+  ticksBelow: number,
+  ticksAbove: number,
+  tickSpacing: number
+): TickRange {
+  if (tickSpacing <= 0) {
+    throw new Error('Tick spacing must be positive');
+  }
+  
+  let tickLower = Math.floor((currentTick - ticksBelow) / tickSpacing) * tickSpacing;
+  let tickUpper = Math.ceil((currentTick + ticksAbove) / tickSpacing) * tickSpacing;
+  
+  if (tickLower === tickUpper) {
+    tickLower -= tickSpacing;
+    tickUpper += tickSpacing;
+  }
+  
+  return { tickLower, tickUpper };
+}
+
+/**
+ * Converts a price-width percentage into a tick distance
+ * For a given percentage p, the tick difference is: log(1 + p/100) / log(1.0001)
+ */
+export function percentToTicks(percent: number): number {
+  return Math.floor(Math.log(1 + percent / 100) / Math.log(1.0001));
+}
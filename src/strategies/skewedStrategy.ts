@@ -0,0 +1,41 @@
+import { TickRange } from '../types';
+import {
+  RangeContext,
+  RangeStrategy,
+  RebalanceDecision,
+  buildTickRange,
+  percentToTicks,
+  thresholdDecision,
+} from './rangeStrategy';
+
+/**
+ * Range of RANGE_WIDTH_PERCENT skewed toward the recent trend
+ *
+ * The trend is the side on which the price left the old range (or, while in
+ * range, the side of the range midpoint it sits on). RANGE_SKEW_PERCENT of the
+ * width is placed in the trend direction, e.g. 70 puts 70% of the range above
+ * the current tick when the price is rising. 50 is equivalent to 'fixed'.
+ */
+export class SkewedRangeStrategy implements RangeStrategy {
+  readonly name = 'skewed';
+  
+  computeRange(context: RangeContext): TickRange {
+    const { pool, position, config } = context;
+    const width = percentToTicks(config.rangeWidthPercent);
+    const trendShare = config.rangeSkewPercent / 100;
+    
+    const midpoint = (position.tickLower + position.tickUpper) / 2;
+    const trendingUp = pool.currentTick >= midpoint;
+    
+    const ticksWithTrend = Math.round(width * trendShare);
+    const ticksAgainstTrend = width - ticksWithTrend;
+    
+    return trendingUp
+      ? buildTickRange(pool.currentTick, ticksAgainstTrend, ticksWithTrend, pool.tickSpacing)
+      : buildTickRange(pool.currentTick, ticksWithTrend, ticksAgainstTrend, pool.tickSpacing);
+  }
+  
+  shouldRebalance(context: RangeContext): RebalanceDecision {
+    return thresholdDecision(context);
+  }
+}
@@ -0,0 +1,27 @@
+import { TickRange } from '../types';
+import {
+  RangeContext,
+  RangeStrategy,
+  RebalanceDecision,
+  buildTickRange,
+  thresholdDecision,
+} from './rangeStrategy';
+
+/**
+ * Symmetric range of exactly RANGE_WIDTH_TICKS ticks around the current tick
+ * Useful for stable pairs where a percentage width rounds to a few ticks.
+ */
+export class TicksRangeStrategy implements RangeStrategy {
+  readonly name = 'ticks';
+  
+  computeRange(context: RangeContext): TickRange {
+    const { pool, config } = context;
+    const half = Math.floor(config.rangeWidthTicks / 2);
+    
+    return buildTickRange(pool.currentTick, half, config.rangeWidthTicks - half, pool.tickSpacing);
+  }
+  
+  shouldRebalance(context: RangeContext): RebalanceDecision {
+    return thresholdDecision(context);
+  }
+}
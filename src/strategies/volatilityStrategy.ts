@@ -0,0 +1,57 @@
+import { TickRange } from '../types';
+import { logger } from '../utils/logger';
+import { calculateTickRange } from '../utils/tickMath';
+import { calculateExpectedMovePercent } from '../utils/volatility';
+import { RangeContext, RangeStrategy, RebalanceDecision, thresholdDecision } from './rangeStrategy';
+
+/**
+ * Symmetric range sized from realized volatility
+ *
+ * The width is VOLATILITY_MULTIPLIER times the expected price move over
+ * VOLATILITY_HORIZON_MS, computed from the pool's recent tick samples and
+ * clamped to [MIN_RANGE_WIDTH_PERCENT, MAX_RANGE_WIDTH_PERCENT]. Until enough
+ * samples are collected the configured RANGE_WIDTH_PERCENT is used instead.
+ */
+export class VolatilityRangeStrategy implements RangeStrategy {
+  readonly name = 'volatility';
+  
+  computeRange(context: RangeContext): TickRange {
+    return calculateTickRange(
+      context.pool.currentTick,
+      this.calculateWidthPercent(context),
+      context.pool.tickSpacing
+    );
+  }
+  
+  shouldRebalance(context: RangeContext): RebalanceDecision {
+    return thresholdDecision(context);
+  }
+  
+  calculateWidthPercent(context: RangeContext): number {
+    const { config, tickHistory } = context;
+    const clamp = (width: number): number =>
+      Math.min(Math.max(width, config.minRangeWidthPercent), config.maxRangeWidthPercent);
+    
+    const samples = tickHistory ?? [];
+    if (samples.length < config.volatilityMinSamples) {
+      logger.debug(
+        `Volatility: ${samples.length}/${config.volatilityMinSamples} samples, ` +
+        `using RANGE_WIDTH_PERCENT=${config.rangeWidthPercent}%`
+      );
+      return clamp(config.rangeWidthPercent);
+    }
+    
+    const expectedMove = calculateExpectedMovePercent(samples, config.volatilityHorizonMs);
+    if (expectedMove === null) {
+      return clamp(config.rangeWidthPercent);
+    }
+    
+    const width = clamp(expectedMove * config.volatilityMultiplier);
+    logger.debug(
+      `Volatility: expected move ${expectedMove.toFixed(3)}% over ${config.volatilityHorizonMs}ms ` +
+      `-> range width ${width.toFixed(3)}%`
+    );
+    
+    return width;
+  }
+}
@@ -1,6 +1,8 @@
 export interface BotConfig {
   privateKey: string;
+  /** First of rpc.urls */
   rpcUrl: string;
+  rpc: RpcConfig;
   poolId: string;
   positionId: string;
   rebalanceThresholdPercent: number;
@@ -11,6 +13,205 @@ export interface BotConfig {
   minRetryDelayMs: number;
   maxRetryDelayMs: number;
   maxRetries: number;
+  /** Rebuilt retries of a transaction after object lock or version conflicts */
+  conflictMaxRetries: number;
+  conflictRetryDelayMs: number;
+  circuitBreaker: CircuitBreakerConfig;
+  stateFilePath: string;
+  accountingFilePath: string;
+  dryRun: boolean;
+  preflightSimulation: boolean;
+  rangeStrategy: string;
+  rangeSkewPercent: number;
+  rangeWidthTicks: number;
+  rangeStrategyModule?: string;
+  volatilityWindow: number;
+  volatilityMinSamples: number;
+  volatilityHorizonMs: number;
+  volatilityMultiplier: number;
+  minRangeWidthPercent: number;
+  maxRangeWidthPercent: number;
+  profitabilityCheck: boolean;
+  profitabilityLookbackMs: number;
+  profitabilityHorizonMs: number;
+  profitabilityMaxEventPages: number;
+  minProfitRatio: number;
+  fallbackRebalanceGasUnits: number;
+  /** Port for the Prometheus /metrics endpoint; 0 disables it */
+  metricsPort: number;
+  metricsHost: string;
+  /** Port for the control API; 0 disables it */
+  controlApiPort: number;
+  controlApiHost: string;
+  controlApiToken: string;
+  notifications: NotificationConfig;
+  rebalanceCooldownMs: number;
+  hysteresisChecks: number;
+  hysteresisMs: number;
+  maxRebalancesPerDay: number;
+  dailyGasBudgetMist: number;
+  /** Compound at least this often while in range; 0 disables the schedule */
+  compoundIntervalMs: number;
+  /** Compound once pending fees are worth this much in raw coin B; 0 disables */
+  compoundFeeThreshold: number;
+  /** What to do with each claimed reward token, keyed by normalized coin type */
+  rewardPolicies: Record<string, RewardPolicy>;
+  pricing: PricingConfig;
+  priceGuard: PriceGuardConfig;
+  eventTrigger: EventTriggerConfig;
+  positions: PositionEntryConfig[];
+}
+
+/**
+ * Settings read by the range strategies
+ */
+export type StrategyConfig = Pick<
+  BotConfig,
+  | 'rebalanceThresholdPercent'
+  | 'rangeWidthPercent'
+  | 'rangeStrategy'
+  | 'rangeSkewPercent'
+  | 'rangeWidthTicks'
+  | 'rangeStrategyModule'
+  | 'volatilityWindow'
+  | 'volatilityMinSamples'
+  | 'volatilityHorizonMs'
+  | 'volatilityMultiplier'
+  | 'minRangeWidthPercent'
+  | 'maxRangeWidthPercent'
+>;
+
+/**
+ * Handling of a claimed reward token
+ * - wallet: send it to the wallet
+ * - swap: swap it into coin A or B through poolId and deposit the output
+ * Rewards paid in coin A or B are deposited unless their policy is wallet.
+ */
+export type RewardPolicy =
+  | { action: 'wallet' }
+  | { action: 'swap'; poolId: string };
+
+export type NotificationEvent =
+  | 'out_of_range'
+  | 'rebalance_succeeded'
+  | 'rebalance_failed'
+  | 'gas_price_exceeded'
+  | 'bot_stalled'
+  | 'circuit_breaker_open';
+
+/**
+ * Notification sinks and the events each receives
+ * A sink is enabled when its required settings are present.
+ */
+export interface NotificationConfig {
+  /** Events sent to sinks without their own filter */
+  events: NotificationEvent[];
+  /** Alert when no position check has succeeded for this long */
+  stallTimeoutMs: number;
+  webhook?: {
+    url: string;
+    events: NotificationEvent[];
+  };
+  telegram?: {
+    botToken: string;
+    chatId: string;
+    events: NotificationEvent[];
+  };
+  slack?: {
+    webhookUrl: string;
+    events: NotificationEvent[];
+  };
+  email?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+    to: string[];
+    events: NotificationEvent[];
+  };
+}
+
+/**
+ * USD price sources for reports, tried in order: the static price file, then
+ * pools pairing a coin with a stablecoin
+ */
+export interface PricingConfig {
+  /** JSON file of USD prices keyed by coin type or symbol */
+  priceFile?: string;
+  /** Pools that pair a coin with one of the stablecoins */
+  stablePools: string[];
+  /** Normalized coin types valued at 1 USD */
+  stablecoins: string[];
+}
+
+/**
+ * Refuses rebalances while the pool price is far from a reference price
+ */
+export interface PriceGuardConfig {
+  /** Largest allowed gap between spot and reference price; 0 disables the guard */
+  maxDeviationPercent: number;
+  /** Period of the time-weighted average tick */
+  twapWindowMs: number;
+  /** Tick samples the window must contain before rebalances are allowed */
+  minSamples: number;
+  /** JSON file of reference prices; no oracle check without it */
+  oracleFile?: string;
+  /** Oracle prices older than this are refused */
+  oracleMaxAgeMs: number;
+}
+
+/**
+ * Pauses the bot after repeated failures
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failed checks of one position that pause the bot; 0 disables */
+  maxFailures: number;
+  /** Automatic resume after this long; 0 waits for a resume through the control API */
+  resetMs: number;
+}
+
+/**
+ * Fullnode endpoints the bot fails over between
+ */
+export interface RpcConfig {
+  /** In order of preference while all are healthy and equally fast */
+  urls: string[];
+  /** How often every endpoint is probed for latency and checkpoint */
+  healthCheckIntervalMs: number;
+  /** Checkpoints an endpoint may trail the most advanced one by */
+  maxCheckpointLag: number;
+  /** Share of failed requests, 0-1, above which an endpoint is unhealthy */
+  maxErrorRate: number;
+}
+
+/**
+ * Checks triggered by swaps in the managed pools, between the periodic checks
+ */
+export interface EventTriggerConfig {
+  enabled: boolean;
+  /** How often new swap events are read */
+  pollIntervalMs: number;
+  /** Tick move since a pool was last checked that triggers a check */
+  tickThreshold: number;
+}
+
+/**
+ * A single pool/position pair managed by the bot
+ *
+ * In single-position mode there is one entry built from POOL_ID and
+ * POSITION_ID. In portfolio mode entries come from PORTFOLIO_FILE and any
+ * setting left out falls back to the global value from the environment.
+ */
+export interface PositionEntryConfig {
+  name: string;
+  poolId: string;
+  positionId: string;
+  rebalanceThresholdPercent: number;
+  rangeWidthPercent: number;
+  maxSlippagePercent: number;
+  rangeStrategy: string;
 }
 
 export interface Position {
@@ -31,4 +232,207 @@ export interface Pool {
   currentTick: number;
   tickSpacing: number;
   feeRate: number;
+  liquidity: string;
+  /** Coin types paid out by the pool's rewarders */
+  rewarderCoinTypes: string[];
+}
+
+/**
+ * On-chain metadata of a coin type
+ */
+export interface CoinMetadata {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface TickRange {
+  tickLower: number;
+  tickUpper: number;
+}
+
+export interface RebalanceAmounts {
+  removedA: string;
+  removedB: string;
+  addedA: string;
+  addedB: string;
+}
+
+/**
+ * Overrides for a single manually requested rebalance
+ */
+export interface RebalanceOptions {
+  /** Open the new position at this range instead of the strategy's */
+  range?: TickRange;
+  /** Simulate instead of executing (DRY_RUN always simulates) */
+  dryRun?: boolean;
+  /** Skip the profitability check and the rebalance guards */
+  force?: boolean;
+}
+
+/**
+ * Fees and rewards a position has earned but not yet collected (raw units)
+ */
+export interface PendingCollection {
+  feeA: bigint;
+  feeB: bigint;
+  rewards: Array<{
+    coinType: string;
+    amount: bigint;
+  }>;
+}
+
+/**
+ * Coin flows of one executed rebalance or compound (raw units), taken from
+ * the transaction's events, balance changes and gas
+ */
+export interface TransactionFlows {
+  removedA: string;
+  removedB: string;
+  feesA: string;
+  feesB: string;
+  addedA: string;
+  addedB: string;
+  /** Rewards that ended up in coin A or B, deposited or sent to the wallet */
+  rewardsA: string;
+  rewardsB: string;
+  /** Net coin A and B the wallet received; negative if it paid in */
+  walletA: string;
+  walletB: string;
+  /** Other tokens the wallet received, such as unswapped rewards */
+  otherTokens: Array<{ coinType: string; amount: string }>;
+  /** Fee and price impact of swaps in the position's pool, in raw coin B */
+  swapCost: number;
+  gasCostMist: string;
+}
+
+/**
+ * Performance of a position since the bot started tracking it
+ *
+ * Values are in raw coin B units at the current pool price. The baseline is
+ * the position's amounts (and uncollected fees) when tracking started.
+ */
+export interface PositionAccounting {
+  since: number;
+  /** Baseline valued at the price when tracking started */
+  depositedValue: number;
+  /** Baseline amounts held instead of provided, at the current price */
+  hodlValue: number;
+  /** Liquidity currently in the position */
+  positionValue: number;
+  pendingFees: number;
+  /** Net coin A and B paid out to the wallet */
+  withdrawnValue: number;
+  feeIncome: number;
+  rewardIncome: number;
+  gasCost: number;
+  swapCost: number;
+  /** Collected fees and rewards less gas and swap costs */
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  pnlVsHodl: number;
+  /** Value lost to price divergence, excluding income and costs (negative = loss) */
+  impermanentLoss: number;
+  impermanentLossPercent: number;
+  /** Neither coin is SUI, so gas is not included in the values */
+  gasUnvalued: boolean;
+  /** Tokens received that cannot be valued in coin B */
+  unvaluedTokens: Array<{ coinType: string; amount: string }>;
+}
+
+/**
+ * A position in human units: whole coins and prices of coin A in coin B
+ */
+export interface PositionValuation {
+  coinA: CoinMetadata;
+  coinB: CoinMetadata;
+  price: number;
+  rangeLowerPrice: number;
+  rangeUpperPrice: number;
+  amountA: number;
+  amountB: number;
+  /** Both amounts in coin B at the current price */
+  value: number;
+  /** USD price of one whole coin; null if no price source knows it */
+  usdPriceA: number | null;
+  usdPriceB: number | null;
+  valueUsd: number | null;
+}
+
+export interface CompoundResult {
+  digest: string;
+  positionId: string;
+  /** Collected amounts, from the pending fees and rewards before execution */
+  collected: {
+    feeA: string;
+    feeB: string;
+    rewards: Array<{ coinType: string; amount: string }>;
+  };
+  /** Amounts deposited, from the transaction's AddLiquidityEvent */
+  added: {
+    amountA: string;
+    amountB: string;
+    liquidity: string;
+  } | null;
+  /** Gas paid in MIST (executed compounds only) */
+  gasCostMist?: string;
+  flows?: TransactionFlows;
+  /** Simulation outcome when the compound was only dry-run */
+  dryRun?: {
+    success: boolean;
+    error?: string;
+    gasCostMist: string;
+  };
+}
+
+export interface RebalanceResult {
+  digest: string;
+  oldPositionId: string;
+  newPositionId: string | null;
+  oldRange: TickRange;
+  newRange: TickRange;
+  /** Coin amounts moved, from the transaction's liquidity events */
+  amounts: RebalanceAmounts | null;
+  /** Gas paid in MIST (executed rebalances only) */
+  gasCostMist?: string;
+  flows?: TransactionFlows;
+  dryRun?: DryRunReport;
+}
+
+/**
+ * What a rebalance would have done, taken from a dry run of the real PTB
+ */
+export interface DryRunReport {
+  success: boolean;
+  error?: string;
+  gasUsed: {
+    computationCost: string;
+    storageCost: string;
+    storageRebate: string;
+    totalCost: string;
+  };
+  balanceChanges: Array<{
+    coinType: string;
+    amount: string;
+  }>;
+  newPosition: {
+    tickLower: number;
+    tickUpper: number;
+    liquidity: string | null;
+  };
+}
+
+/**
+ * Off-chain quote for a single-pool swap (raw coin units)
+ */
+export interface SwapQuote {
+  a2b: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  /** Pool sqrt price after the swap (Q64.64) */
+  endSqrtPrice: bigint;
+  /** The pool cannot fill the whole amount */
+  isExceed: boolean;
 }
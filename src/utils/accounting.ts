@@ -0,0 +1,252 @@
+import { SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { MIST_PER_SUI, SUI_TYPE_ARG, normalizeStructTag, normalizeSuiObjectId } from '@mysten/sui/utils';
+import { Pool, PositionAccounting, TransactionFlows } from '../types';
+import { getBalanceChange, getOwnerBalanceChanges, getTotalGasCost } from './transactionResult';
+import { sqrtPriceX64ToPrice } from './tickMath';
+
+/**
+ * Position amounts when tracking started
+ */
+export interface AccountingBaseline {
+  at: number;
+  positionId: string;
+  amountA: string;
+  amountB: string;
+  pendingFeeA: string;
+  pendingFeeB: string;
+  /** Pool sqrt price at the time (Q64.64) */
+  sqrtPrice: string;
+}
+
+/**
+ * Current state of the position being valued (raw units)
+ */
+export interface AccountingSnapshot {
+  amountA: bigint;
+  amountB: bigint;
+  pendingFeeA: bigint;
+  pendingFeeB: bigint;
+}
+
+function sumEventAmounts(
+  events: SuiEvent[] | null | undefined,
+  typeSuffix: string
+): { amountA: bigint; amountB: bigint } {
+  return (events ?? [])
+    .filter((event) => event.type.endsWith(typeSuffix))
+    .reduce(
+      (total, event) => {
+        const data = event.parsedJson as { amount_a: string; amount_b: string };
+        return {
+          amountA: total.amountA + BigInt(data.amount_a),
+          amountB: total.amountB + BigInt(data.amount_b),
+        };
+      },
+      { amountA: BigInt(0), amountB: BigInt(0) }
+    );
+}
+
+/**
+ * Gas in raw coin B units, or null if neither pool coin is SUI and no SUI
+ * price is given
+ * 
+ * @param suiPrice Value of one whole SUI in raw coin B units, for pools
+ * without SUI
+ */
+export function gasCostInCoinB(
+  pool: Pool,
+  gasCostMist: bigint,
+  price: number,
+  suiPrice: number | null = null
+): number | null {
+  const sui = normalizeStructTag(SUI_TYPE_ARG);
+  
+  if (normalizeStructTag(pool.coinTypeB) === sui) {
+    return Number(gasCostMist);
+  }
+  if (normalizeStructTag(pool.coinTypeA) === sui) {
+    return Number(gasCostMist) * price;
+  }
+  if (suiPrice !== null) {
+    return (Number(gasCostMist) / Number(MIST_PER_SUI)) * suiPrice;
+  }
+  return null;
+}
+
+/**
+ * Extracts the coin flows of an executed rebalance or compound
+ *
+ * Liquidity and fee amounts come from the pool events. Swaps in the position's
+ * pool are costed at the price before each swap. Rewards are not reported
+ * per coin by the events, so the coin A and B rewards are what balances the
+ * flows: added + wallet = removed + fees + rewards - swapped in + swapped out.
+ */
+export function extractTransactionFlows(
+  response: Pick<SuiTransactionBlockResponse, 'events' | 'balanceChanges' | 'effects'>,
+  pool: Pool,
+  owner: string
+): TransactionFlows {
+  const removed = sumEventAmounts(response.events, '::pool::RemoveLiquidityEvent');
+  const fees = sumEventAmounts(response.events, '::pool::CollectFeeEvent');
+  const added = sumEventAmounts(response.events, '::pool::AddLiquidityEvent');
+  
+  let swapNetA = BigInt(0);
+  let swapNetB = BigInt(0);
+  let swapCost = 0;
+  const poolId = normalizeSuiObjectId(pool.id);
+  
+  for (const event of response.events ?? []) {
+    if (!event.type.endsWith('::pool::SwapEvent')) {
+      continue;
+    }
+    const data = event.parsedJson as {
+      atob: boolean;
+      pool: string;
+      amount_in: string;
+      amount_out: string;
+      fee_amount: string;
+      before_sqrt_price: string;
+    };
+    if (normalizeSuiObjectId(data.pool) !== poolId) {
+      continue;
+    }
+    
+    const amountIn = BigInt(data.amount_in) + BigInt(data.fee_amount);
+    const amountOut = BigInt(data.amount_out);
+    const price = sqrtPriceX64ToPrice(BigInt(data.before_sqrt_price));
+    
+    if (data.atob) {
+      swapNetA -= amountIn;
+      swapNetB += amountOut;
+      swapCost += Number(amountIn) * price - Number(amountOut);
+    } else {
+      swapNetB -= amountIn;
+      swapNetA += amountOut;
+      swapCost += Number(amountIn) - Number(amountOut) * price;
+    }
+  }
+  
+  // Gas is paid in SUI, so add it back before treating SUI as a pool coin
+  const gasCostMist = response.effects ? getTotalGasCost(response.effects.gasUsed) : BigInt(0);
+  const sui = normalizeStructTag(SUI_TYPE_ARG);
+  const walletChanges = getOwnerBalanceChanges(response.balanceChanges, owner);
+  const walletDelta = (coinType: string): bigint =>
+    getBalanceChange(walletChanges, coinType) +
+    (normalizeStructTag(coinType) === sui ? gasCostMist : BigInt(0));
+  
+  const walletA = walletDelta(pool.coinTypeA);
+  const walletB = walletDelta(pool.coinTypeB);
+  const rewardsA = added.amountA + walletA - removed.amountA - fees.amountA - swapNetA;
+  const rewardsB = added.amountB + walletB - removed.amountB - fees.amountB - swapNetB;
+  
+  const poolCoins = [pool.coinTypeA, pool.coinTypeB, SUI_TYPE_ARG].map((type) => normalizeStructTag(type));
+  const otherTokens = Array.from(walletChanges.entries())
+    .filter(([coinType, amount]) => !poolCoins.includes(coinType) && amount > BigInt(0))
+    .map(([coinType, amount]) => ({ coinType, amount: amount.toString() }));
+  
+  const positive = (amount: bigint): bigint => (amount > BigInt(0) ? amount : BigInt(0));
+  
+  return {
+    removedA: removed.amountA.toString(),
+    removedB: removed.amountB.toString(),
+    feesA: fees.amountA.toString(),
+    feesB: fees.amountB.toString(),
+    addedA: added.amountA.toString(),
+    addedB: added.amountB.toString(),
+    // Rounding in the pool can leave a few units of imbalance
+    rewardsA: positive(rewardsA).toString(),
+    rewardsB: positive(rewardsB).toString(),
+    walletA: walletA.toString(),
+    walletB: walletB.toString(),
+    otherTokens,
+    swapCost,
+    gasCostMist: gasCostMist.toString(),
+  };
+}
+
+/**
+ * Values a position's lifetime against holding its baseline amounts
+ *
+ * - totalPnl: current value (position, pending fees and net withdrawals,
+ *   less gas) minus the baseline valued at the baseline price
+ * - realizedPnl: collected fees and rewards less gas and swap costs; the
+ *   remainder of totalPnl is unrealized
+ * - impermanentLoss: the difference from HODL once income and costs are
+ *   taken out, i.e. what price divergence cost the position
+ */
+export function calculatePositionAccounting(
+  pool: Pool,
+  baseline: AccountingBaseline,
+  flows: TransactionFlows[],
+  snapshot: AccountingSnapshot,
+  suiPrice: number | null = null
+): PositionAccounting {
+  const price = sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice));
+  const baselinePrice = sqrtPriceX64ToPrice(BigInt(baseline.sqrtPrice));
+  const valueOf = (amountA: bigint | string, amountB: bigint | string, atPrice: number = price): number =>
+    Number(amountA) * atPrice + Number(amountB);
+  
+  const baselineA = BigInt(baseline.amountA) + BigInt(baseline.pendingFeeA);
+  const baselineB = BigInt(baseline.amountB) + BigInt(baseline.pendingFeeB);
+  const baselinePendingFees = valueOf(baseline.pendingFeeA, baseline.pendingFeeB);
+  
+  let collectedFees = 0;
+  let rewardIncome = 0;
+  let withdrawnValue = 0;
+  let swapCost = 0;
+  let gasMist = BigInt(0);
+  const unvalued = new Map<string, bigint>();
+  
+  for (const flow of flows) {
+    collectedFees += valueOf(flow.feesA, flow.feesB);
+    rewardIncome += valueOf(flow.rewardsA, flow.rewardsB);
+    withdrawnValue += valueOf(flow.walletA, flow.walletB);
+    swapCost += flow.swapCost;
+    gasMist += BigInt(flow.gasCostMist);
+    flow.otherTokens.forEach((token) => {
+      unvalued.set(token.coinType, (unvalued.get(token.coinType) ?? BigInt(0)) + BigInt(token.amount));
+    });
+  }
+  
+  const gasInB = gasCostInCoinB(pool, gasMist, price, suiPrice);
+  const gasCost = gasInB ?? 0;
+  const positionValue = valueOf(snapshot.amountA, snapshot.amountB);
+  const pendingFees = valueOf(snapshot.pendingFeeA, snapshot.pendingFeeB);
+  
+  // Fees pending at the baseline belong to the baseline, not to the bot
+  const feeIncome = collectedFees + pendingFees - baselinePendingFees;
+  const realizedFees = Math.max(collectedFees - baselinePendingFees, 0);
+  
+  const depositedValue = valueOf(baselineA, baselineB, baselinePrice);
+  const hodlValue = valueOf(baselineA, baselineB);
+  const currentValue = positionValue + pendingFees + withdrawnValue - gasCost;
+  
+  const totalPnl = currentValue - depositedValue;
+  const realizedPnl = realizedFees + rewardIncome - gasCost - swapCost;
+  const pnlVsHodl = currentValue - hodlValue;
+  const impermanentLoss = pnlVsHodl - feeIncome - rewardIncome + gasCost + swapCost;
+  
+  return {
+    since: baseline.at,
+    depositedValue,
+    hodlValue,
+    positionValue,
+    pendingFees,
+    withdrawnValue,
+    feeIncome,
+    rewardIncome,
+    gasCost,
+    swapCost,
+    realizedPnl,
+    unrealizedPnl: totalPnl - realizedPnl,
+    totalPnl,
+    pnlVsHodl,
+    impermanentLoss,
+    impermanentLossPercent: hodlValue > 0 ? (impermanentLoss / hodlValue) * 100 : 0,
+    gasUnvalued: gasInB === null,
+    unvaluedTokens: Array.from(unvalued.entries()).map(([coinType, amount]) => ({
+      coinType,
+      amount: amount.toString(),
+    })),
+  };
+}
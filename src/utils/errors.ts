@@ -0,0 +1,143 @@
+import { JsonRpcError, SuiHTTPStatusError, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { getTotalGasCost } from './transactionResult';
+import { isTypeArgError } from './typeArgNormalizer';
+
+/**
+ * How a failure should be handled
+ * - transient: network and RPC failures; the same request may succeed later
+ * - conflict: an input object was locked or had moved to a newer version;
+ *   the transaction must be rebuilt against the current versions
+ * - permanent: the same transaction fails the same way every time
+ */
+export type ErrorKind = 'transient' | 'conflict' | 'permanent';
+
+export class ClassifiedError extends Error {
+  readonly kind: ErrorKind;
+  /**
+   * Gas in MIST paid by the failed transaction, set when it was executed on
+   * chain; covers every attempt if it was retried
+   */
+  gasCostMist?: bigint;
+  /** Digest of the last executed attempt */
+  digest?: string;
+  
+  constructor(kind: ErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ClassifiedError';
+    this.kind = kind;
+  }
+}
+
+export class TransientError extends ClassifiedError {
+  constructor(message: string, cause?: unknown) {
+    super('transient', message, cause);
+    this.name = 'TransientError';
+  }
+}
+
+export class ObjectConflictError extends ClassifiedError {
+  constructor(message: string, cause?: unknown) {
+    super('conflict', message, cause);
+    this.name = 'ObjectConflictError';
+  }
+}
+
+/**
+ * Move aborts, insufficient balances, deleted inputs and malformed
+ * transactions
+ */
+export class PermanentError extends ClassifiedError {
+  constructor(message: string, cause?: unknown) {
+    super('permanent', message, cause);
+    this.name = 'PermanentError';
+  }
+}
+
+// Sui reports these as strings in effects and RPC errors, so they are
+// matched on the message
+const CONFLICT_PATTERNS = [
+  /ObjectVersionUnavailableForConsumption/i,
+  /not available for consumption/i,
+  /ObjectLockConflict/i,
+  /locked objects?/i,
+  /already locked/i,
+  /equivocat/i,
+  /SharedObjectCongestion/i,
+];
+
+const PERMANENT_PATTERNS = [
+  /MoveAbort/i,
+  /InsufficientCoinBalance/i,
+  /InsufficientGas/i,
+  /Balance of gas object \S+ is lower than/i,
+  /No valid gas coins/i,
+  /InputObjectDeleted/i,
+  /"code":\s*"deleted"/i,
+  /CommandArgumentError/i,
+  /TypeArgumentError/i,
+  /FunctionNotFound/i,
+  /ArityMismatch/i,
+];
+
+function toClassified(kind: ErrorKind, message: string, cause: unknown): ClassifiedError {
+  switch (kind) {
+    case 'conflict':
+      return new ObjectConflictError(message, cause);
+    case 'permanent':
+      return new PermanentError(message, cause);
+    default:
+      return new TransientError(message, cause);
+  }
+}
+
+/**
+ * Sorts an error into transient, conflict or permanent
+ * Already classified errors are returned as they are; anything unrecognised
+ * is given the fallback kind.
+ */
+export function classifyError(error: unknown, fallback: ErrorKind = 'transient'): ClassifiedError {
+  if (error instanceof ClassifiedError) {
+    return error;
+  }
+  
+  const message = error instanceof Error ? error.message : String(error);
+  
+  if (CONFLICT_PATTERNS.some((pattern) => pattern.test(message))) {
+    return new ObjectConflictError(message, error);
+  }
+  if (
+    PERMANENT_PATTERNS.some((pattern) => pattern.test(message)) ||
+    (error instanceof Error && isTypeArgError(error))
+  ) {
+    return new PermanentError(message, error);
+  }
+  
+  // Rate limiting and server errors pass with time; other HTTP errors mean a bad request
+  if (error instanceof SuiHTTPStatusError) {
+    const kind = error.status === 429 || error.status >= 500 ? 'transient' : 'permanent';
+    return toClassified(kind, message, error);
+  }
+  // Invalid params (-32602) will not become valid on retry
+  if (error instanceof JsonRpcError && error.code === -32602) {
+    return new PermanentError(message, error);
+  }
+  
+  return toClassified(fallback, message, error);
+}
+
+/**
+ * Error for a transaction that was executed but failed on chain
+ * It was charged gas, which the error carries, and will fail again as built;
+ * only a cancellation for shared object congestion is worth a rebuilt retry.
+ */
+export function executionFailure(response: SuiTransactionBlockResponse): ClassifiedError {
+  const error = classifyError(
+    new Error(`Transaction execution failed: ${response.effects?.status.error || 'Unknown error'}`),
+    'permanent'
+  );
+  if (response.effects) {
+    error.gasCostMist = getTotalGasCost(response.effects.gasUsed);
+    error.digest = response.digest;
+  }
+  return error;
+}
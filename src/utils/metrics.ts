@@ -0,0 +1,204 @@
+/**
+ * Minimal Prometheus metrics registry
+ *
+ * Metrics are registered once at module load and updated from anywhere in the
+ * bot; MetricsServer renders them in the Prometheus text exposition format.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabelValue(labels[key])}"`)
+    .join(',');
+}
+
+function formatSample(name: string, key: string, value: number): string {
+  return key ? `${name}{${key}} ${value}` : `${name} ${value}`;
+}
+
+export class Gauge implements Metric {
+  readonly name: string;
+  private help: string;
+  private values = new Map<string, number>();
+  
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+  
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+  
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    this.values.forEach((value, key) => lines.push(formatSample(this.name, key, value)));
+    return lines;
+  }
+}
+
+export class Counter implements Metric {
+  readonly name: string;
+  private help: string;
+  private values = new Map<string, number>();
+  
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+  
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+  
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach((value, key) => lines.push(formatSample(this.name, key, value)));
+    return lines;
+  }
+}
+
+export class Histogram implements Metric {
+  readonly name: string;
+  private help: string;
+  private bounds: number[];
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+  
+  constructor(name: string, help: string, bounds: number[]) {
+    this.name = name;
+    this.help = help;
+    this.bounds = bounds;
+  }
+  
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        entry!.buckets[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+  
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    
+    this.series.forEach((entry, key) => {
+      const prefix = key ? `${key},` : '';
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${entry.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`);
+      lines.push(formatSample(`${this.name}_sum`, key, entry.sum));
+      lines.push(formatSample(`${this.name}_count`, key, entry.count));
+    });
+    
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+  
+  render(): string {
+    return this.metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const metrics = {
+  // Position state (labels: position)
+  positionCurrentTick: metricsRegistry.register(
+    new Gauge('clmm_position_current_tick', 'Current pool tick')
+  ),
+  positionTickLower: metricsRegistry.register(
+    new Gauge('clmm_position_tick_lower', 'Lower tick of the active position')
+  ),
+  positionTickUpper: metricsRegistry.register(
+    new Gauge('clmm_position_tick_upper', 'Upper tick of the active position')
+  ),
+  positionInRange: metricsRegistry.register(
+    new Gauge('clmm_position_in_range', '1 if the current tick is inside the position range')
+  ),
+  positionPriceDeviation: metricsRegistry.register(
+    new Gauge('clmm_position_price_deviation_percent', 'Price deviation outside the range in percent')
+  ),
+  positionValueUsd: metricsRegistry.register(
+    new Gauge('clmm_position_value_usd', 'Value of the liquidity in the position in USD')
+  ),
+  lastCheckTimestamp: metricsRegistry.register(
+    new Gauge('clmm_position_last_check_timestamp_seconds', 'Unix time of the last successful check')
+  ),
+  
+  // Rebalancing and compounding (labels: position, result)
+  rebalances: metricsRegistry.register(
+    new Counter('clmm_rebalances_total', 'Rebalance attempts by result')
+  ),
+  compounds: metricsRegistry.register(
+    new Counter('clmm_compounds_total', 'Fee compounding attempts by result')
+  ),
+  
+  // Bot-wide state
+  circuitBreakerOpen: metricsRegistry.register(
+    new Gauge('clmm_circuit_breaker_open', '1 while the circuit breaker has the bot paused')
+  ),
+  
+  // Checks triggered by swap events (labels: pool)
+  eventTriggers: metricsRegistry.register(
+    new Counter('clmm_event_triggers_total', 'Position checks triggered by swaps moving the pool tick')
+  ),
+  
+  // Transactions and RPC (labels: operation)
+  retryAttempts: metricsRegistry.register(
+    new Counter('clmm_retry_attempts_total', 'Retries after a failed attempt')
+  ),
+  gasSpent: metricsRegistry.register(
+    new Counter('clmm_gas_spent_mist_total', 'Gas paid by executed transactions in MIST')
+  ),
+  rpcLatency: metricsRegistry.register(
+    new Histogram(
+      'clmm_rpc_latency_seconds',
+      'Duration of RPC attempts',
+      [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+    )
+  ),
+  
+  // RPC endpoints (labels: endpoint; failovers: from, to)
+  rpcEndpointHealthy: metricsRegistry.register(
+    new Gauge('clmm_rpc_endpoint_healthy', '1 if the endpoint passed its last health check')
+  ),
+  rpcEndpointProbeLatency: metricsRegistry.register(
+    new Gauge('clmm_rpc_endpoint_probe_latency_seconds', 'Smoothed latency of health check requests')
+  ),
+  rpcEndpointCheckpointLag: metricsRegistry.register(
+    new Gauge('clmm_rpc_endpoint_checkpoint_lag', 'Checkpoints behind the most advanced endpoint')
+  ),
+  rpcFailovers: metricsRegistry.register(
+    new Counter('clmm_rpc_failovers_total', 'Switches of the active RPC endpoint')
+  ),
+};
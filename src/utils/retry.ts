@@ -1,5 +1,50 @@
+import { BotConfig } from '../types';
+import { ErrorKind, classifyError } from './errors';
 import { logger } from './logger';
+import { metrics } from './metrics';
 
+export interface RetryPolicy {
+  maxRetries: number;
+  minDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Retries allowed for each kind of error
+ * Transient failures back off exponentially; conflicts are retried after a
+ * short fixed delay, as rebuilding is what resolves them; permanent errors
+ * are never retried.
+ */
+export function getRetryPolicies(config: BotConfig): Record<ErrorKind, RetryPolicy> {
+  return {
+    transient: {
+      maxRetries: config.maxRetries,
+      minDelayMs: config.minRetryDelayMs,
+      maxDelayMs: config.maxRetryDelayMs,
+    },
+    conflict: {
+      maxRetries: config.conflictMaxRetries,
+      minDelayMs: config.conflictRetryDelayMs,
+      maxDelayMs: config.conflictRetryDelayMs,
+    },
+    permanent: { maxRetries: 0, minDelayMs: 0, maxDelayMs: 0 },
+  };
+}
+
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  return Math.min(policy.minDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs);
+}
+
+function observeLatency(operation: string, startedAt: number): void {
+  metrics.rpcLatency.observe({ operation }, (Date.now() - startedAt) / 1000);
+}
+
+/**
+ * Runs fn, retrying failures with exponential backoff
+ * Each attempt calls fn afresh, so conflicts are retried like transient
+ * failures. Permanent errors are thrown at once. Errors are thrown
+ * classified (see utils/errors).
+ */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   maxRetries: number,
@@ -7,29 +52,36 @@ export async function withRetry<T>(
   maxDelay: number,
   context: string
 ): Promise<T> {
-  let lastError: Error | undefined;
+  const policy: RetryPolicy = { maxRetries, minDelayMs: minDelay, maxDelayMs: maxDelay };
   
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
     try {
-      return await fn();
+      const result = await fn();
+      observeLatency(context, startedAt);
+      return result;
     } catch (error) {
-      lastError = error as Error;
+      observeLatency(context, startedAt);
+      const classified = classifyError(error);
+      
+      if (classified.kind === 'permanent') {
+        logger.error(`${context} failed with a permanent error, not retrying: ${classified.message}`);
+        throw classified;
+      }
       
-      if (attempt < maxRetries) {
-        const delay = Math.min(
-          minDelay * Math.pow(2, attempt),
-          maxDelay
-        );
-        
-        logger.warn(
-          `${context} failed (attempt ${attempt + 1}/${maxRetries + 1}): ${lastError.message}. Retrying in ${delay}ms...`
-        );
-        
-        await new Promise((resolve) => setTimeout(resolve, delay));
+      if (attempt >= maxRetries) {
+        logger.error(`${context} failed after ${maxRetries + 1} attempts`);
+        throw classified;
       }
+      
+      metrics.retryAttempts.inc({ operation: context });
+      const delay = getRetryDelay(policy, attempt + 1);
+      
+      logger.warn(
+        `${context} failed (attempt ${attempt + 1}/${maxRetries + 1}, ${classified.kind}): ${classified.message}. Retrying in ${delay}ms...`
+      );
+      
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
   }
-  
-  logger.error(`${context} failed after ${maxRetries + 1} attempts`);
-  throw lastError;
 }
@@ -0,0 +1,415 @@
+import { SwapQuote, TickRange } from '../types';
+import {
+  MAX_SQRT_PRICE,
+  MIN_SQRT_PRICE,
+  getAmountAFromLiquidity,
+  getAmountBFromLiquidity,
+  getAmountsForLiquidity,
+  getLiquidityForAmounts,
+  getLiquidityFromAmountA,
+  getLiquidityFromAmountB,
+  sqrtPriceX64ToPrice,
+  tickToSqrtPrice,
+} from './tickMath';
+
+const FEE_RATE_DENOMINATOR = 1_000_000;
+const Q64 = BigInt(2) ** BigInt(64);
+
+// Swaps worth less than this fraction of the position are not worth the fee
+const MIN_SWAP_FRACTION = 0.0001;
+
+// The swap size converges in a few refinements for wide ranges; in narrow
+// ranges the end price swings the target ratio and it takes more
+const MAX_SWAP_REFINEMENTS = 32;
+
+export interface SwapLeg {
+  a2b: boolean;
+  amountIn: bigint;
+  /** Swap the entire input coin (the new range excludes the current price) */
+  swapAll: boolean;
+  estimatedAmountOut: bigint;
+}
+
+export interface SwapPlan {
+  swap: SwapLeg | null;
+  /** Estimated coin balances after the swap */
+  amountAAfter: bigint;
+  amountBAfter: bigint;
+}
+
+export interface SwapLimits {
+  /** Price at which the swap stops filling (Q64.64) */
+  sqrtPriceLimit: bigint;
+  /** Output below which the PTB aborts */
+  minAmountOut: bigint;
+  /** Pool sqrt price the quoted swap ends at (Q64.64) */
+  endSqrtPrice: bigint;
+}
+
+/**
+ * Arguments for add_liquidity_by_fix_coin
+ * The fixed coin's amount is deposited exactly; the other amount is the most
+ * of that coin the deposit may take.
+ */
+export interface AddLiquidityPlan {
+  fixAmountA: boolean;
+  amountA: bigint;
+  amountB: bigint;
+  expectedLiquidity: bigint;
+  minLiquidity: bigint;
+}
+
+export interface SwapPlanParams {
+  amountA: bigint;
+  amountB: bigint;
+  /** Current pool sqrt price (Q64.64) */
+  sqrtPriceCurrent: bigint;
+  newRange: TickRange;
+  /** Pool fee rate, denominator 1_000_000 */
+  feeRate: number;
+  /** Active pool liquidity at the current tick */
+  poolLiquidity: bigint;
+}
+
+/**
+ * Reduces an amount by maxSlippagePercent
+ */
+export function applySlippage(amount: bigint, maxSlippagePercent: number): bigint {
+  const slippageBps = BigInt(Math.floor(maxSlippagePercent * 100));
+  return (amount * (BigInt(10000) - slippageBps)) / BigInt(10000);
+}
+
+/**
+ * Increases an amount by maxSlippagePercent, rounding up
+ */
+export function addSlippage(amount: bigint, maxSlippagePercent: number): bigint {
+  const slippageBps = BigInt(Math.floor(maxSlippagePercent * 100));
+  return (amount * (BigInt(10000) + slippageBps) + BigInt(9999)) / BigInt(10000);
+}
+
+/**
+ * Average execution cost of a swap as a fraction of its value
+ * Within one tick range, B in moves sqrt(P) by dB / L and A in moves 1/sqrt(P)
+ * by dA / L; the average fill is about that relative sqrt price move worse.
+ */
+export function estimatePriceImpact(
+  sqrtPriceCurrent: bigint,
+  poolLiquidity: bigint,
+  a2b: boolean,
+  amountIn: bigint
+): number {
+  const liquidity = Number(poolLiquidity);
+  if (liquidity <= 0) {
+    return 1;
+  }
+  
+  const sqrtPrice = Math.sqrt(sqrtPriceX64ToPrice(sqrtPriceCurrent));
+  const relativeMove = a2b
+    ? (Number(amountIn) * sqrtPrice) / liquidity
+    : Number(amountIn) / (liquidity * sqrtPrice);
+  
+  return Math.min(relativeMove, 1);
+}
+
+/**
+ * Pool sqrt price after a swap that stays within the current liquidity
+ * B in raises sqrt(P) by dB / L; A in raises 1/sqrt(P) by dA / L.
+ */
+function estimateEndSqrtPrice(
+  sqrtPriceCurrent: bigint,
+  poolLiquidity: bigint,
+  a2b: boolean,
+  amountIn: bigint,
+  feeFactor: number
+): bigint {
+  if (poolLiquidity <= BigInt(0)) {
+    return sqrtPriceCurrent;
+  }
+  
+  const amountInAfterFee = BigInt(Math.floor(Number(amountIn) * feeFactor));
+  return a2b
+    ? (poolLiquidity * sqrtPriceCurrent * Q64) / (poolLiquidity * Q64 + amountInAfterFee * sqrtPriceCurrent)
+    : sqrtPriceCurrent + (amountInAfterFee * Q64) / poolLiquidity;
+}
+
+/**
+ * Value of coin B the new range needs per unit value of coin A at the current
+ * price. Per unit of liquidity a range holds a = 1/sqrt(Pc) - 1/sqrt(Pu) of A
+ * and b = sqrt(Pc) - sqrt(Pl) of B, so the ratio is b / (a * P).
+ * Only meaningful while the current price is inside the range.
+ */
+export function calculateTargetValueRatio(sqrtPriceCurrent: bigint, newRange: TickRange): number {
+  const price = sqrtPriceX64ToPrice(sqrtPriceCurrent);
+  const sqrtCurrent = Math.sqrt(price);
+  const sqrtLower = Math.sqrt(sqrtPriceX64ToPrice(tickToSqrtPrice(newRange.tickLower)));
+  const sqrtUpper = Math.sqrt(sqrtPriceX64ToPrice(tickToSqrtPrice(newRange.tickUpper)));
+  
+  const perLiquidityA = 1 / sqrtCurrent - 1 / sqrtUpper;
+  const perLiquidityB = sqrtCurrent - sqrtLower;
+  return perLiquidityB / (perLiquidityA * price);
+}
+
+/**
+ * Which coin add_liquidity_by_fix_coin should fix
+ * The fixed coin is fully deposited and the other is taken as needed, so fix
+ * the coin that limits the liquidity; the surplus of the other is refunded.
+ */
+export function shouldFixAmountA(
+  amountA: bigint,
+  amountB: bigint,
+  sqrtPriceCurrent: bigint,
+  newRange: TickRange
+): boolean {
+  if (sqrtPriceCurrent <= tickToSqrtPrice(newRange.tickLower)) {
+    return true;
+  }
+  if (sqrtPriceCurrent >= tickToSqrtPrice(newRange.tickUpper)) {
+    return false;
+  }
+  
+  const liquidityA = getLiquidityFromAmountA(sqrtPriceCurrent, tickToSqrtPrice(newRange.tickUpper), amountA);
+  const liquidityB = getLiquidityFromAmountB(tickToSqrtPrice(newRange.tickLower), sqrtPriceCurrent, amountB);
+  return liquidityA <= liquidityB;
+}
+
+/**
+ * Plans the swap that puts both coins in the ratio the new range needs
+ *
+ * - Price below the new range: the position is all coin A, swap all of B
+ * - Price above the new range: the position is all coin B, swap all of A
+ * - Price inside: the target is B = r * A * P (see calculateTargetValueRatio)
+ *   at the price the swap moves the pool to. The swap size solves that after
+ *   the pool fee and the estimated price impact are deducted from the output.
+ *   Impact and end price depend on the size, so the solution is refined
+ *   until it settles.
+ */
+export function calculateSwapPlan(params: SwapPlanParams): SwapPlan {
+  const { amountA, amountB, sqrtPriceCurrent, newRange, feeRate, poolLiquidity } = params;
+  const price = sqrtPriceX64ToPrice(sqrtPriceCurrent);
+  const sqrtPriceLower = tickToSqrtPrice(newRange.tickLower);
+  const sqrtPriceUpper = tickToSqrtPrice(newRange.tickUpper);
+  const feeFactor = 1 - feeRate / FEE_RATE_DENOMINATOR;
+  
+  const noSwap: SwapPlan = { swap: null, amountAAfter: amountA, amountBAfter: amountB };
+  
+  const outputFor = (a2b: boolean, amountIn: bigint): bigint => {
+    const impact = estimatePriceImpact(sqrtPriceCurrent, poolLiquidity, a2b, amountIn);
+    const gross = a2b ? Number(amountIn) * price : Number(amountIn) / price;
+    return BigInt(Math.floor(gross * feeFactor * (1 - impact)));
+  };
+  
+  if (sqrtPriceCurrent <= sqrtPriceLower || sqrtPriceCurrent >= sqrtPriceUpper) {
+    const a2b = sqrtPriceCurrent >= sqrtPriceUpper;
+    const amountIn = a2b ? amountA : amountB;
+    if (amountIn === BigInt(0)) {
+      return noSwap;
+    }
+    
+    const amountOut = outputFor(a2b, amountIn);
+    return {
+      swap: { a2b, amountIn, swapAll: true, estimatedAmountOut: amountOut },
+      amountAAfter: a2b ? BigInt(0) : amountA + amountOut,
+      amountBAfter: a2b ? amountB + amountOut : BigInt(0),
+    };
+  }
+  
+  const ratio = calculateTargetValueRatio(sqrtPriceCurrent, newRange);
+  
+  const valueA = Number(amountA) * price;
+  const valueB = Number(amountB);
+  const a2b = valueB < ratio * valueA;
+  
+  let amountIn = BigInt(0);
+  let keep = feeFactor;
+  let endSqrtPrice = sqrtPriceCurrent;
+  for (let i = 0; i < MAX_SWAP_REFINEMENTS; i++) {
+    // The deposit happens at the price the swap leaves behind, so the ratio
+    // is the target there, with A valued at that price
+    const endInRange = endSqrtPrice > sqrtPriceLower && endSqrtPrice < sqrtPriceUpper;
+    const endPrice = endInRange ? sqrtPriceX64ToPrice(endSqrtPrice) : price;
+    const endRatio = endInRange ? calculateTargetValueRatio(endSqrtPrice, newRange) : ratio;
+    const raw = a2b
+      ? (endRatio * endPrice * Number(amountA) - valueB) / (price * keep + endRatio * endPrice)
+      : (valueB - endRatio * endPrice * Number(amountA)) / (1 + (endRatio * keep * endPrice) / price);
+    const previous = amountIn;
+    amountIn = BigInt(Math.max(0, Math.floor(raw)));
+    if (i > 0 && amountIn === previous) {
+      break;
+    }
+    keep = feeFactor * (1 - estimatePriceImpact(sqrtPriceCurrent, poolLiquidity, a2b, amountIn));
+    endSqrtPrice = estimateEndSqrtPrice(sqrtPriceCurrent, poolLiquidity, a2b, amountIn, feeFactor);
+  }
+  
+  const available = a2b ? amountA : amountB;
+  if (amountIn > available) {
+    amountIn = available;
+  }
+  
+  const swapValue = a2b ? Number(amountIn) * price : Number(amountIn);
+  if (amountIn === BigInt(0) || swapValue < (valueA + valueB) * MIN_SWAP_FRACTION) {
+    return noSwap;
+  }
+  
+  const amountOut = outputFor(a2b, amountIn);
+  return {
+    swap: { a2b, amountIn, swapAll: false, estimatedAmountOut: amountOut },
+    amountAAfter: a2b ? amountA - amountIn : amountA + amountOut,
+    amountBAfter: a2b ? amountB + amountOut : amountB - amountIn,
+  };
+}
+
+/**
+ * Sizes a deposit into a range from the estimated post-swap balances
+ *
+ * sqrtPriceCurrent is the price the deposit executes at: the quoted end price
+ * of the swap before it, if there is one. The fixed coin is the one that
+ * limits liquidity in the range; all of it the planned liquidity needs is
+ * deposited, up to its balance. The other coin may be taken up to
+ * maxSlippagePercent more than that liquidity needs at the planned price, but
+ * never more than its balance, so the price can move within the swap's
+ * limits without aborting the deposit. Amounts are rounded up, as the pool
+ * charges them. The minimum liquidity, the slippage guard, is
+ * maxSlippagePercent below what the fixed amount itself mints, so rounding
+ * cannot push an on-target deposit below it.
+ */
+export function calculateAddLiquidityPlan(
+  sqrtPriceCurrent: bigint,
+  range: TickRange,
+  swapPlan: SwapPlan,
+  maxSlippagePercent: number
+): AddLiquidityPlan {
+  const sqrtPriceLower = tickToSqrtPrice(range.tickLower);
+  const sqrtPriceUpper = tickToSqrtPrice(range.tickUpper);
+  
+  const expectedLiquidity = getLiquidityForAmounts(
+    sqrtPriceCurrent,
+    sqrtPriceLower,
+    sqrtPriceUpper,
+    swapPlan.amountAAfter,
+    swapPlan.amountBAfter
+  );
+  const expected = getAmountsForLiquidity(
+    sqrtPriceCurrent,
+    sqrtPriceLower,
+    sqrtPriceUpper,
+    expectedLiquidity,
+    true
+  );
+  
+  const fixAmountA = shouldFixAmountA(
+    swapPlan.amountAAfter,
+    swapPlan.amountBAfter,
+    sqrtPriceCurrent,
+    range
+  );
+  
+  const limitOf = (amount: bigint, balance: bigint): bigint => {
+    const limit = addSlippage(amount, maxSlippagePercent);
+    return limit < balance ? limit : balance;
+  };
+  const fixedOf = (amount: bigint, balance: bigint): bigint => (amount < balance ? amount : balance);
+  const amountA = fixAmountA
+    ? fixedOf(expected.amountA, swapPlan.amountAAfter)
+    : limitOf(expected.amountA, swapPlan.amountAAfter);
+  const amountB = fixAmountA
+    ? limitOf(expected.amountB, swapPlan.amountBAfter)
+    : fixedOf(expected.amountB, swapPlan.amountBAfter);
+  const fixedLiquidity = fixAmountA
+    ? getLiquidityFromAmountA(
+      sqrtPriceCurrent > sqrtPriceLower ? sqrtPriceCurrent : sqrtPriceLower,
+      sqrtPriceUpper,
+      amountA
+    )
+    : getLiquidityFromAmountB(
+      sqrtPriceLower,
+      sqrtPriceCurrent < sqrtPriceUpper ? sqrtPriceCurrent : sqrtPriceUpper,
+      amountB
+    );
+  
+  return {
+    fixAmountA,
+    amountA,
+    amountB,
+    expectedLiquidity,
+    minLiquidity: applySlippage(fixedLiquidity, maxSlippagePercent),
+  };
+}
+
+/**
+ * Reprices a quote for a pool that loses some of its active liquidity first
+ * A rebalance removes its in-range position before it swaps, but the quote
+ * runs against the pool as it is. Within the current tick range the same
+ * input then moves the price further and fills less; the worse of the two
+ * quotes is kept since a quote that crossed ticks is only approximated.
+ */
+export function requoteWithoutLiquidity(
+  quote: SwapQuote,
+  sqrtPriceCurrent: bigint,
+  poolLiquidity: bigint,
+  removedLiquidity: bigint
+): SwapQuote {
+  if (removedLiquidity <= BigInt(0)) {
+    return quote;
+  }
+  const liquidity = poolLiquidity - removedLiquidity;
+  if (liquidity <= BigInt(0)) {
+    return { ...quote, isExceed: true };
+  }
+  
+  const endSqrtPrice = estimateEndSqrtPrice(
+    sqrtPriceCurrent,
+    liquidity,
+    quote.a2b,
+    quote.amountIn - quote.feeAmount,
+    1
+  );
+  const amountOut = quote.a2b
+    ? getAmountBFromLiquidity(endSqrtPrice, sqrtPriceCurrent, liquidity, false)
+    : getAmountAFromLiquidity(sqrtPriceCurrent, endSqrtPrice, liquidity, false);
+  
+  const further = quote.a2b ? endSqrtPrice < quote.endSqrtPrice : endSqrtPrice > quote.endSqrtPrice;
+  return {
+    ...quote,
+    amountOut: amountOut < quote.amountOut ? amountOut : quote.amountOut,
+    endSqrtPrice: further ? endSqrtPrice : quote.endSqrtPrice,
+  };
+}
+
+/**
+ * Price protection for a quoted swap
+ * The sqrt price limit allows the price to move maxSlippagePercent beyond the
+ * quoted end price, and the minimum output is the quoted output less
+ * maxSlippagePercent. A swap stopped early by the limit fills less than
+ * quoted, so the minimum output check also catches it.
+ */
+export function calculateSwapLimits(quote: SwapQuote, maxSlippagePercent: number): SwapLimits {
+  const SCALE = 1_000_000_000;
+  const priceFactor = quote.a2b ? 1 - maxSlippagePercent / 100 : 1 + maxSlippagePercent / 100;
+  const sqrtFactor = BigInt(Math.floor(Math.sqrt(Math.max(priceFactor, 0)) * SCALE));
+  
+  let sqrtPriceLimit = (quote.endSqrtPrice * sqrtFactor) / BigInt(SCALE);
+  if (sqrtPriceLimit < MIN_SQRT_PRICE) {
+    sqrtPriceLimit = MIN_SQRT_PRICE;
+  }
+  if (sqrtPriceLimit > MAX_SQRT_PRICE) {
+    sqrtPriceLimit = MAX_SQRT_PRICE;
+  }
+  
+  const minAmountOut = applySlippage(quote.amountOut, maxSlippagePercent);
+  
+  return { sqrtPriceLimit, minAmountOut, endSqrtPrice: quote.endSqrtPrice };
+}
+
+/**
+ * Execution price of a swap in raw coin B per raw coin A, fee included
+ */
+export function calculateSwapPrice(
+  a2b: boolean,
+  amountIn: bigint,
+  amountOut: bigint
+): number {
+  if (amountIn === BigInt(0) || amountOut === BigInt(0)) {
+    return 0;
+  }
+  return a2b ? Number(amountOut) / Number(amountIn) : Number(amountIn) / Number(amountOut);
+}
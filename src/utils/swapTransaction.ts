@@ -0,0 +1,125 @@
+import { Transaction, TransactionObjectArgument, coinWithBalance } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+import { Pool } from '../types';
+import { logger } from './logger';
+import { SwapLimits, SwapPlan } from './swapMath';
+import { MAX_SQRT_PRICE, MIN_SQRT_PRICE } from './tickMath';
+
+/**
+ * Adds the planned router::swap to a PTB, with its output check
+ * Shared by the rebalance and compound PTBs, which both swap the coins they
+ * hold into the ratio of the range they deposit into.
+ *
+ * @returns The coins after the swap
+ */
+export function addSwapIfNeeded(
+  ptb: Transaction,
+  pool: Pool,
+  swapPlan: SwapPlan,
+  swapLimits: SwapLimits | null,
+  coinA: TransactionObjectArgument,
+  coinB: TransactionObjectArgument,
+  packageId: string,
+  globalConfigId: string,
+  normalizedCoinTypeA: string,
+  normalizedCoinTypeB: string
+): { coinA: TransactionObjectArgument; coinB: TransactionObjectArgument } {
+  const swap = swapPlan.swap;
+  
+  if (!swap) {
+    logger.info('  Coins already in the range ratio - no swap');
+    return { coinA, coinB };
+  }
+  
+  // Without a quote the swap can only be bounded by the global price limits
+  const sqrtPriceLimit = swapLimits?.sqrtPriceLimit ?? (swap.a2b ? MIN_SQRT_PRICE : MAX_SQRT_PRICE);
+  
+  // A full swap uses the input coin's whole value (use_coin_value), since the
+  // exact amount removed is only known on-chain. A partial swap uses the
+  // planned amount and the remainder stays in the input coin.
+  const amountIn = swap.swapAll ? '0' : swap.amountIn.toString();
+  const description = swap.swapAll ? 'ALL' : amountIn;
+  
+  if (swap.a2b) {
+    logger.info(`  Swapping ${description} coinA to coinB`);
+    
+    const zeroCoinB = coinWithBalance({ type: normalizedCoinTypeB, balance: 0 })(ptb);
+    
+    // Use SDK builder pattern: router::swap
+    // Returns tuple (Coin<A>, Coin<B>) - use array destructuring
+    const [remainderCoinA, swappedCoinB] = ptb.moveCall({
+      target: `${packageId}::router::swap`,
+      typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
+      arguments: [
+        ptb.object(globalConfigId),
+        ptb.object(pool.id),
+        coinA,
+        zeroCoinB,
+        ptb.pure.bool(true), // a2b: true = A to B
+        ptb.pure.bool(true), // by_amount_in
+        ptb.pure.u64(amountIn),
+        ptb.pure.u128(sqrtPriceLimit.toString()),
+        ptb.pure.bool(swap.swapAll), // use_coin_value
+        ptb.object(SUI_CLOCK_OBJECT_ID),
+      ],
+    });
+    
+    addSwapOutputCheck(ptb, packageId, swappedCoinB, swapLimits, normalizedCoinTypeB);
+    ptb.mergeCoins(coinB, [swappedCoinB]);
+    logger.info('  ✓ Swapped: output merged into coinB');
+    
+    return { coinA: remainderCoinA, coinB };
+  }
+  
+  logger.info(`  Swapping ${description} coinB to coinA`);
+  
+  const zeroCoinA = coinWithBalance({ type: normalizedCoinTypeA, balance: 0 })(ptb);
+  
+  // Use SDK builder pattern: router::swap
+  // Returns tuple (Coin<A>, Coin<B>) - use array destructuring
+  const [swappedCoinA, remainderCoinB] = ptb.moveCall({
+    target: `${packageId}::router::swap`,
+    typeArguments: [normalizedCoinTypeA, normalizedCoinTypeB],
+    arguments: [
+      ptb.object(globalConfigId),
+      ptb.object(pool.id),
+      zeroCoinA,
+      coinB,
+      ptb.pure.bool(false), // a2b: false = B to A
+      ptb.pure.bool(true), // by_amount_in
+      ptb.pure.u64(amountIn),
+      ptb.pure.u128(sqrtPriceLimit.toString()),
+      ptb.pure.bool(swap.swapAll), // use_coin_value
+      ptb.object(SUI_CLOCK_OBJECT_ID),
+    ],
+  });
+  
+  addSwapOutputCheck(ptb, packageId, swappedCoinA, swapLimits, normalizedCoinTypeA);
+  ptb.mergeCoins(coinA, [swappedCoinA]);
+  logger.info('  ✓ Swapped: output merged into coinA');
+  
+  return { coinA, coinB: remainderCoinB };
+}
+
+/**
+ * Aborts the PTB if the swap output is below the quoted minimum
+ * Uses router::check_coin_threshold, as the SDK does for by-amount-in swaps
+ */
+function addSwapOutputCheck(
+  ptb: Transaction,
+  packageId: string,
+  outputCoin: TransactionObjectArgument,
+  swapLimits: SwapLimits | null,
+  coinType: string
+): void {
+  if (!swapLimits) {
+    return;
+  }
+  
+  ptb.moveCall({
+    target: `${packageId}::router::check_coin_threshold`,
+    typeArguments: [coinType],
+    arguments: [outputCoin, ptb.pure.u64(swapLimits.minAmountOut.toString())],
+  });
+  logger.info(`  ✓ Swap output must be at least ${swapLimits.minAmountOut}`);
+}
@@ -1,48 +1,198 @@
 const Q64 = BigInt(2) ** BigInt(64);
-const Q96 = BigInt(2) ** BigInt(96);
+const U128 = BigInt(2) ** BigInt(128);
 
-// Tick math constants (same as Uniswap V3 / Cetus)
-const MIN_TICK = -443636;
-const MAX_TICK = 443636;
+// Tick bounds of Cetus pools
+export const MIN_TICK = -443636;
+export const MAX_TICK = 443636;
 
+// Sqrt prices at MIN_TICK and MAX_TICK, also the swap price limits
+export const MIN_SQRT_PRICE = BigInt('4295048016');
+export const MAX_SQRT_PRICE = BigInt('79226673515401279992447579055');
+
+// Cetus tick_math: sqrt(1.0001^-2^i) in Q64.64 for negative ticks, and
+// sqrt(1.0001^2^i) in Q96 for positive ticks
+const NEGATIVE_TICK_FACTORS = [
+  '18444899583751176498',
+  '18443055278223354162',
+  '18439367220385604838',
+  '18431993317065449817',
+  '18417254355718160513',
+  '18387811781193591352',
+  '18329067761203520168',
+  '18212142134806087854',
+  '17980523815641551639',
+  '17526086738831147013',
+  '16651378430235024244',
+  '15030750278693429944',
+  '12247334978882834399',
+  '8131365268884726200',
+  '3584323654723342297',
+  '696457651847595233',
+  '26294789957452057',
+  '37481735321082',
+].map(BigInt);
+
+const POSITIVE_TICK_FACTORS = [
+  '79236085330515764027303304731',
+  '79244008939048815603706035061',
+  '79259858533276714757314932305',
+  '79291567232598584799939703904',
+  '79355022692464371645785046466',
+  '79482085999252804386437311141',
+  '79736823300114093921829183326',
+  '80248749790819932309965073892',
+  '81282483887344747381513967011',
+  '83390072131320151908154831281',
+  '87770609709833776024991924138',
+  '97234110755111693312479820773',
+  '119332217159966728226237229890',
+  '179736315981702064433883588727',
+  '407748233172238350107850275304',
+  '2098478828474011932436660412517',
+  '55581415166113811149459800483533',
+  '38992368544603139932233054999993551',
+].map(BigInt);
+
+// log base sqrt(1.0001) of 2 in Q32, and the error margins of the log2
+// approximation in sqrtPriceToTick (Q64), from Cetus tick_math
+const LOG_B_2_X32 = BigInt('59543866431248');
+const LOG_B_P_ERR_MARGIN_LOWER_X64 = BigInt('184467440737095516');
+const LOG_B_P_ERR_MARGIN_UPPER_X64 = BigInt('15793534762490258745');
+const LOG2_FRACTION_BITS = 14;
+
+/**
+ * Sqrt price (Q64.64) at a tick, as Cetus get_sqrt_price_at_tick computes it
+ * tickToSqrtPrice(0) is 2^64; the bounds map to MIN_SQRT_PRICE and
+ * MAX_SQRT_PRICE.
+ */
 export function tickToSqrtPrice(tick: number): bigint {
-  if (tick < MIN_TICK || tick > MAX_TICK) {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
     throw new Error(`Tick ${tick} out of bounds [${MIN_TICK}, ${MAX_TICK}]`);
   }
   
   const absTick = Math.abs(tick);
   
-  let ratio = absTick & 0x1 ? BigInt('0xfffcb933bd6fad37aa2d162d1a594001') : Q96;
-  
-  if (absTick & 0x2) ratio = (ratio * BigInt('0xfff97272373d413259a46990580e213a')) / Q96;
-  if (absTick & 0x4) ratio = (ratio * BigInt('0xfff2e50f5f656932ef12357cf3c7fdcc')) / Q96;
-  if (absTick & 0x8) ratio = (ratio * BigInt('0xffe5caca7e10e4e61c3624eaa0941cd0')) / Q96;
-  if (absTick & 0x10) ratio = (ratio * BigInt('0xffcb9843d60f6159c9db58835c926644')) / Q96;
-  if (absTick & 0x20) ratio = (ratio * BigInt('0xff973b41fa98c081472e6896dfb254c0')) / Q96;
-  if (absTick & 0x40) ratio = (ratio * BigInt('0xff2ea16466c96a3843ec78b326b52861')) / Q96;
-  if (absTick & 0x80) ratio = (ratio * BigInt('0xfe5dee046a99a2a811c461f1969c3053')) / Q96;
-  if (absTick & 0x100) ratio = (ratio * BigInt('0xfcbe86c7900a88aedcffc83b479aa3a4')) / Q96;
-  if (absTick & 0x200) ratio = (ratio * BigInt('0xf987a7253ac413176f2b074cf7815e54')) / Q96;
-  if (absTick & 0x400) ratio = (ratio * BigInt('0xf3392b0822b70005940c7a398e4b70f3')) / Q96;
-  if (absTick & 0x800) ratio = (ratio * BigInt('0xe7159475a2c29b7443b29c7fa6e889d9')) / Q96;
-  if (absTick & 0x1000) ratio = (ratio * BigInt('0xd097f3bdfd2022b8845ad8f792aa5825')) / Q96;
-  if (absTick & 0x2000) ratio = (ratio * BigInt('0xa9f746462d870fdf8a65dc1f90e061e5')) / Q96;
-  if (absTick & 0x4000) ratio = (ratio * BigInt('0x70d869a156d2a1b890bb3df62baf32f7')) / Q96;
-  if (absTick & 0x8000) ratio = (ratio * BigInt('0x31be135f97d08fd981231505542fcfa6')) / Q96;
-  if (absTick & 0x10000) ratio = (ratio * BigInt('0x9aa508b5b7a84e1c677de54f3e99bc9')) / Q96;
-  if (absTick & 0x20000) ratio = (ratio * BigInt('0x5d6af8dedb81196699c329225ee604')) / Q96;
-  if (absTick & 0x40000) ratio = (ratio * BigInt('0x2216e584f5fa1ea926041bedfe98')) / Q96;
-  if (absTick & 0x80000) ratio = (ratio * BigInt('0x48a170391f7dc42444e8fa2')) / Q96;
-  
-  if (tick > 0) ratio = ((BigInt(2) ** BigInt(192)) - BigInt(1)) / ratio;
-  
-  return ratio;
+  if (tick <= 0) {
+    let ratio = absTick & 0x1 ? BigInt('18445821805675392311') : Q64;
+    NEGATIVE_TICK_FACTORS.forEach((factor, i) => {
+      if (absTick & (0x2 << i)) {
+        ratio = (ratio * factor) >> BigInt(64);
+      }
+    });
+    return ratio;
+  }
+  
+  let ratio = absTick & 0x1
+    ? BigInt('79232123823359799118286999567')
+    : BigInt('79228162514264337593543950336');
+  POSITIVE_TICK_FACTORS.forEach((factor, i) => {
+    if (absTick & (0x2 << i)) {
+      ratio = (ratio * factor) >> BigInt(96);
+    }
+  });
+  return ratio >> BigInt(32);
+}
+
+/**
+ * Largest tick whose sqrt price is at or below the given sqrt price, as Cetus
+ * get_tick_at_sqrt_price computes it: an approximate log2 narrows the result
+ * to two ticks, and tickToSqrtPrice picks between them.
+ */
+export function sqrtPriceToTick(sqrtPrice: bigint): number {
+  if (sqrtPrice < MIN_SQRT_PRICE || sqrtPrice > MAX_SQRT_PRICE) {
+    throw new Error(`Sqrt price ${sqrtPrice} out of bounds [${MIN_SQRT_PRICE}, ${MAX_SQRT_PRICE}]`);
+  }
+  
+  const msb = sqrtPrice.toString(2).length - 1;
+  const log2IntegerX32 = BigInt(msb - 64) << BigInt(32);
+  
+  // Fraction bits of log2 by repeated squaring of the normalized mantissa
+  let r = msb >= 64 ? sqrtPrice >> BigInt(msb - 63) : sqrtPrice << BigInt(63 - msb);
+  let log2FractionX64 = BigInt(0);
+  let bit = BigInt(1) << BigInt(63);
+  for (let precision = 0; precision < LOG2_FRACTION_BITS; precision++) {
+    r = r * r;
+    const moreThanTwo = r >> BigInt(127);
+    r = r >> (BigInt(63) + moreThanTwo);
+    log2FractionX64 += bit * moreThanTwo;
+    bit >>= BigInt(1);
+  }
+  
+  const log2X32 = log2IntegerX32 + (log2FractionX64 >> BigInt(32));
+  const logSqrt10001X64 = log2X32 * LOG_B_2_X32;
+  
+  const tickLow = Number((logSqrt10001X64 - LOG_B_P_ERR_MARGIN_LOWER_X64) >> BigInt(64));
+  const tickHigh = Number((logSqrt10001X64 + LOG_B_P_ERR_MARGIN_UPPER_X64) >> BigInt(64));
+  if (tickLow === tickHigh) {
+    return tickLow;
+  }
+  return tickToSqrtPrice(tickHigh) <= sqrtPrice ? tickHigh : tickLow;
+}
+
+/**
+ * Converts a Q64.64 sqrt price to a raw price (coin B per coin A, before
+ * adjusting for decimals). Uses floating point: for display and estimates only.
+ */
+export function sqrtPriceX64ToPrice(sqrtPriceX64: bigint): number {
+  const sqrtPrice = Number(sqrtPriceX64) / Number(Q64);
+  return sqrtPrice * sqrtPrice;
+}
+
+/**
+ * Human price (whole coin B per whole coin A) at a sqrt price
+ * Uses floating point: for display and estimates only.
+ */
+export function sqrtPriceToPrice(sqrtPrice: bigint, decimalsA: number, decimalsB: number): number {
+  return sqrtPriceX64ToPrice(sqrtPrice) * Math.pow(10, decimalsA - decimalsB);
+}
+
+/**
+ * Sqrt price (Q64.64) of a human price (whole coin B per whole coin A)
+ * Accurate to about 15 significant digits, far finer than one tick.
+ */
+export function priceToSqrtPrice(price: number, decimalsA: number, decimalsB: number): bigint {
+  if (!(price > 0) || !Number.isFinite(price)) {
+    throw new Error(`Invalid price ${price}: must be a positive number`);
+  }
+  
+  const rawPrice = price * Math.pow(10, decimalsB - decimalsA);
+  const sqrtPrice = BigInt(Math.round(Math.sqrt(rawPrice) * Number(Q64)));
+  if (sqrtPrice < MIN_SQRT_PRICE || sqrtPrice > MAX_SQRT_PRICE) {
+    throw new Error(`Price ${price} is outside the range a pool can represent`);
+  }
+  return sqrtPrice;
+}
+
+/**
+ * Human price (whole coin B per whole coin A) at a tick
+ */
+export function tickToPrice(tick: number, decimalsA: number, decimalsB: number): number {
+  return sqrtPriceToPrice(tickToSqrtPrice(tick), decimalsA, decimalsB);
+}
+
+/**
+ * Largest tick whose price is at or below a human price
+ */
+export function priceToTick(price: number, decimalsA: number, decimalsB: number): number {
+  return sqrtPriceToTick(priceToSqrtPrice(price, decimalsA, decimalsB));
+}
+
+function divRoundUp(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return numerator % denominator === BigInt(0) ? quotient : quotient + BigInt(1);
 }
 
+/**
+ * Coin A held by liquidity over [sqrtPriceLower, sqrtPriceUpper]
+ * dA = L * (sqrt(Pu) - sqrt(Pl)) / (sqrt(Pl) * sqrt(Pu)). Round up for
+ * amounts paid into the pool and down for amounts paid out, as Cetus
+ * get_delta_a does.
+ */
 export function getAmountAFromLiquidity(
   sqrtPriceLower: bigint,
   sqrtPriceUpper: bigint,
-  liquidity: bigint
+  liquidity: bigint,
+  roundUp: boolean = false
 ): bigint {
   if (sqrtPriceLower > sqrtPriceUpper) {
     [sqrtPriceLower, sqrtPriceUpper] = [sqrtPriceUpper, sqrtPriceLower];
@@ -55,19 +205,169 @@ export function getAmountAFromLiquidity(
   const numerator = liquidity * (sqrtPriceUpper - sqrtPriceLower) * Q64;
   const denominator = sqrtPriceLower * sqrtPriceUpper;
   
-  return numerator / denominator;
+  return roundUp ? divRoundUp(numerator, denominator) : numerator / denominator;
 }
 
+/**
+ * Coin B held by liquidity over [sqrtPriceLower, sqrtPriceUpper]
+ * dB = L * (sqrt(Pu) - sqrt(Pl)), rounded as in getAmountAFromLiquidity
+ */
 export function getAmountBFromLiquidity(
   sqrtPriceLower: bigint,
   sqrtPriceUpper: bigint,
-  liquidity: bigint
+  liquidity: bigint,
+  roundUp: boolean = false
+): bigint {
+  if (sqrtPriceLower > sqrtPriceUpper) {
+    [sqrtPriceLower, sqrtPriceUpper] = [sqrtPriceUpper, sqrtPriceLower];
+  }
+  
+  const product = liquidity * (sqrtPriceUpper - sqrtPriceLower);
+  return roundUp ? divRoundUp(product, Q64) : product / Q64;
+}
+
+/**
+ * Liquidity provided by an amount of coin A over [sqrtPriceLower, sqrtPriceUpper]
+ * L = amountA * sqrt(Pl) * sqrt(Pu) / (sqrt(Pu) - sqrt(Pl)), rounded down
+ */
+export function getLiquidityFromAmountA(
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  amountA: bigint
+): bigint {
+  if (sqrtPriceLower > sqrtPriceUpper) {
+    [sqrtPriceLower, sqrtPriceUpper] = [sqrtPriceUpper, sqrtPriceLower];
+  }
+  
+  if (sqrtPriceLower === sqrtPriceUpper) {
+    throw new Error('Invalid sqrt price range: bounds are equal');
+  }
+  
+  return (amountA * sqrtPriceLower * sqrtPriceUpper) / ((sqrtPriceUpper - sqrtPriceLower) * Q64);
+}
+
+/**
+ * Liquidity provided by an amount of coin B over [sqrtPriceLower, sqrtPriceUpper]
+ * L = amountB / (sqrt(Pu) - sqrt(Pl)), rounded down
+ */
+export function getLiquidityFromAmountB(
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  amountB: bigint
 ): bigint {
   if (sqrtPriceLower > sqrtPriceUpper) {
     [sqrtPriceLower, sqrtPriceUpper] = [sqrtPriceUpper, sqrtPriceLower];
   }
   
-  return (liquidity * (sqrtPriceUpper - sqrtPriceLower)) / Q64;
+  if (sqrtPriceLower === sqrtPriceUpper) {
+    throw new Error('Invalid sqrt price range: bounds are equal');
+  }
+  
+  return (amountB * Q64) / (sqrtPriceUpper - sqrtPriceLower);
+}
+
+/**
+ * Largest liquidity that both amounts can fund for a range at the current price
+ * Below the range only coin A counts, above it only coin B, and inside it the
+ * scarcer coin limits the liquidity.
+ */
+export function getLiquidityForAmounts(
+  sqrtPriceCurrent: bigint,
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  amountA: bigint,
+  amountB: bigint
+): bigint {
+  if (sqrtPriceCurrent <= sqrtPriceLower) {
+    return getLiquidityFromAmountA(sqrtPriceLower, sqrtPriceUpper, amountA);
+  }
+  if (sqrtPriceCurrent >= sqrtPriceUpper) {
+    return getLiquidityFromAmountB(sqrtPriceLower, sqrtPriceUpper, amountB);
+  }
+  
+  const liquidityA = getLiquidityFromAmountA(sqrtPriceCurrent, sqrtPriceUpper, amountA);
+  const liquidityB = getLiquidityFromAmountB(sqrtPriceLower, sqrtPriceCurrent, amountB);
+  return liquidityA < liquidityB ? liquidityA : liquidityB;
+}
+
+/**
+ * Coin amounts held by liquidity in a range at the current price
+ * Rounded down by default, which is what removing the liquidity pays out;
+ * with roundUp, what depositing it costs.
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceCurrent: bigint,
+  sqrtPriceLower: bigint,
+  sqrtPriceUpper: bigint,
+  liquidity: bigint,
+  roundUp: boolean = false
+): { amountA: bigint; amountB: bigint } {
+  if (sqrtPriceCurrent <= sqrtPriceLower) {
+    return {
+      amountA: getAmountAFromLiquidity(sqrtPriceLower, sqrtPriceUpper, liquidity, roundUp),
+      amountB: BigInt(0),
+    };
+  }
+  if (sqrtPriceCurrent >= sqrtPriceUpper) {
+    return {
+      amountA: BigInt(0),
+      amountB: getAmountBFromLiquidity(sqrtPriceLower, sqrtPriceUpper, liquidity, roundUp),
+    };
+  }
+  
+  return {
+    amountA: getAmountAFromLiquidity(sqrtPriceCurrent, sqrtPriceUpper, liquidity, roundUp),
+    amountB: getAmountBFromLiquidity(sqrtPriceLower, sqrtPriceCurrent, liquidity, roundUp),
+  };
+}
+
+/**
+ * Fee growth per unit of liquidity (Q64.64) from a fee paid to the active
+ * liquidity, as a Cetus swap step adds it to fee_growth_global
+ */
+export function getFeeGrowthDelta(feeAmount: bigint, liquidity: bigint): bigint {
+  if (liquidity === BigInt(0)) {
+    return BigInt(0);
+  }
+  return (feeAmount << BigInt(64)) / liquidity;
+}
+
+/**
+ * Fee growth inside a range from the pool's global growth and the growth
+ * recorded outside its two ticks
+ * Growth counters are u128 values that wrap, so differences are taken
+ * modulo 2^128.
+ */
+export function getFeeGrowthInside(
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobal: bigint,
+  feeGrowthOutsideLower: bigint,
+  feeGrowthOutsideUpper: bigint
+): bigint {
+  const below = currentTick >= tickLower
+    ? feeGrowthOutsideLower
+    : wrappingSub(feeGrowthGlobal, feeGrowthOutsideLower);
+  const above = currentTick < tickUpper
+    ? feeGrowthOutsideUpper
+    : wrappingSub(feeGrowthGlobal, feeGrowthOutsideUpper);
+  return wrappingSub(wrappingSub(feeGrowthGlobal, below), above);
+}
+
+/**
+ * Fees a position has earned since its fee growth checkpoint, rounded down
+ */
+export function getFeesFromGrowth(
+  liquidity: bigint,
+  feeGrowthInside: bigint,
+  feeGrowthInsideLast: bigint
+): bigint {
+  return (wrappingSub(feeGrowthInside, feeGrowthInsideLast) * liquidity) >> BigInt(64);
+}
+
+function wrappingSub(a: bigint, b: bigint): bigint {
+  return ((a - b) % U128 + U128) % U128;
 }
 
 export function alignTickToSpacing(tick: number, tickSpacing: number): number {
@@ -0,0 +1,92 @@
+import { BalanceChange, GasCostSummary, SuiEvent, SuiObjectChange } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+
+/**
+ * Finds the position NFT created by a transaction
+ *
+ * Cetus position objects have the type `<clmm package>::position::Position`.
+ * A rebalance PTB creates exactly one of them when it opens the new position.
+ *
+ * @param objectChanges Object changes from the transaction response
+ * @returns The new position object ID, or null if none was created
+ */
+export function findCreatedPositionId(
+  objectChanges: SuiObjectChange[] | null | undefined
+): string | null {
+  if (!objectChanges) {
+    return null;
+  }
+  
+  for (const change of objectChanges) {
+    if (change.type === 'created' && change.objectType.endsWith('::position::Position')) {
+      return change.objectId;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Finds the first event whose type ends with the given module::struct suffix
+ * (e.g. `::pool::OpenPositionEvent`), ignoring the package address
+ */
+export function findEvent(
+  events: SuiEvent[] | null | undefined,
+  typeSuffix: string
+): SuiEvent | null {
+  return events?.find((event) => event.type.endsWith(typeSuffix)) ?? null;
+}
+
+/**
+ * Decodes a Move `i32::I32` value, which is serialized as `{ bits: u32 }`
+ */
+export function decodeI32(value: unknown): number {
+  const bits = typeof value === 'object' && value !== null
+    ? (value as { bits: number | string }).bits
+    : (value as number | string);
+  return Number(BigInt.asIntN(32, BigInt(bits)));
+}
+
+/**
+ * Net gas charged by a transaction in MIST
+ */
+export function getTotalGasCost(gasUsed: GasCostSummary): bigint {
+  return (
+    BigInt(gasUsed.computationCost) +
+    BigInt(gasUsed.storageCost) -
+    BigInt(gasUsed.storageRebate)
+  );
+}
+
+/**
+ * Sums the balance changes owned by an address, per coin type
+ *
+ * Coin types are normalized with normalizeStructTag, so look results up with
+ * a normalized key (see getBalanceChange).
+ */
+export function getOwnerBalanceChanges(
+  balanceChanges: BalanceChange[] | null | undefined,
+  owner: string
+): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  
+  for (const change of balanceChanges ?? []) {
+    if (
+      typeof change.owner !== 'object' ||
+      !('AddressOwner' in change.owner) ||
+      change.owner.AddressOwner !== owner
+    ) {
+      continue;
+    }
+    
+    const coinType = normalizeStructTag(change.coinType);
+    const current = totals.get(coinType) ?? BigInt(0);
+    totals.set(coinType, current + BigInt(change.amount));
+  }
+  
+  return totals;
+}
+
+export function getBalanceChange(totals: Map<string, bigint>, coinType: string): bigint {
+  return totals.get(normalizeStructTag(coinType)) ?? BigInt(0);
+}
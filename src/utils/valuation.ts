@@ -0,0 +1,94 @@
+import { CoinMetadata, Pool, Position, PositionValuation, TickRange } from '../types';
+import { getAmountsForLiquidity, sqrtPriceToPrice, tickToPrice, tickToSqrtPrice } from './tickMath';
+
+/**
+ * Raw coin amount in whole coins
+ * Uses floating point: for display and valuation only.
+ */
+export function toHumanAmount(amount: bigint | number, decimals: number): number {
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+/**
+ * Raw coin amount as an exact decimal string with the coin symbol, e.g.
+ * "12.5 SUI"
+ */
+export function formatCoinAmount(amount: bigint, coin: CoinMetadata): string {
+  const sign = amount < BigInt(0) ? '-' : '';
+  const digits = (amount < BigInt(0) ? -amount : amount).toString().padStart(coin.decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - coin.decimals);
+  const fraction = digits.slice(digits.length - coin.decimals).replace(/0+$/, '');
+  
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''} ${coin.symbol}`;
+}
+
+/**
+ * Price or value rounded to 6 significant digits
+ */
+export function formatNumber(value: number): string {
+  return Number(value.toPrecision(6)).toString();
+}
+
+/**
+ * Bounds of a tick range as prices of coin A in coin B, e.g.
+ * "3.1 - 3.8 USDC per SUI"
+ */
+export function formatRangePrices(range: TickRange, coinA: CoinMetadata, coinB: CoinMetadata): string {
+  const lower = tickToPrice(range.tickLower, coinA.decimals, coinB.decimals);
+  const upper = tickToPrice(range.tickUpper, coinA.decimals, coinB.decimals);
+  return `${formatNumber(lower)} - ${formatNumber(upper)} ${coinB.symbol} per ${coinA.symbol}`;
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Expresses a position in whole coins and prices of coin A in coin B
+ *
+ * The value is in coin B at the current pool price. Given the USD price of
+ * either coin the value is also in USD, using the pool price to convert when
+ * only coin A's USD price is known.
+ */
+export function valuePosition(
+  pool: Pool,
+  position: Position,
+  coinA: CoinMetadata,
+  coinB: CoinMetadata,
+  usdPriceA: number | null,
+  usdPriceB: number | null
+): PositionValuation {
+  const sqrtPrice = BigInt(pool.currentSqrtPrice);
+  const amounts = getAmountsForLiquidity(
+    sqrtPrice,
+    tickToSqrtPrice(position.tickLower),
+    tickToSqrtPrice(position.tickUpper),
+    BigInt(position.liquidity)
+  );
+  
+  const price = sqrtPriceToPrice(sqrtPrice, coinA.decimals, coinB.decimals);
+  const amountA = toHumanAmount(amounts.amountA, coinA.decimals);
+  const amountB = toHumanAmount(amounts.amountB, coinB.decimals);
+  const value = amountA * price + amountB;
+  
+  let valueUsd: number | null = null;
+  if (usdPriceB !== null) {
+    valueUsd = value * usdPriceB;
+  } else if (usdPriceA !== null && price > 0) {
+    valueUsd = (value / price) * usdPriceA;
+  }
+  
+  return {
+    coinA,
+    coinB,
+    price,
+    rangeLowerPrice: tickToPrice(position.tickLower, coinA.decimals, coinB.decimals),
+    rangeUpperPrice: tickToPrice(position.tickUpper, coinA.decimals, coinB.decimals),
+    amountA,
+    amountB,
+    value,
+    usdPriceA,
+    usdPriceB,
+    valueUsd,
+  };
+}
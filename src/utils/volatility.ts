@@ -0,0 +1,56 @@
+import { TickSample } from '../services/tickHistory';
+
+// Each tick is a 0.01% price step: price = 1.0001^tick
+const LOG_TICK_BASE = Math.log(1.0001);
+
+/**
+ * Realized variance of the log price per millisecond
+ *
+ * Log returns between consecutive samples are (tick2 - tick1) * ln(1.0001).
+ * Their squared sum divided by the elapsed time gives a variance rate that
+ * does not depend on how regularly the samples were taken.
+ *
+ * @param samples Tick samples in chronological order
+ * @returns Variance per millisecond, or null with fewer than 2 usable samples
+ */
+export function calculateVarianceRate(samples: TickSample[]): number | null {
+  let sumSquaredReturns = 0;
+  let elapsedMs = 0;
+  
+  for (let i = 1; i < samples.length; i++) {
+    const dt = samples[i].timestamp - samples[i - 1].timestamp;
+    if (dt <= 0) {
+      continue;
+    }
+    
+    const logReturn = (samples[i].tick - samples[i - 1].tick) * LOG_TICK_BASE;
+    sumSquaredReturns += logReturn * logReturn;
+    elapsedMs += dt;
+  }
+  
+  if (elapsedMs === 0) {
+    return null;
+  }
+  
+  return sumSquaredReturns / elapsedMs;
+}
+
+/**
+ * Expected one-sigma price move over a horizon, in percent
+ *
+ * @param samples Tick samples in chronological order
+ * @param horizonMs Time horizon to project the realized volatility over
+ * @returns Expected move in percent, or null if there is not enough history
+ */
+export function calculateExpectedMovePercent(
+  samples: TickSample[],
+  horizonMs: number
+): number | null {
+  const varianceRate = calculateVarianceRate(samples);
+  if (varianceRate === null) {
+    return null;
+  }
+  
+  const sigma = Math.sqrt(varianceRate * horizonMs);
+  return (Math.exp(sigma) - 1) * 100;
+}
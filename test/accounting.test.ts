@@ -0,0 +1,256 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { COIN_A, COIN_B, SUI, WALLET, createConfig, createTestPool, tempPath } from './helpers';
+import {
+  AccountingBaseline,
+  calculatePositionAccounting,
+  extractTransactionFlows,
+  gasCostInCoinB,
+} from '../src/utils/accounting';
+import { AccountingLedger, LedgerEntry } from '../src/services/accountingLedger';
+import { PositionManager } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { TickHistory } from '../src/services/tickHistory';
+import { NotificationService } from '../src/notifications';
+import { PriceService } from '../src/pricing';
+import { Pool, TransactionFlows } from '../src/types';
+
+const Q64 = BigInt(2) ** BigInt(64);
+const POOL_ID = `0x${'a1'.repeat(32)}`;
+const OTHER = normalizeStructTag(`0x${'0e'.repeat(32)}::other::OTHER`);
+
+function createPool(coinTypeB: string, sqrtPrice: bigint): Pool {
+  return {
+    id: POOL_ID,
+    coinTypeA: COIN_A,
+    coinTypeB,
+    currentSqrtPrice: sqrtPrice.toString(),
+    currentTick: 0,
+    tickSpacing: 60,
+    feeRate: 2500,
+    liquidity: '0',
+    rewarderCoinTypes: [],
+  };
+}
+
+function assertClose(actual: number, expected: number, label: string): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${label}: ${actual} != ${expected}`);
+}
+
+describe('calculatePositionAccounting', () => {
+  it('values the position lifetime against holding the baseline', () => {
+    // Coin B is SUI, so gas is valued in coin B; the price went from 1 to 4
+    const pool = createPool(SUI, BigInt(2) * Q64);
+    const baseline: AccountingBaseline = {
+      at: 1000,
+      positionId: '0x1',
+      amountA: '1000',
+      amountB: '1000',
+      pendingFeeA: '10',
+      pendingFeeB: '0',
+      sqrtPrice: Q64.toString(),
+    };
+    const flows: TransactionFlows[] = [{
+      removedA: '1000',
+      removedB: '1000',
+      feesA: '20',
+      feesB: '30',
+      addedA: '500',
+      addedB: '2500',
+      rewardsA: '0',
+      rewardsB: '5',
+      walletA: '2',
+      walletB: '-1',
+      otherTokens: [{ coinType: OTHER, amount: '9' }],
+      swapCost: 3,
+      gasCostMist: '7',
+    }];
+    
+    const accounting = calculatePositionAccounting(pool, baseline, flows, {
+      amountA: BigInt(500),
+      amountB: BigInt(2600),
+      pendingFeeA: BigInt(4),
+      pendingFeeB: BigInt(6),
+    });
+    
+    const expected = {
+      depositedValue: 2010,
+      hodlValue: 5040,
+      positionValue: 4600,
+      pendingFees: 22,
+      withdrawnValue: 7,
+      // Collected 110 and pending 22, less the 40 pending at the baseline
+      feeIncome: 92,
+      rewardIncome: 5,
+      gasCost: 7,
+      swapCost: 3,
+      realizedPnl: 65,
+      unrealizedPnl: 2547,
+      totalPnl: 2612,
+      pnlVsHodl: -418,
+      impermanentLoss: -505,
+      impermanentLossPercent: (-505 / 5040) * 100,
+    };
+    for (const [key, value] of Object.entries(expected)) {
+      assertClose(accounting[key as keyof typeof expected], value, key);
+    }
+    assert.equal(accounting.since, 1000);
+    assert.equal(accounting.gasUnvalued, false);
+    assert.deepEqual(accounting.unvaluedTokens, [{ coinType: OTHER, amount: '9' }]);
+  });
+  
+  it('values gas in coin B only when SUI can be priced', () => {
+    const price = 4;
+    assert.equal(gasCostInCoinB(createPool(SUI, Q64), BigInt(7), price), 7);
+    assert.equal(gasCostInCoinB({ ...createPool(COIN_B, Q64), coinTypeA: SUI }, BigInt(7), price), 28);
+    assert.equal(gasCostInCoinB(createPool(COIN_B, Q64), BigInt(7), price), null);
+    assert.equal(gasCostInCoinB(createPool(COIN_B, Q64), BigInt(2_000_000_000), price, 1.5), 3);
+  });
+});
+
+describe('extractTransactionFlows', () => {
+  it('splits a transaction into liquidity, fee, swap, reward, wallet and gas flows', () => {
+    const pool = createPool(COIN_B, Q64);
+    const event = (type: string, parsedJson: Record<string, unknown>) => ({ type: `0xc1::pool::${type}`, parsedJson });
+    const response = {
+      events: [
+        event('RemoveLiquidityEvent', { amount_a: '1000', amount_b: '2000' }),
+        event('CollectFeeEvent', { amount_a: '10', amount_b: '20' }),
+        event('SwapEvent', {
+          atob: true,
+          pool: POOL_ID,
+          amount_in: '490',
+          amount_out: '480',
+          fee_amount: '10',
+          before_sqrt_price: Q64.toString(),
+        }),
+        // A reward swap through another pool is not a cost of this position
+        event('SwapEvent', {
+          atob: false,
+          pool: `0x${'a2'.repeat(32)}`,
+          amount_in: '100',
+          amount_out: '1',
+          fee_amount: '0',
+          before_sqrt_price: Q64.toString(),
+        }),
+        event('AddLiquidityEvent', { amount_a: '500', amount_b: '2490' }),
+      ],
+      balanceChanges: [
+        { owner: { AddressOwner: WALLET }, coinType: COIN_A, amount: '15' },
+        { owner: { AddressOwner: WALLET }, coinType: COIN_B, amount: '10' },
+        { owner: { AddressOwner: WALLET }, coinType: OTHER, amount: '9' },
+        { owner: { AddressOwner: WALLET }, coinType: SUI, amount: '-1300' },
+        { owner: { AddressOwner: `0x${'dd'.repeat(32)}` }, coinType: COIN_A, amount: '999' },
+      ],
+      effects: {
+        gasUsed: { computationCost: '1000', storageCost: '500', storageRebate: '200', nonRefundableStorageFee: '0' },
+      },
+    } as unknown as SuiTransactionBlockResponse;
+    
+    assert.deepEqual(extractTransactionFlows(response, pool, WALLET), {
+      removedA: '1000',
+      removedB: '2000',
+      feesA: '10',
+      feesB: '20',
+      addedA: '500',
+      addedB: '2490',
+      // The wallet got 15 A more than the events account for
+      rewardsA: '5',
+      rewardsB: '0',
+      walletA: '15',
+      walletB: '10',
+      otherTokens: [{ coinType: OTHER, amount: '9' }],
+      swapCost: 20,
+      gasCostMist: '1300',
+    });
+  });
+});
+
+describe('AccountingLedger', () => {
+  const baseline = (amountA: string): AccountingBaseline => ({
+    at: 1000,
+    positionId: '0x1',
+    amountA,
+    amountB: '0',
+    pendingFeeA: '0',
+    pendingFeeB: '0',
+    sqrtPrice: Q64.toString(),
+  });
+  const entry = (at: number, digest: string): LedgerEntry => ({
+    at,
+    kind: 'rebalance',
+    digest,
+    positionId: '0x2',
+    flows: {} as TransactionFlows,
+  });
+  
+  it('keeps the first baseline and persists the entries', () => {
+    const file = tempPath('ledger.json');
+    const ledger = new AccountingLedger(file);
+    
+    ledger.ensureBaseline('main', baseline('100'));
+    ledger.ensureBaseline('main', baseline('999'));
+    ledger.record('main', entry(2000, 'digest-1'));
+    ledger.record('main', entry(3000, 'digest-2'));
+    ledger.record('unknown', entry(3000, 'digest-3'));
+    
+    const reloaded = new AccountingLedger(file);
+    assert.equal(reloaded.get('main')?.baseline.amountA, '100');
+    assert.deepEqual(reloaded.getEntries('main').map((recorded) => recorded.digest), ['digest-1', 'digest-2']);
+    assert.deepEqual(reloaded.getEntries('main', 2500).map((recorded) => recorded.digest), ['digest-2']);
+    assert.equal(reloaded.get('unknown'), null);
+  });
+  
+  it('refuses to start over from an unreadable file', () => {
+    const file = tempPath('ledger.json');
+    fs.writeFileSync(file, '{"positions": ');
+    assert.throws(() => new AccountingLedger(file), /Failed to read accounting file/);
+  });
+});
+
+describe('position accounting', () => {
+  it('records a baseline, then the flows of each rebalance, and reports PnL', async () => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const entry = { ...createConfig().positions[0], name: 'main', poolId: test.poolId, positionId: test.positionId };
+    const ledger = new AccountingLedger(tempPath('ledger.json'));
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry] }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      ledger,
+      new TickHistory(10),
+      new NotificationService([]),
+      new PriceService([])
+    );
+    
+    const before = await manager.checkPosition();
+    const result = await manager.rebalanceNow({ force: true });
+    const after = await manager.checkPosition();
+    
+    const history = manager.getAccountingHistory();
+    assert.equal(history?.baseline.positionId, test.positionId);
+    assert.deepEqual(history?.entries.map((recorded) => [recorded.kind, recorded.digest, recorded.positionId]), [
+      ['rebalance', result?.digest, result?.newPositionId],
+    ]);
+    assert.deepEqual(history?.entries[0].flows, result?.flows);
+    
+    // Nothing has happened at the baseline; afterwards the swap cost shows
+    assert.equal(before.accounting?.totalPnl, 0);
+    assert.ok(after.accounting && after.accounting.swapCost > 0);
+    assert.equal(after.accounting.swapCost, result?.flows?.swapCost);
+    // Neither pool coin is SUI and no SUI price is configured
+    assert.equal(after.accounting.gasUnvalued, true);
+    assert.ok(after.accounting.totalPnl < 0);
+  });
+});
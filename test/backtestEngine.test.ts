@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COIN_A, SUI, createConfig } from './helpers';
+import { BacktestParams, liquidityForValue, runBacktest } from '../src/backtest/backtestEngine';
+import { MarketSample } from '../src/backtest/marketData';
+import { Pool, StrategyConfig } from '../src/types';
+import { calculateTickRange, getAmountsForLiquidity, sqrtPriceX64ToPrice, tickToSqrtPrice } from '../src/utils/tickMath';
+
+const HOUR = 3_600_000;
+const POOL_LIQUIDITY = BigInt(10_000_000_000_000);
+
+const PARAMS: BacktestParams = {
+  capital: 1_000_000_000_000,
+  feeRate: 2500,
+  tickSpacing: 60,
+  gasPrice: 1000,
+  gasUnits: 1_000_000,
+  coinTypeA: COIN_A,
+  coinTypeB: SUI,
+  suiPrice: null,
+};
+
+const CONFIG: StrategyConfig = {
+  ...createConfig(),
+  rangeStrategy: 'fixed',
+  rangeWidthPercent: 10,
+  rebalanceThresholdPercent: 50,
+};
+
+function sample(hour: number, tick: number, volume: number = 0): MarketSample {
+  return { timestamp: hour * HOUR, tick, liquidity: POOL_LIQUIDITY, volumeA: volume, volumeB: volume };
+}
+
+function poolAt(tick: number): Pool {
+  return {
+    id: 'pool',
+    coinTypeA: COIN_A,
+    coinTypeB: SUI,
+    currentSqrtPrice: tickToSqrtPrice(tick).toString(),
+    currentTick: tick,
+    tickSpacing: 60,
+    feeRate: 2500,
+    liquidity: POOL_LIQUIDITY.toString(),
+    rewarderCoinTypes: [],
+  };
+}
+
+describe('runBacktest', () => {
+  it('rejects series too short or out of time order to replay', () => {
+    assert.throws(() => runBacktest([], CONFIG, PARAMS), /at least 2 samples, got 0/);
+    assert.throws(() => runBacktest([sample(0, 0)], CONFIG, PARAMS), /at least 2 samples, got 1/);
+    assert.throws(() => runBacktest([sample(0, 0), sample(2, 0), sample(1, 0)], CONFIG, PARAMS), /sample 2/);
+  });
+  
+  it('earns its share of the pool fee on the volume while in range', () => {
+    const range = calculateTickRange(0, CONFIG.rangeWidthPercent, 60);
+    // Out of range by less than the threshold: no fees and no rebalance
+    const outside = range.tickUpper + 60;
+    const result = runBacktest(
+      [sample(0, 0), sample(1, 0, 1e9), sample(2, 0, 1e9), sample(3, outside, 1e9), sample(4, 0, 1e9)],
+      CONFIG,
+      PARAMS
+    );
+    
+    const positionLiquidity = Number(liquidityForValue(poolAt(0), range, PARAMS.capital));
+    const share = positionLiquidity / (Number(POOL_LIQUIDITY) + positionLiquidity);
+    // Three in-range intervals of volume in each coin, at a price of 1
+    const expected = 3 * 2e9 * 0.0025 * share;
+    
+    assert.equal(result.rebalances, 0);
+    assert.equal(result.timeInRangePercent, 75);
+    assert.ok(Math.abs(result.feeIncome - expected) <= 2, `${result.feeIncome} != ${expected}`);
+    assert.equal(result.swapCost, 0);
+    assert.equal(result.gasCost, 0);
+    assert.ok(Math.abs(result.depositedValue - PARAMS.capital) < PARAMS.capital * 1e-9);
+  });
+  
+  it('pays the swap and gas of a rebalance once the price leaves the range', () => {
+    const result = runBacktest(
+      [sample(0, 0), sample(1, 3000, 1e9), sample(2, 3000, 1e9)],
+      CONFIG,
+      PARAMS
+    );
+    
+    assert.equal(result.rebalances, 1);
+    // The position left the range, all in SUI, and swapped part of it for coin A
+    assert.ok(result.swapCost > 0, `swap cost ${result.swapCost}`);
+    assert.equal(result.gasCost, PARAMS.gasPrice * PARAMS.gasUnits);
+    assert.equal(result.gasUnvalued, false);
+    // Fees resume in the new range only
+    assert.equal(result.timeInRangePercent, 50);
+    assert.ok(result.feeIncome > 0);
+    assert.ok(Math.abs(result.finalValue - (result.depositedValue + result.netReturn)) < 1e-6);
+  });
+});
+
+describe('liquidityForValue', () => {
+  it('sizes liquidity worth the given value at the pool price', () => {
+    for (const tick of [-2000, 0, 5000]) {
+      const pool = poolAt(tick);
+      const range = calculateTickRange(tick, 20, 60);
+      const liquidity = liquidityForValue(pool, range, 5e11);
+      const amounts = getAmountsForLiquidity(
+        tickToSqrtPrice(tick),
+        tickToSqrtPrice(range.tickLower),
+        tickToSqrtPrice(range.tickUpper),
+        liquidity
+      );
+      const value = Number(amounts.amountA) * sqrtPriceX64ToPrice(tickToSqrtPrice(tick)) + Number(amounts.amountB);
+      assert.ok(Math.abs(value - 5e11) < 5e11 * 1e-9, `tick ${tick}: ${value}`);
+    }
+  });
+  
+  it('cannot size an empty range', () => {
+    assert.throws(() => liquidityForValue(poolAt(0), { tickLower: 60, tickUpper: 60 }, 1e9), /Cannot size/);
+  });
+});
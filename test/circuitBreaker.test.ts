@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import './env';
+import { CircuitBreaker } from '../src/services/circuitBreaker';
+import { NotificationService } from '../src/notifications';
+
+function createBreaker(maxFailures: number, resetMs: number): { breaker: CircuitBreaker; events: string[] } {
+  const events: string[] = [];
+  const notifier = new NotificationService([{
+    name: 'test',
+    events: ['circuit_breaker_open'],
+    send: async (notification) => {
+      events.push(notification.event);
+    },
+  }]);
+  const breaker = new CircuitBreaker(
+    { maxFailures, resetMs },
+    notifier,
+    () => events.push('pause'),
+    () => events.push('resume')
+  );
+  return { breaker, events };
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures of one position', () => {
+    const { breaker, events } = createBreaker(3, 0);
+    breaker.recordFailure('a', new Error('fetch failed'));
+    breaker.recordFailure('a', new Error('fetch failed'));
+    breaker.recordFailure('b', new Error('fetch failed'));
+    assert.equal(breaker.getState(), 'closed');
+    
+    breaker.recordFailure('a', new Error('fetch failed'));
+    assert.equal(breaker.getState(), 'open');
+    assert.deepEqual(events, ['circuit_breaker_open', 'pause']);
+  });
+  
+  it('starts counting again after a success', () => {
+    const { breaker } = createBreaker(2, 0);
+    breaker.recordFailure('a', new Error('fetch failed'));
+    breaker.recordSuccess('a');
+    breaker.recordFailure('a', new Error('fetch failed'));
+    assert.equal(breaker.getState(), 'closed');
+  });
+  
+  it('goes half-open after the reset delay and closes on a success', async () => {
+    const { breaker, events } = createBreaker(1, 20);
+    breaker.recordFailure('a', new Error('fetch failed'));
+    await wait(40);
+    assert.equal(breaker.getState(), 'half_open');
+    assert.equal(events.at(-1), 'resume');
+    
+    breaker.recordSuccess('a');
+    assert.equal(breaker.getState(), 'closed');
+  });
+  
+  it('opens again on the first failure while half-open', async () => {
+    const { breaker, events } = createBreaker(3, 20);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('a', new Error('fetch failed'));
+    }
+    await wait(40);
+    breaker.recordFailure('b', new Error('fetch failed'));
+    assert.equal(breaker.getState(), 'open');
+    assert.equal(events.filter((event) => event === 'pause').length, 2);
+    breaker.stop();
+  });
+  
+  it('is closed by a reset and does nothing when disabled', () => {
+    const { breaker } = createBreaker(1, 0);
+    breaker.recordFailure('a', new Error('fetch failed'));
+    breaker.reset();
+    assert.equal(breaker.getState(), 'closed');
+    
+    const disabled = createBreaker(0, 0);
+    disabled.breaker.recordFailure('a', new Error('fetch failed'));
+    assert.equal(disabled.breaker.getState(), 'closed');
+    assert.deepEqual(disabled.events, []);
+  });
+});
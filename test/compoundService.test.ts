@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COIN_A, COIN_B, createConfig, createTestPool } from './helpers';
+import { CompoundService } from '../src/services/compoundService';
+
+describe('CompoundService', () => {
+  it('reinvests nearly all of the collected fees into the position', async () => {
+    const { sim, poolId, positionId } = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(5_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(5_000_000_000_000),
+    });
+    // Other traders pay fees to the position
+    for (let i = 0; i < 5; i++) {
+      sim.swap(poolId, true, BigInt(20_000_000_000));
+      sim.swap(poolId, false, BigInt(18_000_000_000));
+    }
+    
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    const pending = await sim.getPendingCollection(pool, positionId);
+    assert.ok(pending.feeA > BigInt(0) && pending.feeB > BigInt(0));
+    
+    const service = new CompoundService(sim, sim, createConfig({ compoundIntervalMs: 1 }));
+    const result = await service.compound(pool, position, null);
+    
+    assert.ok(result?.added && result.flows, 'compound should execute');
+    assert.equal(result.collected.feeA, pending.feeA.toString());
+    assert.equal(result.collected.feeB, pending.feeB.toString());
+    const after = await sim.getPosition(positionId);
+    assert.equal(BigInt(after.liquidity) - BigInt(position.liquidity), BigInt(result.added.liquidity));
+    
+    // Whatever is not deposited stays in the wallet, a small fraction of each coin
+    const total = Number(pending.feeA) * Number(pool.currentSqrtPrice) ** 2 / 2 ** 128 + Number(pending.feeB);
+    const refunded = Number(sim.getBalance(COIN_A)) * Number(pool.currentSqrtPrice) ** 2 / 2 ** 128 +
+      Number(sim.getBalance(COIN_B));
+    assert.ok(refunded < total * 0.005, `refunded ${refunded} of ${total}`);
+  });
+  
+  it('does nothing before compounding is due', async () => {
+    const { sim, poolId, positionId } = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(5_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(5_000_000_000_000),
+    });
+    const service = new CompoundService(sim, sim, createConfig({ compoundIntervalMs: 60_000 }));
+    const result = await service.compound(await sim.getPool(poolId), await sim.getPosition(positionId), Date.now());
+    assert.equal(result, null);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { createConfig, tempPath } from './helpers';
+import { loadConfig, resolvePositionConfig, validateConfig } from '../src/config';
+
+describe('validateConfig', () => {
+  it('accepts the defaults, with a circuit breaker that resets on its own', () => {
+    const config = createConfig();
+    assert.ok(config.circuitBreaker.maxFailures > 0 && config.circuitBreaker.resetMs > 0);
+    assert.doesNotThrow(() => validateConfig(config));
+  });
+  
+  it('requires the control API for a circuit breaker that never resets', () => {
+    const circuitBreaker = { maxFailures: 5, resetMs: 0 };
+    assert.throws(() => validateConfig(createConfig({ circuitBreaker })), /CONTROL_API_PORT/);
+    assert.doesNotThrow(() => validateConfig(createConfig({
+      circuitBreaker,
+      controlApiPort: 8080,
+      controlApiToken: 'x'.repeat(16),
+    })));
+    assert.doesNotThrow(() => validateConfig(createConfig({ circuitBreaker: { maxFailures: 0, resetMs: 0 } })));
+  });
+  
+  it('requires swap polling to be more frequent than the heartbeat', () => {
+    const eventTrigger = { enabled: true, pollIntervalMs: 60000, tickThreshold: 10 };
+    assert.throws(() => validateConfig(createConfig({ eventTrigger, checkIntervalMs: 60000 })), /CHECK_INTERVAL_MS/);
+    assert.doesNotThrow(() => validateConfig(createConfig({ eventTrigger: { ...eventTrigger, pollIntervalMs: 15000 } })));
+  });
+});
+
+describe('portfolio config', () => {
+  const POOL = `0x${'a1'.repeat(32)}`;
+  const POSITION = `0x${'b1'.repeat(32)}`;
+  const OTHER_POSITION = `0x${'b2'.repeat(32)}`;
+  
+  function loadPortfolio(portfolio: unknown) {
+    const file = tempPath('portfolio.json');
+    fs.writeFileSync(file, JSON.stringify(portfolio));
+    process.env.PORTFOLIO_FILE = file;
+    try {
+      return loadConfig();
+    } finally {
+      delete process.env.PORTFOLIO_FILE;
+    }
+  }
+  
+  it('loads one entry per position, with the global settings as defaults', () => {
+    const config = loadPortfolio({
+      positions: [
+        { name: 'tight', poolId: POOL, positionId: POSITION, rangeWidthPercent: 2, maxSlippagePercent: 0.5 },
+        { poolId: POOL, positionId: OTHER_POSITION },
+      ],
+    });
+    
+    assert.deepEqual(config.positions.map((entry) => entry.name), ['tight', 'position-2']);
+    assert.equal(config.positions[0].rangeWidthPercent, 2);
+    assert.equal(config.positions[1].rangeWidthPercent, config.rangeWidthPercent);
+    assert.equal(config.positions[1].rebalanceThresholdPercent, config.rebalanceThresholdPercent);
+    assert.doesNotThrow(() => validateConfig(config));
+    
+    const tight = resolvePositionConfig(config, config.positions[0]);
+    assert.equal(tight.positionId, POSITION);
+    assert.equal(tight.rangeWidthPercent, 2);
+    assert.equal(tight.maxSlippagePercent, 0.5);
+    assert.deepEqual(tight.positions, [config.positions[0]]);
+  });
+  
+  it('rejects incomplete and duplicate entries', () => {
+    assert.throws(() => loadPortfolio({ positions: [] }), /non-empty "positions" array/);
+    assert.throws(() => loadPortfolio([{ poolId: POOL }]), /entry 0 is missing poolId or positionId/);
+    assert.throws(() => loadPortfolio([{ poolId: 'pool', positionId: POSITION }]), /Invalid pool ID for "position-1"/);
+    
+    const duplicate = loadPortfolio([
+      { name: 'a', poolId: POOL, positionId: POSITION },
+      { name: 'b', poolId: POOL, positionId: POSITION },
+    ]);
+    assert.throws(() => validateConfig(duplicate), /configured more than once/);
+    const invalid = loadPortfolio([{ poolId: POOL, positionId: POSITION, rangeWidthPercent: 0 }]);
+    assert.throws(() => validateConfig(invalid), /RANGE_WIDTH_PERCENT for "position-1"/);
+  });
+});
+
+describe('notification config', () => {
+  const ENV = ['NOTIFY_EVENTS', 'NOTIFY_WEBHOOK_URL', 'NOTIFY_SLACK_WEBHOOK_URL', 'NOTIFY_SLACK_EVENTS'];
+  
+  function loadWith(env: Record<string, string>) {
+    Object.assign(process.env, env);
+    try {
+      return loadConfig().notifications;
+    } finally {
+      ENV.forEach((name) => delete process.env[name]);
+    }
+  }
+  
+  it('subscribes each sink to the global events unless it has its own', () => {
+    const notifications = loadWith({
+      NOTIFY_EVENTS: 'rebalance_failed, bot_stalled',
+      NOTIFY_WEBHOOK_URL: 'https://hooks.example.com/clmm',
+      NOTIFY_SLACK_WEBHOOK_URL: 'https://hooks.slack.com/services/x',
+      NOTIFY_SLACK_EVENTS: 'rebalance_succeeded,out_of_range',
+    });
+    
+    assert.deepEqual(notifications.events, ['rebalance_failed', 'bot_stalled']);
+    assert.deepEqual(notifications.webhook?.events, ['rebalance_failed', 'bot_stalled']);
+    assert.deepEqual(notifications.slack?.events, ['rebalance_succeeded', 'out_of_range']);
+    assert.equal(notifications.telegram, undefined);
+  });
+  
+  it('rejects unknown events', () => {
+    assert.throws(() => loadWith({ NOTIFY_EVENTS: 'rebalance_failed,price_spike' }), /Unknown notification event "price_spike"/);
+  });
+});
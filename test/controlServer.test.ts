@@ -0,0 +1,185 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import http from 'http';
+import { createConfig } from './helpers';
+import { ControlServer } from '../src/services/controlServer';
+import { RebalanceOptions, RebalanceResult } from '../src/types';
+
+const PORT = 39465;
+const TOKEN = 'control-api-test-token';
+
+/**
+ * The parts of RebalancingBot the control API drives, recording every call
+ */
+class FakeBot {
+  paused = false;
+  names = ['main'];
+  rebalances: Array<{ name: string | undefined; options: RebalanceOptions }> = [];
+  accountingQueries: Array<{ name: string | undefined; since: number }> = [];
+  rebalanceError: Error | null = null;
+  
+  getStatus() {
+    return { running: true, paused: this.paused, positions: this.names.map((name) => ({ name })) };
+  }
+  
+  pause(): boolean {
+    const changed = !this.paused;
+    this.paused = true;
+    return changed;
+  }
+  
+  resume(): boolean {
+    const changed = this.paused;
+    this.paused = false;
+    return changed;
+  }
+  
+  getPositionNames(): string[] {
+    return this.names;
+  }
+  
+  getAccounting(name: string | undefined, since: number) {
+    this.accountingQueries.push({ name, since });
+    return [];
+  }
+  
+  async rebalanceNow(name: string | undefined, options: RebalanceOptions): Promise<RebalanceResult | null> {
+    this.rebalances.push({ name, options });
+    if (this.rebalanceError) {
+      throw this.rebalanceError;
+    }
+    return options.dryRun ? null : ({ digest: 'digest-1', newPositionId: '0x1' } as RebalanceResult);
+  }
+}
+
+async function request(
+  method: string,
+  path: string,
+  body?: string,
+  token: string = TOKEN
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`http://127.0.0.1:${PORT}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body,
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+describe('ControlServer', () => {
+  let bot: FakeBot;
+  let server: ControlServer;
+  
+  before(async () => {
+    bot = new FakeBot();
+    server = new ControlServer(
+      createConfig({ controlApiPort: PORT, controlApiHost: '127.0.0.1', controlApiToken: TOKEN }),
+      bot as unknown as ConstructorParameters<typeof ControlServer>[1]
+    );
+    server.start();
+    await once((server as unknown as { server: http.Server }).server, 'listening');
+  });
+  
+  after(() => {
+    server.stop();
+  });
+  
+  it('rejects requests without the bearer token', async () => {
+    const missing = await fetch(`http://127.0.0.1:${PORT}/status`);
+    assert.equal(missing.status, 401);
+    await missing.text();
+    
+    const wrong = await request('GET', '/status', undefined, `${TOKEN}x`);
+    assert.equal(wrong.status, 401);
+    assert.deepEqual(wrong.body, { error: 'Unauthorized' });
+  });
+  
+  it('reports the bot status', async () => {
+    const response = await request('GET', '/status');
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { running: true, paused: false, positions: [{ name: 'main' }] });
+  });
+  
+  it('pauses and resumes the periodic checks', async () => {
+    assert.deepEqual((await request('POST', '/pause')).body, { changed: true, paused: true });
+    assert.deepEqual((await request('POST', '/pause')).body, { changed: false, paused: true });
+    assert.deepEqual((await request('POST', '/resume')).body, { changed: true, paused: false });
+  });
+  
+  it('rebalances with a custom range and flags', async () => {
+    bot.rebalances = [];
+    const response = await request(
+      'POST',
+      '/rebalance',
+      JSON.stringify({ position: 'main', tickLower: -120, tickUpper: 240, force: true })
+    );
+    
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { skipped: false, result: { digest: 'digest-1', newPositionId: '0x1' } });
+    assert.deepEqual(bot.rebalances, [
+      { name: 'main', options: { dryRun: undefined, force: true, range: { tickLower: -120, tickUpper: 240 } } },
+    ]);
+    
+    const dryRun = await request('POST', '/rebalance', JSON.stringify({ dryRun: true }));
+    assert.deepEqual(dryRun.body, { skipped: true, result: null });
+    assert.deepEqual(bot.rebalances[1], { name: undefined, options: { dryRun: true, force: undefined } });
+  });
+  
+  it('rejects invalid rebalance requests before reaching the bot', async () => {
+    bot.rebalances = [];
+    const cases: Array<[string, number, RegExp]> = [
+      ['{"tickLower": 240, "tickUpper": -120}', 400, /below tickUpper/],
+      ['{"tickLower": 60}', 400, /both be integers/],
+      ['{"dryRun": "yes"}', 400, /dryRun must be a boolean/],
+      ['{"position": "other"}', 404, /Unknown position "other"/],
+      ['[1, 2]', 400, /JSON object/],
+      ['{"position": ', 400, /not valid JSON/],
+    ];
+    
+    for (const [body, status, error] of cases) {
+      const response = await request('POST', '/rebalance', body);
+      assert.equal(response.status, status, body);
+      assert.match(response.body.error as string, error, body);
+    }
+    assert.deepEqual(bot.rebalances, []);
+  });
+  
+  it('requires a position name when several are managed', async () => {
+    bot.names = ['main', 'hedge'];
+    try {
+      const response = await request('POST', '/rebalance', '{}');
+      assert.equal(response.status, 400);
+      assert.match(response.body.error as string, /position is required/);
+    } finally {
+      bot.names = ['main'];
+    }
+  });
+  
+  it('reports a failed rebalance as a server error', async () => {
+    bot.rebalanceError = new Error('Pre-flight simulation failed');
+    try {
+      const response = await request('POST', '/rebalance', '{}');
+      assert.equal(response.status, 500);
+      assert.deepEqual(response.body, { error: 'Pre-flight simulation failed' });
+    } finally {
+      bot.rebalanceError = null;
+    }
+  });
+  
+  it('filters the accounting by position and time', async () => {
+    const response = await request('GET', '/accounting?position=main&since=1700000000000');
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { positions: [] });
+    assert.deepEqual(bot.accountingQueries.at(-1), { name: 'main', since: 1700000000000 });
+    
+    assert.equal((await request('GET', '/accounting?since=yesterday')).status, 400);
+    assert.equal((await request('GET', '/accounting?position=other')).status, 404);
+  });
+  
+  it('answers unknown routes with 404', async () => {
+    const response = await request('DELETE', '/status');
+    assert.equal(response.status, 404);
+    assert.deepEqual(response.body, { error: 'No route for DELETE /status' });
+  });
+});
@@ -0,0 +1,5 @@
+// Imported first by every test: the config and logger read these on load
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+process.env.POOL_ID = `0x${'aa'.repeat(32)}`;
+process.env.POSITION_ID = `0x${'bb'.repeat(32)}`;
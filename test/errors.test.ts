@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonRpcError, SuiHTTPStatusError, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import {
+  ObjectConflictError,
+  PermanentError,
+  TransientError,
+  classifyError,
+  executionFailure,
+} from '../src/utils/errors';
+
+function failedResponse(error: string): SuiTransactionBlockResponse {
+  return {
+    digest: 'FAILED',
+    effects: {
+      status: { status: 'failure', error },
+      gasUsed: { computationCost: '1000', storageCost: '200', storageRebate: '50', nonRefundableStorageFee: '0' },
+    },
+  } as unknown as SuiTransactionBlockResponse;
+}
+
+describe('classifyError', () => {
+  it('treats network failures and unrecognised errors as transient', () => {
+    assert.equal(classifyError(new Error('fetch failed')).kind, 'transient');
+    assert.equal(classifyError('socket hang up').kind, 'transient');
+  });
+  
+  it('recognises object conflicts', () => {
+    for (const message of [
+      'Transaction is rejected as invalid (non-retriable). Non-retriable errors: [ObjectVersionUnavailableForConsumption]',
+      'Failed to sign transaction by a quorum of validators because of locked objects',
+      'ExecutionCancelledDueToSharedObjectCongestion',
+    ]) {
+      assert.ok(classifyError(new Error(message)) instanceof ObjectConflictError, message);
+    }
+  });
+  
+  it('recognises errors that fail the same way every time', () => {
+    for (const message of [
+      'MoveAbort(MoveLocation { module: pool }, 5) in command 2',
+      'InsufficientCoinBalance in command 1',
+      'The following input objects are invalid: {"code":"deleted","object_id":"0x1"}',
+    ]) {
+      assert.ok(classifyError(new Error(message)) instanceof PermanentError, message);
+    }
+  });
+  
+  it('sorts HTTP and JSON-RPC errors by whether they pass with time', () => {
+    assert.equal(classifyError(new SuiHTTPStatusError('rate limited', 429, 'Too Many Requests')).kind, 'transient');
+    assert.equal(classifyError(new SuiHTTPStatusError('unavailable', 503, 'Service Unavailable')).kind, 'transient');
+    assert.equal(classifyError(new SuiHTTPStatusError('bad request', 400, 'Bad Request')).kind, 'permanent');
+    assert.equal(classifyError(new JsonRpcError('invalid params', -32602)).kind, 'permanent');
+  });
+  
+  it('returns classified errors unchanged and applies the fallback to the rest', () => {
+    const error = new TransientError('fetch failed');
+    assert.equal(classifyError(error, 'permanent'), error);
+    assert.equal(classifyError(new Error('something else'), 'permanent').kind, 'permanent');
+  });
+});
+
+describe('executionFailure', () => {
+  it('carries the gas and digest of a transaction that failed on chain', () => {
+    const error = executionFailure(failedResponse('MoveAbort(MoveLocation { module: pool }, 7) in command 1'));
+    assert.equal(error.kind, 'permanent');
+    assert.equal(error.gasCostMist, BigInt(1150));
+    assert.equal(error.digest, 'FAILED');
+  });
+  
+  it('leaves congestion cancellations retryable after a rebuild', () => {
+    assert.equal(executionFailure(failedResponse('ExecutionCancelledDueToSharedObjectCongestion')).kind, 'conflict');
+  });
+});
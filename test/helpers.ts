@@ -0,0 +1,63 @@
+import './env';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/config';
+import { ClmmSimulator } from '../src/simulation/clmmSimulator';
+import { BotConfig } from '../src/types';
+
+export const WALLET = `0x${'cc'.repeat(32)}`;
+export const SUI = '0x2::sui::SUI';
+export const COIN_A = `0x${'5a'.repeat(32)}::coin_a::COIN_A`;
+export const COIN_B = `0x${'5b'.repeat(32)}::coin_b::COIN_B`;
+
+/**
+ * Bot config from the defaults without the profitability check, with the
+ * given fields replaced
+ */
+export function createConfig(overrides: Partial<BotConfig> = {}): BotConfig {
+  return { ...loadConfig(), minProfitRatio: 0, ...overrides };
+}
+
+export interface TestPool {
+  sim: ClmmSimulator;
+  poolId: string;
+  positionId: string;
+}
+
+/**
+ * A simulator with one COIN_A/COIN_B pool, a wallet-owned position in it and
+ * SUI for gas
+ */
+export function createTestPool(params: {
+  tick: number;
+  poolLiquidity: bigint;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}): TestPool {
+  const sim = new ClmmSimulator({ address: WALLET });
+  const poolId = sim.createPool({
+    coinTypeA: COIN_A,
+    coinTypeB: COIN_B,
+    tickSpacing: 60,
+    feeRate: 2500,
+    tick: params.tick,
+    liquidity: params.poolLiquidity,
+  });
+  const positionId = sim.addPosition({
+    poolId,
+    tickLower: params.tickLower,
+    tickUpper: params.tickUpper,
+    liquidity: params.liquidity,
+  });
+  sim.setBalance(SUI, BigInt(10_000_000_000));
+  return { sim, poolId, positionId };
+}
+
+/**
+ * Path of a file in a fresh temporary directory
+ */
+export function tempPath(name: string): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bot-test-')), name);
+}
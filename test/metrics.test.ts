@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import http from 'http';
+import { createConfig, createTestPool, tempPath } from './helpers';
+import { Counter, Gauge, Histogram, MetricsRegistry, metrics, metricsRegistry } from '../src/utils/metrics';
+import { withRetry } from '../src/utils/retry';
+import { MetricsServer } from '../src/services/metricsServer';
+import { PositionManager } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { AccountingLedger } from '../src/services/accountingLedger';
+import { TickHistory } from '../src/services/tickHistory';
+import { NotificationService } from '../src/notifications';
+import { PriceService } from '../src/pricing';
+
+describe('MetricsRegistry', () => {
+  it('renders gauges and counters with sorted, escaped labels', () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.register(new Gauge('test_tick', 'Current tick'));
+    const counter = registry.register(new Counter('test_total', 'Attempts'));
+    
+    gauge.set({ position: 'main', pool: 'a"b' }, 120);
+    gauge.set({ position: 'main', pool: 'a"b' }, -60);
+    counter.inc();
+    counter.inc({ result: 'failed' }, 2);
+    counter.inc({ result: 'failed' });
+    
+    assert.equal(
+      registry.render(),
+      [
+        '# HELP test_tick Current tick',
+        '# TYPE test_tick gauge',
+        'test_tick{pool="a\\"b",position="main"} -60',
+        '# HELP test_total Attempts',
+        '# TYPE test_total counter',
+        'test_total 1',
+        'test_total{result="failed"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+  
+  it('renders histograms with cumulative buckets', () => {
+    const histogram = new Histogram('test_seconds', 'Latency', [0.1, 1]);
+    histogram.observe({ operation: 'get' }, 0.05);
+    histogram.observe({ operation: 'get' }, 0.5);
+    histogram.observe({ operation: 'get' }, 3);
+    
+    assert.deepEqual(histogram.render().slice(2), [
+      'test_seconds_bucket{operation="get",le="0.1"} 1',
+      'test_seconds_bucket{operation="get",le="1"} 2',
+      'test_seconds_bucket{operation="get",le="+Inf"} 3',
+      'test_seconds_sum{operation="get"} 3.55',
+      'test_seconds_count{operation="get"} 3',
+    ]);
+  });
+});
+
+describe('metrics sources', () => {
+  it('counts retries and times every attempt', async () => {
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3) {
+          throw new Error('fetch failed');
+        }
+        return 'done';
+      },
+      3,
+      1,
+      1,
+      'Fetch widget'
+    );
+    
+    assert.equal(result, 'done');
+    const rendered = metricsRegistry.render();
+    assert.match(rendered, /^clmm_retry_attempts_total\{operation="Fetch widget"\} 2$/m);
+    assert.match(rendered, /^clmm_rpc_latency_seconds_count\{operation="Fetch widget"\} 3$/m);
+  });
+  
+  it('exposes the position state and rebalance results of a position manager', async () => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const entry = { ...createConfig().positions[0], name: 'metered', poolId: test.poolId, positionId: test.positionId };
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry] }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      new AccountingLedger(tempPath('ledger.json')),
+      new TickHistory(10),
+      new NotificationService([]),
+      new PriceService([])
+    );
+    
+    await manager.checkAndRebalance();
+    
+    const rendered = metricsRegistry.render();
+    assert.match(rendered, /^clmm_position_current_tick\{position="metered"\} 900$/m);
+    assert.match(rendered, /^clmm_position_tick_lower\{position="metered"\} -600$/m);
+    assert.match(rendered, /^clmm_position_tick_upper\{position="metered"\} 600$/m);
+    assert.match(rendered, /^clmm_position_in_range\{position="metered"\} 0$/m);
+    assert.match(rendered, /^clmm_rebalances_total\{position="metered",result="success"\} 1$/m);
+    
+    test.sim.executeTransaction = async () => {
+      throw new Error('Transaction execution failed: MoveAbort');
+    };
+    await assert.rejects(manager.rebalanceNow({ force: true }));
+    assert.match(metricsRegistry.render(), /^clmm_rebalances_total\{position="metered",result="failed"\} 1$/m);
+  });
+});
+
+describe('MetricsServer', () => {
+  it('serves the registry at /metrics only', async () => {
+    const server = new MetricsServer(createConfig({ metricsPort: 39464, metricsHost: '127.0.0.1' }));
+    metrics.circuitBreakerOpen.set({}, 1);
+    server.start();
+    await once((server as unknown as { server: http.Server }).server, 'listening');
+    
+    try {
+      const response = await fetch('http://127.0.0.1:39464/metrics?format=text');
+      assert.equal(response.status, 200);
+      assert.match(response.headers.get('content-type') ?? '', /^text\/plain; version=0\.0\.4/);
+      assert.match(await response.text(), /^clmm_circuit_breaker_open 1$/m);
+      
+      const missing = await fetch('http://127.0.0.1:39464/health');
+      assert.equal(missing.status, 404);
+      await missing.text();
+    } finally {
+      server.stop();
+    }
+  });
+  
+  it('stays off without a port', () => {
+    const server = new MetricsServer(createConfig({ metricsPort: 0 }));
+    server.start();
+    assert.equal((server as unknown as { server: http.Server | null }).server, null);
+  });
+});
@@ -0,0 +1,262 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createConfig, createTestPool, tempPath } from './helpers';
+import {
+  Notification,
+  NotificationService,
+  NotificationSink,
+  createNotificationService,
+  formatNotificationText,
+} from '../src/notifications';
+import { EmailSink } from '../src/notifications/emailSink';
+import { SlackSink } from '../src/notifications/slackSink';
+import { TelegramSink } from '../src/notifications/telegramSink';
+import { WebhookSink } from '../src/notifications/webhookSink';
+import { PositionManager } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { AccountingLedger } from '../src/services/accountingLedger';
+import { TickHistory } from '../src/services/tickHistory';
+import { PriceService } from '../src/pricing';
+import { NotificationEvent } from '../src/types';
+
+const NOTIFICATION: Notification = {
+  event: 'rebalance_succeeded',
+  position: 'main',
+  title: 'main: rebalanced',
+  message: 'Moved from [-600, 600] to [300, 1500]',
+  details: { digest: 'digest-1', newRange: '[300, 1500]', addedA: null, shouldRebalance: true },
+  timestamp: Date.UTC(2026, 0, 2, 3, 4, 5),
+};
+
+class RecordingSink implements NotificationSink {
+  readonly name: string;
+  readonly events: NotificationEvent[];
+  received: Notification[] = [];
+  private error: Error | null;
+  
+  constructor(name: string, events: NotificationEvent[], error: Error | null = null) {
+    this.name = name;
+    this.events = events;
+    this.error = error;
+  }
+  
+  async send(notification: Notification): Promise<void> {
+    if (this.error) {
+      throw this.error;
+    }
+    this.received.push(notification);
+  }
+}
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * Replaces fetch with an endpoint answering `status`; returns the requests
+ */
+function stubFetch(status: number = 200): Array<{ url: string; body: Record<string, unknown> }> {
+  const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: input.toString(), body: JSON.parse(String(init?.body)) });
+    return new Response(status === 200 ? 'ok' : 'invalid_token', { status });
+  };
+  return requests;
+}
+
+describe('NotificationService', () => {
+  it('sends each event only to the sinks subscribed to it', async () => {
+    const failures = new RecordingSink('failures', ['rebalance_failed', 'bot_stalled']);
+    const everything = new RecordingSink('everything', ['rebalance_failed', 'rebalance_succeeded']);
+    const service = new NotificationService([failures, everything]);
+    
+    service.notify({ event: 'rebalance_succeeded', title: 'ok', message: 'done', details: {} });
+    service.notify({ event: 'rebalance_failed', title: 'failed', message: 'abort', details: {} });
+    await new Promise((resolve) => setImmediate(resolve));
+    
+    assert.deepEqual(failures.received.map((notification) => notification.event), ['rebalance_failed']);
+    assert.deepEqual(
+      everything.received.map((notification) => notification.event),
+      ['rebalance_succeeded', 'rebalance_failed']
+    );
+    assert.ok(everything.received.every((notification) => notification.timestamp > 0));
+  });
+  
+  it('keeps delivering when a sink fails', async () => {
+    const broken = new RecordingSink('broken', ['bot_stalled'], new Error('HTTP 500'));
+    const working = new RecordingSink('working', ['bot_stalled']);
+    const service = new NotificationService([broken, working]);
+    
+    assert.doesNotThrow(() => service.notify({ event: 'bot_stalled', title: 'stalled', message: '', details: {} }));
+    await new Promise((resolve) => setImmediate(resolve));
+    
+    assert.equal(working.received.length, 1);
+  });
+  
+  it('creates a sink for every configured destination', () => {
+    const events: NotificationEvent[] = ['rebalance_failed'];
+    const service = createNotificationService({
+      events,
+      stallTimeoutMs: 60000,
+      webhook: { url: 'https://hooks.example.com/clmm', events },
+      slack: { webhookUrl: 'https://hooks.slack.com/services/x', events },
+    });
+    const sinks = (service as unknown as { sinks: NotificationSink[] }).sinks;
+    
+    assert.deepEqual(sinks.map((sink) => sink.name), ['webhook', 'slack']);
+    assert.equal(createNotificationService({ events, stallTimeoutMs: 60000 }).isEnabled(), false);
+  });
+});
+
+describe('notification sinks', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+  
+  it('renders the details that are set, then the time', () => {
+    assert.equal(
+      formatNotificationText(NOTIFICATION),
+      [
+        'main: rebalanced',
+        'Moved from [-600, 600] to [300, 1500]',
+        '',
+        'digest: digest-1',
+        'newRange: [300, 1500]',
+        'shouldRebalance: true',
+        '',
+        '2026-01-02T03:04:05.000Z',
+      ].join('\n')
+    );
+  });
+  
+  it('posts the notification as-is to a webhook', async () => {
+    const requests = stubFetch();
+    await new WebhookSink('https://hooks.example.com/clmm', ['rebalance_succeeded']).send(NOTIFICATION);
+    
+    assert.deepEqual(requests, [{ url: 'https://hooks.example.com/clmm', body: { ...NOTIFICATION } }]);
+  });
+  
+  it('sends the text to a Telegram chat', async () => {
+    const requests = stubFetch();
+    await new TelegramSink('123:abc', '-1001', ['rebalance_succeeded']).send(NOTIFICATION);
+    
+    assert.equal(requests[0].url, 'https://api.telegram.org/bot123:abc/sendMessage');
+    assert.deepEqual(requests[0].body, {
+      chat_id: '-1001',
+      text: formatNotificationText(NOTIFICATION),
+      disable_web_page_preview: true,
+    });
+  });
+  
+  it('posts a Slack message with the details as fields', async () => {
+    const requests = stubFetch();
+    await new SlackSink('https://hooks.slack.com/services/x', ['rebalance_succeeded']).send(NOTIFICATION);
+    
+    assert.deepEqual(requests[0].body, {
+      text: '*main: rebalanced*\nMoved from [-600, 600] to [300, 1500]',
+      attachments: [{
+        color: 'good',
+        fields: [
+          { title: 'digest', value: 'digest-1', short: true },
+          { title: 'newRange', value: '[300, 1500]', short: true },
+          { title: 'shouldRebalance', value: 'true', short: true },
+        ],
+        ts: NOTIFICATION.timestamp / 1000,
+      }],
+    });
+  });
+  
+  it('fails on an error response', async () => {
+    stubFetch(401);
+    await assert.rejects(
+      new WebhookSink('https://hooks.example.com/clmm', ['rebalance_succeeded']).send(NOTIFICATION),
+      /HTTP 401 invalid_token/
+    );
+  });
+  
+  it('mails the text with the title as subject', async () => {
+    const sink = new EmailSink({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      from: 'bot@example.com',
+      to: ['ops@example.com', 'oncall@example.com'],
+      events: ['rebalance_succeeded'],
+    });
+    const sent: unknown[] = [];
+    (sink as unknown as { transporter: { sendMail(mail: unknown): Promise<void> } }).transporter = {
+      sendMail: async (mail) => {
+        sent.push(mail);
+      },
+    };
+    
+    await sink.send(NOTIFICATION);
+    
+    assert.deepEqual(sent, [{
+      from: 'bot@example.com',
+      to: ['ops@example.com', 'oncall@example.com'],
+      subject: '[CLMM bot] main: rebalanced',
+      text: formatNotificationText(NOTIFICATION),
+    }]);
+  });
+});
+
+describe('position notifications', () => {
+  const setup = (events: NotificationEvent[]) => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const entry = { ...createConfig().positions[0], name: 'main', poolId: test.poolId, positionId: test.positionId };
+    const sink = new RecordingSink('recording', events);
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry] }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      new AccountingLedger(tempPath('ledger.json')),
+      new TickHistory(10),
+      new NotificationService([sink]),
+      new PriceService([])
+    );
+    return { test, manager, sink };
+  };
+  
+  it('reports leaving the range once and the rebalance with its digest, ranges and amounts', async () => {
+    const { test, manager, sink } = setup(['out_of_range', 'rebalance_succeeded']);
+    
+    await manager.checkPosition();
+    await manager.checkPosition();
+    const result = await manager.rebalanceNow({ force: true });
+    await new Promise((resolve) => setImmediate(resolve));
+    
+    assert.deepEqual(sink.received.map((notification) => notification.event), ['out_of_range', 'rebalance_succeeded']);
+    const [outOfRange, rebalanced] = sink.received;
+    assert.equal(outOfRange.details.currentTick, 900);
+    assert.equal(outOfRange.details.range, '[-600, 600]');
+    assert.equal(rebalanced.position, 'main');
+    assert.equal(rebalanced.details.digest, result?.digest);
+    assert.equal(rebalanced.details.oldPositionId, test.positionId);
+    assert.equal(rebalanced.details.newPositionId, result?.newPositionId);
+    assert.equal(rebalanced.details.oldRange, '[-600, 600]');
+    assert.equal(rebalanced.details.newRange, `[${result?.newRange.tickLower}, ${result?.newRange.tickUpper}]`);
+    assert.ok(BigInt(rebalanced.details.addedA as string) + BigInt(rebalanced.details.addedB as string) > BigInt(0));
+  });
+  
+  it('reports a failed rebalance with the error', async () => {
+    const { test, manager, sink } = setup(['rebalance_failed']);
+    test.sim.executeTransaction = async () => {
+      throw new Error('Transaction execution failed: MoveAbort');
+    };
+    
+    await assert.rejects(manager.rebalanceNow({ force: true }));
+    await new Promise((resolve) => setImmediate(resolve));
+    
+    assert.equal(sink.received.length, 1);
+    assert.equal(sink.received[0].event, 'rebalance_failed');
+    assert.match(sink.received[0].message, /MoveAbort/);
+    assert.equal(sink.received[0].details.positionId, test.positionId);
+  });
+});
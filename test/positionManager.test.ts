@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COIN_A, COIN_B, createConfig, createTestPool, tempPath } from './helpers';
+import { PositionManager, createPositionManagers } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { AccountingLedger, LedgerEntry } from '../src/services/accountingLedger';
+import { TickHistory } from '../src/services/tickHistory';
+import { NotificationService } from '../src/notifications';
+import { PriceService } from '../src/pricing';
+
+class FailingLedger extends AccountingLedger {
+  record(_key: string, _entry: LedgerEntry): void {
+    throw new Error('ENOSPC: no space left on device');
+  }
+}
+
+describe('PositionManager', () => {
+  it('keeps the new position ID when the ledger cannot be written', async () => {
+    const test = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: 600,
+      tickUpper: 1200,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const config = createConfig();
+    const entry = { ...config.positions[0], poolId: test.poolId, positionId: test.positionId };
+    const statePath = tempPath('state.json');
+    const stateStore = new StateStore(statePath);
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry] }),
+      test.sim,
+      test.sim,
+      stateStore,
+      new FailingLedger(tempPath('ledger.json')),
+      new TickHistory(10),
+      new NotificationService([]),
+      new PriceService([])
+    );
+    
+    const result = await manager.rebalanceNow({ force: true });
+    
+    assert.ok(result?.newPositionId);
+    assert.equal(manager.getActivePositionId(), result.newPositionId);
+    assert.equal(new StateStore(statePath).getActivePositionId(test.positionId), result.newPositionId);
+    assert.equal(stateStore.getRebalancesSince(test.positionId, 0).length, 1);
+  });
+  
+  it('manages each portfolio entry with its own settings and failures', async () => {
+    const test = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const otherPoolId = test.sim.createPool({ coinTypeA: COIN_A, coinTypeB: COIN_B, tickSpacing: 10, feeRate: 500, tick: 3000 });
+    const otherPositionId = test.sim.addPosition({
+      poolId: otherPoolId,
+      tickLower: 2000,
+      tickUpper: 2500,
+      liquidity: BigInt(1_000_000_000),
+    });
+    const defaults = createConfig().positions[0];
+    const entries = [
+      { ...defaults, name: 'wide', poolId: test.poolId, positionId: test.positionId, rangeWidthPercent: 20 },
+      { ...defaults, name: 'narrow', poolId: otherPoolId, positionId: otherPositionId, rangeWidthPercent: 2 },
+      { ...defaults, name: 'missing', poolId: otherPoolId, positionId: `0x${'dd'.repeat(32)}` },
+    ];
+    const managers = createPositionManagers(
+      createConfig({ positions: entries }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      new AccountingLedger(tempPath('ledger.json')),
+      new TickHistory(10),
+      new NotificationService([]),
+      new PriceService([])
+    );
+    
+    const results = await Promise.allSettled(managers.map((manager) => manager.checkPosition()));
+    assert.equal(results[2].status, 'rejected');
+    const [wide, narrow] = results.map((result) => (result.status === 'fulfilled' ? result.value : null));
+    
+    assert.equal(wide?.positionName, 'wide');
+    assert.equal(wide?.isInRange, true);
+    assert.equal(narrow?.positionName, 'narrow');
+    assert.equal(narrow?.isInRange, false);
+    assert.equal(narrow?.pool.id, otherPoolId);
+    // Each range is sized from the entry's own width
+    const width = (report: typeof wide) => report!.suggestedNewRange.tickUpper - report!.suggestedNewRange.tickLower;
+    assert.ok(width(wide) > 5 * width(narrow), `${width(wide)} vs ${width(narrow)}`);
+  });
+});
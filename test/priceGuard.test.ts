@@ -0,0 +1,201 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { COIN_A, COIN_B, WALLET, createConfig, createTestPool, tempPath } from './helpers';
+import { ClmmSimulator } from '../src/simulation/clmmSimulator';
+import { PriceGuard } from '../src/services/priceGuard';
+import { PositionManager } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { AccountingLedger } from '../src/services/accountingLedger';
+import { TickHistory } from '../src/services/tickHistory';
+import { NotificationService } from '../src/notifications';
+import { OraclePrice, PriceOracle, PriceService } from '../src/pricing';
+import { FilePriceOracle } from '../src/pricing/fileOracle';
+import { Pool, PriceGuardConfig } from '../src/types';
+
+const GUARD: PriceGuardConfig = {
+  maxDeviationPercent: 2,
+  twapWindowMs: 60_000,
+  minSamples: 2,
+  oracleMaxAgeMs: 60_000,
+};
+
+/**
+ * A pool at `tick` whose coins both have 9 decimals, so the price of coin A
+ * in coin B is 1.0001^tick
+ */
+async function createPool(tick: number): Promise<{ sim: ClmmSimulator; pool: Pool }> {
+  const sim = new ClmmSimulator({ address: WALLET });
+  const poolId = sim.createPool({
+    coinTypeA: COIN_A,
+    coinTypeB: COIN_B,
+    tickSpacing: 60,
+    feeRate: 2500,
+    tick,
+    liquidity: BigInt(1_000_000_000),
+  });
+  return { sim, pool: await sim.getPool(poolId) };
+}
+
+/**
+ * Tick history of a pool with samples taken the given milliseconds ago
+ */
+function history(poolId: string, samples: Array<[msAgo: number, tick: number]>): TickHistory {
+  const tickHistory = new TickHistory(10);
+  const now = Date.now();
+  for (const [msAgo, tick] of samples) {
+    tickHistory.record(poolId, tick, now - msAgo);
+  }
+  return tickHistory;
+}
+
+function oracle(price: OraclePrice | null | Error): PriceOracle {
+  return {
+    name: 'mock',
+    getPrice: async () => {
+      if (price instanceof Error) {
+        throw price;
+      }
+      return price;
+    },
+  };
+}
+
+describe('PriceGuard TWAP', () => {
+  it('allows everything when disabled', async () => {
+    const { sim, pool } = await createPool(0);
+    const guard = new PriceGuard({ ...GUARD, maxDeviationPercent: 0 }, new TickHistory(10), sim, null);
+    
+    assert.equal(guard.isEnabled(), false);
+    assert.deepEqual(await guard.check(pool), { allowed: true, reason: 'Price guard disabled' });
+  });
+  
+  it('refuses until the window holds enough samples', async () => {
+    const { sim, pool } = await createPool(0);
+    // The older sample is outside the window
+    const guard = new PriceGuard(GUARD, history(pool.id, [[120_000, 0], [10_000, 0]]), sim, null);
+    
+    const decision = await guard.check(pool);
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason, /only 1 price sample\(s\) in the last 60000ms, need 2/);
+  });
+  
+  it('allows a spot price within the band of the TWAP', async () => {
+    const { sim, pool } = await createPool(100);
+    const guard = new PriceGuard(GUARD, history(pool.id, [[50_000, 0], [30_000, 0], [10_000, 0]]), sim, null);
+    
+    // 1.0001^100 is 1.01005
+    const decision = await guard.check(pool);
+    assert.equal(decision.allowed, true);
+    assert.match(decision.reason, /within 2% of the reference \(TWAP 1\.00%\)/);
+  });
+  
+  it('weights ticks by how long they held, so a recent jump barely moves the TWAP', async () => {
+    const { sim, pool } = await createPool(400);
+    // Tick 0 held for 45s and tick 400 for the last 5s: the TWAP is 40, not 200
+    const guard = new PriceGuard(GUARD, history(pool.id, [[50_000, 0], [5_000, 400]]), sim, null);
+    
+    const decision = await guard.check(pool);
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason, /spot tick 400 is 3\.67% from the TWAP tick 40 \(max 2%\)/);
+  });
+});
+
+describe('PriceGuard oracle', () => {
+  const check = async (reference: OraclePrice | null | Error, tick: number = 0) => {
+    const { sim, pool } = await createPool(tick);
+    const tickHistory = history(pool.id, [[30_000, tick], [10_000, tick]]);
+    return await new PriceGuard(GUARD, tickHistory, sim, oracle(reference)).check(pool);
+  };
+  
+  it('allows a spot price within the band of the oracle price', async () => {
+    const decision = await check({ price: 1.01, timestamp: Date.now() });
+    assert.equal(decision.allowed, true);
+    assert.match(decision.reason, /TWAP 0\.00%, mock oracle 0\.99%/);
+  });
+  
+  it('refuses a spot price away from the oracle price', async () => {
+    // 1.0001^600 is 1.0618
+    const decision = await check({ price: 1, timestamp: Date.now() }, 600);
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason, /spot price 1\.06183 COIN_B per COIN_A is 6\.18% from the mock oracle's 1 \(max 2%\)/);
+  });
+  
+  it('fails closed without a recent oracle price', async () => {
+    assert.match((await check(null)).reason, /mock oracle has no COIN_A\/COIN_B price/);
+    assert.match((await check({ price: 0, timestamp: Date.now() })).reason, /has no COIN_A\/COIN_B price/);
+    assert.match((await check({ price: 1, timestamp: Date.now() - 120_000 })).reason, /mock oracle price is 120s old/);
+    assert.match((await check(new Error('feed offline'))).reason, /mock oracle check failed: feed offline/);
+    for (const reference of [null, { price: 1, timestamp: 0 }, new Error('feed offline')]) {
+      assert.equal((await check(reference)).allowed, false);
+    }
+  });
+  
+  it('derives pair prices from a price file, re-reading it when it changes', async () => {
+    const file = tempPath('oracle.json');
+    fs.writeFileSync(file, JSON.stringify({ COIN_A: 3, COIN_B: 2 }));
+    const fileOracle = new FilePriceOracle(file);
+    const coinA = { coinType: COIN_A, symbol: 'COIN_A', decimals: 9 };
+    const coinB = { coinType: COIN_B, symbol: 'COIN_B', decimals: 9 };
+    
+    assert.deepEqual(await fileOracle.getPrice(coinA, coinB), { price: 1.5, timestamp: fs.statSync(file).mtimeMs });
+    
+    fs.writeFileSync(file, JSON.stringify({ COIN_A: 4, COIN_B: 2 }));
+    const updatedAt = new Date(Date.now() + 1000);
+    fs.utimesSync(file, updatedAt, updatedAt);
+    assert.equal((await fileOracle.getPrice(coinA, coinB))?.price, 2);
+    assert.equal(await fileOracle.getPrice(coinA, { ...coinB, symbol: 'OTHER', coinType: '0x3::other::OTHER' }), null);
+  });
+});
+
+describe('price-guarded rebalances', () => {
+  const setup = (guard: PriceGuardConfig) => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const entry = { ...createConfig().positions[0], name: 'main', poolId: test.poolId, positionId: test.positionId };
+    const tickHistory = new TickHistory(10);
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry], priceGuard: guard }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      new AccountingLedger(tempPath('ledger.json')),
+      tickHistory,
+      new NotificationService([]),
+      new PriceService([])
+    );
+    return { test, manager, tickHistory };
+  };
+  
+  it('refuses a rebalance at a price that jumped away from the TWAP', async () => {
+    const { test, manager, tickHistory } = setup(GUARD);
+    // The pool sat at tick 0 until the current check found it at 900
+    tickHistory.record(test.poolId, 0, Date.now() - 50_000);
+    tickHistory.record(test.poolId, 0, Date.now() - 30_000);
+    
+    await assert.rejects(manager.rebalanceNow(), /refused by the price guard: spot tick 900 is .* from the TWAP tick 0/);
+    assert.equal((await test.sim.getPosition(test.positionId)).liquidity, '1000000000000');
+    
+    // An operator can still force it
+    assert.ok((await manager.rebalanceNow({ force: true }))?.newPositionId);
+  });
+  
+  it('rebalances when the TWAP and the oracle agree with the spot price', async () => {
+    const file = tempPath('oracle.json');
+    fs.writeFileSync(file, JSON.stringify({ COIN_A: Math.pow(1.0001, 900), COIN_B: 1 }));
+    const { test, manager, tickHistory } = setup({ ...GUARD, oracleFile: file });
+    tickHistory.record(test.poolId, 900, Date.now() - 50_000);
+    tickHistory.record(test.poolId, 900, Date.now() - 30_000);
+    
+    const result = await manager.rebalanceNow();
+    
+    assert.ok(result?.newPositionId);
+    await assert.rejects(test.sim.getPosition(test.positionId), /not found/);
+  });
+});
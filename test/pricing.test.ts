@@ -0,0 +1,253 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { SuiClient } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { COIN_A, COIN_B, WALLET, createConfig, createTestPool, tempPath } from './helpers';
+import { ClmmSimulator } from '../src/simulation/clmmSimulator';
+import { SuiClientService } from '../src/services/suiClient';
+import { CoinMetadataService } from '../src/services/coinMetadataService';
+import { PositionManager } from '../src/services/positionManager';
+import { StateStore } from '../src/services/stateStore';
+import { AccountingLedger } from '../src/services/accountingLedger';
+import { TickHistory } from '../src/services/tickHistory';
+import { NotificationService } from '../src/notifications';
+import { PriceService, PriceSource } from '../src/pricing';
+import { StaticPriceSource } from '../src/pricing/staticPriceSource';
+import { StablePoolPriceSource } from '../src/pricing/stablePoolPriceSource';
+import {
+  formatCoinAmount,
+  formatRangePrices,
+  formatUsd,
+  toHumanAmount,
+  valuePosition,
+} from '../src/utils/valuation';
+import { getAmountsForLiquidity, tickToSqrtPrice } from '../src/utils/tickMath';
+import { CoinMetadata } from '../src/types';
+
+const TOKEN: CoinMetadata = { coinType: normalizeStructTag(COIN_A), symbol: 'TOKEN', decimals: 9 };
+const USDC: CoinMetadata = { coinType: normalizeStructTag(COIN_B), symbol: 'USDC', decimals: 6 };
+
+function assertClose(actual: number | null, expected: number, label: string): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) <= Math.abs(expected) * 1e-9, `${label}: ${actual}`);
+}
+
+function writePriceFile(prices: unknown): string {
+  const file = tempPath('prices.json');
+  fs.writeFileSync(file, JSON.stringify(prices));
+  return file;
+}
+
+describe('CoinMetadataService', () => {
+  /**
+   * A service whose client answers getCoinMetadata from the script in turn,
+   * an Error being thrown
+   */
+  function createService(script: Array<{ symbol: string; decimals: number } | null | Error>) {
+    const suiClient = new SuiClientService(createConfig());
+    const requests: string[] = [];
+    const client = {
+      getCoinMetadata: async ({ coinType }: { coinType: string }) => {
+        requests.push(coinType);
+        const step = script.shift();
+        if (step instanceof Error) {
+          throw step;
+        }
+        return step;
+      },
+    };
+    suiClient.getClient = () => client as unknown as SuiClient;
+    const config = createConfig({ maxRetries: 0, minRetryDelayMs: 1, maxRetryDelayMs: 1 });
+    return { service: new CoinMetadataService(suiClient, config), requests };
+  }
+  
+  it('fetches each coin type once, sharing concurrent lookups', async () => {
+    const { service, requests } = createService([{ symbol: 'SUI', decimals: 9 }]);
+    
+    const results = await Promise.all([
+      service.getCoinMetadata('0x2::sui::SUI'),
+      service.getCoinMetadata(normalizeStructTag('0x2::sui::SUI')),
+    ]);
+    const later = await service.getCoinMetadata('0x2::sui::SUI');
+    
+    const expected = { coinType: normalizeStructTag('0x2::sui::SUI'), symbol: 'SUI', decimals: 9 };
+    assert.deepEqual(results, [expected, expected]);
+    assert.deepEqual(later, expected);
+    assert.deepEqual(requests, [normalizeStructTag('0x2::sui::SUI')]);
+  });
+  
+  it('does not cache a failed lookup', async () => {
+    const { service, requests } = createService([new Error('HTTP 429'), { symbol: 'USDC', decimals: 6 }]);
+    
+    await assert.rejects(service.getCoinMetadata(COIN_B), /HTTP 429/);
+    assert.equal((await service.getCoinMetadata(COIN_B)).decimals, 6);
+    assert.equal(requests.length, 2);
+  });
+  
+  it('fails for a coin without published metadata', async () => {
+    const { service } = createService([null]);
+    await assert.rejects(service.getCoinMetadata(COIN_A), /No coin metadata published/);
+  });
+});
+
+describe('valuation', () => {
+  it('formats raw amounts exactly in whole coins', () => {
+    assert.equal(toHumanAmount(BigInt(12_500_000), 6), 12.5);
+    assert.equal(formatCoinAmount(BigInt(12_500_000), USDC), '12.5 USDC');
+    assert.equal(formatCoinAmount(BigInt(7), TOKEN), '0.000000007 TOKEN');
+    assert.equal(formatCoinAmount(BigInt(-3_000_000_000), TOKEN), '-3 TOKEN');
+    assert.equal(formatCoinAmount(BigInt(0), { ...USDC, decimals: 0 }), '0 USDC');
+    assert.equal(formatUsd(1234.567), '$1234.57');
+  });
+  
+  it('expresses range bounds as prices of coin A in coin B', () => {
+    // Tick 0 is a raw price of 1, or 1000 USDC per TOKEN with 9 and 6 decimals
+    assert.equal(formatRangePrices({ tickLower: 0, tickUpper: 6960 }, TOKEN, USDC), '1000 - 2005.64 USDC per TOKEN');
+  });
+  
+  it('values the position in coin B and in USD from either coin', () => {
+    const pool = {
+      id: '0x1',
+      coinTypeA: TOKEN.coinType,
+      coinTypeB: USDC.coinType,
+      currentSqrtPrice: tickToSqrtPrice(0).toString(),
+      currentTick: 0,
+      tickSpacing: 60,
+      feeRate: 2500,
+      liquidity: '0',
+      rewarderCoinTypes: [],
+    };
+    const position = {
+      id: '0x2',
+      poolId: '0x1',
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: '1000000000000',
+      coinA: TOKEN.coinType,
+      coinB: USDC.coinType,
+    };
+    const raw = getAmountsForLiquidity(
+      tickToSqrtPrice(0),
+      tickToSqrtPrice(-600),
+      tickToSqrtPrice(600),
+      BigInt(position.liquidity)
+    );
+    const amountA = Number(raw.amountA) / 1e9;
+    const amountB = Number(raw.amountB) / 1e6;
+    const value = amountA * 1000 + amountB;
+    
+    const inUsdc = valuePosition(pool, position, TOKEN, USDC, null, 1);
+    assertClose(inUsdc.price, 1000, 'price');
+    assertClose(inUsdc.rangeLowerPrice, 1000 * Math.pow(1.0001, -600), 'rangeLowerPrice');
+    assertClose(inUsdc.rangeUpperPrice, 1000 * Math.pow(1.0001, 600), 'rangeUpperPrice');
+    assertClose(inUsdc.amountA, amountA, 'amountA');
+    assertClose(inUsdc.amountB, amountB, 'amountB');
+    assertClose(inUsdc.value, value, 'value');
+    assertClose(inUsdc.valueUsd, value, 'valueUsd');
+    
+    // Only coin A has a USD price: the value converts through the pool price
+    assertClose(valuePosition(pool, position, TOKEN, USDC, 2000, null).valueUsd, value * 2, 'valueUsd from A');
+    assert.equal(valuePosition(pool, position, TOKEN, USDC, null, null).valueUsd, null);
+  });
+});
+
+describe('price sources', () => {
+  it('reads static prices by coin type or case-insensitive symbol', async () => {
+    const source = new StaticPriceSource(writePriceFile({ '0xa::token::TOKEN': 2, token: 3, usdc: 1 }));
+    
+    // The coin type is taken over the symbol
+    assert.equal(await source.getUsdPrice({ ...TOKEN, coinType: normalizeStructTag('0xa::token::TOKEN') }), 2);
+    assert.equal(await source.getUsdPrice(TOKEN), 3);
+    assert.equal(await source.getUsdPrice(USDC), 1);
+    assert.equal(await source.getUsdPrice({ ...USDC, symbol: 'USDT' }), null);
+  });
+  
+  it('rejects a price file that is not a map of prices', () => {
+    assert.throws(() => new StaticPriceSource(tempPath('missing.json')), /Failed to read price file/);
+    assert.throws(() => new StaticPriceSource(writePriceFile([1, 2])), /must contain a JSON object/);
+    assert.throws(() => new StaticPriceSource(writePriceFile({ SUI: -1 })), /price of SUI must be a non-negative number/);
+    assert.throws(() => new StaticPriceSource(writePriceFile({ SUI: '3.5' })), /non-negative number/);
+  });
+  
+  it('prices coins from pools that pair them with a stablecoin', async () => {
+    const sim = new ClmmSimulator({ address: WALLET });
+    const other = normalizeStructTag(`0x${'0f'.repeat(32)}::other::OTHER`);
+    sim.setCoinMetadata(COIN_A, 'TOKEN', 9);
+    sim.setCoinMetadata(COIN_B, 'USDC', 6);
+    sim.setCoinMetadata(other, 'OTHER', 9);
+    const pool = (coinTypeA: string, coinTypeB: string) => sim.createPool({
+      coinTypeA,
+      coinTypeB,
+      tickSpacing: 60,
+      feeRate: 2500,
+      tick: 0,
+      liquidity: BigInt(1_000_000_000),
+    });
+    // TOKEN/USDC at 1000 USDC per TOKEN, then USDC/OTHER at 0.001 OTHER per USDC
+    const source = new StablePoolPriceSource(sim, [pool(COIN_A, COIN_B), pool(COIN_B, other)], [USDC.coinType]);
+    
+    assert.equal(await source.getUsdPrice(USDC), 1);
+    assertClose(await source.getUsdPrice(TOKEN), 1000, 'coin A of a pool');
+    assertClose(await source.getUsdPrice({ coinType: other, symbol: 'OTHER', decimals: 9 }), 1000, 'coin B of a pool');
+    assert.equal(await source.getUsdPrice({ coinType: '0x3::unknown::UNKNOWN', symbol: 'UNKNOWN', decimals: 9 }), null);
+  });
+  
+  it('asks the sources in turn, skipping failing ones', async () => {
+    const source = (name: string, prices: Record<string, number>, error?: Error): PriceSource => ({
+      name,
+      getUsdPrice: async (coin) => {
+        if (error) {
+          throw error;
+        }
+        return prices[coin.symbol] ?? null;
+      },
+    });
+    const service = new PriceService([
+      source('broken', {}, new Error('fetch failed')),
+      source('first', { TOKEN: 2 }),
+      source('second', { TOKEN: 5, USDC: 1 }),
+    ]);
+    
+    assert.equal(await service.getUsdPrice(TOKEN), 2);
+    assert.equal(await service.getUsdPrice(USDC), 1);
+    assert.equal(await service.getUsdPrice({ ...USDC, symbol: 'USDT' }), null);
+  });
+});
+
+describe('position valuation', () => {
+  it('reports the position in whole coins and USD', async () => {
+    const test = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    test.sim.setCoinMetadata(COIN_A, 'TOKEN', 9);
+    test.sim.setCoinMetadata(COIN_B, 'USDC', 6);
+    const entry = { ...createConfig().positions[0], name: 'main', poolId: test.poolId, positionId: test.positionId };
+    const manager = new PositionManager(
+      entry,
+      createConfig({ positions: [entry] }),
+      test.sim,
+      test.sim,
+      new StateStore(tempPath('state.json')),
+      new AccountingLedger(tempPath('ledger.json')),
+      new TickHistory(10),
+      new NotificationService([]),
+      new PriceService([new StaticPriceSource(writePriceFile({ USDC: 1 }))])
+    );
+    
+    const report = await manager.checkPosition();
+    
+    const valuation = report.valuation;
+    assert.ok(valuation);
+    assert.equal(valuation.coinA.symbol, 'TOKEN');
+    assert.equal(valuation.coinB.symbol, 'USDC');
+    assertClose(valuation.price, 1000, 'price');
+    assert.equal(valuation.usdPriceA, null);
+    assert.equal(valuation.usdPriceB, 1);
+    assert.ok(valuation.amountA > 0 && valuation.amountB > 0);
+    assertClose(valuation.valueUsd, valuation.amountA * valuation.price + valuation.amountB, 'valueUsd');
+  });
+});
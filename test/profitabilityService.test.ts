@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Transaction } from '@mysten/sui/transactions';
+import { COIN_B, SUI, WALLET, createConfig, createTestPool } from './helpers';
+import { ProfitabilityService } from '../src/services/profitabilityService';
+import { ClmmSimulator } from '../src/simulation/clmmSimulator';
+import { SwapPlan } from '../src/utils/swapMath';
+import { sqrtPriceX64ToPrice } from '../src/utils/tickMath';
+import { BotConfig } from '../src/types';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+const SWAP_PLAN: SwapPlan = {
+  swap: { a2b: true, amountIn: BigInt(1_000_000_000), swapAll: false, estimatedAmountOut: BigInt(0) },
+  amountAAfter: BigInt(0),
+  amountBAfter: BigInt(0),
+};
+
+function createService(sim: ClmmSimulator, overrides: Partial<BotConfig> = {}): ProfitabilityService {
+  return new ProfitabilityService(sim, sim, createConfig({
+    profitabilityLookbackMs: HOUR,
+    profitabilityHorizonMs: DAY,
+    minProfitRatio: 1,
+    ...overrides,
+  }));
+}
+
+const buildPTB = async (): Promise<Transaction> => new Transaction();
+
+describe('ProfitabilityService', () => {
+  it('projects the fees of the pool volume over the lookback window onto the horizon', async () => {
+    const { sim, poolId, positionId } = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(15_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(5_000_000_000_000),
+    });
+    sim.swap(poolId, true, BigInt(40_000_000_000));
+    sim.advanceTime(HOUR / 2);
+    sim.swap(poolId, false, BigInt(30_000_000_000));
+    
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    const estimate = await createService(sim).evaluate(pool, position, SWAP_PLAN, buildPTB);
+    
+    // Swap volume excludes the fees, as in Cetus SwapEvents
+    const price = sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice));
+    const volumeRate = (40_000_000_000 * price + 30_000_000_000) * 0.9975 / HOUR;
+    const share = Number(position.liquidity) / (Number(pool.liquidity) + Number(position.liquidity));
+    const expected = volumeRate * DAY * 0.0025 * share;
+    assert.ok(Math.abs(estimate.projectedRevenue - expected) < expected * 1e-9, `${estimate.projectedRevenue} != ${expected}`);
+    
+    // Swaps older than the window no longer count
+    sim.advanceTime(HOUR + 1);
+    const later = await createService(sim).evaluate(pool, position, SWAP_PLAN, buildPTB);
+    assert.equal(later.projectedRevenue, 0);
+    assert.equal(later.profitable, false);
+  });
+  
+  it('rebalances only when the revenue covers the cost times MIN_PROFIT_RATIO', async () => {
+    const { sim, poolId, positionId } = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(5_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(5_000_000_000_000),
+    });
+    sim.swap(poolId, true, BigInt(20_000_000_000));
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    
+    const estimate = await createService(sim).evaluate(pool, position, SWAP_PLAN, buildPTB);
+    // The swap leg costs its fee and price impact; gas is not valued without SUI in the pool
+    assert.equal(estimate.gasCost, 0);
+    assert.ok(Math.abs(estimate.swapFee - 1_000_000_000 * sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice)) * 0.0025) < 1);
+    assert.ok(estimate.priceImpact > 0);
+    assert.equal(estimate.totalCost, estimate.swapFee + estimate.priceImpact);
+    
+    const ratio = estimate.projectedRevenue / estimate.totalCost;
+    const below = await createService(sim, { minProfitRatio: ratio * 0.9 }).evaluate(pool, position, SWAP_PLAN, buildPTB);
+    assert.equal(below.profitable, true);
+    const above = await createService(sim, { minProfitRatio: ratio * 1.1 }).evaluate(pool, position, SWAP_PLAN, buildPTB);
+    assert.equal(above.profitable, false);
+  });
+  
+  it('values gas from a dry run, or the reference gas price when the dry run fails', async () => {
+    const sim = new ClmmSimulator({ address: WALLET });
+    const poolId = sim.createPool({ coinTypeA: SUI, coinTypeB: COIN_B, tickSpacing: 60, feeRate: 2500, tick: 0 });
+    const positionId = sim.addPosition({ poolId, tickLower: -600, tickUpper: 600, liquidity: BigInt(1_000_000) });
+    sim.setBalance(SUI, BigInt(10_000_000_000));
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    const noSwap: SwapPlan = { swap: null, amountAAfter: BigInt(0), amountBAfter: BigInt(0) };
+    
+    const dryRun = await createService(sim).evaluate(pool, position, noSwap, buildPTB);
+    assert.equal(dryRun.gasSource, 'dry-run');
+    assert.ok(dryRun.gasCostMist > BigInt(0));
+    // SUI is coin A, so gas is valued at the pool price
+    assert.equal(dryRun.gasCost, Number(dryRun.gasCostMist) * sqrtPriceX64ToPrice(BigInt(pool.currentSqrtPrice)));
+    
+    sim.setGasPrice(BigInt(1000));
+    const fallback = await createService(sim, { fallbackRebalanceGasUnits: 50_000 }).evaluate(
+      pool,
+      position,
+      noSwap,
+      async () => {
+        throw new Error('Failed to build');
+      }
+    );
+    assert.equal(fallback.gasSource, 'reference-gas-price');
+    assert.equal(fallback.gasCostMist, BigInt(50_000_000));
+    assert.equal(fallback.totalCost, fallback.gasCost);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createConfig, tempPath } from './helpers';
+import { RebalanceGuard } from '../src/services/rebalanceGuard';
+import { StateStore } from '../src/services/stateStore';
+import { MonitorReport } from '../src/services/monitorService';
+import { BotConfig } from '../src/types';
+
+const KEY = `0x${'01'.repeat(32)}`;
+const OTHER = `0x${'02'.repeat(32)}`;
+
+function createGuard(overrides: Partial<BotConfig>): { guard: RebalanceGuard; stateStore: StateStore } {
+  const stateStore = new StateStore(tempPath('state.json'));
+  const guard = new RebalanceGuard(createConfig({ positionId: KEY, ...overrides }), stateStore);
+  return { guard, stateStore };
+}
+
+function report(isInRange: boolean, timestamp: number = Date.now()): MonitorReport {
+  return { isInRange, timestamp } as MonitorReport;
+}
+
+describe('RebalanceGuard', () => {
+  it('allows everything with the defaults', () => {
+    const { guard, stateStore } = createGuard({});
+    stateStore.recordRebalanceCost(KEY, 'R', BigInt(1000));
+    assert.equal(guard.check().allowed, true);
+  });
+  
+  it('holds rebalances back during the cooldown', () => {
+    const { guard, stateStore } = createGuard({ rebalanceCooldownMs: 60_000 });
+    assert.equal(guard.check().allowed, true);
+    
+    stateStore.recordRebalanceCost(KEY, 'R', BigInt(1000));
+    const decision = guard.check();
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason, /cooldown/);
+  });
+  
+  it('caps rebalances per day and the gas of all positions', () => {
+    const limited = createGuard({ maxRebalancesPerDay: 2 });
+    limited.stateStore.recordRebalanceCost(KEY, 'R1', BigInt(1000));
+    assert.equal(limited.guard.check().allowed, true);
+    limited.stateStore.recordRebalanceCost(KEY, 'R2', BigInt(1000));
+    assert.match(limited.guard.check().reason, /2 rebalances in the last 24h/);
+    
+    const budgeted = createGuard({ dailyGasBudgetMist: 5000 });
+    budgeted.stateStore.recordRebalanceCost(KEY, 'R', BigInt(3000));
+    assert.equal(budgeted.guard.check().allowed, true);
+    budgeted.stateStore.recordGasCost(OTHER, 'F', BigInt(2000));
+    assert.match(budgeted.guard.check().reason, /5000 MIST of gas/);
+  });
+  
+  it('waits for the price to stay out of range for HYSTERESIS_CHECKS checks', () => {
+    const { guard } = createGuard({ hysteresisChecks: 3 });
+    guard.recordCheck(report(false));
+    guard.recordCheck(report(false));
+    assert.equal(guard.check(true).allowed, false);
+    
+    guard.recordCheck(report(false));
+    assert.equal(guard.check(true).allowed, true);
+    
+    // Coming back into range ends the streak
+    guard.recordCheck(report(true));
+    guard.recordCheck(report(false));
+    assert.equal(guard.check(true).allowed, false);
+  });
+  
+  it('waits for the price to stay out of range for HYSTERESIS_MS', () => {
+    const { guard } = createGuard({ hysteresisChecks: 100, hysteresisMs: 60_000 });
+    guard.recordCheck(report(false, Date.now() - 30_000));
+    assert.equal(guard.check(true).allowed, false);
+    
+    const late = createGuard({ hysteresisChecks: 100, hysteresisMs: 60_000 });
+    late.guard.recordCheck(report(false, Date.now() - 61_000));
+    late.guard.recordCheck(report(false));
+    assert.equal(late.guard.check(true).allowed, true);
+  });
+  
+  it('does not delay rebalances triggered while the price is in range', () => {
+    const { guard } = createGuard({ hysteresisChecks: 3, hysteresisMs: 60_000 });
+    guard.recordCheck(report(true));
+    assert.equal(guard.check(false).allowed, true);
+  });
+});
@@ -0,0 +1,363 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bcs } from '@mysten/sui/bcs';
+import { DryRunTransactionBlockResponse, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { COIN_A, COIN_B, SUI, WALLET, createConfig, createTestPool } from './helpers';
+import { RebalanceService } from '../src/services/rebalanceService';
+import { TickHistory } from '../src/services/tickHistory';
+import { createRangeStrategy } from '../src/strategies';
+import { MIN_SQRT_PRICE, getAmountsForLiquidity, sqrtPriceToTick, tickToSqrtPrice } from '../src/utils/tickMath';
+import { calculateSwapLimits } from '../src/utils/swapMath';
+import { findEvent } from '../src/utils/transactionResult';
+import { BotConfig, SwapQuote } from '../src/types';
+
+function createService(test: ReturnType<typeof createTestPool>, overrides: Partial<BotConfig> = {}): RebalanceService {
+  const config = createConfig(overrides);
+  return new RebalanceService(
+    test.sim,
+    test.sim,
+    config,
+    createRangeStrategy(config),
+    new TickHistory(10)
+  );
+}
+
+describe('RebalanceService', () => {
+  it('deposits after a swap that moves the pool price', async () => {
+    // Thin pool: swapping half the position moves the price well past a tick
+    const test = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(2_000_000_000_000),
+      tickLower: 600,
+      tickUpper: 1200,
+      liquidity: BigInt(500_000_000_000),
+    });
+    const service = createService(test);
+    
+    const pool = await test.sim.getPool(test.poolId);
+    const position = await test.sim.getPosition(test.positionId);
+    const result = await service.rebalance(pool, position);
+    
+    assert.ok(result?.newPositionId, 'rebalance should open a new position');
+    const after = await test.sim.getPool(test.poolId);
+    const priceMove = Math.abs(sqrtPriceToTick(BigInt(after.currentSqrtPrice)) - sqrtPriceToTick(BigInt(pool.currentSqrtPrice)));
+    assert.ok(priceMove >= 10, `swap should move the price, moved ${priceMove} ticks`);
+    
+    const newPosition = await test.sim.getPosition(result.newPositionId);
+    assert.ok(BigInt(newPosition.liquidity) > BigInt(0));
+  });
+  
+  it('moves every coin of an out-of-range position into the new one', async () => {
+    const test = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const { sim, poolId, positionId } = test;
+    
+    // Other traders pay fees to the position, then move the price above its range
+    for (let i = 0; i < 5; i++) {
+      sim.swap(poolId, true, BigInt(2_000_000_000));
+      sim.swap(poolId, false, BigInt(2_000_000_000));
+    }
+    sim.swapToTick(poolId, 900);
+    
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    const pending = await sim.getPendingCollection(pool, positionId);
+    const held = getAmountsForLiquidity(
+      BigInt(pool.currentSqrtPrice),
+      tickToSqrtPrice(position.tickLower),
+      tickToSqrtPrice(position.tickUpper),
+      BigInt(position.liquidity)
+    );
+    const suiBefore = sim.getBalance(SUI);
+    const executed: SuiTransactionBlockResponse[] = [];
+    const execute = sim.executeTransactionWithoutSimulation.bind(sim);
+    sim.executeTransactionWithoutSimulation = async (buildTx) => {
+      const response = await execute(buildTx);
+      executed.push(response);
+      return response;
+    };
+    
+    const result = await createService(test).rebalance(pool, position);
+    
+    assert.ok(result?.newPositionId && result.flows, 'rebalance should execute');
+    const { flows } = result;
+    
+    // The old position is emptied and closed, fees and all
+    await assert.rejects(sim.getPosition(positionId), /not found/);
+    assert.equal(BigInt(flows.removedA), held.amountA);
+    assert.equal(BigInt(flows.removedB), held.amountB);
+    assert.ok(pending.feeA > BigInt(0) && pending.feeB > BigInt(0));
+    assert.equal(BigInt(flows.feesA), pending.feeA);
+    assert.equal(BigInt(flows.feesB), pending.feeB);
+    
+    // Coin A and B only come out of the old position: whatever the deposit
+    // leaves is refunded to the wallet, which paid nothing in
+    assert.equal(flows.rewardsA, '0');
+    assert.equal(flows.rewardsB, '0');
+    assert.ok(BigInt(flows.walletA) >= BigInt(0) && BigInt(flows.walletB) >= BigInt(0));
+    assert.equal(sim.getBalance(COIN_A), BigInt(flows.walletA));
+    assert.equal(sim.getBalance(COIN_B), BigInt(flows.walletB));
+    assert.equal(suiBefore - sim.getBalance(SUI), BigInt(flows.gasCostMist));
+    
+    // Every coin is accounted for: what came out of the old position, after
+    // the swap, went into the new one or back to the wallet
+    const swap = findEvent(executed.flatMap((response) => response.events ?? []), '::pool::SwapEvent');
+    assert.ok(swap, 'the out-of-range position should be swapped toward the new ratio');
+    const data = swap.parsedJson as { atob: boolean; amount_in: string; amount_out: string; fee_amount: string };
+    assert.equal(data.atob, false);
+    const swappedIn = BigInt(data.amount_in) + BigInt(data.fee_amount);
+    assert.equal(
+      BigInt(flows.removedA) + BigInt(flows.feesA) + BigInt(data.amount_out),
+      BigInt(flows.addedA) + BigInt(flows.walletA)
+    );
+    assert.equal(
+      BigInt(flows.removedB) + BigInt(flows.feesB) - swappedIn,
+      BigInt(flows.addedB) + BigInt(flows.walletB)
+    );
+    
+    // Into a range around the new price, nearly all of both coins
+    const after = await sim.getPool(poolId);
+    const newPosition = await sim.getPosition(result.newPositionId);
+    assert.ok(newPosition.tickLower <= after.currentTick && after.currentTick < newPosition.tickUpper);
+    for (const [added, refunded] of [[flows.addedA, flows.walletA], [flows.addedB, flows.walletB]]) {
+      const total = BigInt(added) + BigInt(refunded);
+      assert.ok(BigInt(refunded) * BigInt(1000) < total * BigInt(5), `refunded ${refunded} of ${total}`);
+    }
+  });
+  
+  it('swaps a lopsided in-range position to the new range ratio and deploys both coins', async () => {
+    // At tick 100 the position in [0, 1200] is nearly all coin A; the new
+    // range is centred on the price, so about a third must be swapped for B.
+    // The position is a tenth of the pool's liquidity, which the swap no
+    // longer has once the position is removed.
+    const test = createTestPool({
+      tick: 100,
+      poolLiquidity: BigInt(20_000_000_000_000),
+      tickLower: 0,
+      tickUpper: 1200,
+      liquidity: BigInt(2_000_000_000_000),
+    });
+    const { sim, poolId, positionId } = test;
+    const executed: SuiTransactionBlockResponse[] = [];
+    const execute = sim.executeTransactionWithoutSimulation.bind(sim);
+    sim.executeTransactionWithoutSimulation = async (buildTx) => {
+      const response = await execute(buildTx);
+      executed.push(response);
+      return response;
+    };
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    
+    const result = await createService(test).rebalance(pool, position);
+    
+    assert.ok(result?.newPositionId && result.flows);
+    const swap = findEvent(executed[0].events, '::pool::SwapEvent');
+    assert.ok(swap, 'the in-range rebalance should swap');
+    assert.equal((swap.parsedJson as { atob: boolean }).atob, true);
+    const newPosition = await sim.getPosition(result.newPositionId);
+    assert.ok(newPosition.tickLower < 100 && 100 < newPosition.tickUpper);
+    
+    const { addedA, addedB, walletA, walletB } = result.flows;
+    assert.ok(BigInt(addedB) > BigInt(0));
+    for (const [added, refunded] of [[addedA, walletA], [addedB, walletB]]) {
+      const total = BigInt(added) + BigInt(refunded);
+      assert.ok(BigInt(refunded) * BigInt(1000) < total, `refunded ${refunded} of ${total}`);
+    }
+  });
+  
+  it('simulates the rebalance in dry-run mode without changing anything', async () => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const { sim, poolId, positionId } = test;
+    const pool = await sim.getPool(poolId);
+    const position = await sim.getPosition(positionId);
+    const suiBefore = sim.getBalance(SUI);
+    let executions = 0;
+    sim.executeTransactionWithoutSimulation = async () => {
+      executions++;
+      throw new Error('dry run must not execute');
+    };
+    
+    const result = await createService(test, { dryRun: true }).rebalance(pool, position);
+    
+    assert.ok(result?.dryRun, 'dry run should report');
+    const report = result.dryRun;
+    assert.equal(report.success, true);
+    assert.equal(result.newPositionId, null);
+    assert.deepEqual(
+      { tickLower: report.newPosition.tickLower, tickUpper: report.newPosition.tickUpper },
+      result.newRange
+    );
+    assert.ok(report.newPosition.tickLower <= 900 && 900 < report.newPosition.tickUpper);
+    assert.ok(BigInt(report.newPosition.liquidity ?? '0') > BigInt(0));
+    assert.ok(BigInt(report.gasUsed.totalCost) > BigInt(0));
+    // The simulated gas shows up as the wallet's SUI change
+    const sui = report.balanceChanges.find((change) => change.coinType.endsWith('::sui::SUI'));
+    assert.equal(sui?.amount, (-BigInt(report.gasUsed.totalCost)).toString());
+    assert.ok(result.amounts && BigInt(result.amounts.removedA) === BigInt(0) && BigInt(result.amounts.removedB) > BigInt(0));
+    
+    // Nothing was signed: the position, the pool and the wallet are untouched
+    assert.equal(executions, 0);
+    assert.deepEqual(await sim.getPosition(positionId), position);
+    assert.deepEqual(await sim.getPool(poolId), pool);
+    assert.equal(sim.getBalance(SUI), suiBefore);
+  });
+  
+  it('dry-runs a single rebalance on request while live', async () => {
+    const test = createTestPool({
+      tick: 900,
+      poolLiquidity: BigInt(50_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: BigInt(1_000_000_000_000),
+    });
+    const pool = await test.sim.getPool(test.poolId);
+    const position = await test.sim.getPosition(test.positionId);
+    
+    const result = await createService(test).rebalance(pool, position, { dryRun: true });
+    
+    assert.equal(result?.dryRun?.success, true);
+    assert.deepEqual(await test.sim.getPosition(test.positionId), position);
+  });
+  
+  describe('swap price protection', () => {
+    /**
+     * A position above the price, all coin A, whose new range around the
+     * price needs an A to B swap, with a trader who swaps A for B between
+     * the quote and the rebalance transaction. The coins the position
+     * returns do not depend on the price, so the swap is the first leg a
+     * price move can abort.
+     */
+    const setup = async (frontRun: bigint) => {
+      const test = createTestPool({
+        tick: 0,
+        poolLiquidity: BigInt(20_000_000_000_000),
+        tickLower: 600,
+        tickUpper: 1200,
+        liquidity: BigInt(2_000_000_000_000),
+      });
+      const quotes: SwapQuote[] = [];
+      const quoteSwap = test.sim.quoteSwap.bind(test.sim);
+      test.sim.quoteSwap = async (poolId, a2b, amountIn) => {
+        const quote = await quoteSwap(poolId, a2b, amountIn);
+        quotes.push(quote);
+        if (frontRun > BigInt(0)) {
+          test.sim.swap(poolId, true, frontRun);
+        }
+        return quote;
+      };
+      const pool = await test.sim.getPool(test.poolId);
+      const position = await test.sim.getPosition(test.positionId);
+      const service = createService(test, { preflightSimulation: false, maxSlippagePercent: 1, rangeWidthPercent: 20 });
+      return { test, pool, position, service, quotes };
+    };
+    
+    it('limits the swap to the quoted price and output less the slippage', async () => {
+      const { test, pool, position, service, quotes } = await setup(BigInt(0));
+      const transactions: Transaction[] = [];
+      const execute = test.sim.executeTransactionWithoutSimulation.bind(test.sim);
+      test.sim.executeTransactionWithoutSimulation = async (buildTx) => {
+        const tx = await buildTx();
+        transactions.push(tx);
+        return await execute(async () => tx);
+      };
+      
+      const result = await service.rebalance(pool, position);
+      
+      assert.ok(result?.newPositionId);
+      const limits = calculateSwapLimits(quotes[0], 1);
+      const { commands, inputs } = transactions[0].getData();
+      const pure = (call: { arguments: { $kind: string; Input?: number }[] }, index: number) =>
+        inputs[call.arguments[index].Input!].Pure!.bytes;
+      const swap = commands.find((command) => command.MoveCall?.function === 'swap')!.MoveCall!;
+      const threshold = commands.find((command) => command.MoveCall?.function === 'check_coin_threshold')!.MoveCall!;
+      assert.equal(BigInt(bcs.u128().fromBase64(pure(swap, 7))), limits.sqrtPriceLimit);
+      assert.equal(BigInt(bcs.u64().fromBase64(pure(threshold, 1))), limits.minAmountOut);
+      assert.ok(limits.sqrtPriceLimit > MIN_SQRT_PRICE && limits.minAmountOut > BigInt(0));
+    });
+    
+    it('aborts the whole rebalance when the swap would fill beyond the slippage', async () => {
+      // Moves the price about 2%
+      const { test, pool, position, service } = await setup(BigInt(200_000_000_000));
+      const balanceA = test.sim.getBalance(COIN_A);
+      
+      await assert.rejects(service.rebalance(pool, position), /MoveAbort in router/);
+      assert.deepEqual(await test.sim.getPosition(test.positionId), position);
+      assert.equal(test.sim.getBalance(COIN_A), balanceA);
+    });
+  });
+  
+  describe('pre-flight simulation', () => {
+    const setup = async () => {
+      const test = createTestPool({
+        tick: 900,
+        poolLiquidity: BigInt(50_000_000_000_000),
+        tickLower: -600,
+        tickUpper: 600,
+        liquidity: BigInt(1_000_000_000_000),
+      });
+      const pool = await test.sim.getPool(test.poolId);
+      const position = await test.sim.getPosition(test.positionId);
+      const service = createService(test, { preflightSimulation: true });
+      return { test, pool, position, service };
+    };
+    
+    /** Makes the simulator's dry runs report something other than what it executes */
+    const tamper = (test: ReturnType<typeof createTestPool>, edit: (simulation: DryRunTransactionBlockResponse) => void) => {
+      const dryRun = test.sim.dryRunTransaction.bind(test.sim);
+      test.sim.dryRunTransaction = async (tx) => {
+        const simulation = await dryRun(tx);
+        edit(simulation);
+        return simulation;
+      };
+    };
+    
+    it('executes a rebalance whose simulation checks out', async () => {
+      const { test, pool, position, service } = await setup();
+      const result = await service.rebalance(pool, position);
+      assert.ok(result?.newPositionId);
+      await assert.rejects(test.sim.getPosition(test.positionId), /not found/);
+    });
+    
+    it('refuses a rebalance the wallet would pay coins into', async () => {
+      const { test, pool, position, service } = await setup();
+      tamper(test, (simulation) => {
+        simulation.balanceChanges.push({ owner: { AddressOwner: WALLET }, coinType: COIN_A, amount: '-1000000000000' });
+      });
+      
+      await assert.rejects(service.rebalance(pool, position), /wallet would lose funds/);
+      assert.deepEqual(await test.sim.getPosition(test.positionId), position);
+    });
+    
+    it('refuses a rebalance whose new position gets too little liquidity', async () => {
+      const { test, pool, position, service } = await setup();
+      tamper(test, (simulation) => {
+        const added = findEvent(simulation.events, '::pool::AddLiquidityEvent');
+        (added!.parsedJson as { liquidity: string }).liquidity = '1';
+      });
+      
+      await assert.rejects(service.rebalance(pool, position), /new liquidity 1 is below minimum/);
+      assert.deepEqual(await test.sim.getPosition(test.positionId), position);
+    });
+    
+    it('refuses a rebalance planned on a price that has since moved', async () => {
+      const { test, pool, position, service } = await setup();
+      // The pool moves back into the old range after the plan was read
+      test.sim.swapToTick(test.poolId, 0);
+      
+      await assert.rejects(service.rebalance(pool, position), /Pre-flight/);
+      assert.deepEqual(await test.sim.getPosition(test.positionId), position);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { COIN_A, COIN_B, SUI, WALLET, createConfig } from './helpers';
+import { ClmmSimulator } from '../src/simulation/clmmSimulator';
+import { RewardService } from '../src/services/rewardService';
+import { RebalanceService } from '../src/services/rebalanceService';
+import { CompoundService } from '../src/services/compoundService';
+import { TickHistory } from '../src/services/tickHistory';
+import { createRangeStrategy } from '../src/strategies';
+import { BotConfig, RewardPolicy } from '../src/types';
+
+const CETUS = normalizeStructTag(`0x${'ce'.repeat(32)}::cetus::CETUS`);
+const SWAPPED = normalizeStructTag(`0x${'5e'.repeat(32)}::swapped::SWAPPED`);
+
+/**
+ * A position with rewarders in coin A, in a token kept in the wallet and in
+ * a token that can be swapped into coin B through a second pool
+ */
+function createRewardPool(tick: number) {
+  const sim = new ClmmSimulator({ address: WALLET });
+  const poolId = sim.createPool({
+    coinTypeA: COIN_A,
+    coinTypeB: COIN_B,
+    tickSpacing: 60,
+    feeRate: 2500,
+    tick,
+    liquidity: BigInt(50_000_000_000_000),
+    rewarderCoinTypes: [COIN_A, CETUS, SWAPPED],
+  });
+  const positionId = sim.addPosition({
+    poolId,
+    tickLower: -600,
+    tickUpper: 600,
+    liquidity: BigInt(1_000_000_000_000),
+  });
+  const swapPoolId = sim.createPool({
+    coinTypeA: SWAPPED,
+    coinTypeB: COIN_B,
+    tickSpacing: 60,
+    feeRate: 2500,
+    tick: 0,
+    liquidity: BigInt(50_000_000_000_000),
+  });
+  sim.setBalance(SUI, BigInt(10_000_000_000));
+  return { sim, poolId, positionId, swapPoolId };
+}
+
+function policies(swapPoolId: string, extra: Record<string, RewardPolicy> = {}): Partial<BotConfig> {
+  return { rewardPolicies: { [SWAPPED]: { action: 'swap', poolId: swapPoolId }, ...extra } };
+}
+
+describe('RewardService', () => {
+  it('deposits rewards in coin A or B, swaps configured tokens and sends the rest to the wallet', async () => {
+    const { sim, poolId, positionId, swapPoolId } = createRewardPool(0);
+    sim.accrueReward(positionId, COIN_A, BigInt(3_000_000));
+    sim.accrueReward(positionId, CETUS, BigInt(7_000_000));
+    sim.accrueReward(positionId, SWAPPED, BigInt(2_000_000_000));
+    const pool = await sim.getPool(poolId);
+    const service = new RewardService(sim, createConfig(policies(swapPoolId)));
+    
+    const plan = await service.planRewards(pool, await sim.getPendingCollection(pool, positionId));
+    
+    assert.deepEqual(
+      plan.entries.map((entry) => [entry.coinType, entry.amount, entry.destination, entry.swap?.pool.id ?? null]),
+      [
+        [normalizeStructTag(COIN_A), BigInt(3_000_000), 'coin_a', null],
+        [CETUS, BigInt(7_000_000), 'wallet', null],
+        [SWAPPED, BigInt(2_000_000_000), 'coin_b', swapPoolId],
+      ]
+    );
+    const swap = plan.entries[2].swap!;
+    assert.equal(swap.a2b, true);
+    assert.equal(plan.amountA, BigInt(3_000_000));
+    assert.equal(plan.amountB, swap.limits.minAmountOut);
+    assert.ok(swap.limits.minAmountOut > BigInt(1_900_000_000) && swap.limits.minAmountOut < BigInt(2_000_000_000));
+  });
+  
+  it('sends coin A or B rewards with a wallet policy to the wallet', async () => {
+    const { sim, poolId, positionId, swapPoolId } = createRewardPool(0);
+    sim.accrueReward(positionId, COIN_A, BigInt(3_000_000));
+    const pool = await sim.getPool(poolId);
+    const service = new RewardService(
+      sim,
+      createConfig(policies(swapPoolId, { [normalizeStructTag(COIN_A)]: { action: 'wallet' } }))
+    );
+    
+    const plan = await service.planRewards(pool, await sim.getPendingCollection(pool, positionId));
+    
+    assert.equal(plan.entries[0].destination, 'wallet');
+    assert.equal(plan.amountA, BigInt(0));
+  });
+  
+  it('sends a reward with nothing to swap to the wallet', async () => {
+    const { sim, poolId, positionId, swapPoolId } = createRewardPool(0);
+    const pool = await sim.getPool(poolId);
+    const service = new RewardService(sim, createConfig(policies(swapPoolId)));
+    
+    const plan = await service.planRewards(pool, await sim.getPendingCollection(pool, positionId));
+    
+    assert.deepEqual(plan.entries[2], { coinType: SWAPPED, amount: BigInt(0), destination: 'wallet', swap: null });
+  });
+  
+  it('rejects a swap pool that does not pair the reward with coin A or B', async () => {
+    const { sim, poolId, positionId } = createRewardPool(0);
+    sim.accrueReward(positionId, SWAPPED, BigInt(2_000_000_000));
+    const pool = await sim.getPool(poolId);
+    // The position's own pool holds neither SWAPPED nor pairs it with anything
+    const service = new RewardService(sim, createConfig(policies(poolId)));
+    
+    await assert.rejects(
+      service.planRewards(pool, await sim.getPendingCollection(pool, positionId)),
+      /does not pair .*SWAPPED with coin A or coin B/
+    );
+  });
+  
+  it('claims every reward when a rebalance closes the position', async () => {
+    const { sim, poolId, positionId, swapPoolId } = createRewardPool(900);
+    sim.accrueReward(positionId, COIN_A, BigInt(5_000_000_000));
+    sim.accrueReward(positionId, CETUS, BigInt(7_000_000));
+    sim.accrueReward(positionId, SWAPPED, BigInt(2_000_000_000));
+    const swapPoolBefore = await sim.getPool(swapPoolId);
+    const config = createConfig(policies(swapPoolId));
+    const service = new RebalanceService(sim, sim, config, createRangeStrategy(config), new TickHistory(10));
+    
+    const result = await service.rebalance(await sim.getPool(poolId), await sim.getPosition(positionId));
+    
+    assert.ok(result?.newPositionId);
+    await assert.rejects(sim.getPosition(positionId), /not found/);
+    assert.equal(sim.getBalance(CETUS), BigInt(7_000_000));
+    assert.equal(sim.getBalance(SWAPPED), BigInt(0));
+    // The coin A reward went into the new position with the removed coins
+    assert.ok(sim.getBalance(COIN_A) < BigInt(50_000_000), `wallet kept ${sim.getBalance(COIN_A)} of coin A`);
+    const swapPoolAfter = await sim.getPool(swapPoolId);
+    assert.ok(BigInt(swapPoolAfter.currentSqrtPrice) < BigInt(swapPoolBefore.currentSqrtPrice), 'SWAPPED should be sold');
+  });
+  
+  it('compounds rewards with the fees', async () => {
+    const { sim, poolId, positionId, swapPoolId } = createRewardPool(0);
+    sim.accrueReward(positionId, CETUS, BigInt(7_000_000));
+    sim.accrueReward(positionId, SWAPPED, BigInt(2_000_000_000));
+    const position = await sim.getPosition(positionId);
+    const service = new CompoundService(sim, sim, createConfig({ ...policies(swapPoolId), compoundIntervalMs: 1 }));
+    
+    const result = await service.compound(await sim.getPool(poolId), position, null);
+    
+    assert.ok(result?.added);
+    assert.ok(BigInt((await sim.getPosition(positionId)).liquidity) > BigInt(position.liquidity));
+    assert.equal(sim.getBalance(CETUS), BigInt(7_000_000));
+    assert.equal(sim.getBalance(SWAPPED), BigInt(0));
+    const pending = await sim.getPendingCollection(await sim.getPool(poolId), positionId);
+    assert.ok(pending.rewards.every((reward) => reward.amount === BigInt(0)));
+  });
+});
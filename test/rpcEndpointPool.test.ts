@@ -0,0 +1,79 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonRpcError } from '@mysten/sui/client';
+import { createConfig } from './helpers';
+import { RpcEndpointPool } from '../src/services/rpcEndpointPool';
+import { SuiClientService } from '../src/services/suiClient';
+import { RpcConfig } from '../src/types';
+
+const PRIMARY = 'https://primary.example';
+const BACKUP = 'https://backup.example';
+
+const RPC: RpcConfig = { urls: [PRIMARY, BACKUP], healthCheckIntervalMs: 15000, maxCheckpointLag: 20, maxErrorRate: 0.5 };
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * Replaces fetch with fullnodes where the primary is down and the backup
+ * answers every call with `result`; returns the hosts requested, in order
+ */
+function stubFetch(result: unknown): string[] {
+  const requested: string[] = [];
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    requested.push(url.origin);
+    if (url.origin === PRIMARY) {
+      throw new TypeError('fetch failed');
+    }
+    const { id } = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+  return requested;
+}
+
+describe('RpcEndpointPool', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+  
+  it('moves the client requests and their retries to the next endpoint when the active one fails', async () => {
+    const requested = stubFetch('1000');
+    const service = new SuiClientService(createConfig({
+      rpc: RPC,
+      maxRetries: 6,
+      minRetryDelayMs: 1,
+      maxRetryDelayMs: 1,
+    }));
+    const switches: string[] = [];
+    service.getEndpoints().onSwitch((url) => switches.push(url));
+    
+    assert.equal(await service.getGasPrice(), BigInt(1000));
+    // Five failures are enough to judge the primary's error rate
+    assert.deepEqual(requested, [PRIMARY, PRIMARY, PRIMARY, PRIMARY, PRIMARY, BACKUP]);
+    assert.deepEqual(switches, [BACKUP]);
+    assert.equal(service.getEndpoints().getActiveUrl(), BACKUP);
+    
+    await service.getGasPrice();
+    assert.equal(requested[requested.length - 1], BACKUP);
+  });
+  
+  it('counts failures of requests made by clients built elsewhere', async () => {
+    const fail = (pool: RpcEndpointPool, error: Error) => pool.track(() => Promise.reject(error)).catch(() => undefined);
+    
+    // JSON-RPC errors are the node's answers and do not count
+    const answered = new RpcEndpointPool(RPC);
+    for (let i = 0; i < 10; i++) {
+      await fail(answered, new JsonRpcError('Invalid params', -32602));
+    }
+    assert.equal(answered.getActiveUrl(), PRIMARY);
+    
+    const pool = new RpcEndpointPool(RPC);
+    for (let i = 0; i < 5; i++) {
+      await fail(pool, new TypeError('fetch failed'));
+    }
+    assert.equal(pool.getActiveUrl(), BACKUP);
+    assert.equal(await pool.track(async () => 'ok'), 'ok');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { tempPath } from './helpers';
+import { StateStore } from '../src/services/stateStore';
+
+const KEY = `0x${'01'.repeat(32)}`;
+const NEXT = `0x${'02'.repeat(32)}`;
+
+describe('StateStore', () => {
+  it('starts empty without a state file, on the configured position', () => {
+    const filePath = tempPath('state.json');
+    const store = new StateStore(filePath);
+    assert.equal(store.getActivePositionId(KEY), KEY);
+    assert.deepEqual(store.getHistory(KEY), []);
+    assert.equal(fs.existsSync(filePath), false);
+  });
+  
+  it('refuses to start from a corrupt state file', () => {
+    const filePath = tempPath('state.json');
+    fs.writeFileSync(filePath, '{"positions":');
+    assert.throws(() => new StateStore(filePath), /Failed to read state file/);
+    
+    fs.writeFileSync(filePath, '{"version":1}');
+    assert.throws(() => new StateStore(filePath), /missing "positions" object/);
+  });
+  
+  it('persists the position opened by a rebalance', () => {
+    const filePath = tempPath('state.json');
+    new StateStore(filePath).recordRebalance(KEY, KEY, NEXT, 'DIGEST');
+    
+    const reloaded = new StateStore(filePath);
+    assert.equal(reloaded.getActivePositionId(KEY), NEXT);
+    const [closed, opened] = reloaded.getHistory(KEY);
+    assert.equal(closed.positionId, KEY);
+    assert.equal(closed.closeDigest, 'DIGEST');
+    assert.equal(opened.positionId, NEXT);
+    assert.equal(opened.openDigest, 'DIGEST');
+    assert.equal(opened.closedAt, undefined);
+    assert.equal(fs.existsSync(`${filePath}.tmp`), false);
+  });
+  
+  it('counts rebalance and other gas toward the daily budget of all positions', () => {
+    const store = new StateStore(tempPath('state.json'));
+    const since = Date.now() - 1000;
+    store.recordRebalanceCost(KEY, 'R', BigInt(1000));
+    store.recordCompound(NEXT, 'C', BigInt(200));
+    store.recordGasCost(NEXT, 'F', BigInt(30));
+    assert.equal(store.getGasSpentSince(since), BigInt(1230));
+    assert.equal(store.getRebalancesSince(KEY, since).length, 1);
+    assert.equal(store.getGasSpentSince(Date.now() + 1000), BigInt(0));
+  });
+});
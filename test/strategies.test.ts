@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { COIN_A, COIN_B, createConfig, tempPath } from './helpers';
+import { RangeContext, createRangeStrategy, percentToTicks, thresholdDecision } from '../src/strategies';
+import { Pool, StrategyConfig } from '../src/types';
+import { tickToSqrtPrice } from '../src/utils/tickMath';
+
+function context(tick: number, range: [number, number], overrides: Partial<StrategyConfig> = {}): RangeContext {
+  const pool: Pool = {
+    id: 'pool',
+    coinTypeA: COIN_A,
+    coinTypeB: COIN_B,
+    currentSqrtPrice: tickToSqrtPrice(tick).toString(),
+    currentTick: tick,
+    tickSpacing: 60,
+    feeRate: 2500,
+    liquidity: '1000000000',
+    rewarderCoinTypes: [],
+  };
+  return {
+    pool,
+    position: {
+      id: 'position',
+      poolId: pool.id,
+      tickLower: range[0],
+      tickUpper: range[1],
+      liquidity: '1000',
+      coinA: COIN_A,
+      coinB: COIN_B,
+    },
+    config: { ...createConfig(), rebalanceThresholdPercent: 10, ...overrides },
+  };
+}
+
+describe('range strategies', () => {
+  it('rebalances once the price is out of range by the threshold share of its width', () => {
+    // Range 1200 ticks wide: 10% is 120 ticks
+    assert.equal(thresholdDecision(context(600, [0, 1200])).shouldRebalance, false);
+    assert.equal(thresholdDecision(context(1300, [0, 1200])).shouldRebalance, false);
+    assert.equal(thresholdDecision(context(1320, [0, 1200])).shouldRebalance, true);
+    assert.equal(thresholdDecision(context(-120, [0, 1200])).shouldRebalance, true);
+  });
+  
+  it('centres the fixed range on the current tick, aligned to the tick spacing', () => {
+    const strategy = createRangeStrategy({ ...createConfig(), rangeStrategy: 'fixed', rangeWidthPercent: 10 });
+    const range = strategy.computeRange(context(1000, [0, 60], { rangeWidthPercent: 10 }));
+    
+    assert.equal(strategy.name, 'fixed');
+    assert.equal(range.tickLower % 60, 0);
+    assert.equal(range.tickUpper % 60, 0);
+    assert.ok(range.tickLower <= 1000 && 1000 <= range.tickUpper);
+    assert.ok(Math.abs(1000 - range.tickLower - (range.tickUpper - 1000)) <= 60);
+    assert.ok(Math.abs(range.tickUpper - range.tickLower - percentToTicks(10)) <= 120);
+  });
+  
+  it('puts RANGE_SKEW_PERCENT of the width on the side the price is moving to', () => {
+    const strategy = createRangeStrategy({ ...createConfig(), rangeStrategy: 'skewed' });
+    const overrides = { rangeWidthPercent: 10, rangeSkewPercent: 75 };
+    const width = percentToTicks(10);
+    
+    // Left the range upwards
+    const rising = strategy.computeRange(context(6000, [0, 1200], overrides));
+    assert.ok(rising.tickUpper - 6000 >= Math.round(width * 0.75));
+    assert.ok(6000 - rising.tickLower <= width - Math.round(width * 0.75) + 60);
+    
+    // Left the range downwards
+    const falling = strategy.computeRange(context(-6000, [0, 1200], overrides));
+    assert.ok(-6000 - falling.tickLower >= Math.round(width * 0.75));
+    assert.ok(falling.tickUpper + 6000 <= width - Math.round(width * 0.75) + 60);
+  });
+  
+  it('makes the ticks range exactly RANGE_WIDTH_TICKS wide when aligned', () => {
+    const strategy = createRangeStrategy({ ...createConfig(), rangeStrategy: 'ticks' });
+    assert.deepEqual(strategy.computeRange(context(600, [0, 60], { rangeWidthTicks: 240 })), {
+      tickLower: 480,
+      tickUpper: 720,
+    });
+    // Never empty, even when narrower than the tick spacing
+    assert.deepEqual(strategy.computeRange(context(600, [0, 60], { rangeWidthTicks: 0 })), {
+      tickLower: 540,
+      tickUpper: 660,
+    });
+  });
+  
+  it('loads a custom strategy module', () => {
+    const factory = tempPath('factory.js');
+    fs.writeFileSync(factory, `
+      exports.createRangeStrategy = (config) => ({
+        name: 'custom-factory',
+        computeRange: (context) => ({ tickLower: -config.rangeWidthTicks, tickUpper: config.rangeWidthTicks }),
+        shouldRebalance: () => ({ shouldRebalance: true, reason: 'always' }),
+      });
+    `);
+    const config = { ...createConfig(), rangeStrategy: 'custom' as const, rangeWidthTicks: 300 };
+    const strategy = createRangeStrategy({ ...config, rangeStrategyModule: factory });
+    assert.equal(strategy.name, 'custom-factory');
+    assert.deepEqual(strategy.computeRange(context(0, [0, 60])), { tickLower: -300, tickUpper: 300 });
+    assert.equal(strategy.shouldRebalance(context(0, [0, 60])).shouldRebalance, true);
+    
+    const object = tempPath('object.js');
+    fs.writeFileSync(object, `
+      module.exports = {
+        name: 'custom-object',
+        computeRange: () => ({ tickLower: 0, tickUpper: 60 }),
+        shouldRebalance: () => ({ shouldRebalance: false, reason: 'never' }),
+      };
+    `);
+    assert.equal(createRangeStrategy({ ...config, rangeStrategyModule: object }).name, 'custom-object');
+    
+    const invalid = tempPath('invalid.js');
+    fs.writeFileSync(invalid, 'module.exports = { computeRange: () => null };');
+    assert.throws(() => createRangeStrategy({ ...config, rangeStrategyModule: invalid }), /valid RangeStrategy/);
+    assert.throws(() => createRangeStrategy({ ...config, rangeStrategyModule: undefined }), /requires RANGE_STRATEGY_MODULE/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { createConfig } from './helpers';
+import { SuiClientService } from '../src/services/suiClient';
+import { ClassifiedError } from '../src/utils/errors';
+
+type Step = Error | 'success' | string;
+
+/**
+ * A client whose executions follow the script: an Error is thrown, a status
+ * string is returned as the transaction's effects, each charged 1000 MIST
+ */
+function createService(script: Step[]): { service: SuiClientService; calls: () => number } {
+  const service = new SuiClientService(createConfig({
+    maxRetries: 2,
+    minRetryDelayMs: 1,
+    maxRetryDelayMs: 2,
+    conflictMaxRetries: 2,
+    conflictRetryDelayMs: 1,
+  }));
+  let calls = 0;
+  const client = {
+    signAndExecuteTransaction: async (): Promise<SuiTransactionBlockResponse> => {
+      calls++;
+      const step = script.shift();
+      if (step instanceof Error) {
+        throw step;
+      }
+      return {
+        digest: `D${calls}`,
+        effects: {
+          status: step === 'success' ? { status: 'success' } : { status: 'failure', error: step },
+          gasUsed: { computationCost: '1000', storageCost: '0', storageRebate: '0', nonRefundableStorageFee: '0' },
+        },
+      } as unknown as SuiTransactionBlockResponse;
+    },
+  };
+  service.getClient = () => client as unknown as SuiClient;
+  return { service, calls: () => calls };
+}
+
+describe('SuiClientService retries', () => {
+  it('retries transient failures on the same transaction', async () => {
+    const { service, calls } = createService([new Error('fetch failed'), new Error('fetch failed'), 'success']);
+    let builds = 0;
+    const result = await service.executeTransactionWithoutSimulation(async () => {
+      builds++;
+      return new Transaction();
+    });
+    assert.equal(result.digest, 'D3');
+    assert.equal(calls(), 3);
+    assert.equal(builds, 1);
+  });
+  
+  it('rebuilds the transaction after a conflict', async () => {
+    const { service } = createService([new Error('ObjectVersionUnavailableForConsumption'), 'success']);
+    let builds = 0;
+    await service.executeTransactionWithoutSimulation(async () => {
+      builds++;
+      return new Transaction();
+    });
+    assert.equal(builds, 2);
+  });
+  
+  it('gives up once the retries of a kind run out', async () => {
+    const { service, calls } = createService(Array.from({ length: 5 }, () => new Error('locked objects')));
+    await assert.rejects(
+      service.executeTransactionWithoutSimulation(async () => new Transaction()),
+      (error: ClassifiedError) => error.kind === 'conflict'
+    );
+    assert.equal(calls(), 3);
+  });
+  
+  it('never retries a transaction that failed on chain, and reports its gas', async () => {
+    const { service, calls } = createService(['MoveAbort(MoveLocation { module: pool }, 7) in command 1', 'success']);
+    await assert.rejects(
+      service.executeTransactionWithoutSimulation(async () => new Transaction()),
+      (error: ClassifiedError) => error.kind === 'permanent' && error.gasCostMist === BigInt(1000)
+    );
+    assert.equal(calls(), 1);
+  });
+  
+  it('adds up the gas of every executed attempt', async () => {
+    const congested = 'ExecutionCancelledDueToSharedObjectCongestion';
+    const { service } = createService([congested, congested, congested]);
+    await assert.rejects(
+      service.executeTransactionWithoutSimulation(async () => new Transaction()),
+      (error: ClassifiedError) => error.kind === 'conflict' && error.gasCostMist === BigInt(3000)
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryTransactionBlocksParams, SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { createConfig } from './helpers';
+import { SuiClientService } from '../src/services/suiClient';
+import { CetusService } from '../src/services/cetusService';
+import { SwapEventService } from '../src/services/swapEventService';
+import { SwapEventTrigger } from '../src/services/swapEventTrigger';
+import { tickToSqrtPrice } from '../src/utils/tickMath';
+
+const SWAP_EVENT_TYPE = '0xc1::pool::SwapEvent';
+const POOL = `0x${'0a'.repeat(32)}`;
+const OTHER_POOL = `0x${'0b'.repeat(32)}`;
+
+/**
+ * A chain holding the transactions of each pool, served the way
+ * queryTransactionBlocks pages them
+ */
+class FakeChain {
+  transactions = new Map<string, SuiTransactionBlockResponse[]>();
+  queries: QueryTransactionBlocksParams[] = [];
+  // Pools whose queries fail
+  failing = new Set<string>();
+  private count = 0;
+  
+  /** Adds a transaction to a pool with a swap in each of `swapPools` */
+  swap(poolId: string, tick: number, swapPools: string[] = [poolId]): string {
+    return this.add(poolId, swapPools.map((pool) => ({ pool, after_sqrt_price: tickToSqrtPrice(tick).toString() })));
+  }
+  
+  /** Adds a swap of `amountIn` to a pool at a given time */
+  trade(poolId: string, atob: boolean, amountIn: number, timestampMs: number): string {
+    return this.add(poolId, [{ pool: poolId, atob, amount_in: String(amountIn), after_sqrt_price: '0' }], timestampMs);
+  }
+  
+  private add(poolId: string, swaps: object[], timestampMs?: number): string {
+    const digest = `D${++this.count}`;
+    const events = swaps.map((parsedJson) => ({ type: SWAP_EVENT_TYPE, parsedJson }));
+    // Other events of the transaction are skipped
+    events.push({ type: '0xc1::pool::AddLiquidityEvent', parsedJson: { pool: poolId } });
+    const transactions = this.transactions.get(poolId) ?? [];
+    transactions.push({
+      digest,
+      timestampMs: String(timestampMs ?? this.count),
+      events,
+    } as unknown as SuiTransactionBlockResponse);
+    this.transactions.set(poolId, transactions);
+    return digest;
+  }
+  
+  createService(): SwapEventService {
+    const suiClient = new SuiClientService(createConfig());
+    const client = {
+      queryTransactionBlocks: async (params: QueryTransactionBlocksParams) => {
+        this.queries.push(params);
+        const filter = params.filter as { ChangedObject: string };
+        if (this.failing.has(filter.ChangedObject)) {
+          throw new Error('Invalid params');
+        }
+        const all = [...(this.transactions.get(filter.ChangedObject) ?? [])];
+        if (params.order === 'descending') {
+          all.reverse();
+        }
+        const start = params.cursor ? all.findIndex((tx) => tx.digest === params.cursor) + 1 : 0;
+        const data = all.slice(start, start + (params.limit ?? 50));
+        return { data, hasNextPage: start + data.length < all.length, nextCursor: data[data.length - 1]?.digest };
+      },
+    };
+    suiClient.getClient = () => client as unknown as SuiClient;
+    const cetusService = { getSwapEventType: () => SWAP_EVENT_TYPE } as unknown as CetusService;
+    return new SwapEventService(suiClient, cetusService, createConfig({ maxRetries: 0 }));
+  }
+}
+
+function createTrigger(chain: FakeChain, poolIds: string[]): { poll: () => Promise<void>; triggered: string[][]; trigger: SwapEventTrigger } {
+  const triggered: string[][] = [];
+  const trigger = new SwapEventTrigger(
+    chain.createService(),
+    { enabled: true, pollIntervalMs: 15000, tickThreshold: 10 },
+    poolIds,
+    async (pools) => {
+      triggered.push(pools);
+    }
+  );
+  const poll = () => (trigger as unknown as { poll(): Promise<void> }).poll();
+  return { poll, triggered, trigger };
+}
+
+describe('SwapEventService', () => {
+  it('reads only the swaps of a pool after a cursor, oldest first', async () => {
+    const chain = new FakeChain();
+    const first = chain.swap(POOL, 0);
+    chain.swap(POOL, 5, [POOL, OTHER_POOL]);
+    const last = chain.swap(POOL, 7);
+    chain.swap(OTHER_POOL, 100);
+    const service = chain.createService();
+    
+    const { swaps, cursor } = await service.getSwapsAfter(POOL, first, 10);
+    assert.deepEqual(swaps.map((swap) => swap.afterSqrtPrice), [tickToSqrtPrice(5), tickToSqrtPrice(7)]);
+    assert.equal(cursor, last);
+    assert.ok(chain.queries.every((query) => (query.filter as { ChangedObject: string }).ChangedObject === POOL));
+    
+    // Nothing new leaves the cursor in place
+    assert.deepEqual(await service.getSwapsAfter(POOL, last, 10), { swaps: [], cursor: last });
+    assert.equal(await service.getLatestCursor(POOL), last);
+    assert.equal(await service.getLatestCursor(`0x${'0c'.repeat(32)}`), null);
+  });
+  
+  it('stops after the page limit and resumes from the cursor', async () => {
+    const chain = new FakeChain();
+    const start = chain.swap(POOL, 0);
+    for (let i = 1; i <= 120; i++) {
+      chain.swap(POOL, i);
+    }
+    const service = chain.createService();
+    
+    const first = await service.getSwapsAfter(POOL, start, 2);
+    assert.equal(first.swaps.length, 100);
+    const rest = await service.getSwapsAfter(POOL, first.cursor, 2);
+    assert.equal(rest.swaps.length, 20);
+    assert.equal(rest.swaps[19].afterSqrtPrice, tickToSqrtPrice(120));
+  });
+});
+
+describe('SwapEventService volume', () => {
+  const HOUR = 3_600_000;
+  
+  it('sums the swaps of a pool over the lookback window', async () => {
+    const chain = new FakeChain();
+    const now = Date.now();
+    chain.trade(POOL, true, 999, now - 2 * HOUR);
+    chain.trade(POOL, true, 100, now - HOUR / 2);
+    chain.trade(POOL, false, 250, now - HOUR / 4);
+    chain.trade(POOL, true, 50, now - 1000);
+    const volume = await chain.createService().getRecentSwapVolume(POOL, HOUR, 20);
+    
+    assert.deepEqual(volume, { volumeA: BigInt(150), volumeB: BigInt(250), swapCount: 3, spanMs: HOUR });
+    
+    // A quiet pool has no volume over the whole window rather than no window
+    const quiet = await chain.createService().getRecentSwapVolume(OTHER_POOL, HOUR, 20);
+    assert.deepEqual(quiet, { volumeA: BigInt(0), volumeB: BigInt(0), swapCount: 0, spanMs: HOUR });
+  });
+  
+  it('reports the shorter span covered when the page limit cuts the window', async () => {
+    const chain = new FakeChain();
+    const now = Date.now();
+    for (let i = 150; i >= 1; i--) {
+      chain.trade(POOL, false, 10, now - i * 1000);
+    }
+    const volume = await chain.createService().getRecentSwapVolume(POOL, HOUR, 2);
+    
+    assert.equal(volume.swapCount, 100);
+    assert.equal(volume.volumeB, BigInt(1000));
+    // The oldest swap read is 100s old
+    assert.ok(Math.abs(volume.spanMs - 100_000) < 1000, `span ${volume.spanMs}`);
+  });
+});
+
+describe('SwapEventTrigger', () => {
+  it('follows each pool from its newest transaction when started', async () => {
+    const chain = new FakeChain();
+    chain.swap(POOL, 0);
+    chain.swap(POOL, 500);
+    const { poll, triggered } = createTrigger(chain, [POOL]);
+    
+    // The first poll only sets the cursor: earlier swaps never trigger
+    await poll();
+    assert.deepEqual(triggered, []);
+    
+    // Without a check yet the first swap read is the reference
+    chain.swap(POOL, 505);
+    chain.swap(POOL, 512);
+    await poll();
+    assert.deepEqual(triggered, []);
+    
+    chain.swap(POOL, 515);
+    await poll();
+    assert.deepEqual(triggered, [[POOL]]);
+  });
+  
+  it('triggers a pool once its tick moves by the threshold from the last check', async () => {
+    const chain = new FakeChain();
+    chain.swap(POOL, 0);
+    chain.swap(OTHER_POOL, 0);
+    const { poll, triggered, trigger } = createTrigger(chain, [POOL, OTHER_POOL]);
+    await poll();
+    trigger.markChecked(POOL, 100);
+    trigger.markChecked(OTHER_POOL, 100);
+    
+    chain.swap(POOL, 109);
+    chain.swap(OTHER_POOL, 91);
+    await poll();
+    assert.deepEqual(triggered, []);
+    
+    chain.swap(POOL, 95);
+    chain.swap(POOL, 90);
+    chain.swap(OTHER_POOL, 110);
+    await poll();
+    assert.deepEqual(triggered, [[POOL, OTHER_POOL]]);
+    
+    // The triggered tick is the new reference
+    chain.swap(POOL, 85);
+    await poll();
+    assert.equal(triggered.length, 1);
+    
+    // A check at the new price resets it
+    trigger.markChecked(POOL, 80);
+    chain.swap(POOL, 70);
+    await poll();
+    assert.deepEqual(triggered[1], [POOL]);
+  });
+  
+  it('keeps polling the other pools when one fails', async () => {
+    const chain = new FakeChain();
+    chain.swap(POOL, 0);
+    chain.swap(OTHER_POOL, 0);
+    const { poll, triggered, trigger } = createTrigger(chain, [POOL, OTHER_POOL]);
+    await poll();
+    trigger.markChecked(OTHER_POOL, 0);
+    
+    chain.failing.add(POOL);
+    chain.swap(POOL, 50);
+    chain.swap(OTHER_POOL, 50);
+    await poll();
+    assert.deepEqual(triggered, [[OTHER_POOL]]);
+    
+    // The failed pool resumes from where it was
+    trigger.markChecked(POOL, 0);
+    chain.failing.delete(POOL);
+    await poll();
+    assert.deepEqual(triggered[1], [POOL]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestPool } from './helpers';
+import {
+  calculateAddLiquidityPlan,
+  calculateSwapLimits,
+  calculateSwapPlan,
+  requoteWithoutLiquidity,
+} from '../src/utils/swapMath';
+import {
+  MAX_SQRT_PRICE,
+  MIN_SQRT_PRICE,
+  getLiquidityFromAmountA,
+  getLiquidityFromAmountB,
+  tickToSqrtPrice,
+} from '../src/utils/tickMath';
+
+/**
+ * Plans the swap for a range around the pool price, executes it in the
+ * simulator and returns the liquidity each coin left after it can fund at
+ * the new price
+ */
+async function swapIntoRange(amountA: bigint, amountB: bigint, poolLiquidity: bigint) {
+  const range = { tickLower: -600, tickUpper: 600 };
+  const { sim, poolId } = createTestPool({ tick: 0, poolLiquidity, tickLower: -60, tickUpper: 60, liquidity: BigInt(1) });
+  const pool = await sim.getPool(poolId);
+  const plan = calculateSwapPlan({
+    amountA,
+    amountB,
+    sqrtPriceCurrent: BigInt(pool.currentSqrtPrice),
+    newRange: range,
+    feeRate: pool.feeRate,
+    poolLiquidity: BigInt(pool.liquidity),
+  });
+  assert.ok(plan.swap && !plan.swap.swapAll);
+  
+  const quote = sim.swap(poolId, plan.swap.a2b, plan.swap.amountIn);
+  const afterA = plan.swap.a2b ? amountA - quote.amountIn : amountA + quote.amountOut;
+  const afterB = plan.swap.a2b ? amountB + quote.amountOut : amountB - quote.amountIn;
+  return {
+    plan,
+    liquidityA: Number(getLiquidityFromAmountA(quote.endSqrtPrice, tickToSqrtPrice(range.tickUpper), afterA)),
+    liquidityB: Number(getLiquidityFromAmountB(tickToSqrtPrice(range.tickLower), quote.endSqrtPrice, afterB)),
+  };
+}
+
+describe('calculateSwapPlan', () => {
+  it('leaves both coins in the ratio of the range at the price after the swap', async () => {
+    for (const a2b of [true, false]) {
+      const [amountA, amountB] = a2b
+        ? [BigInt(40_000_000_000), BigInt(0)]
+        : [BigInt(0), BigInt(40_000_000_000)];
+      // A pool thin enough for the swap to move the price by about 1%
+      const { plan, liquidityA, liquidityB } = await swapIntoRange(amountA, amountB, BigInt(4_000_000_000_000));
+      assert.equal(plan.swap?.a2b, a2b);
+      assert.ok(Math.abs(liquidityA / liquidityB - 1) < 0.002, `liquidity A ${liquidityA}, B ${liquidityB}`);
+    }
+  });
+  
+  it('skips swaps too small to be worth the fee', () => {
+    const plan = calculateSwapPlan({
+      amountA: BigInt(1_000_000_000),
+      amountB: BigInt(1_000_000_000),
+      sqrtPriceCurrent: tickToSqrtPrice(0),
+      newRange: { tickLower: -600, tickUpper: 600 },
+      feeRate: 2500,
+      poolLiquidity: BigInt(4_000_000_000_000),
+    });
+    assert.equal(plan.swap, null);
+  });
+  
+  it('swaps all of the coin the new range does not hold', () => {
+    const plan = calculateSwapPlan({
+      amountA: BigInt(1_000_000_000),
+      amountB: BigInt(2_000_000_000),
+      sqrtPriceCurrent: tickToSqrtPrice(0),
+      newRange: { tickLower: 60, tickUpper: 600 },
+      feeRate: 2500,
+      poolLiquidity: BigInt(4_000_000_000_000),
+    });
+    assert.deepEqual(plan.swap && { a2b: plan.swap.a2b, swapAll: plan.swap.swapAll, amountIn: plan.swap.amountIn }, {
+      a2b: false,
+      swapAll: true,
+      amountIn: BigInt(2_000_000_000),
+    });
+    assert.equal(plan.amountBAfter, BigInt(0));
+  });
+});
+
+describe('calculateAddLiquidityPlan', () => {
+  it('deposits all of the fixed coin and lets only the other absorb price moves', () => {
+    const balanceA = BigInt(10_000_000_000);
+    const balanceB = BigInt(20_000_000_000);
+    const plan = calculateAddLiquidityPlan(
+      tickToSqrtPrice(0),
+      { tickLower: -600, tickUpper: 600 },
+      { swap: null, amountAAfter: balanceA, amountBAfter: balanceB },
+      1
+    );
+    
+    // Coin A is the scarcer one here
+    assert.equal(plan.fixAmountA, true);
+    assert.ok(plan.amountA <= balanceA && balanceA - plan.amountA <= BigInt(1), `fixed ${plan.amountA} of ${balanceA}`);
+    assert.ok(plan.amountB <= balanceB);
+    
+    const neededB = Number(plan.amountB) / 1.01;
+    const liquidityB = getLiquidityFromAmountB(tickToSqrtPrice(-600), tickToSqrtPrice(0), BigInt(Math.ceil(neededB)));
+    assert.ok(Number(liquidityB) >= Number(plan.expectedLiquidity) * 0.9999);
+    assert.ok(plan.minLiquidity < plan.expectedLiquidity);
+    assert.ok(Number(plan.minLiquidity) >= Number(plan.expectedLiquidity) * 0.9899);
+  });
+});
+
+describe('requoteWithoutLiquidity', () => {
+  it('quotes as if an in-range position had already been removed', async () => {
+    const positionLiquidity = BigInt(5_000_000_000_000);
+    const withPosition = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(10_000_000_000_000),
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: positionLiquidity,
+    });
+    const withoutPosition = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(10_000_000_000_000),
+      tickLower: 600,
+      tickUpper: 1200,
+      liquidity: BigInt(1),
+    });
+    const pool = await withPosition.sim.getPool(withPosition.poolId);
+    
+    for (const a2b of [true, false]) {
+      const amountIn = BigInt(50_000_000_000);
+      const requoted = requoteWithoutLiquidity(
+        await withPosition.sim.quoteSwap(withPosition.poolId, a2b, amountIn),
+        BigInt(pool.currentSqrtPrice),
+        BigInt(pool.liquidity),
+        positionLiquidity
+      );
+      const expected = await withoutPosition.sim.quoteSwap(withoutPosition.poolId, a2b, amountIn);
+      
+      const priceError = Number(requoted.endSqrtPrice - expected.endSqrtPrice) / Number(expected.endSqrtPrice);
+      assert.ok(Math.abs(priceError) < 1e-9, `a2b=${a2b}: end ${requoted.endSqrtPrice} != ${expected.endSqrtPrice}`);
+      assert.ok(
+        requoted.amountOut <= expected.amountOut && expected.amountOut - requoted.amountOut <= BigInt(2),
+        `a2b=${a2b}: out ${requoted.amountOut} != ${expected.amountOut}`
+      );
+    }
+  });
+  
+  it('keeps the quote when the position is not in range', async () => {
+    const { sim, poolId } = createTestPool({
+      tick: 0,
+      poolLiquidity: BigInt(10_000_000_000_000),
+      tickLower: 600,
+      tickUpper: 1200,
+      liquidity: BigInt(1),
+    });
+    const pool = await sim.getPool(poolId);
+    const quote = await sim.quoteSwap(poolId, true, BigInt(1_000_000_000));
+    
+    assert.equal(requoteWithoutLiquidity(quote, BigInt(pool.currentSqrtPrice), BigInt(pool.liquidity), BigInt(0)), quote);
+  });
+});
+
+describe('calculateSwapLimits', () => {
+  const quote = {
+    amountIn: BigInt(1_000_000_000),
+    amountOut: BigInt(990_000_000),
+    feeAmount: BigInt(2_500_000),
+    endSqrtPrice: tickToSqrtPrice(-20),
+    isExceed: false,
+  };
+  
+  it('lets the price move maxSlippagePercent past the quoted end price', () => {
+    for (const a2b of [true, false]) {
+      const limits = calculateSwapLimits({ ...quote, a2b }, 2);
+      const move = (Number(limits.sqrtPriceLimit) / Number(quote.endSqrtPrice)) ** 2;
+      assert.ok(Math.abs(move - (a2b ? 0.98 : 1.02)) < 1e-8, `a2b=${a2b}: price limit ${move} of the end price`);
+      assert.equal(limits.minAmountOut, BigInt(970_200_000));
+      assert.equal(limits.endSqrtPrice, quote.endSqrtPrice);
+    }
+  });
+  
+  it('keeps the price limit inside the pool range', () => {
+    assert.equal(calculateSwapLimits({ ...quote, a2b: true, endSqrtPrice: MIN_SQRT_PRICE }, 1).sqrtPriceLimit, MIN_SQRT_PRICE);
+    assert.equal(calculateSwapLimits({ ...quote, a2b: false, endSqrtPrice: MAX_SQRT_PRICE }, 1).sqrtPriceLimit, MAX_SQRT_PRICE);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import vectors from './fixtures/tickMathVectors.json';
+import {
+  MAX_SQRT_PRICE,
+  MAX_TICK,
+  MIN_SQRT_PRICE,
+  MIN_TICK,
+  getAmountAFromLiquidity,
+  getAmountBFromLiquidity,
+  getAmountsForLiquidity,
+  getFeeGrowthInside,
+  getFeesFromGrowth,
+  getLiquidityForAmounts,
+  priceToTick,
+  sqrtPriceToTick,
+  tickToPrice,
+  tickToSqrtPrice,
+} from '../src/utils/tickMath';
+
+/*
+ * fixtures/tickMathVectors.json holds reference values for Cetus pools:
+ * - ticks, sqrt prices, coin amounts and prices from the Cetus SDK 5.4
+ *   TickMath, getDeltaA and getDeltaB, ports of the on-chain tick_math and
+ *   clmm_math
+ * - liquidity from amounts and fee growth from the on-chain clmm_math and
+ *   pool formulas. The SDK floors liquidity from coin A twice and wraps
+ *   fee growth at 2^128 - 1, so it is not the reference for these.
+ */
+
+describe('tickMath reference vectors', () => {
+  it('converts ticks to sqrt prices', () => {
+    assert.equal(tickToSqrtPrice(MIN_TICK), MIN_SQRT_PRICE);
+    assert.equal(tickToSqrtPrice(MAX_TICK), MAX_SQRT_PRICE);
+    for (const [tick, sqrtPrice] of vectors.tickToSqrtPrice) {
+      assert.equal(tickToSqrtPrice(tick as number), BigInt(sqrtPrice), `tick ${tick}`);
+    }
+  });
+  
+  it('converts sqrt prices to the tick at or below them', () => {
+    for (const [sqrtPrice, tick] of vectors.sqrtPriceToTick) {
+      assert.equal(sqrtPriceToTick(BigInt(sqrtPrice)), tick, `sqrt price ${sqrtPrice}`);
+    }
+  });
+  
+  it('rejects sqrt prices outside the pool range', () => {
+    assert.throws(() => sqrtPriceToTick(MIN_SQRT_PRICE - BigInt(1)));
+    assert.throws(() => sqrtPriceToTick(MAX_SQRT_PRICE + BigInt(1)));
+  });
+  
+  it('computes the coins held by liquidity over a range, rounded either way', () => {
+    for (const vector of vectors.amountsFromLiquidity) {
+      const lower = tickToSqrtPrice(vector.tickLower);
+      const upper = tickToSqrtPrice(vector.tickUpper);
+      const liquidity = BigInt(vector.liquidity);
+      const label = JSON.stringify(vector);
+      assert.equal(getAmountAFromLiquidity(lower, upper, liquidity, vector.roundUp), BigInt(vector.amountA), label);
+      assert.equal(getAmountBFromLiquidity(lower, upper, liquidity, vector.roundUp), BigInt(vector.amountB), label);
+    }
+  });
+  
+  it('computes the coins of a position below, at the edges of and above its range', () => {
+    for (const vector of vectors.amountsForLiquidity) {
+      const amounts = getAmountsForLiquidity(
+        BigInt(vector.sqrtPrice),
+        tickToSqrtPrice(vector.tickLower),
+        tickToSqrtPrice(vector.tickUpper),
+        BigInt(vector.liquidity),
+        vector.roundUp
+      );
+      assert.deepEqual(amounts, { amountA: BigInt(vector.amountA), amountB: BigInt(vector.amountB) }, JSON.stringify(vector));
+    }
+  });
+  
+  it('computes the liquidity both amounts can fund', () => {
+    for (const vector of vectors.liquidityForAmounts) {
+      const liquidity = getLiquidityForAmounts(
+        BigInt(vector.sqrtPrice),
+        tickToSqrtPrice(vector.tickLower),
+        tickToSqrtPrice(vector.tickUpper),
+        BigInt(vector.amountA),
+        BigInt(vector.amountB)
+      );
+      assert.equal(liquidity, BigInt(vector.liquidity), JSON.stringify(vector));
+    }
+  });
+  
+  it('computes fee growth inside a range across u128 wrap-around', () => {
+    for (const vector of vectors.feeGrowthInside) {
+      const inside = getFeeGrowthInside(
+        vector.currentTick,
+        vector.tickLower,
+        vector.tickUpper,
+        BigInt(vector.feeGrowthGlobal),
+        BigInt(vector.feeGrowthOutsideLower),
+        BigInt(vector.feeGrowthOutsideUpper)
+      );
+      assert.equal(inside, BigInt(vector.feeGrowthInside), JSON.stringify(vector));
+    }
+  });
+  
+  it('computes fees earned since a fee growth checkpoint across u128 wrap-around', () => {
+    for (const vector of vectors.feesFromGrowth) {
+      const fees = getFeesFromGrowth(
+        BigInt(vector.liquidity),
+        BigInt(vector.feeGrowthInside),
+        BigInt(vector.feeGrowthInsideLast)
+      );
+      assert.equal(fees, BigInt(vector.fees), JSON.stringify(vector));
+    }
+  });
+  
+  it('converts between ticks and human prices with coin decimals', () => {
+    for (const vector of vectors.tickToPrice) {
+      const price = tickToPrice(vector.tick, vector.decimalsA, vector.decimalsB);
+      const expected = Number(vector.price);
+      assert.ok(Math.abs(price - expected) <= expected * 1e-12, `tick ${vector.tick}: ${price} != ${expected}`);
+    }
+    for (const vector of vectors.priceToTick) {
+      const tick = priceToTick(Number(vector.price), vector.decimalsA, vector.decimalsB);
+      assert.equal(tick, vector.tick, `price ${vector.price}`);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { COIN_A, COIN_B, createConfig } from './helpers';
+import { TickHistory, TickSample } from '../src/services/tickHistory';
+import { VolatilityRangeStrategy } from '../src/strategies/volatilityStrategy';
+import { RangeContext } from '../src/strategies';
+import { StrategyConfig } from '../src/types';
+import { calculateExpectedMovePercent, calculateVarianceRate } from '../src/utils/volatility';
+import { tickToSqrtPrice } from '../src/utils/tickMath';
+
+const MINUTE = 60_000;
+const LN_TICK = Math.log(1.0001);
+
+/** Samples a minute apart, alternating `step` ticks up and down */
+function oscillating(count: number, step: number): TickSample[] {
+  return Array.from({ length: count }, (_, i) => ({ timestamp: i * MINUTE, tick: i % 2 === 0 ? 0 : step }));
+}
+
+function context(samples: TickSample[], overrides: Partial<StrategyConfig> = {}): RangeContext {
+  return {
+    pool: {
+      id: 'pool',
+      coinTypeA: COIN_A,
+      coinTypeB: COIN_B,
+      currentSqrtPrice: tickToSqrtPrice(0).toString(),
+      currentTick: 0,
+      tickSpacing: 10,
+      feeRate: 2500,
+      liquidity: '1000000000',
+      rewarderCoinTypes: [],
+    },
+    position: { id: 'position', poolId: 'pool', tickLower: -100, tickUpper: 100, liquidity: '1', coinA: COIN_A, coinB: COIN_B },
+    config: {
+      ...createConfig(),
+      rangeWidthPercent: 5,
+      volatilityMinSamples: 5,
+      volatilityHorizonMs: 60 * MINUTE,
+      volatilityMultiplier: 2,
+      minRangeWidthPercent: 1,
+      maxRangeWidthPercent: 20,
+      ...overrides,
+    },
+    tickHistory: samples,
+  };
+}
+
+describe('realized volatility', () => {
+  it('measures the variance of log returns per millisecond', () => {
+    const rate = calculateVarianceRate(oscillating(5, 10));
+    assert.ok(rate !== null);
+    // Four returns of 10 ticks over four minutes
+    const expected = (4 * (10 * LN_TICK) ** 2) / (4 * MINUTE);
+    assert.ok(Math.abs(rate - expected) < expected * 1e-12);
+    
+    // Samples at the same time add nothing
+    const repeated = [...oscillating(5, 10), { timestamp: 4 * MINUTE, tick: 500 }];
+    assert.equal(calculateVarianceRate(repeated), rate);
+    assert.equal(calculateVarianceRate([{ timestamp: 0, tick: 0 }]), null);
+  });
+  
+  it('projects a one-sigma move over the horizon', () => {
+    const samples = oscillating(5, 10);
+    const sigma = Math.sqrt(calculateVarianceRate(samples)! * 60 * MINUTE);
+    assert.equal(calculateExpectedMovePercent(samples, 60 * MINUTE), (Math.exp(sigma) - 1) * 100);
+    assert.equal(calculateExpectedMovePercent([], MINUTE), null);
+  });
+});
+
+describe('TickHistory', () => {
+  it('keeps the newest samples of each pool', () => {
+    const history = new TickHistory(3);
+    for (let i = 0; i < 5; i++) {
+      history.record('a', i, i);
+    }
+    history.record('b', 100, 0);
+    
+    assert.deepEqual(history.getSamples('a').map((sample) => sample.tick), [2, 3, 4]);
+    assert.deepEqual(history.getSamples('b'), [{ timestamp: 0, tick: 100 }]);
+    assert.deepEqual(history.getSamples('c'), []);
+    assert.throws(() => new TickHistory(1), /at least 2 samples/);
+  });
+});
+
+describe('VolatilityRangeStrategy', () => {
+  const strategy = new VolatilityRangeStrategy();
+  
+  it('uses RANGE_WIDTH_PERCENT until enough samples are collected', () => {
+    assert.equal(strategy.calculateWidthPercent(context(oscillating(4, 10))), 5);
+    assert.equal(strategy.calculateWidthPercent(context([])), 5);
+  });
+  
+  it('sizes the range as a multiple of the expected move', () => {
+    const samples = oscillating(10, 10);
+    const expectedMove = calculateExpectedMovePercent(samples, 60 * MINUTE)!;
+    assert.ok(expectedMove * 2 > 1 && expectedMove * 2 < 20);
+    assert.equal(strategy.calculateWidthPercent(context(samples)), expectedMove * 2);
+    
+    // Calmer markets get narrower ranges
+    const calm = strategy.computeRange(context(oscillating(10, 5)));
+    const range = strategy.computeRange(context(samples));
+    assert.ok(calm.tickUpper - calm.tickLower < range.tickUpper - range.tickLower);
+  });
+  
+  it('clamps the width to the configured bounds', () => {
+    assert.equal(strategy.calculateWidthPercent(context(oscillating(10, 0))), 1);
+    assert.equal(strategy.calculateWidthPercent(context(oscillating(10, 2000))), 20);
+  });
+});